@@ -14,7 +14,8 @@ export default defineConfig({
   vite: {
     plugins: [tailwindcss()],
   },
+  // Middleware mode: server.mjs serves the build so it can pass the connection's peer address to the app
   adapter: node({
-    mode: "standalone",
+    mode: "middleware",
   }),
 });
@@ -56,11 +56,23 @@ const reactConfig = tseslint.config({
   },
 });
 
+const serverConfig = tseslint.config({
+  files: ["server.mjs"],
+  languageOptions: {
+    globals: {
+      console: true,
+      process: true,
+      URL: true,
+    },
+  },
+});
+
 export default tseslint.config(
   includeIgnoreFile(gitignorePath),
   baseConfig,
   jsxA11yConfig,
   reactConfig,
+  serverConfig,
   eslintPluginAstro.configs["flat/recommended"],
   eslintPluginPrettier
 );
@@ -0,0 +1,89 @@
+/**
+ * Production server
+ *
+ * Serves the Astro build (Node adapter in middleware mode) and passes the
+ * connection's peer address to the app as `locals.peerAddress`. Astro's own
+ * clientAddress is the first X-Forwarded-For entry when that header is present,
+ * so it cannot tell a proxied request from a spoofed one; the peer address is
+ * what getClientIp trusts. Static files from dist/client are served first,
+ * every other request is rendered by Astro.
+ *
+ * Run `npm run build`, then `npm start` (HOST and PORT default to localhost:3000).
+ */
+
+import fs from "node:fs";
+import http from "node:http";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+import { handler } from "./dist/server/entry.mjs";
+
+const host = process.env.HOST ?? "localhost";
+const port = Number(process.env.PORT) || 3000;
+const clientDir = fileURLToPath(new URL("./dist/client/", import.meta.url));
+
+const CONTENT_TYPES = {
+  ".css": "text/css; charset=utf-8",
+  ".html": "text/html; charset=utf-8",
+  ".ico": "image/x-icon",
+  ".js": "text/javascript; charset=utf-8",
+  ".json": "application/json",
+  ".png": "image/png",
+  ".svg": "image/svg+xml",
+  ".txt": "text/plain; charset=utf-8",
+  ".webp": "image/webp",
+  ".woff2": "font/woff2",
+  ".xml": "application/xml",
+};
+
+/**
+ * Resolve a request to a file in dist/client
+ * Returns null for non-GET/HEAD requests, paths outside the directory, dotfiles and missing files
+ */
+function resolveStaticFile(req) {
+  if (req.method !== "GET" && req.method !== "HEAD") {
+    return null;
+  }
+
+  let pathname;
+  try {
+    pathname = decodeURIComponent(new URL(req.url ?? "/", "http://localhost").pathname);
+  } catch {
+    return null;
+  }
+
+  const filePath = path.join(clientDir, pathname);
+  if (!filePath.startsWith(clientDir) || path.basename(filePath).startsWith(".")) {
+    return null;
+  }
+
+  try {
+    return fs.statSync(filePath).isFile() ? filePath : null;
+  } catch {
+    return null;
+  }
+}
+
+const server = http.createServer((req, res) => {
+  const filePath = resolveStaticFile(req);
+  if (filePath) {
+    res.setHeader("Content-Type", CONTENT_TYPES[path.extname(filePath)] ?? "application/octet-stream");
+    if (filePath.startsWith(path.join(clientDir, "_astro"))) {
+      // Hashed build assets never change
+      res.setHeader("Cache-Control", "public, max-age=31536000, immutable");
+    }
+    if (req.method === "HEAD") {
+      res.end();
+      return;
+    }
+    fs.createReadStream(filePath).pipe(res);
+    return;
+  }
+
+  handler(req, res, undefined, { peerAddress: req.socket.remoteAddress });
+});
+
+server.listen(port, host, () => {
+  // eslint-disable-next-line no-console
+  console.log(`Server listening on http://${host}:${port}`);
+});
@@ -122,6 +122,59 @@ export type Database = {
           },
         ]
       }
+      login_attempts: {
+        Row: {
+          expires_at: string
+          failures: number
+          key: string
+          last_failure_at: string
+        }
+        Insert: {
+          expires_at: string
+          failures: number
+          key: string
+          last_failure_at: string
+        }
+        Update: {
+          expires_at?: string
+          failures?: number
+          key?: string
+          last_failure_at?: string
+        }
+        Relationships: []
+      }
+      mfa_recovery_codes: {
+        Row: {
+          code_hash: string
+          created_at: string
+          id: string
+          used_at: string | null
+          user_id: string
+        }
+        Insert: {
+          code_hash: string
+          created_at?: string
+          id?: string
+          used_at?: string | null
+          user_id: string
+        }
+        Update: {
+          code_hash?: string
+          created_at?: string
+          id?: string
+          used_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "mfa_recovery_codes_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           created_at: string
@@ -152,6 +205,27 @@ export type Database = {
         }
         Relationships: []
       }
+      rate_limit_buckets: {
+        Row: {
+          expires_at: string
+          key: string
+          last_refill: string
+          tokens: number
+        }
+        Insert: {
+          expires_at: string
+          key: string
+          last_refill?: string
+          tokens: number
+        }
+        Update: {
+          expires_at?: string
+          key?: string
+          last_refill?: string
+          tokens?: number
+        }
+        Relationships: []
+      }
       sets: {
         Row: {
           created_at: string
@@ -159,6 +233,7 @@ export type Database = {
           last_synced_at: string
           logo_url: string | null
           name: string
+          ptcgo_code: string | null
           release_date: string | null
           series: string | null
           symbol_url: string | null
@@ -172,6 +247,7 @@ export type Database = {
           last_synced_at?: string
           logo_url?: string | null
           name: string
+          ptcgo_code?: string | null
           release_date?: string | null
           series?: string | null
           symbol_url?: string | null
@@ -185,6 +261,7 @@ export type Database = {
           last_synced_at?: string
           logo_url?: string | null
           name?: string
+          ptcgo_code?: string | null
           release_date?: string | null
           series?: string | null
           symbol_url?: string | null
@@ -197,33 +274,45 @@ export type Database = {
       user_cards: {
         Row: {
           card_id: string
+          cert_number: string | null
+          condition: string | null
           created_at: string
+          grade: number | null
+          grading_company: string | null
           id: string
+          language: string
           quantity: number
           updated_at: string
           user_id: string
           variant: string
-          wishlisted: boolean
         }
         Insert: {
           card_id: string
+          cert_number?: string | null
+          condition?: string | null
           created_at?: string
+          grade?: number | null
+          grading_company?: string | null
           id?: string
+          language?: string
           quantity?: number
           updated_at?: string
           user_id: string
           variant: string
-          wishlisted?: boolean
         }
         Update: {
           card_id?: string
+          cert_number?: string | null
+          condition?: string | null
           created_at?: string
+          grade?: number | null
+          grading_company?: string | null
           id?: string
+          language?: string
           quantity?: number
           updated_at?: string
           user_id?: string
           variant?: string
-          wishlisted?: boolean
         }
         Relationships: [
           {
@@ -242,16 +331,198 @@ export type Database = {
           },
         ]
       }
+      user_sessions: {
+        Row: {
+          created_at: string
+          id: string
+          ip_hash: string | null
+          last_seen_at: string
+          user_agent: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id: string
+          ip_hash?: string | null
+          last_seen_at?: string
+          user_agent?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          ip_hash?: string | null
+          last_seen_at?: string
+          user_agent?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_sessions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      wishlist_items: {
+        Row: {
+          card_id: string
+          created_at: string
+          desired_quantity: number
+          desired_variant: string | null
+          fulfilled_at: string | null
+          id: string
+          max_price: number | null
+          priority: Database["public"]["Enums"]["wishlist_priority"]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          card_id: string
+          created_at?: string
+          desired_quantity?: number
+          desired_variant?: string | null
+          fulfilled_at?: string | null
+          id?: string
+          max_price?: number | null
+          priority?: Database["public"]["Enums"]["wishlist_priority"]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          card_id?: string
+          created_at?: string
+          desired_quantity?: number
+          desired_variant?: string | null
+          fulfilled_at?: string | null
+          id?: string
+          max_price?: number | null
+          priority?: Database["public"]["Enums"]["wishlist_priority"]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "wishlist_items_card_id_fkey"
+            columns: ["card_id"]
+            isOneToOne: false
+            referencedRelation: "cards"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "wishlist_items_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      apply_collection_import: {
+        Args: { p_entries: Json; p_user_id: string }
+        Returns: undefined
+      }
+      consume_rate_limit: {
+        Args: { p_key: string; p_limit: number; p_window_ms: number }
+        Returns: {
+          allowed: boolean
+          tokens: number
+        }[]
+      }
+      get_collection_stats: {
+        Args: { p_user_id: string }
+        Returns: {
+          most_collected_set_id: string
+          most_collected_set_name: string
+          most_collected_set_owned: number
+          most_collected_set_total: number
+          sets_with_cards: number
+          total_cards: number
+          unique_cards: number
+          wishlisted_count: number
+        }[]
+      }
+      get_owned_card_quantity: {
+        Args: { p_card_id: string; p_user_id: string; p_variant: string }
+        Returns: number
+      }
+      get_set_completion: {
+        Args: { p_set_id: string; p_user_id: string }
+        Returns: {
+          completion_percentage: number
+          owned_cards: number
+          set_id: string
+          set_name: string
+          total_cards: number
+        }[]
+      }
+      get_set_completion_stats: {
+        Args: { p_include_empty?: boolean; p_user_id: string }
+        Returns: {
+          completion_percentage: number
+          owned_cards: number
+          series: string
+          set_id: string
+          set_name: string
+          total_cards: number
+        }[]
+      }
+      record_login_failure: {
+        Args: { p_key: string; p_window_ms: number }
+        Returns: {
+          failures: number
+          last_failure_at: string
+        }[]
+      }
+      record_user_session: {
+        Args: { p_ip_hash?: string; p_user_agent?: string }
+        Returns: undefined
+      }
+      replace_mfa_recovery_codes: {
+        Args: { p_code_hashes: string[] }
+        Returns: undefined
+      }
+      reset_rate_limit: { Args: { p_key: string }; Returns: undefined }
+      revoke_user_session: { Args: { p_session_id: string }; Returns: boolean }
+      search_cards: {
+        Args: {
+          p_limit?: number
+          p_offset?: number
+          p_order?: string
+          p_rarity?: string
+          p_search?: string
+          p_set_id?: string
+          p_sort?: string
+          p_types?: string[]
+        }
+        Returns: {
+          card_number: string
+          hp: number
+          id: string
+          image_url_large: string
+          image_url_small: string
+          name: string
+          rarity: string
+          set_id: string
+          similarity: number
+          total_count: number
+          types: string[]
+        }[]
+      }
+      session_meets_mfa_requirement: { Args: never; Returns: boolean }
       show_limit: { Args: never; Returns: number }
       show_trgm: { Args: { "": string }; Returns: string[] }
+      use_mfa_recovery_code: { Args: { p_code_hash: string }; Returns: boolean }
     }
     Enums: {
-      [_ in never]: never
+      wishlist_priority: "low" | "medium" | "high"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -381,7 +652,9 @@ export const Constants = {
     Enums: {},
   },
   public: {
-    Enums: {},
+    Enums: {
+      wishlist_priority: ["low", "medium", "high"],
+    },
   },
 } as const
 
@@ -1,11 +1,135 @@
 import { createClient } from "@supabase/supabase-js";
-import type { SupabaseClient as SupabaseClientType } from "@supabase/supabase-js";
+import type { SupabaseClient as SupabaseClientType, SupportedStorage, User } from "@supabase/supabase-js";
 
 import type { Database } from "../db/database.types.ts";
 
 const supabaseUrl = import.meta.env.SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.SUPABASE_KEY;
 
-export const supabaseClient = createClient<Database>(supabaseUrl, supabaseAnonKey);
-
 export type SupabaseClient = SupabaseClientType<Database>;
+
+/**
+ * Auth options for server-side clients
+ * Each client serves a single request, so sessions are never persisted or refreshed in the background
+ */
+const SERVER_AUTH_OPTIONS = {
+  persistSession: false,
+  autoRefreshToken: false,
+  detectSessionInUrl: false,
+};
+
+/**
+ * Create auth storage that lives only as long as one request's client
+ *
+ * @param items - Initial storage entries
+ * @returns Storage backed by the given map
+ */
+function createRequestStorage(items: Map<string, string>): SupportedStorage {
+  return {
+    getItem: async (key) => items.get(key) ?? null,
+    setItem: async (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: async (key) => {
+      items.delete(key);
+    },
+  };
+}
+
+/**
+ * Create a Supabase client for a single request
+ *
+ * With an access token, every query and rpc call carries the caller's JWT, so
+ * RLS policies evaluate auth.uid() as that user. Without one, queries run as anon.
+ * Clients must not be shared between requests: auth calls such as
+ * signInWithPassword store a session on the client.
+ *
+ * @param accessToken - Verified access token of the caller, if any
+ * @returns Request-scoped Supabase client
+ */
+export function createSupabaseServerClient(accessToken?: string | null): SupabaseClient {
+  return createClient<Database>(supabaseUrl, supabaseAnonKey, {
+    auth: SERVER_AUTH_OPTIONS,
+    ...(accessToken && { global: { headers: { Authorization: `Bearer ${accessToken}` } } }),
+  });
+}
+
+/**
+ * Storage key of clients acting on a verified user session
+ */
+const SESSION_STORAGE_KEY = "sb-session";
+
+/**
+ * Create a Supabase client for a single request of an authenticated user
+ *
+ * Queries and rpc calls carry the caller's JWT like createSupabaseServerClient.
+ * Auth calls acting on the current user (updateUser, mfa.enroll/challenge/verify)
+ * use a session seeded from the verified access token. The seeded session has
+ * no refresh token and no client-side expiry, so the client never tries to
+ * refresh it; Supabase Auth rejects the access token once it expires.
+ *
+ * @param accessToken - Access token verified by the auth middleware
+ * @param user - User the access token belongs to
+ * @returns Request-scoped Supabase client bound to the user's session
+ */
+export function createSupabaseSessionClient(accessToken: string, user: User): SupabaseClient {
+  const session = { access_token: accessToken, refresh_token: "", token_type: "bearer", expires_at: null, user };
+  const storage = createRequestStorage(new Map([[SESSION_STORAGE_KEY, JSON.stringify(session)]]));
+
+  return createClient<Database>(supabaseUrl, supabaseAnonKey, {
+    auth: { ...SERVER_AUTH_OPTIONS, persistSession: true, storage, storageKey: SESSION_STORAGE_KEY },
+    global: { headers: { Authorization: `Bearer ${accessToken}` } },
+  });
+}
+
+/**
+ * Storage key of OAuth PKCE clients; the code verifier is kept under `<key>-code-verifier`
+ */
+const PKCE_STORAGE_KEY = "sb-pkce";
+
+/**
+ * Supabase client for one step of the OAuth PKCE flow
+ */
+export interface SupabasePkceClient {
+  supabase: SupabaseClient;
+  /** Code verifier stored by signInWithOAuth, or null if none is stored */
+  getCodeVerifier(): string | null;
+}
+
+/**
+ * Create a Supabase client for one step of the OAuth PKCE flow
+ *
+ * The client keeps its auth state in request-local storage. The route starting
+ * the flow reads the code verifier from it after signInWithOAuth, and the
+ * callback route passes the verifier back in before exchangeCodeForSession,
+ * so the verifier can travel between the two requests (e.g. in a cookie).
+ *
+ * @param codeVerifier - Code verifier from the start of the flow, if any
+ * @returns PKCE client and an accessor for its code verifier
+ */
+export function createSupabasePkceClient(codeVerifier?: string | null): SupabasePkceClient {
+  const verifierKey = `${PKCE_STORAGE_KEY}-code-verifier`;
+  const items = new Map<string, string>(codeVerifier ? [[verifierKey, codeVerifier]] : []);
+  const storage = createRequestStorage(items);
+
+  const supabase = createClient<Database>(supabaseUrl, supabaseAnonKey, {
+    auth: { ...SERVER_AUTH_OPTIONS, persistSession: true, flowType: "pkce", storage, storageKey: PKCE_STORAGE_KEY },
+  });
+
+  return { supabase, getCodeVerifier: () => items.get(verifierKey) ?? null };
+}
+
+/**
+ * Create a Supabase client with the service role key, which bypasses RLS
+ * Only for trusted server-side jobs such as the catalog sync
+ *
+ * @returns Service role client, or null if SUPABASE_SERVICE_ROLE_KEY is not configured
+ */
+export function createSupabaseAdminClient(): SupabaseClient | null {
+  const serviceRoleKey = import.meta.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!serviceRoleKey) {
+    return null;
+  }
+
+  return createClient<Database>(supabaseUrl, serviceRoleKey, { auth: SERVER_AUTH_OPTIONS });
+}
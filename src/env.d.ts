@@ -1,12 +1,19 @@
 /// <reference types="astro/client" />
 
-import type { SupabaseClient } from "@supabase/supabase-js";
+import type { SupabaseClient, User } from "@supabase/supabase-js";
 import type { Database } from "./db/database.types.ts";
+import type { RequestSession } from "./types.ts";
 
 declare global {
   namespace App {
     interface Locals {
       supabase: SupabaseClient<Database>;
+      /** User verified from the bearer token by the auth middleware, null when unauthenticated */
+      user: User | null;
+      /** Session of the bearer token, null when unauthenticated */
+      session: RequestSession | null;
+      /** Address of the connection's peer, set by server.mjs (absent under astro dev and preview) */
+      peerAddress?: string;
     }
   }
 }
@@ -14,6 +21,13 @@ declare global {
 interface ImportMetaEnv {
   readonly SUPABASE_URL: string;
   readonly SUPABASE_KEY: string;
+  readonly SUPABASE_SERVICE_ROLE_KEY?: string;
+  readonly CATALOG_SYNC_SECRET?: string;
+  readonly CATALOG_SYNC_SOURCE?: string;
+  readonly RATE_LIMIT_STORE?: "memory" | "postgres" | "redis";
+  readonly RATE_LIMIT_REDIS_URL?: string;
+  readonly TRUSTED_PROXIES?: string;
+  readonly BREACHED_PASSWORDS_PATH?: string;
   // more env variables...
 }
 
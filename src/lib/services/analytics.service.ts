@@ -0,0 +1,128 @@
+/**
+ * Analytics service for recording user actions
+ *
+ * This module is the single writer of analytics_events. Every event is
+ * validated against its event-type schema, enriched with an anonymized IP
+ * hash, the user agent and a timestamp, and inserted with the acting user
+ * (or null for anonymous events).
+ */
+
+import type { AnalyticsEventResponseDTO, ErrorResponseDTO } from "../../types";
+import type { SupabaseClient } from "../../db/supabase.client";
+import { analyticsEventSchema, type AnalyticsEventInput } from "../validation/analytics.schema";
+import { formatValidationErrors, hashString } from "../utils/api-helpers";
+
+/**
+ * Error codes for analytics operations
+ */
+export const AnalyticsErrorCodes = {
+  VALIDATION_ERROR: "VALIDATION_ERROR",
+  INTERNAL_ERROR: "INTERNAL_ERROR",
+} as const;
+
+/**
+ * Custom error class for analytics operations
+ */
+export class AnalyticsServiceError extends Error {
+  constructor(
+    public code: string,
+    public message: string,
+    public statusCode: number,
+    public details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = "AnalyticsServiceError";
+  }
+
+  toErrorResponse(): ErrorResponseDTO {
+    return {
+      error: {
+        code: this.code,
+        message: this.message,
+        details: this.details,
+      },
+    };
+  }
+}
+
+/**
+ * Request context attached to an event
+ */
+export interface AnalyticsEventContext {
+  /** Acting user; omit or null for anonymous events */
+  userId?: string | null;
+  /** Client IP, stored only as a SHA-256 hash */
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * Record an analytics event
+ *
+ * Route handlers call this fire-and-forget (`trackEvent(...).catch(() => {})`)
+ * so analytics failures never affect the response.
+ *
+ * @param supabase - Supabase client instance from context.locals
+ * @param event - Event type and its event_data
+ * @param context - Acting user, IP address and user agent
+ * @returns The stored event's id, type and creation time
+ * @throws AnalyticsServiceError if event_data does not match the event type, or on database errors
+ */
+export async function trackEvent(
+  supabase: SupabaseClient,
+  event: AnalyticsEventInput,
+  context: AnalyticsEventContext = {}
+): Promise<AnalyticsEventResponseDTO> {
+  const validationResult = analyticsEventSchema.safeParse(event);
+  if (!validationResult.success) {
+    throw new AnalyticsServiceError(AnalyticsErrorCodes.VALIDATION_ERROR, "Invalid analytics event", 400, {
+      fields: formatValidationErrors(validationResult.error),
+    });
+  }
+
+  const { event_type, event_data } = validationResult.data;
+
+  try {
+    // RLS allows clients to insert events but not read them back, so the id and
+    // creation time are generated here instead of being returned by the insert
+    const event: AnalyticsEventResponseDTO = {
+      id: crypto.randomUUID(),
+      event_type,
+      created_at: new Date().toISOString(),
+    };
+
+    const { error } = await supabase.from("analytics_events").insert({
+      ...event,
+      user_id: context.userId ?? null,
+      event_data: {
+        ...event_data,
+        // Create anonymized IP hash for privacy
+        ...(context.ipAddress && { ip_hash: await hashString(context.ipAddress) }),
+        ...(context.userAgent && { user_agent: context.userAgent }),
+        timestamp: event.created_at,
+      },
+    });
+
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.error("Analytics insert error:", { code: error.code, message: error.message, event_type });
+
+      throw new AnalyticsServiceError(AnalyticsErrorCodes.INTERNAL_ERROR, "Failed to record event", 500, {
+        code: error.code,
+      });
+    }
+
+    return event;
+  } catch (error) {
+    if (error instanceof AnalyticsServiceError) {
+      throw error;
+    }
+
+    throw new AnalyticsServiceError(
+      AnalyticsErrorCodes.INTERNAL_ERROR,
+      "An unexpected error occurred while recording event",
+      500,
+      { error: error instanceof Error ? error.message : "Unknown error" }
+    );
+  }
+}
@@ -6,13 +6,24 @@
  * error handling across all authentication endpoints.
  */
 
+import type { Session, User } from "@supabase/supabase-js";
 import type {
   AuthResponseDTO,
+  AuthenticatorAssuranceLevel,
+  LoginResponseDTO,
+  MfaFactorDTO,
   ErrorResponseDTO,
   RegisterCommand,
   LoginCommand,
   ResetPasswordCommand,
+  ChangeEmailCommand,
+  ResendVerificationCommand,
+  MagicLinkCommand,
+  VerifyOtpCommand,
+  OAuthProvider,
+  RequestAuth,
 } from "../../types";
+import { createSupabasePkceClient } from "../../db/supabase.client";
 import type { SupabaseClient } from "../../db/supabase.client";
 
 /**
@@ -27,6 +38,11 @@ export const AuthErrorCodes = {
   ALREADY_AUTHENTICATED: "ALREADY_AUTHENTICATED",
   UNAUTHORIZED: "UNAUTHORIZED",
   RESET_NOT_ALLOWED: "RESET_NOT_ALLOWED",
+  TOO_MANY_FAILED_ATTEMPTS: "TOO_MANY_FAILED_ATTEMPTS",
+  MFA_REQUIRED: "MFA_REQUIRED",
+  MFA_FACTOR_NOT_FOUND: "MFA_FACTOR_NOT_FOUND",
+  EMAIL_UNCHANGED: "EMAIL_UNCHANGED",
+  SESSION_NOT_FOUND: "SESSION_NOT_FOUND",
 } as const;
 
 /**
@@ -161,33 +177,202 @@ export async function registerUser(command: RegisterCommand, supabase: SupabaseC
 }
 
 /**
- * Check if a user is already authenticated
+ * Decode the expiry (`exp` claim, seconds since epoch) of a JWT access token
+ * The signature is not checked here; callers verify the token with Supabase Auth
  *
- * @param supabase - Supabase client instance from context.locals
- * @returns User ID if authenticated, null otherwise
+ * @param token - JWT access token
+ * @returns Expiry timestamp or null if the token has no readable exp claim
+ */
+export function decodeTokenExpiry(token: string): number | null {
+  const exp = decodeTokenClaims(token)?.exp;
+  return typeof exp === "number" ? exp : null;
+}
+
+/**
+ * Decode the assurance level (`aal` claim) of a JWT access token
+ * The signature is not checked here; callers verify the token with Supabase Auth
+ *
+ * @param token - JWT access token
+ * @returns "aal1" or "aal2", or null if the token has no readable aal claim
+ */
+export function decodeTokenAal(token: string): AuthenticatorAssuranceLevel | null {
+  const aal = decodeTokenClaims(token)?.aal;
+  return aal === "aal1" || aal === "aal2" ? aal : null;
+}
+
+/**
+ * Decode the auth session id (`session_id` claim) of a JWT access token
+ * The signature is not checked here; callers verify the token with Supabase Auth
+ *
+ * @param token - JWT access token
+ * @returns Session id, or null if the token has no readable session_id claim
+ */
+export function decodeTokenSessionId(token: string): string | null {
+  const sessionId = decodeTokenClaims(token)?.session_id;
+  return typeof sessionId === "string" && sessionId ? sessionId : null;
+}
+
+/**
+ * Decode the payload of a JWT without verifying it
+ * @internal
+ */
+function decodeTokenClaims(token: string): Record<string, unknown> | null {
+  try {
+    const payload = token.split(".")[1] ?? "";
+    const claims: unknown = JSON.parse(atob(payload.replace(/-/g, "+").replace(/_/g, "/")));
+    return claims && typeof claims === "object" ? (claims as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * List a user's verified TOTP factors
+ *
+ * @param user - Supabase user (from getUser or a sign-in response)
+ * @returns Verified factors; empty if the user has not enabled MFA
+ */
+export function getVerifiedMfaFactors(user: User): MfaFactorDTO[] {
+  return (user.factors ?? [])
+    .filter((factor) => factor.status === "verified" && factor.factor_type === "totp")
+    .map((factor) => ({ id: factor.id, factor_type: "totp", friendly_name: factor.friendly_name ?? null }));
+}
+
+/**
+ * Map a new session to the sign-in response
+ *
+ * Users with a verified MFA factor get an AAL1 step-up token instead of the
+ * full session; the refresh token is withheld until the second factor is verified.
+ * @internal
+ */
+function toLoginResponse(user: User, session: Session, fallbackEmail: string): LoginResponseDTO {
+  const authUser = { id: user.id, email: user.email || fallbackEmail };
+  const factors = getVerifiedMfaFactors(user);
+
+  if (factors.length > 0) {
+    return {
+      mfa_required: true,
+      user: authUser,
+      mfa: {
+        access_token: session.access_token,
+        expires_at: session.expires_at || 0,
+        factors,
+      },
+    };
+  }
+
+  return {
+    user: authUser,
+    session: {
+      access_token: session.access_token,
+      refresh_token: session.refresh_token,
+      expires_at: session.expires_at || 0,
+    },
+  };
+}
+
+/**
+ * Resolve the user and session for a bearer access token
+ *
+ * Used by the auth middleware so each request verifies its token once; routes
+ * read the result from context.locals.user and context.locals.session.
+ *
+ * @param token - Access token from the Authorization header or session cookie
+ * @param supabase - Supabase client instance
+ * @param refreshToken - Refresh token stored alongside a cookie session
+ * @returns The verified user and session, or null if the token is invalid or expired
  */
-export async function getCurrentUser(supabase: SupabaseClient): Promise<string | null> {
+export async function getRequestAuth(
+  token: string,
+  supabase: SupabaseClient,
+  refreshToken: string | null = null
+): Promise<RequestAuth | null> {
   try {
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
-    return user?.id || null;
+    const { data, error } = await supabase.auth.getUser(token);
+    if (error || !data?.user) {
+      return null;
+    }
+
+    return {
+      user: data.user,
+      session: {
+        access_token: token,
+        refresh_token: refreshToken,
+        expires_at: decodeTokenExpiry(token),
+        aal: decodeTokenAal(token),
+      },
+    };
   } catch {
     return null;
   }
 }
 
+/**
+ * Exchange a refresh token for a new session
+ *
+ * Supabase Auth rotates refresh tokens: the returned session carries a new
+ * refresh token, and the old one is rejected once the reuse interval has passed.
+ *
+ * @param refreshToken - Refresh token from the request body or session cookie
+ * @param supabase - Supabase client instance
+ * @returns The user and the new session
+ * @throws AuthServiceError with UNAUTHORIZED if the refresh token is invalid, used or revoked
+ */
+export async function refreshSession(refreshToken: string, supabase: SupabaseClient): Promise<RequestAuth> {
+  try {
+    const { data, error } = await supabase.auth.refreshSession({ refresh_token: refreshToken });
+
+    if (error) {
+      // 4xx errors mean the token itself was rejected; anything else is a service failure
+      if (error.status && error.status < 500) {
+        throw new AuthServiceError(AuthErrorCodes.UNAUTHORIZED, "Invalid or expired refresh token", 401);
+      }
+
+      throw new AuthServiceError(AuthErrorCodes.INTERNAL_ERROR, "Failed to refresh session. Please try again.", 500, {
+        originalError: error.message,
+      });
+    }
+
+    if (!data.user || !data.session) {
+      throw new AuthServiceError(AuthErrorCodes.UNAUTHORIZED, "Invalid or expired refresh token", 401);
+    }
+
+    return {
+      user: data.user,
+      session: {
+        access_token: data.session.access_token,
+        refresh_token: data.session.refresh_token,
+        expires_at: data.session.expires_at ?? decodeTokenExpiry(data.session.access_token),
+        aal: decodeTokenAal(data.session.access_token),
+      },
+    };
+  } catch (error) {
+    // Re-throw AuthServiceError as-is
+    if (error instanceof AuthServiceError) {
+      throw error;
+    }
+
+    // Handle unexpected errors
+    throw new AuthServiceError(
+      AuthErrorCodes.INTERNAL_ERROR,
+      "An unexpected error occurred during session refresh",
+      500
+    );
+  }
+}
+
 /**
  * Login a user with Supabase Auth
  *
  * This function:
  * 1. Calls Supabase auth.signInWithPassword with email and password
- * 2. Maps the response to AuthResponseDTO format
+ * 2. Maps the response to AuthResponseDTO format, or to an MFA step-up for
+ *    users with a verified second factor
  * 3. Normalizes Supabase errors to application error codes
  *
  * @param command - Login command with validated email and password
  * @param supabase - Supabase client instance from context.locals
- * @returns AuthResponseDTO with user and session data
+ * @returns AuthResponseDTO with user and session data, or MfaRequiredResponseDTO
  * @throws AuthServiceError for various failure scenarios
  *
  * @example
@@ -203,7 +388,7 @@ export async function getCurrentUser(supabase: SupabaseClient): Promise<string |
  *   throw error;
  * }
  */
-export async function loginUser(command: LoginCommand, supabase: SupabaseClient): Promise<AuthResponseDTO> {
+export async function loginUser(command: LoginCommand, supabase: SupabaseClient): Promise<LoginResponseDTO> {
   try {
     // Call Supabase auth.signInWithPassword
     const { data, error } = await supabase.auth.signInWithPassword({
@@ -239,20 +424,8 @@ export async function loginUser(command: LoginCommand, supabase: SupabaseClient)
       );
     }
 
-    // Map to AuthResponseDTO
-    const response: AuthResponseDTO = {
-      user: {
-        id: data.user.id,
-        email: data.user.email || command.email,
-      },
-      session: {
-        access_token: data.session.access_token,
-        refresh_token: data.session.refresh_token,
-        expires_at: data.session.expires_at || 0,
-      },
-    };
-
-    return response;
+    // Map to AuthResponseDTO, or an MFA step-up
+    return toLoginResponse(data.user, data.session, command.email);
   } catch (error) {
     // Re-throw AuthServiceError as-is
     if (error instanceof AuthServiceError) {
@@ -268,6 +441,37 @@ export async function loginUser(command: LoginCommand, supabase: SupabaseClient)
   }
 }
 
+/**
+ * Re-confirm a signed-in user's password before a sensitive operation
+ *
+ * Signs in with the password on a separate client and immediately revokes
+ * the session that creates, so only the check remains.
+ *
+ * @param email - Email of the authenticated user
+ * @param password - Password entered for confirmation
+ * @param supabase - Fresh Supabase client without a user token (see createSupabaseServerClient)
+ * @throws AuthServiceError INVALID_CREDENTIALS for a wrong password, INTERNAL_ERROR otherwise
+ */
+export async function verifyUserPassword(email: string, password: string, supabase: SupabaseClient): Promise<void> {
+  const { data, error } = await supabase.auth.signInWithPassword({ email, password });
+
+  if (error) {
+    if (error.status && error.status >= 400 && error.status < 500) {
+      throw new AuthServiceError(AuthErrorCodes.INVALID_CREDENTIALS, "Password is incorrect", 401);
+    }
+
+    throw new AuthServiceError(AuthErrorCodes.INTERNAL_ERROR, "Failed to verify password. Please try again.", 500, {
+      originalError: error.message,
+    });
+  }
+
+  if (data.session) {
+    await supabase.auth.admin.signOut(data.session.access_token, "local").catch(() => {
+      // The confirmation session expires on its own if it cannot be revoked
+    });
+  }
+}
+
 /**
  * Request a password reset email for a user
  *
@@ -379,6 +583,302 @@ function maskEmail(email: string): string {
   return `${localPart}@***`;
 }
 
+/**
+ * Send a passwordless sign-in email with a magic link and a one-time code
+ *
+ * Only existing accounts can sign in this way (`shouldCreateUser: false`).
+ * Like requestPasswordReset, this always succeeds silently so the response
+ * does not reveal whether an account exists for the email; failures, including
+ * unknown emails, are only logged.
+ *
+ * @param command - Magic link command with validated email and redirect URL
+ * @param supabase - Supabase client instance from context.locals
+ * @returns Promise<void> in all cases
+ */
+export async function requestMagicLink(command: MagicLinkCommand, supabase: SupabaseClient): Promise<void> {
+  try {
+    const { error } = await supabase.auth.signInWithOtp({
+      email: command.email,
+      options: {
+        shouldCreateUser: false,
+        emailRedirectTo: command.redirectTo,
+      },
+    });
+
+    if (error) {
+      void logMagicLinkFailure(command.email, error.message);
+    }
+  } catch (error) {
+    void logMagicLinkFailure(command.email, error instanceof Error ? error.message : "Unknown error");
+  }
+}
+
+/**
+ * Log magic link request failure for debugging
+ * @internal
+ */
+function logMagicLinkFailure(email: string, errorMessage: string): Promise<void> {
+  return Promise.resolve().then(() => {
+    // Intentionally fire-and-forget to not block response
+    // eslint-disable-next-line no-console
+    console.error({
+      event: "magic_link_request_failed",
+      email: maskEmail(email),
+      error: errorMessage,
+    });
+  });
+}
+
+/**
+ * Complete a passwordless sign-in
+ *
+ * Verifies either the one-time code sent to an email or the token hash of
+ * the magic link, and returns the new session.
+ *
+ * @param command - Verify command with the code and email, or the token hash
+ * @param supabase - Supabase client instance from context.locals
+ * @returns AuthResponseDTO with user and session data, or an MFA step-up, like loginUser
+ * @throws AuthServiceError INVALID_CREDENTIALS for a wrong, expired or used code,
+ *   INTERNAL_ERROR otherwise
+ */
+export async function verifyEmailOtp(command: VerifyOtpCommand, supabase: SupabaseClient): Promise<LoginResponseDTO> {
+  try {
+    const { data, error } = await supabase.auth.verifyOtp(
+      "tokenHash" in command
+        ? { token_hash: command.tokenHash, type: "email" }
+        : { email: command.email, token: command.token, type: "email" }
+    );
+
+    if (error) {
+      // Auth rejects wrong, expired and already used codes with 4xx
+      if (error.status && error.status >= 400 && error.status < 500) {
+        throw new AuthServiceError(AuthErrorCodes.INVALID_CREDENTIALS, "Invalid or expired code", 401);
+      }
+
+      throw new AuthServiceError(AuthErrorCodes.INTERNAL_ERROR, "Failed to verify code. Please try again.", 500, {
+        originalError: error.message,
+      });
+    }
+
+    // Validate that we got user and session data
+    if (!data.user || !data.session) {
+      throw new AuthServiceError(
+        AuthErrorCodes.INTERNAL_ERROR,
+        "Verification succeeded but session data is incomplete",
+        500
+      );
+    }
+
+    // Map to AuthResponseDTO, or an MFA step-up
+    return toLoginResponse(data.user, data.session, "email" in command ? command.email : "");
+  } catch (error) {
+    // Re-throw AuthServiceError as-is
+    if (error instanceof AuthServiceError) {
+      throw error;
+    }
+
+    // Handle unexpected errors
+    throw new AuthServiceError(AuthErrorCodes.INTERNAL_ERROR, "An unexpected error occurred during verification", 500);
+  }
+}
+
+/**
+ * Request a change of the authenticated user's email address
+ *
+ * This function:
+ * 1. Calls Supabase auth.updateUser with the new email and redirect URL
+ * 2. Maps Supabase errors to application error codes
+ *
+ * Supabase keeps the current email until the change is confirmed. With
+ * `double_confirm_changes` enabled (see supabase/config.toml) a confirmation
+ * link is sent to both the current and the new address.
+ *
+ * @param command - Change email command with the validated new email
+ * @param supabase - Supabase client from context.locals, bound to the user's session
+ * @returns Promise<void> once the confirmation emails are sent
+ * @throws AuthServiceError EMAIL_EXISTS if the new email belongs to another account,
+ *   UNAUTHORIZED for an invalid session, INTERNAL_ERROR otherwise
+ */
+export async function requestEmailChange(command: ChangeEmailCommand, supabase: SupabaseClient): Promise<void> {
+  try {
+    const { error } = await supabase.auth.updateUser({ email: command.email }, { emailRedirectTo: command.redirectTo });
+
+    if (error) {
+      // Check for an email already used by another account
+      if (
+        error.code === "email_exists" ||
+        error.message.toLowerCase().includes("already been registered") ||
+        error.message.toLowerCase().includes("already exists")
+      ) {
+        throw new AuthServiceError(
+          AuthErrorCodes.EMAIL_EXISTS,
+          "An account with this email address already exists",
+          409
+        );
+      }
+
+      throw new AuthServiceError(
+        AuthErrorCodes.INTERNAL_ERROR,
+        "Failed to request email change. Please try again.",
+        500,
+        {
+          originalError: error.message,
+        }
+      );
+    }
+  } catch (error) {
+    // Re-throw AuthServiceError as-is
+    if (error instanceof AuthServiceError) {
+      throw error;
+    }
+
+    // Handle unexpected errors
+    throw new AuthServiceError(AuthErrorCodes.INTERNAL_ERROR, "An unexpected error occurred during email change", 500);
+  }
+}
+
+/**
+ * Resend a signup confirmation or email change verification email
+ *
+ * Like requestPasswordReset, this always succeeds silently so that the
+ * response does not reveal whether an account (or a pending change) exists
+ * for the email. Failures are only logged.
+ *
+ * @param command - Resend command with the validated email, verification type and redirect URL
+ * @param supabase - Supabase client instance from context.locals
+ * @returns Promise<void> in all cases
+ */
+export async function resendVerificationEmail(
+  command: ResendVerificationCommand,
+  supabase: SupabaseClient
+): Promise<void> {
+  try {
+    const { error } = await supabase.auth.resend({
+      type: command.type,
+      email: command.email,
+      options: {
+        emailRedirectTo: command.redirectTo,
+      },
+    });
+
+    if (error) {
+      void logVerificationResendFailure(command.email, command.type, error.message);
+    }
+  } catch (error) {
+    void logVerificationResendFailure(
+      command.email,
+      command.type,
+      error instanceof Error ? error.message : "Unknown error"
+    );
+  }
+}
+
+/**
+ * Log verification email resend failure for debugging
+ * @internal
+ */
+function logVerificationResendFailure(email: string, type: string, errorMessage: string): Promise<void> {
+  return Promise.resolve().then(() => {
+    // Intentionally fire-and-forget to not block response
+    // eslint-disable-next-line no-console
+    console.error({
+      event: "resend_verification_failed",
+      email: maskEmail(email),
+      type,
+      error: errorMessage,
+    });
+  });
+}
+
+/**
+ * Provider authorization URL and PKCE code verifier of a started OAuth sign-in
+ */
+export interface OAuthSignInStart {
+  /** Supabase authorize URL to redirect the browser to */
+  url: string;
+  /** Code verifier to keep until the callback */
+  codeVerifier: string;
+}
+
+/**
+ * Start an OAuth sign-in with the PKCE flow
+ *
+ * Builds the Supabase authorize URL for the provider. No request is made:
+ * the code challenge is derived from a fresh code verifier, which the caller
+ * must keep (e.g. in a cookie) and pass to exchangeOAuthCode at the callback.
+ *
+ * @param provider - OAuth provider enabled in supabase/config.toml
+ * @param redirectTo - Callback URL Supabase redirects to with the authorization code
+ * @returns Authorize URL and code verifier
+ * @throws AuthServiceError INTERNAL_ERROR if the URL cannot be built
+ */
+export async function startOAuthSignIn(provider: OAuthProvider, redirectTo: string): Promise<OAuthSignInStart> {
+  const { supabase, getCodeVerifier } = createSupabasePkceClient();
+
+  const { data, error } = await supabase.auth.signInWithOAuth({
+    provider,
+    options: {
+      redirectTo,
+      skipBrowserRedirect: true,
+    },
+  });
+
+  const codeVerifier = getCodeVerifier();
+  if (error || !data.url || !codeVerifier) {
+    throw new AuthServiceError(AuthErrorCodes.INTERNAL_ERROR, "Failed to start OAuth sign-in. Please try again.", 500, {
+      ...(error && { originalError: error.message }),
+    });
+  }
+
+  return { url: data.url, codeVerifier };
+}
+
+/**
+ * Complete an OAuth sign-in by exchanging the authorization code for a session
+ *
+ * New users are created by Supabase Auth on their first sign-in; the
+ * create_profile_for_user trigger then creates their profile.
+ *
+ * @param code - Authorization code from the callback query
+ * @param codeVerifier - Code verifier kept since startOAuthSignIn
+ * @returns AuthResponseDTO with user and session data, or an MFA step-up, like loginUser
+ * @throws AuthServiceError UNAUTHORIZED for an invalid, expired or mismatched code,
+ *   INTERNAL_ERROR otherwise
+ */
+export async function exchangeOAuthCode(code: string, codeVerifier: string): Promise<LoginResponseDTO> {
+  try {
+    const { supabase } = createSupabasePkceClient(codeVerifier);
+    const { data, error } = await supabase.auth.exchangeCodeForSession(code);
+
+    if (error) {
+      // Auth rejects unknown, expired or already used codes and wrong verifiers with 4xx
+      if (error.status && error.status >= 400 && error.status < 500) {
+        throw new AuthServiceError(AuthErrorCodes.UNAUTHORIZED, "Invalid or expired authorization code", 401);
+      }
+
+      throw new AuthServiceError(
+        AuthErrorCodes.INTERNAL_ERROR,
+        "Failed to complete OAuth sign-in. Please try again.",
+        500,
+        {
+          originalError: error.message,
+        }
+      );
+    }
+
+    // Map to AuthResponseDTO, or an MFA step-up
+    return toLoginResponse(data.user, data.session, "");
+  } catch (error) {
+    // Re-throw AuthServiceError as-is
+    if (error instanceof AuthServiceError) {
+      throw error;
+    }
+
+    // Handle unexpected errors
+    throw new AuthServiceError(AuthErrorCodes.INTERNAL_ERROR, "An unexpected error occurred during OAuth sign-in", 500);
+  }
+}
+
 /**
  * Logout a user by revoking their Supabase session
  *
@@ -407,8 +907,8 @@ function maskEmail(email: string): string {
  */
 export async function logoutUser(token: string, supabase: SupabaseClient): Promise<void> {
   try {
-    // Revoke the session using the access token
-    const { error } = await supabase.auth.signOut({ scope: "global" });
+    // Revoke the access token's session only; other devices stay signed in (see signOutEverywhere)
+    const { error } = await supabase.auth.admin.signOut(token, "local");
 
     if (error) {
       // Treat any signOut error as an authorization error
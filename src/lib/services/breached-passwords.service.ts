@@ -0,0 +1,102 @@
+/**
+ * Breached password lookup with k-anonymity hash prefixes
+ *
+ * Passwords are checked against a local copy of a breached-password corpus in
+ * the Have I Been Pwned range format: one file per 5-character SHA-1 prefix
+ * (e.g. "21BD1.txt"), each line holding the remaining 35 hex characters and a
+ * count ("0018A45C4D1DEF81644B54AB7F969B88D65:10"). Only the prefix selects a
+ * file and the suffix is compared in memory, so the lookup never needs the
+ * whole dataset and the full hash never leaves this process.
+ *
+ * The dataset directory is set with BREACHED_PASSWORDS_PATH (e.g. the output
+ * of the HIBP downloader with one file per prefix). Without it the check is
+ * skipped. Prefixes missing from a partial dataset count as not breached.
+ */
+
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+
+/**
+ * Length of the hash prefix that selects a range file
+ */
+const HASH_PREFIX_LENGTH = 5;
+
+/**
+ * Hex-encoded SHA-1 of a string, upper case as in the range files
+ * @internal
+ */
+async function sha1Hex(input: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-1", new TextEncoder().encode(input));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0"))
+    .join("")
+    .toUpperCase();
+}
+
+/**
+ * Read the range file of a hash prefix
+ * @internal
+ */
+async function readRange(datasetPath: string, prefix: string): Promise<string | null> {
+  try {
+    return await readFile(path.join(datasetPath, `${prefix}.txt`), "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Count how often a password appears in the breached-password dataset
+ *
+ * @param password - Password to look up
+ * @param datasetPath - Directory of range files (defaults to BREACHED_PASSWORDS_PATH)
+ * @returns Number of breaches the password appeared in, 0 if none, or null if no dataset is configured
+ * @throws Error when a range file exists but cannot be read
+ */
+export async function countPasswordBreaches(
+  password: string,
+  datasetPath: string | undefined = import.meta.env.BREACHED_PASSWORDS_PATH
+): Promise<number | null> {
+  if (!datasetPath) {
+    return null;
+  }
+
+  const hash = await sha1Hex(password);
+  const prefix = hash.slice(0, HASH_PREFIX_LENGTH);
+  const suffix = hash.slice(HASH_PREFIX_LENGTH);
+
+  const range = await readRange(datasetPath, prefix);
+  if (!range) {
+    return 0;
+  }
+
+  for (const line of range.split("\n")) {
+    const [lineSuffix, count] = line.trim().split(":");
+    if (lineSuffix?.toUpperCase() === suffix) {
+      return Number(count) || 1;
+    }
+  }
+
+  return 0;
+}
+
+/**
+ * Check whether a password appears in the breached-password dataset
+ *
+ * Fails open: if the dataset cannot be read the error is logged and the
+ * password is treated as not breached, so sign-ups keep working.
+ *
+ * @param password - Password to look up
+ * @returns True if the password appeared in at least one breach
+ */
+export async function isBreachedPassword(password: string): Promise<boolean> {
+  try {
+    return ((await countPasswordBreaches(password)) ?? 0) > 0;
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Breached password dataset error:", error instanceof Error ? error.message : error);
+    return false;
+  }
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it, vi } from "vitest";
+
+import type { SupabaseClient } from "../../db/supabase.client";
+import { searchCards } from "./card.service";
+
+const CARD_ROW = {
+  id: "base1-4",
+  set_id: "base1",
+  name: "Charizard",
+  card_number: "4",
+  rarity: "Rare Holo",
+  types: ["Fire"],
+  hp: 120,
+  image_url_small: "https://images.example/base1-4.png",
+  image_url_large: "https://images.example/base1-4_hires.png",
+  similarity: null,
+  total_count: 45,
+};
+
+/**
+ * Supabase client whose search_cards RPC returns every matching row for the requested window
+ */
+function supabaseWithMatches(count: number) {
+  const rpc = vi.fn(async (_name: string, args: { p_limit: number; p_offset: number }) => ({
+    data: Array.from({ length: Math.max(0, Math.min(args.p_limit, count - args.p_offset)) }, () => ({
+      ...CARD_ROW,
+      total_count: count,
+    })),
+    error: null,
+  }));
+  return { supabase: { rpc } as unknown as SupabaseClient, rpc };
+}
+
+describe("searchCards", () => {
+  it("reads the total from the page in one call", async () => {
+    const { supabase, rpc } = supabaseWithMatches(45);
+
+    const result = await searchCards(supabase, { page: 3, limit: 20, order: "asc", search: "char" });
+
+    expect(result.data).toHaveLength(5);
+    expect(result.data[0]).not.toHaveProperty("total_count");
+    expect(result.pagination).toEqual({ page: 3, limit: 20, total_items: 45, total_pages: 3 });
+    expect(rpc).toHaveBeenCalledTimes(1);
+    expect(rpc).toHaveBeenCalledWith("search_cards", expect.objectContaining({ p_limit: 20, p_offset: 40 }));
+  });
+
+  it("still reports the total for a page past the last one", async () => {
+    const { supabase, rpc } = supabaseWithMatches(45);
+
+    const result = await searchCards(supabase, { page: 4, limit: 20, order: "asc", search: "char" });
+
+    expect(result.data).toEqual([]);
+    expect(result.pagination).toEqual({ page: 4, limit: 20, total_items: 45, total_pages: 3 });
+    expect(rpc).toHaveBeenLastCalledWith("search_cards", expect.objectContaining({ p_limit: 1, p_offset: 0 }));
+  });
+
+  it("reports no matches without a second call", async () => {
+    const { supabase, rpc } = supabaseWithMatches(0);
+
+    const result = await searchCards(supabase, { page: 1, limit: 20, order: "asc", search: "zzz" });
+
+    expect(result.pagination).toEqual({ page: 1, limit: 20, total_items: 0, total_pages: 0 });
+    expect(rpc).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Card service for browsing the card catalog
+ *
+ * This module provides business logic for card catalog operations using Supabase.
+ * Search is delegated to the search_cards Postgres function, which ranks fuzzy
+ * name matches by trigram similarity and returns the total match count alongside
+ * each page.
+ */
+
+import type { CardDTO, CardDetailDTO, CardSearchQueryDTO, ErrorResponseDTO, PaginatedResponseDTO } from "../../types";
+import type { SupabaseClient } from "../../db/supabase.client";
+import { buildPagination } from "../utils/api-helpers";
+import { SET_DTO_COLUMNS } from "./set.service";
+
+/**
+ * Error codes for card operations
+ */
+export const CardErrorCodes = {
+  NOT_FOUND: "NOT_FOUND",
+  VALIDATION_ERROR: "VALIDATION_ERROR",
+  INTERNAL_ERROR: "INTERNAL_ERROR",
+} as const;
+
+/**
+ * Custom error class for card operations
+ */
+export class CardServiceError extends Error {
+  constructor(
+    public code: string,
+    public message: string,
+    public statusCode: number,
+    public details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = "CardServiceError";
+  }
+
+  toErrorResponse(): ErrorResponseDTO {
+    return {
+      error: {
+        code: this.code,
+        message: this.message,
+        details: this.details,
+      },
+    };
+  }
+}
+
+/**
+ * Validated card search parameters
+ * `types` is already split into a normalized array by the query schema
+ */
+export type CardSearchParams = Omit<CardSearchQueryDTO, "page" | "limit" | "order" | "types"> &
+  Required<Pick<CardSearchQueryDTO, "page" | "limit" | "order">> & {
+    types?: string[];
+  };
+
+/**
+ * Columns selected from the cards table for CardDTO payloads
+ */
+export const CARD_DTO_COLUMNS = "id, set_id, name, card_number, rarity, types, hp, image_url_small, image_url_large";
+
+/**
+ * Search the card catalog with fuzzy name matching, filters and pagination
+ *
+ * This function:
+ * 1. Calls the search_cards RPC with search, set, types and rarity filters
+ * 2. Ranks results by name similarity when searching without an explicit sort
+ * 3. Reads the total match count from the window column on the first row;
+ *    a page past the last one has no rows, so the count is fetched with a
+ *    one-row query for the first page instead
+ * 4. Maps rows to PaginatedResponseDTO<CardDTO>
+ *
+ * @param supabase - Supabase client instance from context.locals
+ * @param params - Validated search parameters
+ * @returns Paginated list of matching cards
+ * @throws CardServiceError for database errors
+ */
+export async function searchCards(
+  supabase: SupabaseClient,
+  params: CardSearchParams
+): Promise<PaginatedResponseDTO<CardDTO>> {
+  try {
+    const { page, limit } = params;
+
+    const searchPage = (pageLimit: number, offset: number) =>
+      supabase.rpc("search_cards", {
+        p_search: params.search,
+        p_set_id: params.set_id,
+        p_types: params.types,
+        p_rarity: params.rarity,
+        p_sort: params.sort,
+        p_order: params.order,
+        p_limit: pageLimit,
+        p_offset: offset,
+      });
+
+    const { data, error } = await searchPage(limit, (page - 1) * limit);
+
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.error("Card search query error:", { code: error.code, message: error.message });
+
+      throw new CardServiceError(CardErrorCodes.INTERNAL_ERROR, "Failed to search cards", 500, { code: error.code });
+    }
+
+    const rows = data || [];
+    let totalItems = rows.length > 0 ? Number(rows[0].total_count) : 0;
+
+    if (rows.length === 0 && page > 1) {
+      // The window count is only returned with rows; count the matches from the first row instead
+      const { data: firstRows, error: countError } = await searchPage(1, 0);
+
+      if (countError) {
+        // eslint-disable-next-line no-console
+        console.error("Card search count error:", { code: countError.code, message: countError.message });
+
+        throw new CardServiceError(CardErrorCodes.INTERNAL_ERROR, "Failed to search cards", 500, {
+          code: countError.code,
+        });
+      }
+
+      totalItems = firstRows && firstRows.length > 0 ? Number(firstRows[0].total_count) : 0;
+    }
+
+    return {
+      data: rows.map((row) => ({
+        id: row.id,
+        set_id: row.set_id,
+        name: row.name,
+        card_number: row.card_number,
+        rarity: row.rarity,
+        types: row.types,
+        hp: row.hp,
+        image_url_small: row.image_url_small,
+        image_url_large: row.image_url_large,
+      })),
+      pagination: buildPagination(page, limit, totalItems),
+    };
+  } catch (error) {
+    if (error instanceof CardServiceError) {
+      throw error;
+    }
+
+    throw new CardServiceError(
+      CardErrorCodes.INTERNAL_ERROR,
+      "An unexpected error occurred while searching cards",
+      500,
+      {
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+  }
+}
+
+/**
+ * Fetch a single card with its set and sync metadata
+ *
+ * @param supabase - Supabase client instance from context.locals
+ * @param cardId - The card ID
+ * @returns CardDetailDTO, or null if the card does not exist
+ * @throws CardServiceError for database errors
+ */
+export async function getCardById(supabase: SupabaseClient, cardId: string): Promise<CardDetailDTO | null> {
+  try {
+    const { data, error } = await supabase
+      .from("cards")
+      .select(`${CARD_DTO_COLUMNS}, last_synced_at, created_at, updated_at, set:sets!inner(${SET_DTO_COLUMNS})`)
+      .eq("id", cardId)
+      .maybeSingle();
+
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.error("Card detail query error:", { code: error.code, message: error.message, cardId });
+
+      throw new CardServiceError(CardErrorCodes.INTERNAL_ERROR, "Failed to fetch card", 500, { code: error.code });
+    }
+
+    return data;
+  } catch (error) {
+    if (error instanceof CardServiceError) {
+      throw error;
+    }
+
+    throw new CardServiceError(CardErrorCodes.INTERNAL_ERROR, "An unexpected error occurred while fetching card", 500, {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+}
@@ -0,0 +1,272 @@
+/**
+ * Catalog data sources for the sync job
+ *
+ * A CatalogSource yields sets and cards already mapped to our table columns.
+ * Both built-in sources read TCGDex-shaped data: a JSON dump on disk, or the
+ * TCGDex REST API (or any server exposing the same paths, such as a local
+ * fixture server in development).
+ */
+
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import type { CatalogCardRecord, CatalogSetRecord } from "../../types";
+import { CatalogSyncErrorCodes, CatalogSyncServiceError } from "./catalog-sync.service";
+
+/**
+ * Source of catalog data for syncCatalog
+ */
+export interface CatalogSource {
+  /** Description of the source used in sync reports */
+  readonly name: string;
+  listSets(): Promise<CatalogSetRecord[]>;
+  listCards(setId: string): Promise<CatalogCardRecord[]>;
+}
+
+/**
+ * Default source: the public TCGDex API (English)
+ */
+export const DEFAULT_CATALOG_SOURCE = "https://api.tcgdex.net/v2/en";
+
+/**
+ * Parallel requests per set when fetching card details over HTTP
+ */
+const DEFAULT_HTTP_CONCURRENCY = 8;
+
+/**
+ * TCGDex set (GET /sets/:id, or an entry of the dump's sets.json)
+ */
+interface TcgdexSet {
+  id: string;
+  name: string;
+  logo?: string;
+  symbol?: string;
+  cardCount: { total?: number; official?: number };
+  serie?: { id: string; name: string };
+  releaseDate?: string;
+  tcgOnline?: string;
+  cards?: TcgdexCardBrief[];
+}
+
+/**
+ * TCGDex card summary as embedded in a set
+ */
+interface TcgdexCardBrief {
+  id: string;
+  localId: string;
+  name: string;
+  image?: string;
+}
+
+/**
+ * TCGDex card (GET /cards/:id, or an entry of the dump's cards/<setId>.json)
+ */
+interface TcgdexCard extends TcgdexCardBrief {
+  rarity?: string;
+  hp?: number;
+  types?: string[];
+}
+
+/**
+ * Map a TCGDex set to a sets row
+ * @internal
+ */
+function mapTcgdexSet(set: TcgdexSet): CatalogSetRecord {
+  return {
+    id: set.id,
+    name: set.name,
+    series: set.serie?.name ?? null,
+    total_cards: set.cardCount.total ?? set.cardCount.official ?? 0,
+    release_date: set.releaseDate ?? null,
+    logo_url: set.logo ? `${set.logo}.png` : null,
+    symbol_url: set.symbol ? `${set.symbol}.png` : null,
+    ptcgo_code: set.tcgOnline ?? null,
+  };
+}
+
+/**
+ * Map a TCGDex card to a cards row
+ *
+ * card_number follows our "<local id>/<official count>" format, e.g. "25/191".
+ *
+ * @internal
+ */
+function mapTcgdexCard(card: TcgdexCard, set: TcgdexSet): CatalogCardRecord {
+  const official = set.cardCount.official ?? set.cardCount.total;
+
+  return {
+    id: card.id,
+    set_id: set.id,
+    name: card.name,
+    card_number: official ? `${card.localId}/${official}` : card.localId,
+    rarity: card.rarity ?? null,
+    types: card.types?.map((type) => type.toLowerCase()) ?? null,
+    hp: card.hp ?? null,
+    image_url_small: card.image ? `${card.image}/low.webp` : null,
+    image_url_large: card.image ? `${card.image}/high.webp` : null,
+  };
+}
+
+/**
+ * Run `fn` over items with at most `limit` calls in flight, preserving order
+ * @internal
+ */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Create a source reading a TCGDex JSON dump from disk
+ *
+ * Expected layout:
+ * - <directory>/sets.json: array of TCGDex set objects
+ * - <directory>/cards/<setId>.json: array of TCGDex card objects for that set
+ *
+ * @param directory - Dump directory
+ * @returns CatalogSource over the dump
+ */
+export function createFileCatalogSource(directory: string): CatalogSource {
+  let sets: Promise<Map<string, TcgdexSet>> | null = null;
+
+  const readJson = async <T>(file: string): Promise<T> => {
+    try {
+      return JSON.parse(await readFile(file, "utf8")) as T;
+    } catch (error) {
+      throw new CatalogSyncServiceError(CatalogSyncErrorCodes.SOURCE_ERROR, "Failed to read catalog dump", 502, {
+        file,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  };
+
+  const loadSets = () => {
+    sets ??= readJson<TcgdexSet[]>(path.join(directory, "sets.json")).then(
+      (list) => new Map(list.map((set) => [set.id, set]))
+    );
+    return sets;
+  };
+
+  return {
+    name: `file:${directory}`,
+    async listSets() {
+      return Array.from((await loadSets()).values(), mapTcgdexSet);
+    },
+    async listCards(setId) {
+      const set = (await loadSets()).get(setId);
+      if (!set) {
+        return [];
+      }
+
+      const cards = await readJson<TcgdexCard[]>(path.join(directory, "cards", `${path.basename(setId)}.json`));
+      return cards.map((card) => mapTcgdexCard(card, set));
+    },
+  };
+}
+
+/**
+ * Options for the HTTP catalog source
+ */
+export interface HttpCatalogSourceOptions {
+  /** API root exposing /sets, /sets/:id and /cards/:id, e.g. https://api.tcgdex.net/v2/en */
+  baseUrl: string;
+  /** fetch implementation (defaults to the global fetch) */
+  fetch?: typeof fetch;
+  /** Parallel card requests (defaults to 8) */
+  concurrency?: number;
+}
+
+/**
+ * Create a source reading the TCGDex REST API
+ *
+ * Set details are fetched once per set and reused for its cards; card
+ * details are fetched individually because set payloads only embed summaries.
+ *
+ * @param options - Base URL and optional fetch/concurrency overrides
+ * @returns CatalogSource over the API
+ */
+export function createHttpCatalogSource(options: HttpCatalogSourceOptions): CatalogSource {
+  const baseUrl = options.baseUrl.replace(/\/+$/, "");
+  const fetchImpl = options.fetch ?? fetch;
+  const concurrency = options.concurrency ?? DEFAULT_HTTP_CONCURRENCY;
+  const setDetails = new Map<string, Promise<TcgdexSet>>();
+
+  const getJson = async <T>(resource: string): Promise<T> => {
+    const url = `${baseUrl}${resource}`;
+    let response: Response;
+
+    try {
+      response = await fetchImpl(url, { headers: { Accept: "application/json" } });
+    } catch (error) {
+      throw new CatalogSyncServiceError(CatalogSyncErrorCodes.SOURCE_ERROR, "Catalog source request failed", 502, {
+        url,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+
+    if (!response.ok) {
+      throw new CatalogSyncServiceError(CatalogSyncErrorCodes.SOURCE_ERROR, "Catalog source request failed", 502, {
+        url,
+        status: response.status,
+      });
+    }
+
+    return (await response.json()) as T;
+  };
+
+  const getSet = (setId: string) => {
+    let detail = setDetails.get(setId);
+    if (!detail) {
+      detail = getJson<TcgdexSet>(`/sets/${encodeURIComponent(setId)}`);
+      setDetails.set(setId, detail);
+    }
+    return detail;
+  };
+
+  return {
+    name: baseUrl,
+    async listSets() {
+      const briefs = await getJson<{ id: string }[]>("/sets");
+      const sets = await mapWithConcurrency(briefs, concurrency, (brief) => getSet(brief.id));
+      return sets.map(mapTcgdexSet);
+    },
+    async listCards(setId) {
+      const set = await getSet(setId);
+      const cards = await mapWithConcurrency(set.cards ?? [], concurrency, (brief) =>
+        getJson<TcgdexCard>(`/cards/${encodeURIComponent(brief.id)}`)
+      );
+      return cards.map((card) => mapTcgdexCard(card, set));
+    },
+  };
+}
+
+/**
+ * Create a source from a CATALOG_SYNC_SOURCE-style string
+ *
+ * - http(s)://... uses the HTTP source with that base URL
+ * - file:///... or file:... or a plain path uses the file source
+ *
+ * @param spec - Source URL or dump directory
+ * @returns CatalogSource
+ */
+export function createCatalogSource(spec: string = DEFAULT_CATALOG_SOURCE): CatalogSource {
+  if (/^https?:\/\//i.test(spec)) {
+    return createHttpCatalogSource({ baseUrl: spec });
+  }
+
+  if (spec.startsWith("file://")) {
+    return createFileCatalogSource(fileURLToPath(spec));
+  }
+
+  return createFileCatalogSource(spec.replace(/^file:/, ""));
+}
@@ -0,0 +1,383 @@
+/**
+ * Catalog sync service
+ *
+ * This module keeps the sets and cards tables in line with an external
+ * catalog source. A run upserts every source row (refreshing last_synced_at),
+ * reports what was added, changed or removed, and never deletes cards that
+ * are still referenced by user_cards or wishlist_items (both foreign keys are
+ * ON DELETE RESTRICT); such cards, and the sets holding them, are reported as
+ * retained instead.
+ */
+
+import type {
+  CatalogCardRecord,
+  CatalogDiffDTO,
+  CatalogSetRecord,
+  CatalogSyncReportDTO,
+  ErrorResponseDTO,
+} from "../../types";
+import type { SupabaseClient } from "../../db/supabase.client";
+import type { CatalogSource } from "./catalog-sources.service";
+import { chunk } from "../utils/batch";
+
+/**
+ * Error codes for catalog sync operations
+ */
+export const CatalogSyncErrorCodes = {
+  SOURCE_ERROR: "SOURCE_ERROR",
+  VALIDATION_ERROR: "VALIDATION_ERROR",
+  INTERNAL_ERROR: "INTERNAL_ERROR",
+} as const;
+
+/**
+ * Custom error class for catalog sync operations
+ */
+export class CatalogSyncServiceError extends Error {
+  constructor(
+    public code: string,
+    public message: string,
+    public statusCode: number,
+    public details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = "CatalogSyncServiceError";
+  }
+
+  toErrorResponse(): ErrorResponseDTO {
+    return {
+      error: {
+        code: this.code,
+        message: this.message,
+        details: this.details,
+      },
+    };
+  }
+}
+
+/**
+ * Options for a sync run
+ */
+export interface CatalogSyncOptions {
+  /** Compute the report without writing */
+  dryRun?: boolean;
+  /** Restrict the run to these set ids; removals are only detected on full runs */
+  setIds?: string[];
+}
+
+/**
+ * Columns compared to detect changed sets (CatalogSetRecord fields)
+ */
+const SET_SYNC_COLUMNS = "id, name, series, total_cards, release_date, logo_url, symbol_url, ptcgo_code";
+
+/**
+ * Columns compared to detect changed cards (CatalogCardRecord fields)
+ */
+const CARD_SYNC_COLUMNS = "id, set_id, name, card_number, rarity, types, hp, image_url_small, image_url_large";
+
+/**
+ * Rows per upsert/delete statement
+ */
+const SYNC_WRITE_BATCH_SIZE = 500;
+
+/**
+ * Ids per lookup query (keeps request URLs short)
+ */
+const SYNC_LOOKUP_BATCH_SIZE = 200;
+
+/**
+ * Page size for catalog reads (matches PostgREST max_rows)
+ */
+const SYNC_PAGE_SIZE = 1000;
+
+/**
+ * Postgres foreign key violation, raised when deleting a card a collection still references
+ */
+const PG_FOREIGN_KEY_VIOLATION = "23503";
+
+/**
+ * Build a CatalogSyncServiceError for a failed database call, logging the cause
+ * @internal
+ */
+function databaseError(context: string, error: { code: string; message: string }): CatalogSyncServiceError {
+  // eslint-disable-next-line no-console
+  console.error(`Catalog sync ${context} error:`, { code: error.code, message: error.message });
+
+  return new CatalogSyncServiceError(CatalogSyncErrorCodes.INTERNAL_ERROR, `Failed to ${context}`, 500, {
+    code: error.code,
+  });
+}
+
+/**
+ * Compare incoming rows with existing rows and fill the diff
+ *
+ * @returns Ids of existing rows that are missing from the incoming rows
+ * @internal
+ */
+function diffRecords<T extends { id: string }>(
+  incoming: T[],
+  existing: Map<string, T>,
+  diff: CatalogDiffDTO
+): string[] {
+  const incomingIds = new Set<string>();
+
+  for (const record of incoming) {
+    incomingIds.add(record.id);
+    const current = existing.get(record.id);
+
+    if (!current) {
+      diff.added.push(record.id);
+    } else if (
+      (Object.keys(record) as (keyof T)[]).some((key) => JSON.stringify(record[key]) !== JSON.stringify(current[key]))
+    ) {
+      diff.changed.push(record.id);
+    } else {
+      diff.unchanged++;
+    }
+  }
+
+  return Array.from(existing.keys()).filter((id) => !incomingIds.has(id));
+}
+
+/**
+ * Fetch existing sets, optionally limited to the given ids
+ * @internal
+ */
+async function fetchExistingSets(supabase: SupabaseClient, setIds?: string[]): Promise<Map<string, CatalogSetRecord>> {
+  let builder = supabase.from("sets").select(SET_SYNC_COLUMNS);
+  if (setIds) {
+    builder = builder.in("id", setIds);
+  }
+
+  const { data, error } = await builder;
+  if (error) {
+    throw databaseError("read sets", error);
+  }
+
+  return new Map((data || []).map((set) => [set.id, set]));
+}
+
+/**
+ * Fetch every existing card in the given sets
+ * @internal
+ */
+async function fetchExistingCards(supabase: SupabaseClient, setIds: string[]): Promise<Map<string, CatalogCardRecord>> {
+  const cards = new Map<string, CatalogCardRecord>();
+
+  for (const ids of chunk(setIds, SYNC_LOOKUP_BATCH_SIZE)) {
+    for (let from = 0; ; from += SYNC_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from("cards")
+        .select(CARD_SYNC_COLUMNS)
+        .in("set_id", ids)
+        .order("id", { ascending: true })
+        .range(from, from + SYNC_PAGE_SIZE - 1);
+
+      if (error) {
+        throw databaseError("read cards", error);
+      }
+
+      for (const card of data || []) {
+        cards.set(card.id, card);
+      }
+
+      if (!data || data.length < SYNC_PAGE_SIZE) {
+        break;
+      }
+    }
+  }
+
+  return cards;
+}
+
+/**
+ * Find which of the given cards are referenced by any user_cards or wishlist_items row
+ * @internal
+ */
+async function findReferencedCards(supabase: SupabaseClient, cardIds: string[]): Promise<Set<string>> {
+  const referenced = new Set<string>();
+
+  for (const ids of chunk(cardIds, SYNC_LOOKUP_BATCH_SIZE)) {
+    const { data, error } = await supabase
+      .from("cards")
+      .select("id, user_cards(count), wishlist_items(count)")
+      .in("id", ids);
+
+    if (error) {
+      throw databaseError("check card references", error);
+    }
+
+    for (const card of data || []) {
+      if ((card.user_cards[0]?.count ?? 0) > 0 || (card.wishlist_items[0]?.count ?? 0) > 0) {
+        referenced.add(card.id);
+      }
+    }
+  }
+
+  return referenced;
+}
+
+/**
+ * Delete cards that are no longer in the source
+ *
+ * A card can gain a collection or wishlist reference between the check and
+ * the delete; when a batch hits the foreign key, its cards are retried one by
+ * one and the ones still referenced are returned as retained.
+ *
+ * @internal
+ */
+async function deleteCards(supabase: SupabaseClient, cardIds: string[]): Promise<string[]> {
+  const retained: string[] = [];
+
+  for (const ids of chunk(cardIds, SYNC_WRITE_BATCH_SIZE)) {
+    const { error } = await supabase.from("cards").delete().in("id", ids);
+    if (!error) {
+      continue;
+    }
+    if (error.code !== PG_FOREIGN_KEY_VIOLATION) {
+      throw databaseError("delete cards", error);
+    }
+
+    for (const id of ids) {
+      const { error: singleError } = await supabase.from("cards").delete().eq("id", id);
+      if (singleError?.code === PG_FOREIGN_KEY_VIOLATION) {
+        retained.push(id);
+      } else if (singleError) {
+        throw databaseError("delete cards", singleError);
+      }
+    }
+  }
+
+  return retained;
+}
+
+/**
+ * Sync sets and cards from a catalog source
+ *
+ * This function:
+ * 1. Reads all (or the requested) sets from the source and diffs them with the catalog
+ * 2. Reads each set's cards from the source and diffs them with the catalog
+ * 3. Splits removed cards into deletable and retained (referenced by
+ *    user_cards or wishlist_items)
+ * 4. Unless dry-running: upserts sets, then cards, then deletes the deletable
+ *    cards; cards referenced by the time they are deleted are retained too
+ * 5. Retains removed sets while any of their cards is retained and, unless
+ *    dry-running, deletes the others
+ *
+ * Upserts are keyed on id, so re-running a sync is idempotent; every synced
+ * row gets a fresh last_synced_at.
+ *
+ * @param supabase - Supabase client with write access to the catalog
+ * @param source - Catalog source to read from
+ * @param options - Dry-run flag and optional set filter
+ * @returns Sync report with per-table diffs
+ * @throws CatalogSyncServiceError for source and database errors, or unknown set ids
+ */
+export async function syncCatalog(
+  supabase: SupabaseClient,
+  source: CatalogSource,
+  options: CatalogSyncOptions = {}
+): Promise<CatalogSyncReportDTO> {
+  const startedAt = new Date().toISOString();
+  const dryRun = options.dryRun ?? false;
+  const report: CatalogSyncReportDTO = {
+    source: source.name,
+    dry_run: dryRun,
+    started_at: startedAt,
+    finished_at: startedAt,
+    sets: { added: [], changed: [], removed: [], retained: [], unchanged: 0 },
+    cards: { added: [], changed: [], removed: [], retained: [], unchanged: 0 },
+  };
+
+  try {
+    // Step 1: Diff sets
+    let sourceSets = await source.listSets();
+
+    if (options.setIds) {
+      const requested = new Set(options.setIds);
+      sourceSets = sourceSets.filter((set) => requested.has(set.id));
+
+      const missing = options.setIds.filter((id) => !sourceSets.some((set) => set.id === id));
+      if (missing.length > 0) {
+        throw new CatalogSyncServiceError(CatalogSyncErrorCodes.VALIDATION_ERROR, "Sets not found in source", 400, {
+          set_ids: missing,
+        });
+      }
+    }
+
+    const existingSets = await fetchExistingSets(supabase, options.setIds);
+    const removedSetIds = diffRecords(sourceSets, existingSets, report.sets);
+
+    // Step 2: Diff cards of every set in scope; all cards of a removed set are removed
+    const sourceCards: CatalogCardRecord[] = [];
+    for (const set of sourceSets) {
+      sourceCards.push(...(await source.listCards(set.id)));
+    }
+
+    const existingCards = await fetchExistingCards(supabase, [...sourceSets.map((set) => set.id), ...removedSetIds]);
+    const removedCardIds = diffRecords(sourceCards, existingCards, report.cards);
+
+    // Step 3: Retain removed cards that are still referenced
+    const referenced = await findReferencedCards(supabase, removedCardIds);
+    let deletableCardIds = removedCardIds.filter((id) => !referenced.has(id));
+    report.cards.retained = removedCardIds.filter((id) => referenced.has(id));
+
+    // Step 4: Write sets and cards, then delete unreferenced cards
+    if (!dryRun) {
+      const syncedAt = new Date().toISOString();
+
+      for (const batch of chunk(sourceSets, SYNC_WRITE_BATCH_SIZE)) {
+        const { error } = await supabase
+          .from("sets")
+          .upsert(batch.map((set) => ({ ...set, last_synced_at: syncedAt })));
+        if (error) {
+          throw databaseError("write sets", error);
+        }
+      }
+
+      for (const batch of chunk(sourceCards, SYNC_WRITE_BATCH_SIZE)) {
+        const { error } = await supabase
+          .from("cards")
+          .upsert(batch.map((card) => ({ ...card, last_synced_at: syncedAt })));
+        if (error) {
+          throw databaseError("write cards", error);
+        }
+      }
+
+      const raced = await deleteCards(supabase, deletableCardIds);
+      if (raced.length > 0) {
+        deletableCardIds = deletableCardIds.filter((id) => !raced.includes(id));
+        report.cards.retained.push(...raced);
+      }
+    }
+
+    report.cards.removed = deletableCardIds;
+
+    // Step 5: Retain removed sets that still hold cards and delete the others
+    const setsWithRetainedCards = new Set(report.cards.retained.map((id) => existingCards.get(id)?.set_id));
+    report.sets.retained = removedSetIds.filter((id) => setsWithRetainedCards.has(id));
+    report.sets.removed = removedSetIds.filter((id) => !setsWithRetainedCards.has(id));
+
+    if (!dryRun) {
+      for (const ids of chunk(report.sets.removed, SYNC_WRITE_BATCH_SIZE)) {
+        const { error } = await supabase.from("sets").delete().in("id", ids);
+        if (error) {
+          throw databaseError("delete sets", error);
+        }
+      }
+    }
+
+    report.finished_at = new Date().toISOString();
+    return report;
+  } catch (error) {
+    if (error instanceof CatalogSyncServiceError) {
+      throw error;
+    }
+
+    throw new CatalogSyncServiceError(
+      CatalogSyncErrorCodes.INTERNAL_ERROR,
+      "An unexpected error occurred during catalog sync",
+      500,
+      { error: error instanceof Error ? error.message : "Unknown error" }
+    );
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Collection statistics service
+ *
+ * This module provides aggregated collection figures for the stats dashboard.
+ * All aggregation happens in Postgres (get_collection_stats and
+ * get_set_completion_stats) so that even a 10,000-card collection is
+ * summarized in a single round trip.
+ */
+
+import type { CollectionStatsDTO, SetCompletionStatsDTO } from "../../types";
+import type { SupabaseClient } from "../../db/supabase.client";
+import { CollectionServiceError, CollectionErrorCodes } from "./collection.service";
+
+/**
+ * Fetch overall statistics for a user's collection
+ *
+ * This function:
+ * 1. Calls the get_collection_stats RPC, which always returns one row
+ * 2. Maps the flat most_collected_set_* columns to MostCollectedSetDTO (or null)
+ *
+ * @param supabase - Supabase client instance from context.locals
+ * @param userId - The user ID to summarize
+ * @returns CollectionStatsDTO with totals and the most collected set
+ * @throws CollectionServiceError for database errors
+ */
+export async function getCollectionStats(supabase: SupabaseClient, userId: string): Promise<CollectionStatsDTO> {
+  try {
+    const { data, error } = await supabase.rpc("get_collection_stats", { p_user_id: userId }).single();
+
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.error("Collection stats query error:", { code: error.code, message: error.message, userId });
+
+      throw new CollectionServiceError(CollectionErrorCodes.INTERNAL_ERROR, "Failed to fetch collection stats", 500, {
+        code: error.code,
+      });
+    }
+
+    return {
+      total_cards: Number(data.total_cards),
+      unique_cards: Number(data.unique_cards),
+      wishlisted_count: Number(data.wishlisted_count),
+      sets_with_cards: Number(data.sets_with_cards),
+      most_collected_set: data.most_collected_set_id
+        ? {
+            id: data.most_collected_set_id,
+            name: data.most_collected_set_name,
+            owned: Number(data.most_collected_set_owned),
+            total: data.most_collected_set_total,
+          }
+        : null,
+    };
+  } catch (error) {
+    if (error instanceof CollectionServiceError) {
+      throw error;
+    }
+
+    throw new CollectionServiceError(
+      CollectionErrorCodes.INTERNAL_ERROR,
+      "An unexpected error occurred while fetching collection stats",
+      500,
+      { error: error instanceof Error ? error.message : "Unknown error" }
+    );
+  }
+}
+
+/**
+ * Fetch completion statistics for every set in a user's collection
+ *
+ * @param supabase - Supabase client instance from context.locals
+ * @param userId - The authenticated user's ID
+ * @param includeEmpty - Include sets with no owned cards
+ * @returns Set completion rows ordered by completion, then newest release
+ * @throws CollectionServiceError for database errors
+ */
+export async function getSetCompletionStats(
+  supabase: SupabaseClient,
+  userId: string,
+  includeEmpty: boolean
+): Promise<SetCompletionStatsDTO[]> {
+  try {
+    const { data, error } = await supabase.rpc("get_set_completion_stats", {
+      p_user_id: userId,
+      p_include_empty: includeEmpty,
+    });
+
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.error("Set completion stats query error:", { code: error.code, message: error.message, userId });
+
+      throw new CollectionServiceError(CollectionErrorCodes.INTERNAL_ERROR, "Failed to fetch set statistics", 500, {
+        code: error.code,
+      });
+    }
+
+    return (data || []).map((row) => ({
+      set_id: row.set_id,
+      set_name: row.set_name,
+      series: row.series,
+      total_cards: row.total_cards,
+      owned_cards: row.owned_cards,
+      completion_percentage: Number(row.completion_percentage),
+    }));
+  } catch (error) {
+    if (error instanceof CollectionServiceError) {
+      throw error;
+    }
+
+    throw new CollectionServiceError(
+      CollectionErrorCodes.INTERNAL_ERROR,
+      "An unexpected error occurred while fetching set statistics",
+      500,
+      { error: error instanceof Error ? error.message : "Unknown error" }
+    );
+  }
+}
@@ -0,0 +1,657 @@
+/**
+ * Collection service for managing user card collections
+ *
+ * This module provides business logic for collection operations using Supabase.
+ * It handles listing, adding (with duplicate merging), updating and removing
+ * user_cards entries, and maps database constraint/trigger failures to
+ * application error codes. An entry is identified by its card, variant,
+ * condition, language and grading, so the same card in two conditions is held
+ * as two entries.
+ */
+
+import type {
+  AddUserCardRequestDTO,
+  CardDTO,
+  CollectionQueryDTO,
+  ErrorResponseDTO,
+  PaginatedResponseDTO,
+  UpdateUserCardRequestDTO,
+  UserCardDTO,
+  UserCardGradingDTO,
+  UserCardWithCardDTO,
+} from "../../types";
+import type { SupabaseClient } from "../../db/supabase.client";
+import { buildPagination, escapeLikePattern, formatValidationErrors } from "../utils/api-helpers";
+import { CARD_DTO_COLUMNS } from "./card.service";
+import {
+  MAX_COLLECTION_CARDS,
+  MAX_VARIANT_QUANTITY,
+  userCardGradingSchema,
+  type UserCardGradingSchema,
+} from "../validation/collection.schema";
+
+/**
+ * Error codes for collection operations
+ */
+export const CollectionErrorCodes = {
+  NOT_FOUND: "NOT_FOUND",
+  CARD_LIMIT_EXCEEDED: "CARD_LIMIT_EXCEEDED",
+  VARIANT_LIMIT_EXCEEDED: "VARIANT_LIMIT_EXCEEDED",
+  CONCURRENT_UPDATE: "CONCURRENT_UPDATE",
+  ENTRY_EXISTS: "ENTRY_EXISTS",
+  VALIDATION_ERROR: "VALIDATION_ERROR",
+  INTERNAL_ERROR: "INTERNAL_ERROR",
+} as const;
+
+/**
+ * Custom error class for collection operations
+ */
+export class CollectionServiceError extends Error {
+  constructor(
+    public code: string,
+    public message: string,
+    public statusCode: number,
+    public details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = "CollectionServiceError";
+  }
+
+  toErrorResponse(): ErrorResponseDTO {
+    return {
+      error: {
+        code: this.code,
+        message: this.message,
+        details: this.details,
+      },
+    };
+  }
+}
+
+/**
+ * Result of adding a card to the collection
+ * `created` is false when an existing entry with the same identity was merged into
+ */
+export interface AddCardResult {
+  entry: UserCardWithCardDTO;
+  created: boolean;
+}
+
+/**
+ * Select clause for user_cards rows joined with their card
+ * The inner join allows filtering and ordering on card columns
+ */
+const USER_CARD_WITH_CARD_SELECT = `id, card_id, variant, quantity, condition, language, grading_company, grade, cert_number, created_at, updated_at, card:cards!inner(${CARD_DTO_COLUMNS})`;
+
+/**
+ * Postgres error codes surfaced by PostgREST
+ */
+const PG_RAISE_EXCEPTION = "P0001";
+const PG_UNIQUE_VIOLATION = "23505";
+const PG_CHECK_VIOLATION = "23514";
+const PG_FOREIGN_KEY_VIOLATION = "23503";
+
+/**
+ * Name of the check constraint on user_cards.quantity (1 to MAX_VARIANT_QUANTITY)
+ */
+const QUANTITY_CHECK_CONSTRAINT = "user_cards_quantity_check";
+
+/**
+ * Attempts at a guarded quantity increment before giving up on a contended entry
+ */
+const MAX_INCREMENT_ATTEMPTS = 3;
+
+/**
+ * Shape of a user_cards row joined with its card via USER_CARD_WITH_CARD_SELECT
+ */
+type UserCardRow = UserCardDTO & { card: CardDTO };
+
+/**
+ * Columns that, with user_id, make up the user_cards_entry_key unique constraint
+ */
+export type UserCardIdentity = Pick<UserCardDTO, "card_id" | "variant"> & UserCardGradingDTO;
+
+/**
+ * Translate a Postgres error raised while writing user_cards into a CollectionServiceError
+ *
+ * The check_card_limit trigger raises a plain exception (P0001) with a
+ * "Card limit exceeded" message; the quantity check constraint raises 23514,
+ * as do the condition and grading checks, which the request schemas normally
+ * catch first. Changing an entry's identity to that of another entry raises
+ * 23505 on user_cards_entry_key. Shared with the import service, which writes
+ * user_cards in bulk.
+ */
+export function mapWriteError(
+  error: { code: string; message: string; details?: string | null },
+  fallbackMessage: string
+): CollectionServiceError {
+  if (error.code === PG_RAISE_EXCEPTION && error.message.toLowerCase().includes("card limit exceeded")) {
+    return new CollectionServiceError(
+      CollectionErrorCodes.CARD_LIMIT_EXCEEDED,
+      `Collection limit of ${MAX_COLLECTION_CARDS.toLocaleString("en-US")} cards exceeded`,
+      422,
+      { limit: MAX_COLLECTION_CARDS }
+    );
+  }
+
+  // PostgREST reports the violated constraint's name only in the message
+  if (error.code === PG_CHECK_VIOLATION && error.message.includes(`"${QUANTITY_CHECK_CONSTRAINT}"`)) {
+    return new CollectionServiceError(
+      CollectionErrorCodes.VARIANT_LIMIT_EXCEEDED,
+      `Variant limit of ${MAX_VARIANT_QUANTITY.toLocaleString("en-US")} copies exceeded`,
+      422,
+      { limit: MAX_VARIANT_QUANTITY }
+    );
+  }
+
+  if (error.code === PG_CHECK_VIOLATION) {
+    return new CollectionServiceError(
+      CollectionErrorCodes.VALIDATION_ERROR,
+      "Invalid condition, language or grading for collection entry",
+      400,
+      { constraint: error.message }
+    );
+  }
+
+  if (error.code === PG_UNIQUE_VIOLATION) {
+    return new CollectionServiceError(
+      CollectionErrorCodes.ENTRY_EXISTS,
+      "Another collection entry already holds this card, variant, condition, language and grading",
+      409
+    );
+  }
+
+  if (error.code === PG_FOREIGN_KEY_VIOLATION) {
+    return new CollectionServiceError(CollectionErrorCodes.NOT_FOUND, "Card not found", 404);
+  }
+
+  // eslint-disable-next-line no-console
+  console.error("Collection write error:", { code: error.code, message: error.message, details: error.details });
+
+  return new CollectionServiceError(CollectionErrorCodes.INTERNAL_ERROR, fallbackMessage, 500, {
+    code: error.code,
+  });
+}
+
+/**
+ * Map a joined user_cards row to UserCardWithCardDTO
+ * @internal
+ */
+function toUserCardWithCard(row: UserCardRow): UserCardWithCardDTO {
+  const { card, ...entry } = row;
+  return { ...entry, card };
+}
+
+/**
+ * List the user's collection with filtering, sorting and pagination
+ *
+ * This function:
+ * 1. Joins user_cards with cards so filters/sorts can target card columns
+ * 2. Applies set, variant, condition, language, grading and name search filters
+ * 3. Applies sorting and range-based pagination with an exact count
+ * 4. Maps rows to PaginatedResponseDTO<UserCardWithCardDTO>
+ *
+ * @param supabase - Supabase client instance from context.locals
+ * @param userId - The authenticated user's ID
+ * @param query - Validated collection query parameters
+ * @returns Paginated collection entries with nested card data
+ * @throws CollectionServiceError for database errors
+ */
+export async function listCollection(
+  supabase: SupabaseClient,
+  userId: string,
+  query: Required<Pick<CollectionQueryDTO, "page" | "limit" | "sort" | "order">> & CollectionQueryDTO
+): Promise<PaginatedResponseDTO<UserCardWithCardDTO>> {
+  try {
+    const { page, limit, sort, order } = query;
+    const from = (page - 1) * limit;
+    const to = from + limit - 1;
+
+    let builder = supabase
+      .from("user_cards")
+      .select(USER_CARD_WITH_CARD_SELECT, { count: "exact" })
+      .eq("user_id", userId);
+
+    if (query.set_id) {
+      builder = builder.eq("card.set_id", query.set_id);
+    }
+
+    if (query.variant) {
+      builder = builder.eq("variant", query.variant);
+    }
+
+    if (query.condition) {
+      builder = builder.eq("condition", query.condition);
+    }
+
+    if (query.language) {
+      builder = builder.eq("language", query.language);
+    }
+
+    if (query.grading_company) {
+      builder = builder.eq("grading_company", query.grading_company);
+    }
+
+    if (query.graded !== undefined) {
+      builder = query.graded ? builder.not("grading_company", "is", null) : builder.is("grading_company", null);
+    }
+
+    if (query.search) {
+      builder = builder.ilike("card.name", `%${escapeLikePattern(query.search)}%`);
+    }
+
+    // Sorting by name orders on the joined card; ties fall back to id for stable pages
+    const ascending = order === "asc";
+    builder = sort === "name" ? builder.order("card(name)", { ascending }) : builder.order(sort, { ascending });
+    builder = builder.order("id", { ascending: true });
+
+    const { data, error, count } = await builder.range(from, to);
+
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.error("Collection list query error:", { code: error.code, message: error.message, userId });
+
+      throw new CollectionServiceError(CollectionErrorCodes.INTERNAL_ERROR, "Failed to fetch collection", 500, {
+        code: error.code,
+      });
+    }
+
+    return {
+      data: (data || []).map(toUserCardWithCard),
+      pagination: buildPagination(page, limit, count || 0),
+    };
+  } catch (error) {
+    if (error instanceof CollectionServiceError) {
+      throw error;
+    }
+
+    throw new CollectionServiceError(
+      CollectionErrorCodes.INTERNAL_ERROR,
+      "An unexpected error occurred while fetching collection",
+      500,
+      { error: error instanceof Error ? error.message : "Unknown error" }
+    );
+  }
+}
+
+/**
+ * Fetch a single collection entry owned by the user
+ *
+ * @param supabase - Supabase client instance from context.locals
+ * @param userId - The authenticated user's ID
+ * @param userCardId - The collection entry ID
+ * @returns Collection entry with nested card, or null if not found for this user
+ * @throws CollectionServiceError for database errors
+ */
+export async function getCollectionEntry(
+  supabase: SupabaseClient,
+  userId: string,
+  userCardId: string
+): Promise<UserCardWithCardDTO | null> {
+  try {
+    const { data, error } = await supabase
+      .from("user_cards")
+      .select(USER_CARD_WITH_CARD_SELECT)
+      .eq("id", userCardId)
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.error("Collection entry query error:", { code: error.code, message: error.message, userId, userCardId });
+
+      throw new CollectionServiceError(CollectionErrorCodes.INTERNAL_ERROR, "Failed to fetch collection entry", 500, {
+        code: error.code,
+      });
+    }
+
+    return data ? toUserCardWithCard(data) : null;
+  } catch (error) {
+    if (error instanceof CollectionServiceError) {
+      throw error;
+    }
+
+    throw new CollectionServiceError(
+      CollectionErrorCodes.INTERNAL_ERROR,
+      "An unexpected error occurred while fetching collection entry",
+      500,
+      { error: error instanceof Error ? error.message : "Unknown error" }
+    );
+  }
+}
+
+/**
+ * Add a card to the user's collection, merging duplicates
+ *
+ * This function:
+ * 1. Verifies the card exists in the catalog
+ * 2. Looks up an existing entry with the same card, variant, condition, language and grading
+ * 3. Increments the existing quantity, or inserts a new entry
+ * 4. Retries as an increment if a concurrent insert wins the unique constraint
+ *    (a contended increment is retried a few times, then reported as 409)
+ * 5. Maps card limit trigger and quantity check failures to 422 errors
+ *
+ * @param supabase - Supabase client instance from context.locals
+ * @param userId - The authenticated user's ID
+ * @param payload - Validated add-card payload
+ * @returns The resulting entry and whether it was newly created
+ * @throws CollectionServiceError for missing cards, limit violations or database errors
+ */
+export async function addCardToCollection(
+  supabase: SupabaseClient,
+  userId: string,
+  payload: AddUserCardRequestDTO
+): Promise<AddCardResult> {
+  try {
+    const quantity = payload.quantity ?? 1;
+    const identity: UserCardIdentity = {
+      card_id: payload.card_id,
+      variant: payload.variant,
+      condition: payload.grading_company ? null : (payload.condition ?? "NM"),
+      language: payload.language ?? "en",
+      grading_company: payload.grading_company ?? null,
+      grade: payload.grade ?? null,
+      cert_number: payload.cert_number ?? null,
+    };
+
+    // Step 1: Verify the card exists
+    const { data: card, error: cardError } = await supabase
+      .from("cards")
+      .select("id")
+      .eq("id", payload.card_id)
+      .maybeSingle();
+
+    if (cardError) {
+      throw mapWriteError(cardError, "Failed to verify card");
+    }
+
+    if (!card) {
+      throw new CollectionServiceError(CollectionErrorCodes.NOT_FOUND, "Card not found", 404, {
+        card_id: payload.card_id,
+      });
+    }
+
+    // Step 2: Merge into an existing entry when present
+    const merged = await incrementExistingEntry(supabase, userId, identity, quantity);
+    if (merged) {
+      return { entry: merged, created: false };
+    }
+
+    // Step 3: Insert a new entry
+    const { data: inserted, error: insertError } = await supabase
+      .from("user_cards")
+      .insert({
+        user_id: userId,
+        ...identity,
+        quantity,
+      })
+      .select(USER_CARD_WITH_CARD_SELECT)
+      .single();
+
+    if (insertError) {
+      // Step 4: A concurrent request created the entry first; merge into it instead
+      if (insertError.code === PG_UNIQUE_VIOLATION) {
+        const raced = await incrementExistingEntry(supabase, userId, identity, quantity);
+        if (raced) {
+          return { entry: raced, created: false };
+        }
+      }
+
+      throw mapWriteError(insertError, "Failed to add card to collection");
+    }
+
+    return { entry: toUserCardWithCard(inserted), created: true };
+  } catch (error) {
+    if (error instanceof CollectionServiceError) {
+      throw error;
+    }
+
+    throw new CollectionServiceError(
+      CollectionErrorCodes.INTERNAL_ERROR,
+      "An unexpected error occurred while adding card to collection",
+      500,
+      { error: error instanceof Error ? error.message : "Unknown error" }
+    );
+  }
+}
+
+/**
+ * Increment the quantity of an existing entry with the given identity
+ *
+ * @returns The updated entry, or null when no matching entry exists
+ * @throws CollectionServiceError when the increment would break a limit, or
+ *   (409) when concurrent writes keep changing the entry
+ * @internal
+ */
+async function incrementExistingEntry(
+  supabase: SupabaseClient,
+  userId: string,
+  identity: UserCardIdentity,
+  quantity: number,
+  attempt = 1
+): Promise<UserCardWithCardDTO | null> {
+  // Nullable identity columns are matched with IS NULL, as the unique constraint treats nulls as equal
+  let lookup = supabase
+    .from("user_cards")
+    .select("id, quantity")
+    .eq("user_id", userId)
+    .eq("card_id", identity.card_id)
+    .eq("variant", identity.variant)
+    .eq("language", identity.language);
+  lookup = identity.condition === null ? lookup.is("condition", null) : lookup.eq("condition", identity.condition);
+  lookup =
+    identity.grading_company === null
+      ? lookup.is("grading_company", null)
+      : lookup.eq("grading_company", identity.grading_company);
+  lookup = identity.grade === null ? lookup.is("grade", null) : lookup.eq("grade", identity.grade);
+  lookup =
+    identity.cert_number === null ? lookup.is("cert_number", null) : lookup.eq("cert_number", identity.cert_number);
+
+  const { data: existing, error: existingError } = await lookup.maybeSingle();
+
+  if (existingError) {
+    throw mapWriteError(existingError, "Failed to look up existing collection entry");
+  }
+
+  if (!existing) {
+    return null;
+  }
+
+  const newQuantity = existing.quantity + quantity;
+  if (newQuantity > MAX_VARIANT_QUANTITY) {
+    throw new CollectionServiceError(
+      CollectionErrorCodes.VARIANT_LIMIT_EXCEEDED,
+      `Variant limit of ${MAX_VARIANT_QUANTITY.toLocaleString("en-US")} copies exceeded`,
+      422,
+      { limit: MAX_VARIANT_QUANTITY, current_quantity: existing.quantity }
+    );
+  }
+
+  // Guard on the previously read quantity so concurrent increments are not lost
+  const { data: updated, error: updateError } = await supabase
+    .from("user_cards")
+    .update({ quantity: newQuantity })
+    .eq("id", existing.id)
+    .eq("quantity", existing.quantity)
+    .select(USER_CARD_WITH_CARD_SELECT)
+    .maybeSingle();
+
+  if (updateError) {
+    throw mapWriteError(updateError, "Failed to update collection entry");
+  }
+
+  // Another request changed the quantity in between; re-read and try again
+  if (!updated) {
+    if (attempt >= MAX_INCREMENT_ATTEMPTS) {
+      throw new CollectionServiceError(
+        CollectionErrorCodes.CONCURRENT_UPDATE,
+        "Collection entry is being changed by another request; please try again",
+        409
+      );
+    }
+
+    return incrementExistingEntry(supabase, userId, identity, quantity, attempt + 1);
+  }
+
+  return toUserCardWithCard(updated);
+}
+
+/**
+ * Merge a partial grading update into an entry's current condition and grading
+ *
+ * Setting grading_company (or clearing it) describes the copy afresh: grade,
+ * cert_number and condition are taken from the update only. Otherwise the
+ * given fields replace the current ones, so a raw card can change condition
+ * and a graded card can change grade or cert number on their own.
+ * @internal
+ */
+function mergeGradingUpdate(current: Omit<UserCardGradingDTO, "language">, payload: UpdateUserCardRequestDTO) {
+  if (payload.grading_company !== undefined) {
+    return {
+      condition: payload.condition,
+      grading_company: payload.grading_company,
+      grade: payload.grade,
+      cert_number: payload.cert_number,
+    };
+  }
+
+  return {
+    condition: payload.condition !== undefined ? payload.condition : current.condition,
+    grading_company: current.grading_company,
+    grade: payload.grade !== undefined ? payload.grade : current.grade,
+    cert_number: payload.cert_number !== undefined ? payload.cert_number : current.cert_number,
+  };
+}
+
+/**
+ * Update the quantity, language, condition or grading of a collection entry
+ *
+ * Condition and grading changes are merged into the entry's current values and
+ * checked against the grading rules of userCardGradingSchema.
+ *
+ * @param supabase - Supabase client instance from context.locals
+ * @param userId - The authenticated user's ID
+ * @param userCardId - The collection entry ID
+ * @param payload - Validated partial update payload
+ * @returns Updated entry with nested card, or null if not found for this user
+ * @throws CollectionServiceError VALIDATION_ERROR for invalid grading, ENTRY_EXISTS when
+ *   the change matches another entry, limit violations or database errors
+ */
+export async function updateCollectionEntry(
+  supabase: SupabaseClient,
+  userId: string,
+  userCardId: string,
+  payload: UpdateUserCardRequestDTO
+): Promise<UserCardWithCardDTO | null> {
+  try {
+    let grading: UserCardGradingSchema | undefined;
+
+    const { quantity, language, ...gradingPayload } = payload;
+    if (Object.values(gradingPayload).some((value) => value !== undefined)) {
+      const { data: current, error: fetchError } = await supabase
+        .from("user_cards")
+        .select("condition, grading_company, grade, cert_number")
+        .eq("id", userCardId)
+        .eq("user_id", userId)
+        .maybeSingle();
+
+      if (fetchError) {
+        // eslint-disable-next-line no-console
+        console.error("Collection entry query error:", {
+          code: fetchError.code,
+          message: fetchError.message,
+          userId,
+          userCardId,
+        });
+
+        throw new CollectionServiceError(CollectionErrorCodes.INTERNAL_ERROR, "Failed to fetch collection entry", 500, {
+          code: fetchError.code,
+        });
+      }
+
+      if (!current) {
+        return null;
+      }
+
+      const gradingResult = userCardGradingSchema.safeParse(mergeGradingUpdate(current, payload));
+      if (!gradingResult.success) {
+        throw new CollectionServiceError(CollectionErrorCodes.VALIDATION_ERROR, "Validation failed", 400, {
+          fields: formatValidationErrors(gradingResult.error),
+        });
+      }
+      grading = gradingResult.data;
+    }
+
+    const { data, error } = await supabase
+      .from("user_cards")
+      .update({ quantity, language, ...grading })
+      .eq("id", userCardId)
+      .eq("user_id", userId)
+      .select(USER_CARD_WITH_CARD_SELECT)
+      .maybeSingle();
+
+    if (error) {
+      throw mapWriteError(error, "Failed to update collection entry");
+    }
+
+    return data ? toUserCardWithCard(data) : null;
+  } catch (error) {
+    if (error instanceof CollectionServiceError) {
+      throw error;
+    }
+
+    throw new CollectionServiceError(
+      CollectionErrorCodes.INTERNAL_ERROR,
+      "An unexpected error occurred while updating collection entry",
+      500,
+      { error: error instanceof Error ? error.message : "Unknown error" }
+    );
+  }
+}
+
+/**
+ * Remove a collection entry owned by the user
+ *
+ * @param supabase - Supabase client instance from context.locals
+ * @param userId - The authenticated user's ID
+ * @param userCardId - The collection entry ID
+ * @returns The removed entry's card_id, or null if not found for this user
+ * @throws CollectionServiceError for database errors
+ */
+export async function removeCollectionEntry(
+  supabase: SupabaseClient,
+  userId: string,
+  userCardId: string
+): Promise<{ card_id: string } | null> {
+  try {
+    const { data, error } = await supabase
+      .from("user_cards")
+      .delete()
+      .eq("id", userCardId)
+      .eq("user_id", userId)
+      .select("card_id")
+      .maybeSingle();
+
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.error("Collection delete error:", { code: error.code, message: error.message, userId, userCardId });
+
+      throw new CollectionServiceError(CollectionErrorCodes.INTERNAL_ERROR, "Failed to remove collection entry", 500, {
+        code: error.code,
+      });
+    }
+
+    return data;
+  } catch (error) {
+    if (error instanceof CollectionServiceError) {
+      throw error;
+    }
+
+    throw new CollectionServiceError(
+      CollectionErrorCodes.INTERNAL_ERROR,
+      "An unexpected error occurred while removing collection entry",
+      500,
+      { error: error instanceof Error ? error.message : "Unknown error" }
+    );
+  }
+}
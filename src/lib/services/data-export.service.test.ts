@@ -0,0 +1,80 @@
+import type { User } from "@supabase/supabase-js";
+import { describe, expect, it, vi } from "vitest";
+
+import type { SupabaseClient } from "../../db/supabase.client";
+import { buildAccountDataExport } from "./data-export.service";
+import { ProfileServiceError } from "./profile.service";
+
+const USER = {
+  id: "user-1",
+  email: "ash@example.com",
+  created_at: "2026-01-11T12:00:00Z",
+  last_sign_in_at: "2026-10-19T08:00:00Z",
+} as User;
+
+/**
+ * Supabase client over in-memory tables that applies the gt/order/limit calls of a keyset page
+ */
+function createSupabase(tables: Record<string, { id: string }[]>, failingTable?: string) {
+  const requests: string[] = [];
+
+  const from = (table: string) => {
+    let lastId = "";
+    const query = {
+      select: () => query,
+      eq: () => query,
+      gt: (_column: string, value: string) => {
+        lastId = value;
+        return query;
+      },
+      order: () => query,
+      maybeSingle: async () => ({ data: { id: USER.id }, error: null }),
+      limit: async (count: number) => {
+        requests.push(`${table}>${lastId}`);
+        if (table === failingTable) {
+          return { data: null, error: { code: "57014", message: "canceling statement due to statement timeout" } };
+        }
+        const rows = (tables[table] ?? []).filter((row) => row.id > lastId).sort((a, b) => a.id.localeCompare(b.id));
+        return { data: rows.slice(0, count), error: null };
+      },
+    };
+    return query;
+  };
+
+  return { supabase: { from } as unknown as SupabaseClient, requests };
+}
+
+const ids = (count: number) => Array.from({ length: count }, (_, i) => ({ id: `id-${String(i).padStart(5, "0")}` }));
+
+describe("buildAccountDataExport", () => {
+  it("reads every section in batches after the last id", async () => {
+    const { supabase, requests } = createSupabase({
+      user_cards: ids(2001),
+      wishlist_items: ids(3),
+      analytics_events: [],
+    });
+
+    const dataExport = await buildAccountDataExport(supabase, USER);
+
+    expect(dataExport.collection).toHaveLength(2001);
+    expect(dataExport.wishlist).toHaveLength(3);
+    expect(dataExport.analytics_events).toEqual([]);
+    expect(requests).toEqual([
+      "user_cards>",
+      "user_cards>id-00999",
+      "user_cards>id-01999",
+      "wishlist_items>",
+      "analytics_events>",
+    ]);
+  });
+
+  it("names the section whose query failed", async () => {
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => undefined);
+    const { supabase } = createSupabase({}, "wishlist_items");
+
+    const error = await buildAccountDataExport(supabase, USER).catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(ProfileServiceError);
+    expect(error).toMatchObject({ statusCode: 500, details: { section: "wishlist", code: "57014" } });
+    consoleError.mockRestore();
+  });
+});
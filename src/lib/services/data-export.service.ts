@@ -0,0 +1,189 @@
+/**
+ * Account data export service (GDPR right of access)
+ *
+ * This module gathers everything stored about a user: the auth account, the
+ * profile, every collection entry and wishlist item and the user's own
+ * analytics events. Rows are read through the request-scoped client, so RLS
+ * limits every query to the caller's data. The bundle is returned as one JSON
+ * document or as a ZIP archive with one JSON file per section.
+ */
+
+import type { User } from "@supabase/supabase-js";
+import type { AccountDataExportDTO } from "../../types";
+import type { SupabaseClient } from "../../db/supabase.client";
+import { createZipArchive } from "../utils/zip";
+import { ProfileErrorCodes, ProfileServiceError } from "./profile.service";
+
+/**
+ * Number of rows fetched per database round trip
+ */
+const DATA_EXPORT_BATCH_SIZE = 1000;
+
+/**
+ * Content types per data export format
+ */
+export const DATA_EXPORT_CONTENT_TYPES = {
+  zip: "application/zip",
+  json: "application/json; charset=utf-8",
+} as const;
+
+/**
+ * Build the data export filename, e.g. tcgcollectr_data_20260111_120000.zip
+ *
+ * @param format - Export format used as the file extension
+ * @param now - Timestamp to embed (UTC)
+ * @returns Filename for the Content-Disposition header
+ */
+export function buildDataExportFilename(
+  format: keyof typeof DATA_EXPORT_CONTENT_TYPES,
+  now: Date = new Date()
+): string {
+  const stamp = now.toISOString().replace(/[-:]/g, "").replace("T", "_").slice(0, 15);
+  return `tcgcollectr_data_${stamp}.${format}`;
+}
+
+/**
+ * Throw a ProfileServiceError for a failed export query
+ * @internal
+ */
+function throwExportError(section: string, error: { code: string; message: string }, userId: string): never {
+  // eslint-disable-next-line no-console
+  console.error("Data export query error:", { section, code: error.code, message: error.message, userId });
+
+  throw new ProfileServiceError(ProfileErrorCodes.INTERNAL_ERROR, "Failed to export account data", 500, {
+    section,
+    code: error.code,
+  });
+}
+
+/**
+ * Filtered select on a table with an id column, as returned by supabase.from(...).select(...).eq(...)
+ * @internal
+ */
+interface IdPagedQuery<Row extends { id: string }> {
+  gt(column: "id", value: string): IdPagedQuery<Row>;
+  order(
+    column: "id",
+    options: { ascending: boolean }
+  ): {
+    limit(
+      count: number
+    ): PromiseLike<{ data: Row[]; error: null } | { data: null; error: { code: string; message: string } }>;
+  };
+}
+
+/**
+ * Read every row of a query with keyset pagination on id
+ *
+ * Each batch is an indexed range after the last id seen, so large histories
+ * are fetched in bounded batches without OFFSET scans.
+ *
+ * @param section - Export section, reported when a query fails
+ * @param userId - The user being exported, for error logging
+ * @param selectRows - Builds the filtered select; called once per batch
+ * @returns All rows ordered by id
+ * @throws ProfileServiceError for database errors
+ * @internal
+ */
+async function fetchAllById<Row extends { id: string }>(
+  section: string,
+  userId: string,
+  selectRows: () => IdPagedQuery<Row>
+): Promise<Row[]> {
+  const rows: Row[] = [];
+
+  for (let lastId: string | null = null; ; ) {
+    const query: IdPagedQuery<Row> = lastId ? selectRows().gt("id", lastId) : selectRows();
+    const { data, error } = await query.order("id", { ascending: true }).limit(DATA_EXPORT_BATCH_SIZE);
+    if (error) {
+      throwExportError(section, error, userId);
+    }
+
+    rows.push(...data);
+    if (data.length < DATA_EXPORT_BATCH_SIZE) {
+      return rows;
+    }
+    lastId = data[data.length - 1].id;
+  }
+}
+
+/**
+ * Gather all data stored about a user
+ *
+ * Collection entries, wishlist items and analytics events are read with
+ * fetchAllById, so large histories are fetched in bounded batches.
+ *
+ * @param supabase - Supabase client instance from context.locals (bound to the user)
+ * @param user - The authenticated user
+ * @returns AccountDataExportDTO with every section filled in
+ * @throws ProfileServiceError for database errors
+ */
+export async function buildAccountDataExport(supabase: SupabaseClient, user: User): Promise<AccountDataExportDTO> {
+  const { data: profile, error: profileError } = await supabase
+    .from("profiles")
+    .select("*")
+    .eq("id", user.id)
+    .maybeSingle();
+
+  if (profileError) {
+    throwExportError("profile", profileError, user.id);
+  }
+
+  const collection = await fetchAllById("collection", user.id, () =>
+    supabase
+      .from("user_cards")
+      .select(
+        "id, card_id, variant, quantity, condition, language, grading_company, grade, cert_number, created_at, updated_at"
+      )
+      .eq("user_id", user.id)
+  );
+
+  const wishlist = await fetchAllById("wishlist", user.id, () =>
+    supabase
+      .from("wishlist_items")
+      .select(
+        "id, card_id, desired_variant, desired_quantity, priority, max_price, fulfilled_at, created_at, updated_at"
+      )
+      .eq("user_id", user.id)
+  );
+
+  const analyticsEvents = await fetchAllById("analytics_events", user.id, () =>
+    supabase.from("analytics_events").select("id, event_type, event_data, created_at").eq("user_id", user.id)
+  );
+
+  return {
+    exported_at: new Date().toISOString(),
+    account: {
+      id: user.id,
+      email: user.email ?? null,
+      created_at: user.created_at,
+      last_sign_in_at: user.last_sign_in_at ?? null,
+    },
+    profile,
+    collection,
+    wishlist,
+    analytics_events: analyticsEvents,
+  };
+}
+
+/**
+ * Pack a data export into a ZIP archive
+ *
+ * @param dataExport - Export from buildAccountDataExport
+ * @returns Archive with account.json, profile.json, collection.json, wishlist.json and analytics_events.json
+ */
+export function createAccountDataArchive(dataExport: AccountDataExportDTO): Uint8Array {
+  const toJson = (value: unknown) => `${JSON.stringify(value, null, 2)}\n`;
+  const exportedAt = new Date(dataExport.exported_at);
+
+  return createZipArchive(
+    [
+      { name: "account.json", content: toJson({ ...dataExport.account, exported_at: dataExport.exported_at }) },
+      { name: "profile.json", content: toJson(dataExport.profile) },
+      { name: "collection.json", content: toJson(dataExport.collection) },
+      { name: "wishlist.json", content: toJson(dataExport.wishlist) },
+      { name: "analytics_events.json", content: toJson(dataExport.analytics_events) },
+    ],
+    exportedAt
+  );
+}
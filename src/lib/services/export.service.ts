@@ -0,0 +1,212 @@
+/**
+ * Export service for streaming a user's collection as CSV or JSON
+ *
+ * This module reads the collection in keyset-paginated batches and encodes
+ * each batch straight into a ReadableStream, so a 10,000-card collection is
+ * never held in memory as a whole. CSV output follows RFC 4180.
+ */
+
+import type { ExportCardRowDTO, ExportQueryDTO } from "../../types";
+import type { SupabaseClient } from "../../db/supabase.client";
+import { CollectionServiceError, CollectionErrorCodes } from "./collection.service";
+import { toCsvRecord } from "../utils/csv";
+
+/**
+ * Column order for CSV export (also the CSV header row)
+ */
+export const EXPORT_COLUMNS: readonly (keyof ExportCardRowDTO)[] = [
+  "card_id",
+  "name",
+  "set",
+  "card_number",
+  "rarity",
+  "quantity",
+  "variant",
+  "condition",
+  "language",
+  "grading_company",
+  "grade",
+  "cert_number",
+];
+
+/**
+ * Number of user_cards rows fetched per database round trip
+ */
+const EXPORT_BATCH_SIZE = 1000;
+
+/**
+ * Content types per export format
+ */
+export const EXPORT_CONTENT_TYPES = {
+  csv: "text/csv; charset=utf-8",
+  json: "application/json; charset=utf-8",
+} as const;
+
+/**
+ * Build the export filename, e.g. collection_20260111_120000.csv
+ *
+ * @param format - Export format used as the file extension
+ * @param now - Timestamp to embed (UTC)
+ * @returns Filename for the Content-Disposition header
+ */
+export function buildExportFilename(format: keyof typeof EXPORT_CONTENT_TYPES, now: Date = new Date()): string {
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  const date = `${now.getUTCFullYear()}${pad(now.getUTCMonth() + 1)}${pad(now.getUTCDate())}`;
+  const time = `${pad(now.getUTCHours())}${pad(now.getUTCMinutes())}${pad(now.getUTCSeconds())}`;
+  return `collection_${date}_${time}.${format}`;
+}
+
+/**
+ * Iterate the user's collection as export rows, one batch at a time
+ *
+ * Uses keyset pagination on user_cards.id so each batch is an indexed range
+ * scan and rows are neither skipped nor repeated across batches.
+ *
+ * @param supabase - Supabase client instance from context.locals
+ * @param userId - The authenticated user's ID
+ * @param filters - Optional set, variant, condition, language and grading filters
+ * @throws CollectionServiceError for database errors
+ */
+export async function* iterateExportRows(
+  supabase: SupabaseClient,
+  userId: string,
+  filters: Omit<ExportQueryDTO, "format">
+): AsyncGenerator<ExportCardRowDTO[]> {
+  let lastId: string | null = null;
+
+  for (;;) {
+    let builder = supabase
+      .from("user_cards")
+      .select(
+        "id, card_id, variant, quantity, condition, language, grading_company, grade, cert_number, card:cards!inner(name, card_number, rarity, set_id, set:sets!inner(name))"
+      )
+      .eq("user_id", userId);
+
+    if (filters.set_id) {
+      builder = builder.eq("card.set_id", filters.set_id);
+    }
+
+    if (filters.variant) {
+      builder = builder.eq("variant", filters.variant);
+    }
+
+    if (filters.condition) {
+      builder = builder.eq("condition", filters.condition);
+    }
+
+    if (filters.language) {
+      builder = builder.eq("language", filters.language);
+    }
+
+    if (filters.grading_company) {
+      builder = builder.eq("grading_company", filters.grading_company);
+    }
+
+    if (filters.graded !== undefined) {
+      builder = filters.graded ? builder.not("grading_company", "is", null) : builder.is("grading_company", null);
+    }
+
+    if (lastId) {
+      builder = builder.gt("id", lastId);
+    }
+
+    const { data, error } = await builder.order("id", { ascending: true }).limit(EXPORT_BATCH_SIZE);
+
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.error("Collection export query error:", { code: error.code, message: error.message, userId });
+
+      throw new CollectionServiceError(CollectionErrorCodes.INTERNAL_ERROR, "Failed to export collection", 500, {
+        code: error.code,
+      });
+    }
+
+    if (!data || data.length === 0) {
+      return;
+    }
+
+    yield data.map((row) => ({
+      card_id: row.card_id,
+      name: row.card.name,
+      set: row.card.set.name,
+      card_number: row.card.card_number,
+      rarity: row.card.rarity,
+      quantity: row.quantity,
+      variant: row.variant,
+      condition: row.condition,
+      language: row.language,
+      grading_company: row.grading_company,
+      grade: row.grade,
+      cert_number: row.cert_number,
+    }));
+
+    if (data.length < EXPORT_BATCH_SIZE) {
+      return;
+    }
+
+    lastId = data[data.length - 1].id;
+  }
+}
+
+/**
+ * Create a byte stream of the user's collection in the requested format
+ *
+ * Rows are pulled from the database only as the consumer reads, so slow
+ * clients apply backpressure instead of buffering the whole collection.
+ * JSON output is a single array of ExportCardRowDTO objects.
+ *
+ * @param supabase - Supabase client instance from context.locals
+ * @param userId - The authenticated user's ID
+ * @param query - Validated export format and filters
+ * @param onComplete - Called with the number of exported rows once the stream finishes
+ * @returns ReadableStream of UTF-8 encoded export content
+ */
+export function createCollectionExportStream(
+  supabase: SupabaseClient,
+  userId: string,
+  query: Required<Pick<ExportQueryDTO, "format">> & ExportQueryDTO,
+  onComplete?: (rowCount: number) => void
+): ReadableStream<Uint8Array> {
+  const { format, ...filters } = query;
+  const encoder = new TextEncoder();
+  const batches = iterateExportRows(supabase, userId, filters);
+  let rowCount = 0;
+  let started = false;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        if (!started) {
+          started = true;
+          controller.enqueue(encoder.encode(format === "csv" ? toCsvRecord(EXPORT_COLUMNS) : "["));
+          return;
+        }
+
+        const { value: rows, done } = await batches.next();
+
+        if (done) {
+          if (format === "json") {
+            controller.enqueue(encoder.encode("]"));
+          }
+          controller.close();
+          onComplete?.(rowCount);
+          return;
+        }
+
+        const chunk =
+          format === "csv"
+            ? rows.map((row) => toCsvRecord(EXPORT_COLUMNS.map((column) => row[column]))).join("")
+            : rows.map((row, index) => (rowCount + index > 0 ? "," : "") + JSON.stringify(row)).join("");
+
+        rowCount += rows.length;
+        controller.enqueue(encoder.encode(chunk));
+      } catch (error) {
+        // Headers are already sent; abort the body so the client sees a failed download
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await batches.return(undefined);
+    },
+  });
+}
@@ -0,0 +1,635 @@
+/**
+ * Third-party import adapters
+ *
+ * This module converts exports from other collection trackers into the
+ * normalized rows consumed by importCollectionRows. Each adapter extracts
+ * quantity, set code or name, collector number, printing, condition and
+ * language from its own format; a shared resolver then maps set codes (sets.ptcgo_code), set names
+ * and numbering to cards.id/card_number, and reports every line it cannot match.
+ */
+
+import type {
+  CardCondition,
+  CardLanguage,
+  CardVariant,
+  ImportFormat,
+  ImportRowResultDTO,
+  ImportSourceRowDTO,
+} from "../../types";
+import type { SupabaseClient } from "../../db/supabase.client";
+import { CollectionServiceError, CollectionErrorCodes } from "./collection.service";
+import { ImportErrorCodes, MAX_IMPORT_ROWS } from "./import.service";
+import { chunk } from "../utils/batch";
+import { parseCsv } from "../utils/csv";
+
+/**
+ * Import formats handled by an adapter (everything except our own CSV)
+ */
+export type ExternalImportFormat = Exclude<ImportFormat, "tcgcollectr">;
+
+/**
+ * Card reference extracted from a third-party export line
+ */
+interface ExternalCardRow {
+  row: number;
+  source: string;
+  quantity: string;
+  name: string | null;
+  set_code: string | null;
+  set_name: string | null;
+  card_number: string | null;
+  printing: string | null;
+  condition: string | null;
+  language: string | null;
+}
+
+/**
+ * Adapter output: extracted card references plus lines that could not be parsed
+ */
+interface AdapterResult {
+  rows: ExternalCardRow[];
+  rejected: ImportRowResultDTO[];
+}
+
+/**
+ * Header aliases per extracted field, matched case-insensitively
+ */
+interface CsvAdapterColumns {
+  quantity: string[];
+  name: string[];
+  set_code: string[];
+  set_name: string[];
+  card_number: string[];
+  printing: string[];
+  condition: string[];
+  language: string[];
+}
+
+/**
+ * TCGplayer app collection export
+ * e.g. Quantity,Name,Simple Name,Set,Card Number,Set Code,Printing,Condition,Language,Rarity,Product ID,SKU
+ */
+const TCGPLAYER_COLUMNS: CsvAdapterColumns = {
+  quantity: ["quantity", "total quantity", "add to quantity"],
+  name: ["simple name", "name", "product name"],
+  set_code: ["set code"],
+  set_name: ["set", "set name"],
+  card_number: ["card number", "number"],
+  printing: ["printing"],
+  condition: ["condition"],
+  language: ["language"],
+};
+
+/**
+ * Dragon Shield and DeckBox-style collection exports
+ * e.g. Quantity,Trade Quantity,Card Name,Set Code,Set Name,Card Number,Condition,Printing,Language
+ * or   Count,Tradelist Count,Name,Edition,Card Number,Condition,Language,Foil
+ */
+const DRAGONSHIELD_COLUMNS: CsvAdapterColumns = {
+  quantity: ["quantity", "count"],
+  name: ["card name", "name"],
+  set_code: ["set code"],
+  set_name: ["set name", "edition", "set"],
+  card_number: ["card number", "number", "collector number"],
+  printing: ["printing", "foil"],
+  condition: ["condition"],
+  language: ["language"],
+};
+
+/**
+ * Condition labels by prefix of the letters-only, lowercased label, checked in order
+ * Covers TCGplayer (Near Mint ... Damaged, optionally followed by a printing),
+ * Dragon Shield (Mint, NearMint, Excellent, Good, LightPlayed, Played, Poor) and DeckBox
+ */
+const CONDITION_PREFIXES: [string, CardCondition][] = [
+  ["nearmint", "NM"],
+  ["mint", "NM"],
+  ["nm", "NM"],
+  ["lightlyplayed", "LP"],
+  ["lightplayed", "LP"],
+  ["excellent", "LP"],
+  ["lp", "LP"],
+  ["moderatelyplayed", "MP"],
+  ["played", "MP"],
+  ["good", "MP"],
+  ["mp", "MP"],
+  ["heavilyplayed", "HP"],
+  ["hp", "HP"],
+  ["damaged", "DMG"],
+  ["poor", "DMG"],
+  ["dmg", "DMG"],
+];
+
+/**
+ * Card languages by letters-only, lowercased name or code
+ * TCGplayer writes Chinese as "Chinese (S)" and "Chinese (T)"
+ */
+const LANGUAGE_NAMES: Record<string, CardLanguage> = {
+  english: "en",
+  en: "en",
+  japanese: "ja",
+  ja: "ja",
+  jp: "ja",
+  korean: "ko",
+  ko: "ko",
+  kr: "ko",
+  chineset: "zh-Hant",
+  traditionalchinese: "zh-Hant",
+  chinesetraditional: "zh-Hant",
+  zhhant: "zh-Hant",
+  zhtw: "zh-Hant",
+  chineses: "zh-Hans",
+  simplifiedchinese: "zh-Hans",
+  chinesesimplified: "zh-Hans",
+  zhhans: "zh-Hans",
+  zhcn: "zh-Hans",
+  french: "fr",
+  fr: "fr",
+  german: "de",
+  de: "de",
+  italian: "it",
+  it: "it",
+  spanish: "es",
+  es: "es",
+  portuguese: "pt",
+  pt: "pt",
+  dutch: "nl",
+  nl: "nl",
+  polish: "pl",
+  pl: "pl",
+  russian: "ru",
+  ru: "ru",
+  indonesian: "id",
+  id: "id",
+  thai: "th",
+  th: "th",
+};
+
+/**
+ * PTCGL deck list section headers, e.g. "Pokémon: 12" or "Total Cards: 60"
+ */
+const PTCGL_SECTION_PATTERN = /^(pok[eé]mon|trainer|energy|total cards)\s*:/i;
+
+/**
+ * PTCGL deck list card line: "<count> <name> <set code> <number>", optionally prefixed with "* "
+ */
+const PTCGL_CARD_PATTERN = /^\*?\s*(\d+)\s+(.+)\s+([A-Za-z0-9-]+)\s+([A-Za-z]*\d+[A-Za-z]*)$/;
+
+/**
+ * Page size for catalog reads (matches PostgREST max_rows)
+ */
+const CATALOG_PAGE_SIZE = 1000;
+
+/**
+ * Number of sets whose cards are fetched per query
+ */
+const SET_LOOKUP_BATCH_SIZE = 10;
+
+/**
+ * Normalize a name for comparison: strip accents and punctuation, lowercase
+ * @internal
+ */
+function normalizeName(value: string): string {
+  return value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+/**
+ * Normalize a collector number: "045/193" and "45" both become "45", "TG05/TG30" becomes "TG05"
+ * @internal
+ */
+function normalizeCardNumber(value: string): string {
+  return value
+    .split("/")[0]
+    .trim()
+    .toUpperCase()
+    .replace(/^0+(?=\d)/, "");
+}
+
+/**
+ * Map a third-party printing/foil label to a CardVariant
+ *
+ * Empty labels mean a regular printing. First edition wins over holo because
+ * CardVariant has no combined "first edition holo" value.
+ *
+ * @internal
+ */
+function mapPrinting(value: string | null): CardVariant | null {
+  const label = (value ?? "").trim().toLowerCase();
+
+  if (!label || ["normal", "unlimited", "non-foil", "nonfoil", "regular"].includes(label)) {
+    return "normal";
+  }
+  if (label.includes("1st") || label.includes("first")) {
+    return "firstEdition";
+  }
+  if (label.includes("reverse")) {
+    return "reverse";
+  }
+  if (label.includes("holo") || label.includes("foil")) {
+    return "holo";
+  }
+
+  return null;
+}
+
+/**
+ * Map a third-party condition label to a CardCondition
+ *
+ * Empty labels mean Near Mint, matching the collection default.
+ *
+ * @internal
+ */
+function mapCondition(value: string | null): CardCondition | null {
+  const label = (value ?? "").toLowerCase().replace(/[^a-z]/g, "");
+
+  if (!label) {
+    return "NM";
+  }
+
+  return CONDITION_PREFIXES.find(([prefix]) => label.startsWith(prefix))?.[1] ?? null;
+}
+
+/**
+ * Map a third-party language name or code to a CardLanguage
+ *
+ * Empty values mean English, matching the collection default.
+ *
+ * @internal
+ */
+function mapLanguage(value: string | null): CardLanguage | null {
+  const label = (value ?? "").toLowerCase().replace(/[^a-z]/g, "");
+
+  if (!label) {
+    return "en";
+  }
+
+  return LANGUAGE_NAMES[label] ?? null;
+}
+
+/**
+ * Build an error result for a line that never reached the import pipeline
+ * @internal
+ */
+function rejectRow(row: ExternalCardRow, code: string, message: string): ImportRowResultDTO {
+  const quantity = Number(row.quantity);
+
+  return {
+    row: row.row,
+    card_id: "",
+    variant: mapPrinting(row.printing) ?? row.printing ?? "",
+    quantity: Number.isInteger(quantity) ? quantity : null,
+    status: "error",
+    source: row.source,
+    error: { code, message },
+  };
+}
+
+/**
+ * Parse a third-party CSV export using header aliases
+ *
+ * A leading "sep=," line (written by Dragon Shield for Excel) is skipped.
+ *
+ * @internal
+ * @throws CollectionServiceError (400) for malformed files or missing columns
+ */
+function parseAdapterCsv(text: string, aliases: CsvAdapterColumns): AdapterResult {
+  let records;
+  try {
+    records = parseCsv(text);
+  } catch (error) {
+    throw new CollectionServiceError(CollectionErrorCodes.VALIDATION_ERROR, "Malformed CSV file", 400, {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+
+  if (records[0]?.fields[0]?.trim().toLowerCase().startsWith("sep=")) {
+    records = records.slice(1);
+  }
+
+  const [header, ...dataRecords] = records;
+  if (!header) {
+    throw new CollectionServiceError(CollectionErrorCodes.VALIDATION_ERROR, "Import file is empty", 400);
+  }
+
+  const columns = header.fields.map((name) => name.trim().toLowerCase());
+  const indexOf = (field: keyof CsvAdapterColumns) => {
+    const alias = aliases[field].find((candidate) => columns.includes(candidate));
+    return alias ? columns.indexOf(alias) : -1;
+  };
+
+  const index = {
+    quantity: indexOf("quantity"),
+    name: indexOf("name"),
+    set_code: indexOf("set_code"),
+    set_name: indexOf("set_name"),
+    card_number: indexOf("card_number"),
+    printing: indexOf("printing"),
+    condition: indexOf("condition"),
+    language: indexOf("language"),
+  };
+
+  const missingColumns = [
+    index.quantity < 0 && aliases.quantity[0],
+    index.set_code < 0 && index.set_name < 0 && [...aliases.set_code, ...aliases.set_name][0],
+    index.card_number < 0 && index.name < 0 && aliases.card_number[0],
+  ].filter((column): column is string => Boolean(column));
+
+  if (missingColumns.length > 0) {
+    throw new CollectionServiceError(CollectionErrorCodes.VALIDATION_ERROR, "Import file is missing columns", 400, {
+      missing_columns: missingColumns,
+    });
+  }
+
+  const field = (fields: string[], position: number) => (position >= 0 ? fields[position]?.trim() || null : null);
+
+  const rows = dataRecords
+    .filter((record) => record.fields.some((value) => value.trim() !== ""))
+    .map((record) => {
+      const row: ExternalCardRow = {
+        row: record.line,
+        source: "",
+        quantity: field(record.fields, index.quantity) ?? "",
+        name: field(record.fields, index.name),
+        set_code: field(record.fields, index.set_code),
+        set_name: field(record.fields, index.set_name),
+        card_number: field(record.fields, index.card_number),
+        printing: field(record.fields, index.printing),
+        condition: field(record.fields, index.condition),
+        language: field(record.fields, index.language),
+      };
+      row.source = [row.name, row.set_code ?? row.set_name, row.card_number, row.printing].filter(Boolean).join(" ");
+      return row;
+    });
+
+  return { rows, rejected: [] };
+}
+
+/**
+ * Parse a Pokémon TCG Live deck list
+ *
+ * Section headers and blank lines are ignored; any other line that is not
+ * "<count> <name> <set code> <number>" is reported as INVALID_LINE.
+ *
+ * @internal
+ */
+function parsePtcglDeckList(text: string): AdapterResult {
+  const rows: ExternalCardRow[] = [];
+  const rejected: ImportRowResultDTO[] = [];
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line || PTCGL_SECTION_PATTERN.test(line)) {
+      return;
+    }
+
+    const match = PTCGL_CARD_PATTERN.exec(line);
+    const row: ExternalCardRow = {
+      row: index + 1,
+      source: line,
+      quantity: match?.[1] ?? "",
+      name: match?.[2].trim() ?? null,
+      set_code: match?.[3] ?? null,
+      set_name: null,
+      card_number: match?.[4] ?? null,
+      printing: null,
+      condition: null,
+      language: null,
+    };
+
+    if (match) {
+      rows.push(row);
+    } else {
+      rejected.push(rejectRow(row, ImportErrorCodes.INVALID_LINE, "Unrecognized deck list line"));
+    }
+  });
+
+  return { rows, rejected };
+}
+
+/**
+ * Catalog card fields used for matching
+ */
+interface CatalogCard {
+  id: string;
+  set_id: string;
+  name: string;
+  card_number: string;
+}
+
+/**
+ * Fetch every card belonging to the given sets
+ * @internal
+ */
+async function fetchCardsForSets(supabase: SupabaseClient, setIds: string[]): Promise<CatalogCard[]> {
+  const cards: CatalogCard[] = [];
+
+  for (const ids of chunk(setIds, SET_LOOKUP_BATCH_SIZE)) {
+    for (let from = 0; ; from += CATALOG_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from("cards")
+        .select("id, set_id, name, card_number")
+        .in("set_id", ids)
+        .order("id", { ascending: true })
+        .range(from, from + CATALOG_PAGE_SIZE - 1);
+
+      if (error) {
+        // eslint-disable-next-line no-console
+        console.error("Import catalog lookup error:", { code: error.code, message: error.message });
+
+        throw new CollectionServiceError(CollectionErrorCodes.INTERNAL_ERROR, "Failed to look up cards", 500, {
+          code: error.code,
+        });
+      }
+
+      cards.push(...(data || []));
+
+      if (!data || data.length < CATALOG_PAGE_SIZE) {
+        break;
+      }
+    }
+  }
+
+  return cards;
+}
+
+/**
+ * Map extracted card references to catalog cards
+ *
+ * This function:
+ * 1. Resolves each row's set by PTCGO code or set id, falling back to set name
+ *    (with a TCGplayer-style "SV02: " prefix stripped)
+ * 2. Matches the collector number within the candidate sets, or the card name
+ *    when the format has no numbers
+ * 3. Maps the printing to a CardVariant and the condition and language labels
+ *    to their codes (deck lists carry neither, so they import as Near Mint English)
+ *
+ * A set code shared by several sets is fine as long as exactly one of them has
+ * a card with that number; otherwise the line is reported as AMBIGUOUS_CARD.
+ *
+ * @internal
+ */
+async function resolveRows(supabase: SupabaseClient, adapterResult: AdapterResult) {
+  const { data: sets, error } = await supabase.from("sets").select("id, name, ptcgo_code");
+
+  if (error) {
+    // eslint-disable-next-line no-console
+    console.error("Import set lookup error:", { code: error.code, message: error.message });
+
+    throw new CollectionServiceError(CollectionErrorCodes.INTERNAL_ERROR, "Failed to look up sets", 500, {
+      code: error.code,
+    });
+  }
+
+  const setsByCode = new Map<string, string[]>();
+  const setsById = new Map<string, string>();
+  const setsByName = new Map<string, string>();
+  for (const set of sets || []) {
+    if (set.ptcgo_code) {
+      const code = set.ptcgo_code.toUpperCase();
+      setsByCode.set(code, [...(setsByCode.get(code) ?? []), set.id]);
+    }
+    setsById.set(set.id.toLowerCase(), set.id);
+    setsByName.set(normalizeName(set.name), set.id);
+  }
+
+  const resolveSetIds = (row: ExternalCardRow): string[] => {
+    const ids = new Set<string>();
+
+    if (row.set_code) {
+      setsByCode.get(row.set_code.toUpperCase())?.forEach((id) => ids.add(id));
+      const byId = setsById.get(row.set_code.toLowerCase());
+      if (byId) ids.add(byId);
+    }
+
+    if (ids.size === 0 && row.set_name) {
+      const byName =
+        setsByName.get(normalizeName(row.set_name)) ??
+        setsByName.get(normalizeName(row.set_name.replace(/^[^:]+:\s*/, ""))) ??
+        setsById.get(row.set_name.toLowerCase());
+      if (byName) ids.add(byName);
+    }
+
+    return Array.from(ids);
+  };
+
+  const rowSets = adapterResult.rows.map((row) => ({ row, setIds: resolveSetIds(row) }));
+  const cards = await fetchCardsForSets(supabase, Array.from(new Set(rowSets.flatMap(({ setIds }) => setIds))));
+
+  const cardsByNumber = new Map<string, CatalogCard[]>();
+  const cardsByName = new Map<string, CatalogCard[]>();
+  for (const card of cards) {
+    const numberKey = `${card.set_id}|${normalizeCardNumber(card.card_number)}`;
+    const nameKey = `${card.set_id}|${normalizeName(card.name)}`;
+    cardsByNumber.set(numberKey, [...(cardsByNumber.get(numberKey) ?? []), card]);
+    cardsByName.set(nameKey, [...(cardsByName.get(nameKey) ?? []), card]);
+  }
+
+  const rows: ImportSourceRowDTO[] = [];
+  const rejected = [...adapterResult.rejected];
+
+  for (const { row, setIds } of rowSets) {
+    if (setIds.length === 0) {
+      rejected.push(rejectRow(row, ImportErrorCodes.UNKNOWN_SET, "Set not found in catalog"));
+      continue;
+    }
+
+    let candidates = row.card_number
+      ? setIds.flatMap((setId) => cardsByNumber.get(`${setId}|${normalizeCardNumber(row.card_number as string)}`) ?? [])
+      : setIds.flatMap((setId) => cardsByName.get(`${setId}|${normalizeName(row.name ?? "")}`) ?? []);
+
+    if (candidates.length > 1 && row.card_number && row.name) {
+      const name = normalizeName(row.name);
+      candidates = candidates.filter((card) => normalizeName(card.name) === name);
+    }
+
+    if (candidates.length === 0) {
+      rejected.push(rejectRow(row, ImportErrorCodes.UNMATCHED_CARD, "No catalog card matches this line"));
+      continue;
+    }
+
+    if (candidates.length > 1) {
+      rejected.push(rejectRow(row, ImportErrorCodes.AMBIGUOUS_CARD, "Line matches more than one catalog card"));
+      continue;
+    }
+
+    const variant = mapPrinting(row.printing);
+    if (!variant) {
+      rejected.push(rejectRow(row, ImportErrorCodes.INVALID_VARIANT, `Unrecognized printing: ${row.printing}`));
+      continue;
+    }
+
+    const condition = mapCondition(row.condition);
+    if (!condition) {
+      rejected.push(rejectRow(row, ImportErrorCodes.INVALID_CONDITION, `Unrecognized condition: ${row.condition}`));
+      continue;
+    }
+
+    const language = mapLanguage(row.language);
+    if (!language) {
+      rejected.push(rejectRow(row, ImportErrorCodes.INVALID_LANGUAGE, `Unrecognized language: ${row.language}`));
+      continue;
+    }
+
+    rows.push({
+      row: row.row,
+      card_id: candidates[0].id,
+      variant,
+      quantity: row.quantity,
+      condition,
+      language,
+      source: row.source,
+    });
+  }
+
+  return { rows, rejected };
+}
+
+/**
+ * Parse a third-party export and map its lines to catalog cards
+ *
+ * @param supabase - Supabase client instance from context.locals
+ * @param format - Source format of the uploaded file
+ * @param text - File contents
+ * @returns Rows ready for importCollectionRows, and rejected lines for the report
+ * @throws CollectionServiceError for malformed files, too many rows and database errors
+ */
+export async function resolveExternalImport(
+  supabase: SupabaseClient,
+  format: ExternalImportFormat,
+  text: string
+): Promise<{ rows: ImportSourceRowDTO[]; rejected: ImportRowResultDTO[] }> {
+  const adapterResult =
+    format === "ptcgl"
+      ? parsePtcglDeckList(text)
+      : parseAdapterCsv(text, format === "tcgplayer" ? TCGPLAYER_COLUMNS : DRAGONSHIELD_COLUMNS);
+
+  const lineCount = adapterResult.rows.length + adapterResult.rejected.length;
+  if (lineCount > MAX_IMPORT_ROWS) {
+    throw new CollectionServiceError(
+      CollectionErrorCodes.VALIDATION_ERROR,
+      `Import is limited to ${MAX_IMPORT_ROWS.toLocaleString("en-US")} rows`,
+      400,
+      { limit: MAX_IMPORT_ROWS, rows: lineCount }
+    );
+  }
+
+  try {
+    return await resolveRows(supabase, adapterResult);
+  } catch (error) {
+    if (error instanceof CollectionServiceError) {
+      throw error;
+    }
+
+    throw new CollectionServiceError(
+      CollectionErrorCodes.INTERNAL_ERROR,
+      "An unexpected error occurred while matching import rows",
+      500,
+      { error: error instanceof Error ? error.message : "Unknown error" }
+    );
+  }
+}
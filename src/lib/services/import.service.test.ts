@@ -0,0 +1,231 @@
+import { describe, expect, it } from "vitest";
+
+import type { ImportRowResultDTO } from "../../types";
+import { toCsvRecord } from "../utils/csv";
+import { importRowSchema } from "../validation/collection.schema";
+import { EXPORT_COLUMNS } from "./export.service";
+import {
+  entryKey,
+  ImportErrorCodes,
+  parseCollectionCsv,
+  planImportRows,
+  type EntryState,
+  type MatchedCard,
+} from "./import.service";
+
+const CARDS = new Map<string, MatchedCard>([
+  ["base1-4", { name: "Charizard", set_id: "base1", card_number: "4" }],
+  ["base1-58", { name: "Pikachu", set_id: "base1", card_number: "58" }],
+]);
+
+/**
+ * Validated row for base1-4 normal, Near Mint English raw
+ */
+function row(number: number, overrides: Partial<ImportRowResultDTO> = {}): ImportRowResultDTO {
+  return {
+    row: number,
+    card_id: "base1-4",
+    variant: "normal",
+    quantity: 1,
+    condition: "NM",
+    language: "en",
+    grading_company: null,
+    grade: null,
+    cert_number: null,
+    status: "error",
+    ...overrides,
+  };
+}
+
+/**
+ * Existing entry with the identity of a row
+ */
+function existingEntry(source: ImportRowResultDTO, id: string, quantity: number): Map<string, EntryState> {
+  const entry: EntryState = {
+    id,
+    card_id: source.card_id,
+    variant: source.variant,
+    condition: source.condition ?? null,
+    language: source.language ?? "en",
+    grading_company: source.grading_company ?? null,
+    grade: source.grade ?? null,
+    cert_number: source.cert_number ?? null,
+    quantity,
+  };
+  return new Map([[entryKey(entry), entry]]);
+}
+
+describe("planImportRows", () => {
+  it("creates new entries and reports unknown cards", () => {
+    const rows = [row(2, { quantity: 3 }), row(3, { card_id: "nope-1" })];
+
+    const { entries, totalCards } = planImportRows(rows, CARDS, new Map(), 10, "merge");
+
+    expect(entries).toEqual([expect.objectContaining({ card_id: "base1-4", quantity: 3, previousQuantity: 0 })]);
+    expect(entries[0].id).toBeUndefined();
+    expect(totalCards).toBe(13);
+    expect(rows[0]).toMatchObject({ status: "create", card: CARDS.get("base1-4") });
+    expect(rows[1]).toMatchObject({ status: "error", error: { code: ImportErrorCodes.UNKNOWN_CARD } });
+  });
+
+  it("adds to existing entries when merging", () => {
+    const rows = [row(2, { quantity: 3 })];
+
+    const { entries, totalCards } = planImportRows(rows, CARDS, existingEntry(rows[0], "entry-1", 2), 2, "merge");
+
+    expect(entries).toEqual([expect.objectContaining({ id: "entry-1", quantity: 5, previousQuantity: 2 })]);
+    expect(totalCards).toBe(5);
+    expect(rows[0].status).toBe("merge");
+  });
+
+  it("overwrites existing entries when replacing", () => {
+    const rows = [row(2, { quantity: 1 })];
+
+    const { entries, totalCards } = planImportRows(rows, CARDS, existingEntry(rows[0], "entry-1", 4), 4, "replace");
+
+    expect(entries).toEqual([expect.objectContaining({ id: "entry-1", quantity: 1, previousQuantity: 4 })]);
+    expect(totalCards).toBe(1);
+    expect(rows[0].status).toBe("replace");
+  });
+
+  it("sums repeated rows for the same entry whatever the strategy", () => {
+    const rows = [row(2, { quantity: 2 }), row(3, { quantity: 5 })];
+
+    const { entries, totalCards } = planImportRows(rows, CARDS, existingEntry(rows[0], "entry-1", 4), 4, "replace");
+
+    expect(entries).toEqual([expect.objectContaining({ id: "entry-1", quantity: 7, previousQuantity: 4 })]);
+    expect(totalCards).toBe(7);
+    expect(rows.map((result) => result.status)).toEqual(["replace", "merge"]);
+  });
+
+  it("keeps entries with a different condition, language or grading apart", () => {
+    const rows = [
+      row(2),
+      row(3, { condition: "LP" }),
+      row(4, { language: "ja" }),
+      row(5, { condition: null, grading_company: "PSA", grade: 9, cert_number: "12345678" }),
+    ];
+
+    const { entries } = planImportRows(rows, CARDS, new Map(), 0, "merge");
+
+    expect(entries).toHaveLength(4);
+    expect(rows.every((result) => result.status === "create")).toBe(true);
+  });
+
+  it("skips rows over the per-entry limit and plans later rows that fit", () => {
+    const rows = [row(2, { quantity: 999 }), row(3, { quantity: 2 }), row(4, { quantity: 1 })];
+
+    const { entries, totalCards } = planImportRows(rows, CARDS, new Map(), 0, "merge");
+
+    expect(entries).toEqual([expect.objectContaining({ quantity: 1000 })]);
+    expect(totalCards).toBe(1000);
+    expect(rows[1]).toMatchObject({ status: "error", error: { code: ImportErrorCodes.VARIANT_LIMIT_EXCEEDED } });
+    expect(rows[2].status).toBe("merge");
+  });
+
+  it("skips rows over the collection limit and counts replaced quantities once", () => {
+    const rows = [
+      row(2, { card_id: "base1-58", quantity: 2 }),
+      row(3, { quantity: 1 }),
+      row(4, { card_id: "base1-58", quantity: 1 }),
+    ];
+    // The existing 5 copies are part of the 9,999 cards already collected
+    const existing = existingEntry(rows[1], "entry-1", 5);
+
+    const { entries, totalCards } = planImportRows(rows, CARDS, existing, 9999, "replace");
+
+    expect(rows[0]).toMatchObject({ status: "error", error: { code: ImportErrorCodes.CARD_LIMIT_EXCEEDED } });
+    // Replacing 5 copies with 1 frees room for the last row
+    expect(rows.slice(1).map((result) => result.status)).toEqual(["replace", "create"]);
+    expect(entries).toEqual([
+      expect.objectContaining({ id: "entry-1", quantity: 1, previousQuantity: 5 }),
+      expect.objectContaining({ card_id: "base1-58", quantity: 1, previousQuantity: 0 }),
+    ]);
+    expect(totalCards).toBe(9996);
+  });
+});
+
+describe("parseCollectionCsv", () => {
+  it("matches columns in any order and case and removes the formula guard", () => {
+    const csv = "Quantity,CARD_ID,variant,grade\r\n2,base1-4,normal,\r\n1,'-promo,holo,9.5\r\n";
+
+    expect(parseCollectionCsv(csv)).toEqual([
+      {
+        row: 2,
+        card_id: "base1-4",
+        variant: "normal",
+        quantity: "2",
+        condition: undefined,
+        language: undefined,
+        grading_company: undefined,
+        grade: "",
+        cert_number: undefined,
+        wishlisted: undefined,
+      },
+      expect.objectContaining({ row: 3, card_id: "-promo", grade: "9.5" }),
+    ]);
+  });
+
+  it("reads rows flagged as wishlisted in older exports as owned entries", () => {
+    const csv = "card_id,name,variant,quantity,wishlisted\r\nbase1-4,Charizard,holo,2,true\r\n";
+    const [source] = parseCollectionCsv(csv);
+
+    expect(importRowSchema.parse(source)).toMatchObject({
+      card_id: "base1-4",
+      variant: "holo",
+      quantity: 2,
+      condition: "NM",
+      wishlisted: true,
+    });
+  });
+
+  it("rejects files without the required columns", () => {
+    expect(() => parseCollectionCsv("card_id,quantity\nbase1-4,1\n")).toThrow("Import file is missing columns");
+  });
+});
+
+describe("export round trip", () => {
+  it("imports every exported entry back into the entry it came from", () => {
+    const exported = [
+      row(2, { quantity: 3 }),
+      row(3, { card_id: "base1-58", variant: "reverse", condition: "LP", language: "ja" }),
+      row(4, { condition: null, grading_company: "BGS", grade: 9.5, cert_number: "0012345678" }),
+    ];
+    const existing = new Map(
+      exported.flatMap((entry, index) => [...existingEntry(entry, `entry-${index}`, entry.quantity ?? 1)])
+    );
+    const csv = [
+      toCsvRecord(EXPORT_COLUMNS),
+      ...exported.map((entry) =>
+        toCsvRecord([
+          entry.card_id,
+          "Name",
+          "base1",
+          "4",
+          "Rare",
+          entry.quantity,
+          entry.variant,
+          entry.condition ?? null,
+          entry.language ?? "en",
+          entry.grading_company ?? null,
+          entry.grade ?? null,
+          entry.cert_number ?? null,
+        ])
+      ),
+    ].join("");
+
+    const rows = parseCollectionCsv(csv).map((source) => ({
+      ...row(source.row),
+      ...importRowSchema.parse(source),
+    }));
+    const { entries, totalCards } = planImportRows(rows, CARDS, existing, 5, "replace");
+
+    expect(rows.map((result) => result.status)).toEqual(["replace", "replace", "replace"]);
+    expect(entries.map((entry) => [entry.id, entry.quantity, entry.previousQuantity])).toEqual([
+      ["entry-0", 3, 3],
+      ["entry-1", 1, 1],
+      ["entry-2", 1, 1],
+    ]);
+    expect(totalCards).toBe(5);
+  });
+});
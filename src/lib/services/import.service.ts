@@ -0,0 +1,510 @@
+/**
+ * Import service for loading cards into a user's collection from a file
+ *
+ * This module turns an uploaded file into normalized import rows, validates
+ * each row against the catalog and the collection limits, and applies the
+ * resulting plan in a single apply_collection_import call. The same planning
+ * step powers dry runs, so a preview reports exactly what a real import would do.
+ */
+
+import type {
+  ImportQueryDTO,
+  ImportRowResultDTO,
+  ImportSourceRowDTO,
+  ImportResultDTO,
+  ImportStrategy,
+} from "../../types";
+import type { SupabaseClient } from "../../db/supabase.client";
+import {
+  CollectionServiceError,
+  CollectionErrorCodes,
+  mapWriteError,
+  type UserCardIdentity,
+} from "./collection.service";
+import { getCollectionStats } from "./collection-stats.service";
+import { chunk } from "../utils/batch";
+import { parseCsv, unescapeCsvFormula } from "../utils/csv";
+import { importRowSchema, MAX_COLLECTION_CARDS, MAX_VARIANT_QUANTITY } from "../validation/collection.schema";
+
+/**
+ * Row-level error codes reported in ImportRowResultDTO.error
+ */
+export const ImportErrorCodes = {
+  INVALID_LINE: "INVALID_LINE",
+  UNKNOWN_SET: "UNKNOWN_SET",
+  UNMATCHED_CARD: "UNMATCHED_CARD",
+  AMBIGUOUS_CARD: "AMBIGUOUS_CARD",
+  MISSING_CARD_ID: "MISSING_CARD_ID",
+  UNKNOWN_CARD: "UNKNOWN_CARD",
+  INVALID_VARIANT: "INVALID_VARIANT",
+  INVALID_QUANTITY: "INVALID_QUANTITY",
+  INVALID_CONDITION: "INVALID_CONDITION",
+  INVALID_LANGUAGE: "INVALID_LANGUAGE",
+  INVALID_GRADING: "INVALID_GRADING",
+  INVALID_WISHLISTED: "INVALID_WISHLISTED",
+  CARD_LIMIT_EXCEEDED: "CARD_LIMIT_EXCEEDED",
+  VARIANT_LIMIT_EXCEEDED: "VARIANT_LIMIT_EXCEEDED",
+} as const;
+
+/**
+ * Columns that must be present in an import CSV header
+ * Condition, language and grading columns are optional; other ExportCardRowDTO
+ * columns (name, set, card_number, rarity) are informational
+ */
+export const IMPORT_REQUIRED_COLUMNS = ["card_id", "variant", "quantity"] as const;
+
+/**
+ * Optional import CSV columns describing the entry's condition, language and grading
+ */
+const IMPORT_GRADING_COLUMNS = ["condition", "language", "grading_company", "grade", "cert_number"] as const;
+
+/**
+ * Maximum number of data rows per import
+ * Every valid row adds at least one card, so more rows can never fit
+ */
+export const MAX_IMPORT_ROWS = MAX_COLLECTION_CARDS;
+
+/**
+ * Maximum accepted upload size in bytes (2 MB)
+ */
+export const MAX_IMPORT_BYTES = 2 * 1024 * 1024;
+
+/**
+ * Number of ids sent per catalog/collection lookup (keeps request URLs short)
+ */
+const LOOKUP_BATCH_SIZE = 200;
+
+/**
+ * Row-level error code per invalid field
+ */
+const FIELD_ERROR_CODES: Record<string, string> = {
+  card_id: ImportErrorCodes.MISSING_CARD_ID,
+  variant: ImportErrorCodes.INVALID_VARIANT,
+  quantity: ImportErrorCodes.INVALID_QUANTITY,
+  condition: ImportErrorCodes.INVALID_CONDITION,
+  language: ImportErrorCodes.INVALID_LANGUAGE,
+  grading_company: ImportErrorCodes.INVALID_GRADING,
+  grade: ImportErrorCodes.INVALID_GRADING,
+  cert_number: ImportErrorCodes.INVALID_GRADING,
+  wishlisted: ImportErrorCodes.INVALID_WISHLISTED,
+};
+
+/**
+ * Catalog fields echoed back for matched rows
+ */
+export interface MatchedCard {
+  name: string;
+  set_id: string;
+  card_number: string;
+}
+
+/**
+ * Existing or planned state of one collection entry
+ * `id` is set for entries that already exist in the collection
+ */
+export type EntryState = UserCardIdentity & { id?: string; quantity: number };
+
+/**
+ * Planned write for one collection entry
+ */
+export type PlannedEntry = EntryState & { previousQuantity: number };
+
+/**
+ * Postgres error codes raised by apply_collection_import
+ */
+const PG_SERIALIZATION_FAILURE = "40001";
+const PG_UNIQUE_VIOLATION = "23505";
+
+/**
+ * Key identifying a collection entry by card, variant, condition, language and grading
+ * @internal
+ */
+export function entryKey(entry: UserCardIdentity): string {
+  return [
+    entry.card_id,
+    entry.variant,
+    entry.condition,
+    entry.language,
+    entry.grading_company,
+    entry.grade,
+    entry.cert_number,
+  ]
+    .map((value) => value ?? "")
+    .join("\u0000");
+}
+
+/**
+ * Identity of the entry a validated row is written to
+ * @internal
+ */
+function toIdentity(result: ImportRowResultDTO): UserCardIdentity {
+  return {
+    card_id: result.card_id,
+    variant: result.variant,
+    condition: result.condition ?? null,
+    language: result.language ?? "en",
+    grading_company: result.grading_company ?? null,
+    grade: result.grade ?? null,
+    cert_number: result.cert_number ?? null,
+  };
+}
+
+/**
+ * Parse a collection CSV (as produced by the export endpoint) into import rows
+ *
+ * The header row is matched case-insensitively and column order is free.
+ * Only card_id, variant and quantity are required. Condition, language and
+ * grading columns are optional, so older exports import as Near Mint English
+ * raw cards; wishlisted is only found in exports made before the wishlist
+ * moved to its own table, and those rows are owned cards like any other.
+ *
+ * @param text - CSV document
+ * @returns Normalized rows with their source line numbers
+ * @throws CollectionServiceError (400) for malformed files or missing columns
+ */
+export function parseCollectionCsv(text: string): ImportSourceRowDTO[] {
+  let records;
+  try {
+    records = parseCsv(text);
+  } catch (error) {
+    throw new CollectionServiceError(CollectionErrorCodes.VALIDATION_ERROR, "Malformed CSV file", 400, {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+
+  // Fields the export guarded against formula injection are read back without the guard
+  const [header, ...dataRecords] = records.map((record) => ({
+    ...record,
+    fields: record.fields.map(unescapeCsvFormula),
+  }));
+  if (!header) {
+    throw new CollectionServiceError(CollectionErrorCodes.VALIDATION_ERROR, "Import file is empty", 400);
+  }
+
+  const columns = header.fields.map((name) => name.trim().toLowerCase());
+  const missingColumns = IMPORT_REQUIRED_COLUMNS.filter((column) => !columns.includes(column));
+  if (missingColumns.length > 0) {
+    throw new CollectionServiceError(CollectionErrorCodes.VALIDATION_ERROR, "Import file is missing columns", 400, {
+      missing_columns: missingColumns,
+    });
+  }
+
+  const indexOf = (column: string) => columns.indexOf(column);
+  const optionalField = (fields: string[], column: string) =>
+    indexOf(column) >= 0 ? (fields[indexOf(column)] ?? "") : undefined;
+
+  return dataRecords.map((record) => ({
+    row: record.line,
+    card_id: record.fields[indexOf("card_id")] ?? "",
+    variant: record.fields[indexOf("variant")] ?? "",
+    quantity: record.fields[indexOf("quantity")] ?? "",
+    ...Object.fromEntries(IMPORT_GRADING_COLUMNS.map((column) => [column, optionalField(record.fields, column)])),
+    wishlisted: optionalField(record.fields, "wishlisted"),
+  }));
+}
+
+/**
+ * Fetch catalog data for the given card ids
+ * @internal
+ */
+async function fetchMatchedCards(supabase: SupabaseClient, cardIds: string[]): Promise<Map<string, MatchedCard>> {
+  const cards = new Map<string, MatchedCard>();
+
+  for (const ids of chunk(cardIds, LOOKUP_BATCH_SIZE)) {
+    const { data, error } = await supabase.from("cards").select("id, name, set_id, card_number").in("id", ids);
+
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.error("Import card lookup error:", { code: error.code, message: error.message });
+
+      throw new CollectionServiceError(CollectionErrorCodes.INTERNAL_ERROR, "Failed to look up cards", 500, {
+        code: error.code,
+      });
+    }
+
+    for (const card of data || []) {
+      cards.set(card.id, { name: card.name, set_id: card.set_id, card_number: card.card_number });
+    }
+  }
+
+  return cards;
+}
+
+/**
+ * Fetch the user's existing entries for the given card ids, keyed by entryKey
+ * @internal
+ */
+async function fetchExistingEntries(
+  supabase: SupabaseClient,
+  userId: string,
+  cardIds: string[]
+): Promise<Map<string, EntryState>> {
+  const entries = new Map<string, EntryState>();
+
+  for (const ids of chunk(cardIds, LOOKUP_BATCH_SIZE)) {
+    const { data, error } = await supabase
+      .from("user_cards")
+      .select("id, card_id, variant, condition, language, grading_company, grade, cert_number, quantity")
+      .eq("user_id", userId)
+      .in("card_id", ids);
+
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.error("Import collection lookup error:", { code: error.code, message: error.message, userId });
+
+      throw new CollectionServiceError(CollectionErrorCodes.INTERNAL_ERROR, "Failed to fetch collection", 500, {
+        code: error.code,
+      });
+    }
+
+    for (const entry of data || []) {
+      entries.set(entryKey(entry), entry);
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Plan validated rows in file order against the existing collection and limits
+ *
+ * Each row's result is updated in place: matched rows get their catalog card
+ * and a create/merge/replace status; rows for unknown cards, or that would
+ * exceed the per-entry (1,000) or collection (10,000) limit, get an error and
+ * are left out of the plan. Later rows may still fit after a rejected one.
+ *
+ * @param rows - Validated row results, in file order
+ * @param cards - Catalog cards by id
+ * @param existing - The user's existing entries by entryKey
+ * @param totalCardsBefore - The user's current total card count
+ * @param strategy - How rows apply to existing entries
+ * @returns Planned entries (one per entry key) and the resulting total card count
+ */
+export function planImportRows(
+  rows: ImportRowResultDTO[],
+  cards: Map<string, MatchedCard>,
+  existing: Map<string, EntryState>,
+  totalCardsBefore: number,
+  strategy: ImportStrategy
+): { entries: PlannedEntry[]; totalCards: number } {
+  const plan = new Map<string, PlannedEntry>();
+  let total = totalCardsBefore;
+
+  for (const result of rows) {
+    const card = cards.get(result.card_id);
+    if (!card) {
+      result.error = { code: ImportErrorCodes.UNKNOWN_CARD, message: "Card not found in catalog" };
+      continue;
+    }
+    result.card = card;
+
+    const identity = toIdentity(result);
+    const key = entryKey(identity);
+    const rowQuantity = result.quantity as number;
+    const planned = plan.get(key);
+    const current = existing.get(key);
+
+    let next: PlannedEntry;
+    let status: ImportStrategy | "create";
+    if (planned) {
+      next = { ...planned, quantity: planned.quantity + rowQuantity };
+      status = "merge";
+    } else if (current) {
+      next = {
+        ...current,
+        quantity: strategy === "merge" ? current.quantity + rowQuantity : rowQuantity,
+        previousQuantity: current.quantity,
+      };
+      status = strategy;
+    } else {
+      next = { ...identity, quantity: rowQuantity, previousQuantity: 0 };
+      status = "create";
+    }
+
+    if (next.quantity > MAX_VARIANT_QUANTITY) {
+      result.error = {
+        code: ImportErrorCodes.VARIANT_LIMIT_EXCEEDED,
+        message: `Variant limit of ${MAX_VARIANT_QUANTITY.toLocaleString("en-US")} copies would be exceeded`,
+      };
+      continue;
+    }
+
+    const delta = next.quantity - (planned?.quantity ?? current?.quantity ?? 0);
+    if (total + delta > MAX_COLLECTION_CARDS) {
+      result.error = {
+        code: ImportErrorCodes.CARD_LIMIT_EXCEEDED,
+        message: `Collection limit of ${MAX_COLLECTION_CARDS.toLocaleString("en-US")} cards would be exceeded`,
+      };
+      continue;
+    }
+
+    plan.set(key, next);
+    total += delta;
+    result.status = status;
+  }
+
+  return { entries: Array.from(plan.values()), totalCards: total };
+}
+
+/**
+ * Validate, plan and (unless dry_run) apply an import
+ *
+ * This function:
+ * 1. Validates every row (card_id, variant, quantity, condition, language,
+ *    grading, wishlisted); the wishlisted flag of older exports only ever
+ *    marked owned cards, so flagged rows are imported like any other
+ * 2. Matches card ids against the catalog and loads existing entries
+ * 3. Plans each row in file order against the per-entry (1,000) and
+ *    collection (10,000) limits; rows that would exceed a limit are reported
+ *    and skipped, later rows may still fit
+ * 4. Writes all planned entries in one apply_collection_import call (updates
+ *    by id for existing entries, inserts for new ones), so the import is
+ *    all-or-nothing at the database level; a collection changed concurrently
+ *    since planning fails the import with 409
+ *
+ * Conflicts with existing entries of the same card, variant, condition,
+ * language and grading follow the strategy: merge adds quantities, replace
+ * overwrites the quantity. Repeated rows for the same entry within the file
+ * are always summed.
+ *
+ * @param supabase - Supabase client instance from context.locals
+ * @param userId - The authenticated user's ID
+ * @param rows - Normalized rows from any import adapter
+ * @param options - Validated dry_run flag and conflict strategy
+ * @param rejected - Rows an adapter could not map to a card, merged into the report
+ * @returns Per-row results and summary counts
+ * @throws CollectionServiceError for oversized imports and database errors
+ */
+export async function importCollectionRows(
+  supabase: SupabaseClient,
+  userId: string,
+  rows: ImportSourceRowDTO[],
+  options: Required<Pick<ImportQueryDTO, "dry_run" | "strategy">>,
+  rejected: ImportRowResultDTO[] = []
+): Promise<ImportResultDTO> {
+  const { dry_run: dryRun, strategy } = options;
+
+  if (rows.length + rejected.length === 0) {
+    throw new CollectionServiceError(CollectionErrorCodes.VALIDATION_ERROR, "Import file contains no rows", 400);
+  }
+
+  if (rows.length + rejected.length > MAX_IMPORT_ROWS) {
+    throw new CollectionServiceError(
+      CollectionErrorCodes.VALIDATION_ERROR,
+      `Import is limited to ${MAX_IMPORT_ROWS.toLocaleString("en-US")} rows`,
+      400,
+      { limit: MAX_IMPORT_ROWS, rows: rows.length + rejected.length }
+    );
+  }
+
+  try {
+    // Step 1: Validate rows
+    const results: ImportRowResultDTO[] = [...rejected];
+    const validRows: ImportRowResultDTO[] = [];
+
+    for (const source of rows) {
+      const parsed = importRowSchema.safeParse(source);
+      const quantity = Number(source.quantity);
+
+      const result: ImportRowResultDTO = {
+        row: source.row,
+        card_id: String(source.card_id).trim(),
+        variant: String(source.variant).trim(),
+        quantity: Number.isInteger(quantity) ? quantity : null,
+        status: "error",
+        ...(source.source !== undefined && { source: source.source }),
+      };
+      results.push(result);
+
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        result.error = {
+          code: FIELD_ERROR_CODES[String(issue.path[0])] ?? CollectionErrorCodes.VALIDATION_ERROR,
+          message: issue.message,
+        };
+        continue;
+      }
+
+      result.card_id = parsed.data.card_id;
+      result.variant = parsed.data.variant;
+      result.quantity = parsed.data.quantity;
+      result.condition = parsed.data.condition;
+      result.language = parsed.data.language;
+      result.grading_company = parsed.data.grading_company;
+      result.grade = parsed.data.grade;
+      result.cert_number = parsed.data.cert_number;
+      validRows.push(result);
+    }
+
+    // Step 2: Match cards and load existing entries and totals
+    const cardIds = Array.from(new Set(validRows.map((result) => result.card_id)));
+    const [cards, existing, stats] = await Promise.all([
+      fetchMatchedCards(supabase, cardIds),
+      fetchExistingEntries(supabase, userId, cardIds),
+      getCollectionStats(supabase, userId),
+    ]);
+
+    // Step 3: Plan rows in file order
+    const { entries, totalCards } = planImportRows(validRows, cards, existing, stats.total_cards, strategy);
+
+    // Step 4: Apply the plan
+    if (!dryRun) {
+      // check_card_limit runs per row and sees earlier writes of the same call,
+      // so shrinking entries go first to free room for growing ones
+      const writes = entries
+        .filter((entry) => entry.quantity !== entry.previousQuantity)
+        .sort((a, b) => a.quantity - a.previousQuantity - (b.quantity - b.previousQuantity))
+        .map(({ id, previousQuantity, ...entry }) =>
+          id ? { id, previous_quantity: previousQuantity, quantity: entry.quantity } : entry
+        );
+
+      if (writes.length > 0) {
+        const { error } = await supabase.rpc("apply_collection_import", { p_user_id: userId, p_entries: writes });
+
+        if (error) {
+          // The collection changed between planning and writing
+          if (error.code === PG_SERIALIZATION_FAILURE || error.code === PG_UNIQUE_VIOLATION) {
+            throw new CollectionServiceError(
+              CollectionErrorCodes.CONCURRENT_UPDATE,
+              "Collection changed while importing; please try again",
+              409
+            );
+          }
+
+          throw mapWriteError(error, "Failed to import collection");
+        }
+      }
+    }
+
+    results.sort((a, b) => a.row - b.row);
+
+    const countStatus = (status: ImportRowResultDTO["status"]) =>
+      results.filter((result) => result.status === status).length;
+
+    return {
+      dry_run: dryRun,
+      strategy,
+      summary: {
+        total_rows: results.length,
+        created: countStatus("create"),
+        merged: countStatus("merge"),
+        replaced: countStatus("replace"),
+        failed: countStatus("error"),
+        total_cards_before: stats.total_cards,
+        total_cards_after: totalCards,
+      },
+      rows: results,
+    };
+  } catch (error) {
+    if (error instanceof CollectionServiceError) {
+      throw error;
+    }
+
+    throw new CollectionServiceError(
+      CollectionErrorCodes.INTERNAL_ERROR,
+      "An unexpected error occurred while importing collection",
+      500,
+      { error: error instanceof Error ? error.message : "Unknown error" }
+    );
+  }
+}
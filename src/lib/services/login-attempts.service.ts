@@ -0,0 +1,354 @@
+/**
+ * Failed login tracking with progressive back-off and temporary lockout
+ *
+ * Failures are counted per email, keyed by a SHA-256 hash of the normalized
+ * address, whether or not an account exists for it. Unknown and existing
+ * emails therefore throttle identically and the tracker reveals nothing about
+ * which accounts exist.
+ *
+ * - The first FREE_ATTEMPTS failures are not delayed
+ * - Each further failure doubles the wait before the next attempt (1s, 2s, 4s, ...)
+ * - At LOCK_THRESHOLD failures the email is locked for LOCK_DURATION_MS
+ * - Failures are forgotten FAILURE_WINDOW_MS after the last one, or cleared
+ *   by a successful login or password reset
+ *
+ * Counters live in a LoginAttemptStore chosen with RATE_LIMIT_STORE, like the
+ * rate limiter: "memory" (default, per process), "postgres" or "redis".
+ */
+
+import { createSupabaseAdminClient } from "../../db/supabase.client";
+import type { SupabaseClient } from "../../db/supabase.client";
+import { hashString } from "../utils/api-helpers";
+import { createRedisClient, type RedisClient } from "../utils/redis-client";
+
+/**
+ * Failures allowed before the back-off starts
+ */
+const FREE_ATTEMPTS = 3;
+
+/**
+ * Failures after which the email is locked
+ */
+export const LOCK_THRESHOLD = 10;
+
+/**
+ * How long a locked email stays locked after its last failure
+ */
+const LOCK_DURATION_MS = 15 * 60 * 1000; // 15 minutes
+
+/**
+ * How long failures are remembered after the last one
+ */
+const FAILURE_WINDOW_MS = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Key prefix for Redis counters
+ */
+const REDIS_KEY_PREFIX = "login-attempts:";
+
+/**
+ * Failed login counter of one email
+ */
+export interface LoginAttemptState {
+  /** Failed logins within the window */
+  failures: number;
+  /** Time of the last failure (ms since epoch) */
+  lastFailureAt: number;
+}
+
+/**
+ * Shared failed login counter storage
+ */
+export interface LoginAttemptStore {
+  /** Store name, for logs */
+  readonly name: string;
+  /** Read the counter for `key`, or null if there are no remembered failures */
+  get(key: string): Promise<LoginAttemptState | null>;
+  /** Count one failure for `key`, remembering it for `windowMs` */
+  recordFailure(key: string, windowMs: number): Promise<LoginAttemptState>;
+  /** Forget all failures for `key` */
+  clear(key: string): Promise<void>;
+}
+
+/**
+ * Throttling state of an email after a check or a failure
+ */
+export interface LoginThrottle {
+  /** Failed logins within the window */
+  failures: number;
+  /** Whether the email has reached the lock threshold */
+  locked: boolean;
+  /** Seconds until the next attempt is allowed (0 when allowed now) */
+  retryAfter: number;
+}
+
+/**
+ * Create a store keeping counters in a module-local Map
+ *
+ * @returns In-memory LoginAttemptStore
+ */
+export function createMemoryLoginAttemptStore(): LoginAttemptStore {
+  const counters = new Map<string, LoginAttemptState & { expiresAt: number }>();
+
+  const read = (key: string, now: number) => {
+    const counter = counters.get(key);
+    if (counter && counter.expiresAt <= now) {
+      counters.delete(key);
+      return null;
+    }
+    return counter ?? null;
+  };
+
+  return {
+    name: "memory",
+    async get(key) {
+      const counter = read(key, Date.now());
+      return counter ? { failures: counter.failures, lastFailureAt: counter.lastFailureAt } : null;
+    },
+    async recordFailure(key, windowMs) {
+      const now = Date.now();
+      const failures = (read(key, now)?.failures ?? 0) + 1;
+      counters.set(key, { failures, lastFailureAt: now, expiresAt: now + windowMs });
+      return { failures, lastFailureAt: now };
+    },
+    async clear(key) {
+      counters.delete(key);
+    },
+  };
+}
+
+/**
+ * Create a store backed by the login_attempts table
+ *
+ * @param supabase - Service role Supabase client
+ * @returns Postgres LoginAttemptStore
+ */
+export function createPostgresLoginAttemptStore(supabase: SupabaseClient): LoginAttemptStore {
+  return {
+    name: "postgres",
+    async get(key) {
+      const { data, error } = await supabase
+        .from("login_attempts")
+        .select("failures, last_failure_at")
+        .eq("key", key)
+        .gt("expires_at", new Date().toISOString())
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`login_attempts lookup failed: ${error.message}`);
+      }
+
+      return data ? { failures: data.failures, lastFailureAt: Date.parse(data.last_failure_at) } : null;
+    },
+    async recordFailure(key, windowMs) {
+      const { data, error } = await supabase
+        .rpc("record_login_failure", { p_key: key, p_window_ms: windowMs })
+        .single();
+
+      if (error) {
+        throw new Error(`record_login_failure failed: ${error.message}`);
+      }
+
+      return { failures: data.failures, lastFailureAt: Date.parse(data.last_failure_at) };
+    },
+    async clear(key) {
+      const { error } = await supabase.from("login_attempts").delete().eq("key", key);
+      if (error) {
+        throw new Error(`login_attempts delete failed: ${error.message}`);
+      }
+    },
+  };
+}
+
+/**
+ * Lua script counting one failure atomically
+ *
+ * KEYS[1] = counter key, ARGV[1] = window in ms. Uses the server clock and
+ * expires the counter a window after the failure.
+ */
+const REDIS_RECORD_FAILURE_SCRIPT = `
+local time = redis.call("TIME")
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local failures = redis.call("HINCRBY", KEYS[1], "failures", 1)
+redis.call("HSET", KEYS[1], "last_failure_at", tostring(now))
+redis.call("PEXPIRE", KEYS[1], ARGV[1])
+return { failures, tostring(now) }
+`;
+
+/**
+ * Create a store keeping counters in a Redis-protocol server
+ *
+ * @param client - Redis client (see createRedisClient)
+ * @returns Redis LoginAttemptStore
+ */
+export function createRedisLoginAttemptStore(client: RedisClient): LoginAttemptStore {
+  return {
+    name: "redis",
+    async get(key) {
+      const reply = await client.command(["HMGET", `${REDIS_KEY_PREFIX}${key}`, "failures", "last_failure_at"]);
+      if (!Array.isArray(reply) || reply[0] === null || reply[1] === null) {
+        return null;
+      }
+
+      return { failures: Number(reply[0]), lastFailureAt: Number(reply[1]) };
+    },
+    async recordFailure(key, windowMs) {
+      const reply = await client.command([
+        "EVAL",
+        REDIS_RECORD_FAILURE_SCRIPT,
+        1,
+        `${REDIS_KEY_PREFIX}${key}`,
+        windowMs,
+      ]);
+
+      if (!Array.isArray(reply) || reply.length !== 2) {
+        throw new Error("Unexpected reply from login attempt script");
+      }
+
+      return { failures: Number(reply[0]), lastFailureAt: Number(reply[1]) };
+    },
+    async clear(key) {
+      await client.command(["DEL", `${REDIS_KEY_PREFIX}${key}`]);
+    },
+  };
+}
+
+/**
+ * Create the store configured by RATE_LIMIT_STORE
+ *
+ * Falls back to the in-memory store, with a warning, when the configured
+ * store cannot be created.
+ *
+ * @param type - Store name (defaults to "memory")
+ * @param redisUrl - Redis URL for the redis store
+ * @returns LoginAttemptStore
+ */
+export function createLoginAttemptStore(type = "memory", redisUrl?: string): LoginAttemptStore {
+  const fallback = (reason: string) => {
+    // eslint-disable-next-line no-console
+    console.warn(`Login attempt store "${type}" unavailable (${reason}); using the in-memory store`);
+    return createMemoryLoginAttemptStore();
+  };
+
+  switch (type) {
+    case "memory":
+      return createMemoryLoginAttemptStore();
+    case "postgres": {
+      const supabase = createSupabaseAdminClient();
+      return supabase ? createPostgresLoginAttemptStore(supabase) : fallback("SUPABASE_SERVICE_ROLE_KEY is not set");
+    }
+    case "redis":
+      return redisUrl
+        ? createRedisLoginAttemptStore(createRedisClient({ url: redisUrl }))
+        : fallback("no RATE_LIMIT_REDIS_URL");
+    default:
+      return fallback("unknown store");
+  }
+}
+
+/**
+ * Store shared by all requests of this process, created on first use
+ */
+let store: LoginAttemptStore | null = null;
+
+/**
+ * Get the configured login attempt store
+ */
+function getLoginAttemptStore(): LoginAttemptStore {
+  store ??= createLoginAttemptStore(import.meta.env.RATE_LIMIT_STORE, import.meta.env.RATE_LIMIT_REDIS_URL);
+  return store;
+}
+
+/**
+ * Derive the key of an email: a hash of the trimmed, lower-cased address
+ * @internal
+ */
+function loginAttemptKey(email: string): Promise<string> {
+  return hashString(email.trim().toLowerCase());
+}
+
+/**
+ * Compute the throttle implied by a counter
+ * @internal
+ */
+function toLoginThrottle(state: LoginAttemptState | null, now = Date.now()): LoginThrottle {
+  if (!state) {
+    return { failures: 0, locked: false, retryAfter: 0 };
+  }
+
+  const locked = state.failures >= LOCK_THRESHOLD;
+  const delayMs = locked
+    ? LOCK_DURATION_MS
+    : state.failures >= FREE_ATTEMPTS
+      ? 1000 * 2 ** (state.failures - FREE_ATTEMPTS)
+      : 0;
+  const waitMs = state.lastFailureAt + delayMs - now;
+
+  return { failures: state.failures, locked: locked && waitMs > 0, retryAfter: Math.max(0, Math.ceil(waitMs / 1000)) };
+}
+
+/**
+ * Log a store error; the tracker fails open like the rate limiter
+ * @internal
+ */
+function logStoreError(loginAttemptStore: LoginAttemptStore, error: unknown): void {
+  // eslint-disable-next-line no-console
+  console.error(
+    `Login attempt store "${loginAttemptStore.name}" error:`,
+    error instanceof Error ? error.message : error
+  );
+}
+
+/**
+ * Check whether a login for an email may be attempted now
+ *
+ * @param email - Email from the login request
+ * @returns Throttle with retryAfter > 0 if the attempt must be rejected
+ */
+export async function getLoginThrottle(email: string): Promise<LoginThrottle> {
+  const loginAttemptStore = getLoginAttemptStore();
+  try {
+    return toLoginThrottle(await loginAttemptStore.get(await loginAttemptKey(email)));
+  } catch (error) {
+    logStoreError(loginAttemptStore, error);
+    return toLoginThrottle(null);
+  }
+}
+
+/**
+ * Count a failed login for an email
+ *
+ * @param email - Email from the login request
+ * @returns Throttle applying to the next attempt
+ */
+export async function recordLoginFailure(email: string): Promise<LoginThrottle> {
+  const loginAttemptStore = getLoginAttemptStore();
+  try {
+    return toLoginThrottle(await loginAttemptStore.recordFailure(await loginAttemptKey(email), FAILURE_WINDOW_MS));
+  } catch (error) {
+    logStoreError(loginAttemptStore, error);
+    return toLoginThrottle(null);
+  }
+}
+
+/**
+ * Forget the failed logins of an email, after a successful login or password reset
+ *
+ * @param email - Email of the account
+ */
+export async function clearLoginFailures(email: string): Promise<void> {
+  const loginAttemptStore = getLoginAttemptStore();
+  try {
+    await loginAttemptStore.clear(await loginAttemptKey(email));
+  } catch (error) {
+    logStoreError(loginAttemptStore, error);
+  }
+}
+
+/**
+ * Replace the login attempt store
+ * Useful for testing, e.g. with a fresh createMemoryLoginAttemptStore()
+ */
+export function setLoginAttemptStore(loginAttemptStore: LoginAttemptStore): void {
+  store = loginAttemptStore;
+}
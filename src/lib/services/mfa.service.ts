@@ -0,0 +1,250 @@
+/**
+ * Two-factor authentication (TOTP) service
+ *
+ * Factors, challenges and verification are handled by Supabase Auth MFA; a
+ * verified challenge upgrades the session to AAL2. This module adds one-time
+ * recovery codes, generated when a user verifies their first factor and
+ * stored only as hashes in mfa_recovery_codes. Redeeming a recovery code
+ * removes the user's factors, so they can sign in with their password again
+ * and re-enroll.
+ */
+
+import type { User } from "@supabase/supabase-js";
+import type { MfaChallengeResponseDTO, MfaEnrollResponseDTO, MfaVerifyResponseDTO } from "../../types";
+import { createSupabaseServerClient } from "../../db/supabase.client";
+import type { SupabaseClient } from "../../db/supabase.client";
+import { hashString } from "../utils/api-helpers";
+import { AuthErrorCodes, AuthServiceError, decodeTokenExpiry, getVerifiedMfaFactors } from "./auth.service";
+
+/**
+ * Number of recovery codes issued at enrollment
+ */
+const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * Characters of a recovery code (Crockford base32, lower case: no i, l, o or u)
+ * 32 symbols, so each random byte maps to a symbol without bias
+ */
+const RECOVERY_CODE_ALPHABET = "0123456789abcdefghjkmnpqrstvwxyz";
+
+/**
+ * Symbols per recovery code (10 x 5 bits = 50 bits), shown as two groups of 5
+ */
+const RECOVERY_CODE_LENGTH = 10;
+
+/**
+ * Verified challenge of a TOTP factor
+ */
+export interface MfaChallengeVerification {
+  factorId: string;
+  challengeId: string;
+  code: string;
+}
+
+/**
+ * Map a Supabase MFA error to an AuthServiceError
+ * @internal
+ */
+function toMfaError(error: { message: string; status?: number }, fallbackMessage: string): AuthServiceError {
+  const status = error.status ?? 500;
+
+  if (status === 401) {
+    return new AuthServiceError(AuthErrorCodes.UNAUTHORIZED, "Invalid or expired token", 401);
+  }
+  if (status === 403) {
+    return new AuthServiceError(AuthErrorCodes.MFA_REQUIRED, "This action requires two-factor verification", 403);
+  }
+  if (status === 404) {
+    return new AuthServiceError(AuthErrorCodes.MFA_FACTOR_NOT_FOUND, "MFA factor not found", 404);
+  }
+  if (status >= 400 && status < 500) {
+    return new AuthServiceError(AuthErrorCodes.VALIDATION_ERROR, error.message, 422);
+  }
+
+  return new AuthServiceError(AuthErrorCodes.INTERNAL_ERROR, fallbackMessage, 500, { originalError: error.message });
+}
+
+/**
+ * Normalize a recovery code as typed by the user: lower case, no spaces or dashes
+ * @internal
+ */
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[\s-]/g, "");
+}
+
+/**
+ * Hash a recovery code for storage; the user id salts the hash
+ * @internal
+ */
+function hashRecoveryCode(userId: string, code: string): Promise<string> {
+  return hashString(`${userId}:${normalizeRecoveryCode(code)}`);
+}
+
+/**
+ * Generate a set of random recovery codes, formatted as "xxxxx-xxxxx"
+ * @internal
+ */
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const bytes = crypto.getRandomValues(new Uint8Array(RECOVERY_CODE_LENGTH));
+    const code = Array.from(bytes, (byte) => RECOVERY_CODE_ALPHABET[byte % RECOVERY_CODE_ALPHABET.length]).join("");
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+/**
+ * Enroll a new TOTP factor for the authenticated user
+ *
+ * The factor stays unverified until a challenge for it is verified. Users who
+ * already have a verified factor must enroll from an AAL2 session.
+ *
+ * @param friendlyName - Optional name to tell factors apart
+ * @param supabase - Supabase client from context.locals, bound to the user's session
+ * @returns Factor id with the TOTP secret, URI and QR code
+ * @throws AuthServiceError for rejected enrollments or Supabase errors
+ */
+export async function enrollTotpFactor(
+  friendlyName: string | undefined,
+  supabase: SupabaseClient
+): Promise<MfaEnrollResponseDTO> {
+  const { data, error } = await supabase.auth.mfa.enroll({ factorType: "totp", friendlyName });
+  if (error) {
+    throw toMfaError(error, "Failed to enroll the authenticator. Please try again.");
+  }
+
+  return {
+    factor_id: data.id,
+    factor_type: "totp",
+    friendly_name: data.friendly_name ?? null,
+    totp: data.totp,
+  };
+}
+
+/**
+ * Create a challenge for one of the authenticated user's TOTP factors
+ *
+ * @param factorId - Factor to challenge
+ * @param supabase - Supabase client from context.locals, bound to the user's session
+ * @returns Challenge id and expiry
+ * @throws AuthServiceError MFA_FACTOR_NOT_FOUND for an unknown factor, or for Supabase errors
+ */
+export async function createMfaChallenge(factorId: string, supabase: SupabaseClient): Promise<MfaChallengeResponseDTO> {
+  const { data, error } = await supabase.auth.mfa.challenge({ factorId });
+  if (error) {
+    throw toMfaError(error, "Failed to create the MFA challenge. Please try again.");
+  }
+
+  return { challenge_id: data.id, factor_id: factorId, expires_at: data.expires_at };
+}
+
+/**
+ * Verify a challenge with a code from the authenticator app
+ *
+ * Returns a new AAL2 session. When this activates the user's first factor,
+ * recovery codes are generated and stored hashed; the plain codes are
+ * returned this one time only.
+ *
+ * @param user - The authenticated user, with the factors before verification
+ * @param verification - Factor, challenge and code
+ * @param supabase - Supabase client from context.locals, bound to the user's session
+ * @returns AAL2 session, with recovery_codes when the first factor was activated
+ * @throws AuthServiceError INVALID_CREDENTIALS for a wrong or expired code, or for Supabase errors
+ */
+export async function verifyMfaChallenge(
+  user: User,
+  verification: MfaChallengeVerification,
+  supabase: SupabaseClient
+): Promise<MfaVerifyResponseDTO> {
+  const activatesFirstFactor = getVerifiedMfaFactors(user).length === 0;
+  const { data, error } = await supabase.auth.mfa.verify(verification);
+  if (error) {
+    // Wrong, reused and expired codes are rejected with 400 or 422
+    if (error.status === 400 || error.status === 422) {
+      throw new AuthServiceError(AuthErrorCodes.INVALID_CREDENTIALS, "Invalid or expired code", 401);
+    }
+    throw toMfaError(error, "Failed to verify the code. Please try again.");
+  }
+
+  const response: MfaVerifyResponseDTO = {
+    user: {
+      id: data.user.id,
+      email: data.user.email ?? "",
+    },
+    session: {
+      access_token: data.access_token,
+      refresh_token: data.refresh_token,
+      expires_at: decodeTokenExpiry(data.access_token) ?? Math.floor(Date.now() / 1000) + data.expires_in,
+    },
+  };
+
+  if (activatesFirstFactor) {
+    const recoveryCodes = generateRecoveryCodes();
+    const codeHashes = await Promise.all(recoveryCodes.map((code) => hashRecoveryCode(user.id, code)));
+
+    // Storing codes requires the new AAL2 session
+    const { error: storeError } = await createSupabaseServerClient(data.access_token).rpc(
+      "replace_mfa_recovery_codes",
+      { p_code_hashes: codeHashes }
+    );
+
+    if (storeError) {
+      throw new AuthServiceError(AuthErrorCodes.INTERNAL_ERROR, "Failed to store recovery codes", 500, {
+        originalError: storeError.message,
+      });
+    }
+
+    response.recovery_codes = recoveryCodes;
+  }
+
+  return response;
+}
+
+/**
+ * Redeem a recovery code and remove the user's MFA factors
+ *
+ * The code is marked used through the user's own session. Factors are then
+ * deleted with the admin API, after which the user can sign in with their
+ * password alone and enroll a new authenticator.
+ *
+ * @param user - The authenticated user (an AAL1 session is enough)
+ * @param recoveryCode - Recovery code as typed by the user
+ * @param supabase - Supabase client instance from context.locals (bound to the user)
+ * @param adminClient - Service role client (see createSupabaseAdminClient)
+ * @throws AuthServiceError INVALID_CREDENTIALS for an unknown or used code, INTERNAL_ERROR otherwise
+ */
+export async function redeemRecoveryCode(
+  user: User,
+  recoveryCode: string,
+  supabase: SupabaseClient,
+  adminClient: SupabaseClient
+): Promise<void> {
+  const { data: redeemed, error } = await supabase.rpc("use_mfa_recovery_code", {
+    p_code_hash: await hashRecoveryCode(user.id, recoveryCode),
+  });
+
+  if (error) {
+    throw new AuthServiceError(AuthErrorCodes.INTERNAL_ERROR, "Failed to check the recovery code", 500, {
+      originalError: error.message,
+    });
+  }
+
+  if (!redeemed) {
+    throw new AuthServiceError(AuthErrorCodes.INVALID_CREDENTIALS, "Invalid recovery code", 401);
+  }
+
+  const { data, error: listError } = await adminClient.auth.admin.mfa.listFactors({ userId: user.id });
+  if (listError) {
+    throw new AuthServiceError(AuthErrorCodes.INTERNAL_ERROR, "Failed to remove MFA factors", 500, {
+      originalError: listError.message,
+    });
+  }
+
+  for (const factor of data.factors) {
+    const { error: deleteError } = await adminClient.auth.admin.mfa.deleteFactor({ id: factor.id, userId: user.id });
+    if (deleteError) {
+      throw new AuthServiceError(AuthErrorCodes.INTERNAL_ERROR, "Failed to remove MFA factors", 500, {
+        originalError: deleteError.message,
+      });
+    }
+  }
+}
@@ -0,0 +1,190 @@
+import { createHash } from "node:crypto";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+
+import { countPasswordBreaches, isBreachedPassword } from "./breached-passwords.service";
+import { checkPasswordPolicy, estimatePasswordStrength, MIN_PASSWORD_SCORE } from "./password-strength.service";
+
+const BREACH_MESSAGE = "This password has appeared in a data breach. Please choose a different password.";
+
+/**
+ * Upper-case SHA-1 split into the range file prefix and the suffix listed inside it
+ */
+function hashParts(password: string): { prefix: string; suffix: string } {
+  const hash = createHash("sha1").update(password).digest("hex").toUpperCase();
+  return { prefix: hash.slice(0, 5), suffix: hash.slice(5) };
+}
+
+describe("estimatePasswordStrength", () => {
+  it("matches the documented example", () => {
+    expect(estimatePasswordStrength("Pikachu2024!", { email: "ash@example.com" }).score).toBe(2);
+  });
+
+  it("penalises the email's local part", () => {
+    expect(estimatePasswordStrength("ashketchum1997").score).toBe(3);
+    expect(estimatePasswordStrength("ashketchum1997", { email: "AshKetchum@example.com" })).toMatchObject({
+      score: 0,
+      feedback: { warning: "Avoid using your email address or name in your password" },
+    });
+
+    // Pieces of a dotted local part count too
+    expect(estimatePasswordStrength("Ketchum#Harbor7").score).toBe(4);
+    expect(estimatePasswordStrength("Ketchum#Harbor7", { email: "ash.ketchum99@example.com" }).score).toBe(3);
+  });
+
+  it("penalises words tied to this site", () => {
+    expect(estimatePasswordStrength("quillfathomHarbor!7").score).toBe(4);
+    expect(estimatePasswordStrength("tcgcollectrHarbor!7").score).toBe(3);
+    expect(estimatePasswordStrength("glimmerHarbor!7").score).toBe(4);
+    expect(estimatePasswordStrength("pokemonHarbor!7").score).toBe(3);
+
+    expect(estimatePasswordStrength("tcgcollectr2026")).toMatchObject({
+      score: 0,
+      feedback: { warning: 'Avoid words related to this site, like "pokemon" or "tcgcollectr"' },
+    });
+  });
+
+  it("scores by the guess thresholds", () => {
+    const thresholds = [3, 6, 8, 10];
+
+    for (const password of ["password", "1997-04-12", "Pikachu2024!", "iLoveMyCharizard", "Xk9#mQ2$vL7@pR4!"]) {
+      const { score, guessesLog10 } = estimatePasswordStrength(password);
+      expect(score, password).toBe(thresholds.filter((threshold) => guessesLog10 >= threshold).length);
+    }
+  });
+
+  it("gives no feedback at the minimum score", () => {
+    const result = estimatePasswordStrength("iLoveMyCharizard");
+
+    expect(result.score).toBe(MIN_PASSWORD_SCORE);
+    expect(result.feedback).toEqual({ warning: null, suggestions: [] });
+  });
+
+  it.each([
+    ["password", "This is a top-10 common password", []],
+    ["PASSWORD1", "This is a very common password", ["All-uppercase is almost as easy to guess as all-lowercase"]],
+    [
+      "P@ssw0rd",
+      "This is similar to a commonly used password",
+      [
+        "Capitalization doesn't help very much",
+        "Predictable substitutions like '@' instead of 'a' don't help very much",
+      ],
+    ],
+    ["drowssap", "This is similar to a commonly used password", ["Reversed words aren't much harder to guess"]],
+    ["qwertyuiop", "Straight rows of keys are easy to guess", []],
+    ["abcdefgh", 'Sequences like "abc" or "6543" are easy to guess', ["Avoid sequences"]],
+    ["aaaaaaaa", 'Repeats like "aaa" are easy to guess', ["Avoid repeated words and characters"]],
+    ["1997-04-12", "Dates are often easy to guess", ["Avoid dates and years that are associated with you"]],
+  ])("explains why %s is weak", (password, warning, suggestions) => {
+    expect(estimatePasswordStrength(password).feedback).toEqual({
+      warning,
+      suggestions: ["Add another word or two. Uncommon words are better.", ...suggestions],
+    });
+  });
+});
+
+describe("breached password lookup", () => {
+  let datasetPath: string;
+
+  beforeAll(async () => {
+    datasetPath = await mkdtemp(path.join(tmpdir(), "breached-passwords-"));
+
+    // "password" is listed with a count, in upper case; "letmein" in lower case; "abc123"'s range has other suffixes only
+    const listed = hashParts("password");
+    await writeFile(
+      path.join(datasetPath, `${listed.prefix}.txt`),
+      `0018A45C4D1DEF81644B54AB7F969B88D65:10\r\n${listed.suffix}:9545824\r\n`
+    );
+    const lowerCase = hashParts("letmein");
+    await writeFile(path.join(datasetPath, `${lowerCase.prefix}.txt`), `${lowerCase.suffix.toLowerCase()}:3\n`);
+    await writeFile(
+      path.join(datasetPath, `${hashParts("abc123").prefix}.txt`),
+      "0018A45C4D1DEF81644B54AB7F969B88D65:10\n"
+    );
+  });
+
+  afterAll(async () => {
+    await rm(datasetPath, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("counts listed passwords", async () => {
+    expect(await countPasswordBreaches("password", datasetPath)).toBe(9545824);
+    expect(await countPasswordBreaches("letmein", datasetPath)).toBe(3);
+  });
+
+  it("reports passwords missing from their range file or without a range file as not breached", async () => {
+    expect(await countPasswordBreaches("abc123", datasetPath)).toBe(0);
+    expect(await countPasswordBreaches("Xk9#mQ2$vL7@pR4!", datasetPath)).toBe(0);
+  });
+
+  it("skips the check without a dataset", async () => {
+    vi.stubEnv("BREACHED_PASSWORDS_PATH", "");
+
+    expect(await countPasswordBreaches("password")).toBeNull();
+    expect(await isBreachedPassword("password")).toBe(false);
+  });
+
+  it("fails open when the dataset cannot be read", async () => {
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => undefined);
+    // A file where the directory should be makes every range read fail with ENOTDIR
+    vi.stubEnv("BREACHED_PASSWORDS_PATH", path.join(datasetPath, `${hashParts("abc123").prefix}.txt`));
+
+    await expect(countPasswordBreaches("password")).rejects.toThrow();
+    expect(await isBreachedPassword("password")).toBe(false);
+    expect(consoleError).toHaveBeenCalledOnce();
+    consoleError.mockRestore();
+  });
+});
+
+describe("checkPasswordPolicy", () => {
+  let datasetPath: string;
+
+  beforeAll(async () => {
+    datasetPath = await mkdtemp(path.join(tmpdir(), "breached-passwords-"));
+    for (const password of ["password", "iLoveMyCharizard"]) {
+      const { prefix, suffix } = hashParts(password);
+      await writeFile(path.join(datasetPath, `${prefix}.txt`), `${suffix}:42\n`);
+    }
+  });
+
+  afterAll(async () => {
+    await rm(datasetPath, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("accepts strong passwords that were never breached", async () => {
+    vi.stubEnv("BREACHED_PASSWORDS_PATH", datasetPath);
+
+    expect(await checkPasswordPolicy("Fjord-Quantum-Lantern-88", { email: "ash@example.com" })).toEqual([]);
+  });
+
+  it("returns the strength feedback for the password field", async () => {
+    vi.stubEnv("BREACHED_PASSWORDS_PATH", "");
+
+    expect(await checkPasswordPolicy("ashketchum1997", { email: "ashketchum@example.com" })).toEqual([
+      "Avoid using your email address or name in your password",
+      "Add another word or two. Uncommon words are better.",
+    ]);
+  });
+
+  it("reports breached passwords first, whatever their strength", async () => {
+    vi.stubEnv("BREACHED_PASSWORDS_PATH", datasetPath);
+
+    expect(await checkPasswordPolicy("iLoveMyCharizard")).toEqual([BREACH_MESSAGE]);
+    expect(await checkPasswordPolicy("password")).toEqual([
+      BREACH_MESSAGE,
+      "This is a top-10 common password",
+      "Add another word or two. Uncommon words are better.",
+    ]);
+  });
+});
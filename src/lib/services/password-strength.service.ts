@@ -0,0 +1,790 @@
+/**
+ * Password strength estimation and password policy checks
+ *
+ * A compact take on zxcvbn: the password is split into the cheapest sequence
+ * of guessable patterns (dictionary words, keyboard rows, sequences, repeats,
+ * dates and years, with brute force for whatever is left) and scored by the
+ * number of guesses an attacker would need. User context, meaning the email's
+ * local part and words tied to this site such as "pokemon" and "tcgcollectr",
+ * is added to the dictionaries at the lowest ranks, so passwords built from
+ * it score poorly.
+ *
+ * The policy check combines the score with the breached-password lookup and
+ * returns feedback in the `fields` error detail format used by the routes.
+ */
+
+import { isBreachedPassword } from "./breached-passwords.service";
+
+/**
+ * Strength score, as in zxcvbn
+ * 0: too guessable, 1: very guessable, 2: somewhat guessable, 3: safely unguessable, 4: very unguessable
+ */
+export type PasswordStrengthScore = 0 | 1 | 2 | 3 | 4;
+
+/**
+ * Result of a strength estimate
+ */
+export interface PasswordStrengthResult {
+  score: PasswordStrengthScore;
+  /** Estimated guesses needed, as a power of ten */
+  guessesLog10: number;
+  feedback: {
+    warning: string | null;
+    suggestions: string[];
+  };
+}
+
+/**
+ * User details that make a password easier to guess for this user
+ */
+export interface PasswordUserContext {
+  email?: string | null;
+}
+
+/**
+ * Lowest score accepted for new passwords
+ */
+export const MIN_PASSWORD_SCORE: PasswordStrengthScore = 3;
+
+/**
+ * Guess thresholds of scores 1-4 (an online attack with throttling at 10^3,
+ * offline attacks against slow hashes above)
+ */
+const SCORE_THRESHOLDS = [1e3, 1e6, 1e8, 1e10];
+
+/**
+ * Extra cost of each additional pattern in a sequence, so one long pattern
+ * beats several short ones of the same total guesses
+ */
+const PATTERN_SEQUENCE_COST = 10_000;
+
+/**
+ * Minimum guesses of a pattern that covers only part of the password
+ */
+const MIN_SUBMATCH_GUESSES_SINGLE_CHAR = 10;
+const MIN_SUBMATCH_GUESSES_MULTI_CHAR = 50;
+
+/**
+ * Brute-force guesses per character
+ */
+const BRUTEFORCE_CARDINALITY = 10;
+
+/**
+ * Smallest year range assumed for dates and years
+ */
+const MIN_YEAR_SPACE = 20;
+
+/**
+ * Words tied to this site; always part of the user context
+ */
+const SITE_WORDS = ["tcgcollectr", "tcgcollector", "collectr", "pokemon", "pokedex", "pokeball", "tcg"];
+
+/**
+ * Most common passwords, most common first
+ */
+const COMMON_PASSWORDS = (
+  "password 123456 123456789 qwerty 12345678 111111 1234567890 1234567 iloveyou abc123 000000 password1 " +
+  "admin welcome monkey dragon letmein football baseball master sunshine shadow princess superman " +
+  "trustno1 starwars login hello charlie whatever freedom secret summer winter batman jordan michael " +
+  "jennifer hunter killer soccer hockey ranger harley thomas robert daniel andrew jessica buster tigger " +
+  "maggie cookie orange banana matrix flower cheese pepper ginger computer internet mustang access " +
+  "loveme qazwsx zaq1zaq1 changeme default guest test pass root love angel forever family friends " +
+  "butterfly chocolate spring autumn london america monday dolphin blink182"
+).split(" ");
+
+/**
+ * Popular Pokémon and franchise names, most popular first
+ */
+const POKEMON_NAMES = (
+  "pikachu charizard mewtwo eevee bulbasaur charmander squirtle gengar lucario snorlax jigglypuff " +
+  "gyarados dragonite umbreon sylveon greninja rayquaza blastoise venusaur psyduck meowth mimikyu " +
+  "garchomp lugia togepi ketchum misty brock trainer"
+).split(" ");
+
+/**
+ * Keyboard rows (QWERTY, unshifted and shifted) for keyboard pattern detection
+ */
+const KEYBOARD_ROWS = [
+  "`1234567890-=",
+  "qwertyuiop[]\\",
+  "asdfghjkl;'",
+  "zxcvbnm,./",
+  "~!@#$%^&*()_+",
+  "QWERTYUIOP{}|",
+  'ASDFGHJKL:"',
+  "ZXCVBNM<>?",
+];
+
+/**
+ * Keys a keyboard pattern can start from (one per key, shift is counted separately)
+ */
+const KEYBOARD_STARTING_POSITIONS = 47;
+
+/**
+ * Common character substitutions ("l33t speak"), tried in two variants since "1" stands for "i" or "l"
+ */
+const L33T_COMMON: Record<string, string> = {
+  "4": "a",
+  "@": "a",
+  "8": "b",
+  "(": "c",
+  "3": "e",
+  "6": "g",
+  "0": "o",
+  $: "s",
+  "5": "s",
+  "7": "t",
+  "+": "t",
+  "2": "z",
+};
+const L33T_VARIANTS: Record<string, string>[] = [
+  { ...L33T_COMMON, "1": "i", "!": "i" },
+  { ...L33T_COMMON, "1": "l", "|": "l" },
+];
+
+/**
+ * Dictionaries a token can come from
+ */
+type DictionaryName = "user_inputs" | "site_words" | "passwords" | "pokemon";
+
+/**
+ * Guessable pattern covering password[i..j]
+ */
+type PasswordMatch = { i: number; j: number; token: string; guesses: number } & (
+  | { pattern: "dictionary"; dictionary: DictionaryName; rank: number; reversed: boolean; l33t: boolean }
+  | { pattern: "spatial" }
+  | { pattern: "sequence" }
+  | { pattern: "repeat"; baseToken: string }
+  | { pattern: "date"; year: number; hasDay: boolean }
+  | { pattern: "bruteforce" }
+);
+
+/**
+ * Build the ranked dictionaries, with the user's inputs first
+ * @internal
+ */
+function buildDictionaries(userInputs: string[]): Map<DictionaryName, Map<string, number>> {
+  const rank = (words: string[]) => {
+    const ranked = new Map<string, number>();
+    words.forEach((word, index) => {
+      if (!ranked.has(word)) {
+        ranked.set(word, index + 1);
+      }
+    });
+    return ranked;
+  };
+
+  return new Map([
+    ["user_inputs", rank(userInputs)],
+    ["site_words", rank(SITE_WORDS)],
+    ["passwords", rank(COMMON_PASSWORDS)],
+    ["pokemon", rank(POKEMON_NAMES)],
+  ]);
+}
+
+/**
+ * Derive dictionary words from the user context: the email's local part, joined up and in pieces
+ * "ash.ketchum99@example.com" gives "ash.ketchum99", "ashketchum99", "ashketchum", "ash" and "ketchum"
+ * @internal
+ */
+function getUserInputs(context: PasswordUserContext): string[] {
+  const localPart = context.email?.split("@")[0]?.toLowerCase() ?? "";
+  const pieces = localPart.split(/[^a-z]+/);
+
+  return [localPart, localPart.replace(/[^a-z\d]/g, ""), localPart.replace(/[^a-z]/g, ""), ...pieces].filter(
+    (word) => word.length >= 3
+  );
+}
+
+/**
+ * Binomial coefficient n choose k
+ * @internal
+ */
+function binomial(n: number, k: number): number {
+  if (k > n) {
+    return 0;
+  }
+
+  let result = 1;
+  for (let d = 1; d <= k; d++) {
+    result = (result * (n - k + d)) / d;
+  }
+  return result;
+}
+
+/**
+ * Guesses added by capitalization: none for lower case, 2 for a capitalized,
+ * trailing-capital or all-caps word, otherwise the number of ways to place the capitals
+ * @internal
+ */
+function uppercaseVariations(token: string): number {
+  if (token === token.toLowerCase()) {
+    return 1;
+  }
+  if (/^[A-Z][^A-Z]+$/.test(token) || /^[^A-Z]+[A-Z]$/.test(token) || token === token.toUpperCase()) {
+    return 2;
+  }
+
+  const upper = token.split("").filter((char) => /[A-Z]/.test(char)).length;
+  const lower = token.split("").filter((char) => /[a-z]/.test(char)).length;
+  let variations = 0;
+  for (let k = 1; k <= Math.min(upper, lower); k++) {
+    variations += binomial(upper + lower, k);
+  }
+  return variations;
+}
+
+/**
+ * Find dictionary words, also reversed and with l33t substitutions undone
+ * @internal
+ */
+function matchDictionaries(password: string, dictionaries: Map<DictionaryName, Map<string, number>>): PasswordMatch[] {
+  const lower = password.toLowerCase();
+  const variants = [
+    { text: lower, l33t: false },
+    ...L33T_VARIANTS.map((subs) => ({ text: lower.replace(/./g, (char) => subs[char] ?? char), l33t: true })),
+  ].filter((variant, index, all) => index === 0 || variant.text !== all[0].text);
+
+  const matches: PasswordMatch[] = [];
+
+  for (let i = 0; i < password.length; i++) {
+    for (let j = i + 2; j < password.length; j++) {
+      const token = password.slice(i, j + 1);
+
+      for (const [dictionary, words] of dictionaries) {
+        for (const variant of variants) {
+          const word = variant.text.slice(i, j + 1);
+          const reversedWord = word.split("").reverse().join("");
+          const rank = words.get(word) ?? words.get(reversedWord);
+          if (rank === undefined) {
+            continue;
+          }
+
+          const reversed = !words.has(word);
+          const substitutions = variant.l33t
+            ? token.split("").filter((char, index) => char.toLowerCase() !== word[index]).length
+            : 0;
+          matches.push({
+            i,
+            j,
+            token,
+            pattern: "dictionary",
+            dictionary,
+            rank,
+            reversed,
+            l33t: substitutions > 0,
+            guesses: rank * uppercaseVariations(token) * 2 ** substitutions * (reversed ? 2 : 1),
+          });
+          break;
+        }
+      }
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Find straight runs of at least 4 neighbouring keys on a keyboard row, in either direction
+ * @internal
+ */
+function matchSpatial(password: string): PasswordMatch[] {
+  const matches: PasswordMatch[] = [];
+
+  const keyPosition = (char: string) => {
+    for (let row = 0; row < KEYBOARD_ROWS.length; row++) {
+      const column = KEYBOARD_ROWS[row].indexOf(char);
+      if (column >= 0) {
+        return { row: row % 4, column, shifted: row >= 4 };
+      }
+    }
+    return null;
+  };
+
+  let start = 0;
+  while (start < password.length - 1) {
+    const first = keyPosition(password[start]);
+    const second = keyPosition(password[start + 1]);
+    const direction = first && second && first.row === second.row ? second.column - first.column : 0;
+
+    if (Math.abs(direction) !== 1) {
+      start++;
+      continue;
+    }
+
+    let end = start + 1;
+    while (end + 1 < password.length) {
+      const current = keyPosition(password[end]);
+      const next = keyPosition(password[end + 1]);
+      if (!current || !next || next.row !== current.row || next.column - current.column !== direction) {
+        break;
+      }
+      end++;
+    }
+
+    if (end - start + 1 >= 4) {
+      const token = password.slice(start, end + 1);
+      const shifted = token.split("").filter((char) => keyPosition(char)?.shifted).length;
+      const shiftVariations = shifted === 0 || shifted === token.length ? 1 : 2;
+      matches.push({
+        i: start,
+        j: end,
+        token,
+        pattern: "spatial",
+        guesses: KEYBOARD_STARTING_POSITIONS * 2 * token.length * shiftVariations,
+      });
+    }
+
+    start = end;
+  }
+
+  return matches;
+}
+
+/**
+ * Find runs of at least 3 characters of one class with a constant step of 1 or 2 ("abc", "2468", "zyx")
+ * @internal
+ */
+function matchSequences(password: string): PasswordMatch[] {
+  const matches: PasswordMatch[] = [];
+  const charClass = (char: string) =>
+    /[a-z]/.test(char) ? "lower" : /[A-Z]/.test(char) ? "upper" : /\d/.test(char) ? "digit" : null;
+
+  let start = 0;
+  while (start < password.length - 2) {
+    const delta = password.charCodeAt(start + 1) - password.charCodeAt(start);
+    const cls = charClass(password[start]);
+
+    if (!cls || Math.abs(delta) < 1 || Math.abs(delta) > 2 || charClass(password[start + 1]) !== cls) {
+      start++;
+      continue;
+    }
+
+    let end = start + 1;
+    while (
+      end + 1 < password.length &&
+      charClass(password[end + 1]) === cls &&
+      password.charCodeAt(end + 1) - password.charCodeAt(end) === delta
+    ) {
+      end++;
+    }
+
+    if (end - start + 1 >= 3) {
+      const token = password.slice(start, end + 1);
+      const first = token[0];
+      const base = "aAzZ019".includes(first) ? 4 : cls === "digit" ? 10 : 26;
+      matches.push({
+        i: start,
+        j: end,
+        token,
+        pattern: "sequence",
+        guesses: base * token.length * (delta < 0 ? 2 : 1),
+      });
+    }
+
+    start = end;
+  }
+
+  return matches;
+}
+
+/**
+ * Find repeated characters or blocks ("aaa", "abcabc"), priced as the block times the repeat count
+ * @internal
+ */
+function matchRepeats(password: string, dictionaries: Map<DictionaryName, Map<string, number>>): PasswordMatch[] {
+  const matches: PasswordMatch[] = [];
+  const repeatPattern = /(.+?)\1+/g;
+
+  for (const match of password.matchAll(repeatPattern)) {
+    const token = match[0];
+    const baseToken = match[1];
+    if (token.length < 3) {
+      continue;
+    }
+
+    const baseGuesses = findCheapestSequence(baseToken, dictionaries).guesses;
+    matches.push({
+      i: match.index,
+      j: match.index + token.length - 1,
+      token,
+      pattern: "repeat",
+      baseToken,
+      guesses: baseGuesses * (token.length / baseToken.length),
+    });
+  }
+
+  return matches;
+}
+
+/**
+ * Find years (1900-2099) and dates written as digits, with or without separators
+ * @internal
+ */
+function matchDates(password: string): PasswordMatch[] {
+  const matches: PasswordMatch[] = [];
+  const referenceYear = new Date().getFullYear();
+  const yearSpace = (year: number) => Math.max(Math.abs(year - referenceYear), MIN_YEAR_SPACE);
+  const toYear = (value: number, digits: number) => (digits === 2 ? (value > 50 ? 1900 + value : 2000 + value) : value);
+  const isDate = (day: number, month: number, year: number) =>
+    day >= 1 && day <= 31 && month >= 1 && month <= 12 && year >= 1900 && year <= 2099;
+
+  for (const match of password.matchAll(/(?=((?:19|20)\d\d))/g)) {
+    const year = Number(match[1]);
+    matches.push({
+      i: match.index,
+      j: match.index + 3,
+      token: match[1],
+      pattern: "date",
+      year,
+      hasDay: false,
+      guesses: yearSpace(year),
+    });
+  }
+
+  // Compact dates: DDMMYY, MMDDYY, YYMMDD and their 4-digit-year forms
+  const layouts: [number, number, number, number][] = [
+    // [length, day offset, month offset, year offset]; year digits follow from the length
+    [6, 0, 2, 4],
+    [6, 2, 0, 4],
+    [6, 4, 2, 0],
+    [8, 0, 2, 4],
+    [8, 2, 0, 4],
+    [8, 6, 4, 0],
+  ];
+  for (const match of password.matchAll(/\d{6,8}/g)) {
+    for (let i = 0; i < match[0].length; i++) {
+      for (const [length, dayOffset, monthOffset, yearOffset] of layouts) {
+        const token = match[0].slice(i, i + length);
+        if (token.length !== length) {
+          continue;
+        }
+        const yearDigits = length - 4;
+        const day = Number(token.slice(dayOffset, dayOffset + 2));
+        const month = Number(token.slice(monthOffset, monthOffset + 2));
+        const year = toYear(Number(token.slice(yearOffset, yearOffset + yearDigits)), yearDigits);
+        if (isDate(day, month, year)) {
+          const start = match.index + i;
+          matches.push({
+            i: start,
+            j: start + length - 1,
+            token,
+            pattern: "date",
+            year,
+            hasDay: true,
+            guesses: 365 * yearSpace(year),
+          });
+          break;
+        }
+      }
+    }
+  }
+
+  // Dates with separators: 1/2/95, 01-02-1995, 1995.02.01
+  for (const match of password.matchAll(/(\d{1,4})([\s/\\_.-])(\d{1,2})\2(\d{1,4})/g)) {
+    const [token, first, , middle, last] = match;
+    const yearFirst = first.length === 4;
+    const yearValue = yearFirst ? first : last;
+    const year = toYear(Number(yearValue), yearValue.length);
+    const day = Number(yearFirst ? last : first);
+    const month = Number(middle);
+    if (isDate(day, month, year) || isDate(month, day, year)) {
+      matches.push({
+        i: match.index,
+        j: match.index + token.length - 1,
+        token,
+        pattern: "date",
+        year,
+        hasDay: true,
+        guesses: 365 * yearSpace(year) * 4,
+      });
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Split a password into the sequence of patterns with the fewest total guesses
+ *
+ * Dynamic programming over the password as in zxcvbn: a sequence of l patterns
+ * costs l! times the product of their guesses (patterns can come in any order)
+ * plus PATTERN_SEQUENCE_COST^(l-1); gaps are filled with brute force.
+ * @internal
+ */
+function findCheapestSequence(
+  password: string,
+  dictionaries: Map<DictionaryName, Map<string, number>>
+): { guesses: number; sequence: PasswordMatch[] } {
+  const n = password.length;
+  if (n === 0) {
+    return { guesses: 1, sequence: [] };
+  }
+
+  const matches = [
+    ...matchDictionaries(password, dictionaries),
+    ...matchSpatial(password),
+    ...matchSequences(password),
+    ...matchDates(password),
+    ...(n > 1 ? matchRepeats(password, dictionaries) : []),
+  ];
+
+  const matchesByEnd: PasswordMatch[][] = Array.from({ length: n }, () => []);
+  for (const match of matches) {
+    matchesByEnd[match.j].push(match);
+  }
+
+  // For each end position and sequence length: the cheapest product of guesses, its total and its last match
+  const product: Map<number, number>[] = Array.from({ length: n }, () => new Map());
+  const total: Map<number, number>[] = Array.from({ length: n }, () => new Map());
+  const last: Map<number, PasswordMatch>[] = Array.from({ length: n }, () => new Map());
+
+  const factorial = (l: number) => {
+    let result = 1;
+    for (let k = 2; k <= l; k++) {
+      result *= k;
+    }
+    return result;
+  };
+
+  const matchGuesses = (match: PasswordMatch) => {
+    if (match.token.length === n) {
+      return match.guesses;
+    }
+    const minimum = match.token.length === 1 ? MIN_SUBMATCH_GUESSES_SINGLE_CHAR : MIN_SUBMATCH_GUESSES_MULTI_CHAR;
+    return Math.max(match.guesses, minimum);
+  };
+
+  const update = (match: PasswordMatch, l: number) => {
+    const k = match.j;
+    let pi = matchGuesses(match);
+    if (l > 1) {
+      pi *= product[match.i - 1].get(l - 1) ?? Infinity;
+    }
+    const g = factorial(l) * pi + PATTERN_SEQUENCE_COST ** (l - 1);
+
+    // Skip if a sequence with no more patterns is already as cheap
+    for (const [competingLength, competingTotal] of total[k]) {
+      if (competingLength <= l && competingTotal <= g) {
+        return;
+      }
+    }
+
+    product[k].set(l, pi);
+    total[k].set(l, g);
+    last[k].set(l, match);
+  };
+
+  const bruteforce = (i: number, j: number): PasswordMatch => {
+    const length = j - i + 1;
+    let guesses = BRUTEFORCE_CARDINALITY ** length;
+    const minimum = length === 1 ? MIN_SUBMATCH_GUESSES_SINGLE_CHAR : MIN_SUBMATCH_GUESSES_MULTI_CHAR;
+    guesses = Math.max(guesses, minimum + 1);
+    return { i, j, token: password.slice(i, j + 1), pattern: "bruteforce", guesses };
+  };
+
+  for (let k = 0; k < n; k++) {
+    for (const match of matchesByEnd[k]) {
+      if (match.i > 0) {
+        for (const l of product[match.i - 1].keys()) {
+          update(match, l + 1);
+        }
+      } else {
+        update(match, 1);
+      }
+    }
+
+    // Brute force from any position, but never right after another brute-force segment
+    update(bruteforce(0, k), 1);
+    for (let i = 1; i <= k; i++) {
+      for (const [l, previous] of last[i - 1]) {
+        if (previous.pattern !== "bruteforce") {
+          update(bruteforce(i, k), l + 1);
+        }
+      }
+    }
+  }
+
+  // Pick the cheapest sequence length ending at the last character, then walk back
+  let bestLength = 0;
+  let bestTotal = Infinity;
+  for (const [l, g] of total[n - 1]) {
+    if (g < bestTotal) {
+      bestLength = l;
+      bestTotal = g;
+    }
+  }
+
+  const sequence: PasswordMatch[] = [];
+  let k = n - 1;
+  let l = bestLength;
+  while (k >= 0 && l > 0) {
+    const match = last[k].get(l);
+    if (!match) {
+      break;
+    }
+    sequence.unshift(match);
+    k = match.i - 1;
+    l--;
+  }
+
+  return { guesses: bestTotal, sequence };
+}
+
+/**
+ * Check whether a match is a personal or site word from the user context
+ * @internal
+ */
+function isContextMatch(match: PasswordMatch): boolean {
+  return match.pattern === "dictionary" && (match.dictionary === "user_inputs" || match.dictionary === "site_words");
+}
+
+/**
+ * Map a guess count to a score
+ * @internal
+ */
+function scoreGuesses(guesses: number): PasswordStrengthScore {
+  const index = SCORE_THRESHOLDS.findIndex((threshold) => guesses < threshold);
+  return (index === -1 ? 4 : index) as PasswordStrengthScore;
+}
+
+/**
+ * Explain what makes a password guessable, based on its patterns
+ * @internal
+ */
+function buildFeedback(sequence: PasswordMatch[], password: string): PasswordStrengthResult["feedback"] {
+  const defaultSuggestion = "Add another word or two. Uncommon words are better.";
+  const patterns = sequence.filter((match) => match.pattern !== "bruteforce");
+
+  // Personal and site words are called out first, whatever else the password contains
+  const contextMatch = patterns.find(isContextMatch);
+  const longest =
+    contextMatch ??
+    patterns.reduce<PasswordMatch | null>((a, b) => (!a || b.token.length > a.token.length ? b : a), null);
+
+  if (!longest) {
+    return { warning: null, suggestions: [defaultSuggestion, "Use a longer password"] };
+  }
+
+  const suggestions = [defaultSuggestion];
+
+  switch (longest.pattern) {
+    case "dictionary": {
+      let warning: string;
+      if (longest.dictionary === "user_inputs") {
+        warning = "Avoid using your email address or name in your password";
+      } else if (longest.dictionary === "site_words") {
+        warning = 'Avoid words related to this site, like "pokemon" or "tcgcollectr"';
+      } else if (longest.dictionary === "pokemon") {
+        warning = "Pokémon names are easy to guess";
+      } else if (longest.token.length === password.length && !longest.l33t && !longest.reversed) {
+        warning = longest.rank <= 10 ? "This is a top-10 common password" : "This is a very common password";
+      } else {
+        warning = "This is similar to a commonly used password";
+      }
+
+      if (/^[A-Z][^A-Z]+$/.test(longest.token)) {
+        suggestions.push("Capitalization doesn't help very much");
+      } else if (longest.token === longest.token.toUpperCase() && longest.token !== longest.token.toLowerCase()) {
+        suggestions.push("All-uppercase is almost as easy to guess as all-lowercase");
+      }
+      if (longest.reversed) {
+        suggestions.push("Reversed words aren't much harder to guess");
+      }
+      if (longest.l33t) {
+        suggestions.push("Predictable substitutions like '@' instead of 'a' don't help very much");
+      }
+      return { warning, suggestions };
+    }
+    case "spatial":
+      return { warning: "Straight rows of keys are easy to guess", suggestions };
+    case "sequence":
+      return {
+        warning: 'Sequences like "abc" or "6543" are easy to guess',
+        suggestions: [...suggestions, "Avoid sequences"],
+      };
+    case "repeat":
+      return {
+        warning:
+          longest.baseToken.length === 1
+            ? 'Repeats like "aaa" are easy to guess'
+            : 'Repeats like "abcabcabc" are only slightly harder to guess than "abc"',
+        suggestions: [...suggestions, "Avoid repeated words and characters"],
+      };
+    case "date":
+      return {
+        warning: longest.hasDay ? "Dates are often easy to guess" : "Recent years are easy to guess",
+        suggestions: [...suggestions, "Avoid dates and years that are associated with you"],
+      };
+    default:
+      return { warning: null, suggestions };
+  }
+}
+
+/**
+ * Estimate how hard a password is to guess
+ *
+ * @param password - Password to rate
+ * @param context - User details that count as easy guesses for this user
+ * @returns Score (0-4), estimated guesses and feedback
+ *
+ * @example
+ * estimatePasswordStrength("Pikachu2024!", { email: "ash@example.com" }).score; // 2
+ */
+export function estimatePasswordStrength(password: string, context: PasswordUserContext = {}): PasswordStrengthResult {
+  const dictionaries = buildDictionaries(getUserInputs(context));
+  const cheapest = findCheapestSequence(password, dictionaries);
+  const { sequence } = cheapest;
+  let { guesses } = cheapest;
+
+  // Context penalty: personal and site words add next to nothing, so the rest
+  // of the password has to hold up on its own
+  const contextMatches = sequence.filter(isContextMatch);
+  if (contextMatches.length > 0) {
+    const rest = sequence
+      .filter((match) => !isContextMatch(match))
+      .map((match) => match.token)
+      .join("");
+    const restGuesses = findCheapestSequence(rest, dictionaries).guesses;
+    guesses = Math.min(
+      guesses,
+      contextMatches.reduce((product, match) => product * match.guesses, restGuesses)
+    );
+  }
+
+  const score = scoreGuesses(guesses);
+
+  return {
+    score,
+    guessesLog10: Math.log10(Math.max(guesses, 1)),
+    feedback: score >= MIN_PASSWORD_SCORE ? { warning: null, suggestions: [] } : buildFeedback(sequence, password),
+  };
+}
+
+/**
+ * Check a new password against the strength and breached-password policy
+ *
+ * @param password - New password, already validated by the Zod schema
+ * @param context - User details that count as easy guesses for this user
+ * @returns Feedback messages for the `password` field; empty if the password is accepted
+ *
+ * @example
+ * const problems = await checkPasswordPolicy(password, { email });
+ * if (problems.length > 0) {
+ *   return createErrorResponse("WEAK_PASSWORD", "Password is too weak", 400, { fields: { password: problems } });
+ * }
+ */
+export async function checkPasswordPolicy(password: string, context: PasswordUserContext = {}): Promise<string[]> {
+  const problems: string[] = [];
+
+  if (await isBreachedPassword(password)) {
+    problems.push("This password has appeared in a data breach. Please choose a different password.");
+  }
+
+  const strength = estimatePasswordStrength(password, context);
+  if (strength.score < MIN_PASSWORD_SCORE) {
+    problems.push(strength.feedback.warning ?? "Password is too easy to guess", ...strength.feedback.suggestions);
+  }
+
+  return problems;
+}
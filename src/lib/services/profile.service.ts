@@ -8,6 +8,7 @@
 
 import type { ProfileDTO, ErrorResponseDTO, UpdateProfileRequestDTO } from "../../types";
 import type { SupabaseClient } from "../../db/supabase.client";
+import { getCollectionStats } from "./collection-stats.service";
 
 /**
  * Error codes for profile operations
@@ -48,7 +49,7 @@ export class ProfileServiceError extends Error {
  *
  * This function:
  * 1. Queries the profiles table for the given user ID
- * 2. Calculates total card count from user_cards table
+ * 2. Calculates total card count via the get_collection_stats aggregation
  * 3. Maps the response to ProfileDTO format
  * 4. Handles missing profiles or database errors
  *
@@ -109,21 +110,15 @@ export async function getProfileWithTotals(supabase: SupabaseClient, userId: str
       return null;
     }
 
-    // Fetch the total card count from user_cards table
-    const { data: cardCountResult, error: cardCountError } = await supabase
-      .from("user_cards")
-      .select("quantity", { count: "exact" })
-      .eq("user_id", userId);
+    // Fetch the total card count via the collection stats aggregation
+    const totalCardsCount = await fetchTotalCardsCount(supabase, userId);
 
-    // Handle card count query errors (non-critical; provide default)
-    if (cardCountError) {
+    // Handle aggregation errors (non-critical; provide default)
+    if (totalCardsCount === null) {
       // Use the database's total_cards_count field as fallback
       return profile;
     }
 
-    // Calculate total quantity from all user cards
-    const totalCardsCount = cardCountResult?.reduce((sum, card) => sum + (card.quantity || 0), 0) || 0;
-
     // Return profile with updated total_cards_count from aggregation
     return {
       ...profile,
@@ -153,7 +148,7 @@ export async function getProfileWithTotals(supabase: SupabaseClient, userId: str
  * 2. Builds a payload containing only provided fields
  * 3. Explicitly sets null values for fields to be cleared
  * 4. Updates the profile row in the database
- * 5. Rehydrates total_cards_count by recalculating from user_cards
+ * 5. Rehydrates total_cards_count via the get_collection_stats aggregation
  * 6. Handles missing profiles or database errors
  *
  * @param supabase - Supabase client instance from context.locals
@@ -279,26 +274,17 @@ export async function updateProfile(
     }
 
     // Step 4: Rehydrate total_cards_count
-    const { data: cardCountResult, error: cardCountError } = await supabase
-      .from("user_cards")
-      .select("quantity", { count: "exact" })
-      .eq("user_id", userId);
+    const totalCardsCount = await fetchTotalCardsCount(supabase, userId);
 
-    // Handle card count query errors (non-critical; use profile value as fallback)
-    if (cardCountError) {
+    // Handle aggregation errors (non-critical; use profile value as fallback)
+    if (totalCardsCount === null) {
       // eslint-disable-next-line no-console
-      console.warn("Card count aggregation warning:", {
-        code: cardCountError.code,
-        userId,
-      });
+      console.warn("Card count aggregation warning:", { userId });
 
       // Return profile with existing total_cards_count value
       return updatedProfile;
     }
 
-    // Calculate total quantity from all user cards
-    const totalCardsCount = cardCountResult?.reduce((sum, card) => sum + (card.quantity || 0), 0) || 0;
-
     // Return profile with updated total_cards_count from aggregation
     return {
       ...updatedProfile,
@@ -319,3 +305,41 @@ export async function updateProfile(
     );
   }
 }
+
+/**
+ * Fetch the user's total card count from the collection stats aggregation
+ * Shares the single-round-trip get_collection_stats path with GET /api/collection/stats
+ *
+ * @returns Sum of quantities across the user's collection, or null if aggregation failed
+ * @internal
+ */
+async function fetchTotalCardsCount(supabase: SupabaseClient, userId: string): Promise<number | null> {
+  try {
+    const stats = await getCollectionStats(supabase, userId);
+    return stats.total_cards;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Delete a user's account
+ *
+ * Removes the auth user through the admin API. The profile cascades from
+ * auth.users, and user_cards, wishlist_items and analytics_events cascade from the profile,
+ * so nothing about the user remains.
+ *
+ * @param adminClient - Service role Supabase client (see createSupabaseAdminClient)
+ * @param userId - The authenticated user's ID
+ * @throws ProfileServiceError if the user cannot be deleted
+ */
+export async function deleteAccount(adminClient: SupabaseClient, userId: string): Promise<void> {
+  const { error } = await adminClient.auth.admin.deleteUser(userId);
+
+  if (error) {
+    // eslint-disable-next-line no-console
+    console.error("Account deletion error:", { message: error.message, userId });
+
+    throw new ProfileServiceError(ProfileErrorCodes.INTERNAL_ERROR, "Failed to delete account", 500);
+  }
+}
@@ -0,0 +1,232 @@
+/**
+ * Token bucket stores for the rate limiter
+ *
+ * A RateLimitStore refills and consumes one token atomically and reports the
+ * bucket state; ensureRateLimit turns that state into a result. Three stores
+ * are available, selected with RATE_LIMIT_STORE:
+ * - memory: a per-process Map (default; single instance only)
+ * - postgres: the rate_limit_buckets table through the consume_rate_limit
+ *   function (requires SUPABASE_SERVICE_ROLE_KEY)
+ * - redis: a Lua script on any Redis-protocol server at RATE_LIMIT_REDIS_URL
+ *
+ * Every store implements the same bucket: up to `limit` tokens, refilled at
+ * `limit` per `windowMs`, starting full.
+ */
+
+import { createSupabaseAdminClient } from "../../db/supabase.client";
+import type { SupabaseClient } from "../../db/supabase.client";
+import { createRedisClient, type RedisClient } from "../utils/redis-client";
+
+/**
+ * Bucket state after a consume call
+ */
+export interface RateLimitBucketState {
+  /** Whether a token was available and consumed */
+  allowed: boolean;
+  /** Tokens left after this request (fractional) */
+  tokens: number;
+}
+
+/**
+ * Shared token bucket storage
+ */
+export interface RateLimitStore {
+  /** Store name, for logs */
+  readonly name: string;
+  /** Refill the bucket for `key` and consume one token if available */
+  consume(key: string, limit: number, windowMs: number): Promise<RateLimitBucketState>;
+  /** Drop the bucket for `key`, restoring its full allowance */
+  reset(key: string): Promise<void>;
+}
+
+/**
+ * Store names accepted by RATE_LIMIT_STORE
+ */
+export const RATE_LIMIT_STORE_TYPES = ["memory", "postgres", "redis"] as const;
+
+/**
+ * Key prefix for Redis buckets, so the limiter can share a server with other data
+ */
+const REDIS_KEY_PREFIX = "ratelimit:";
+
+/**
+ * Cleanup interval for the in-memory store
+ */
+const MEMORY_CLEANUP_INTERVAL = 60000; // 1 minute
+
+/**
+ * Create a store keeping buckets in a module-local Map
+ *
+ * Buckets are not shared between server instances, so each instance enforces
+ * its own limits. Suitable for development and single-instance deployments.
+ *
+ * @returns In-memory RateLimitStore
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const buckets = new Map<string, { tokens: number; lastRefill: number; expiresAt: number }>();
+  let lastCleanup = Date.now();
+
+  // Remove buckets that have refilled completely and so carry no state
+  const cleanupExpiredBuckets = (now: number) => {
+    for (const [key, bucket] of buckets.entries()) {
+      if (bucket.expiresAt < now) {
+        buckets.delete(key);
+      }
+    }
+    lastCleanup = now;
+  };
+
+  return {
+    name: "memory",
+    async consume(key, limit, windowMs) {
+      const now = Date.now();
+      if (now - lastCleanup > MEMORY_CLEANUP_INTERVAL) {
+        cleanupExpiredBuckets(now);
+      }
+
+      const refillRate = limit / windowMs;
+      const bucket = buckets.get(key);
+
+      // Refill tokens up to the limit; new buckets start full
+      let tokens = bucket ? Math.min(limit, bucket.tokens + (now - bucket.lastRefill) * refillRate) : limit;
+      const allowed = tokens >= 1;
+      if (allowed) {
+        tokens -= 1;
+      }
+
+      buckets.set(key, { tokens, lastRefill: now, expiresAt: now + (limit - tokens) / refillRate });
+      return { allowed, tokens };
+    },
+    async reset(key) {
+      buckets.delete(key);
+    },
+  };
+}
+
+/**
+ * Create a store backed by the rate_limit_buckets table
+ *
+ * Each consume is one consume_rate_limit rpc call, which refills and
+ * decrements the bucket under a row lock. The functions are restricted to
+ * the service role.
+ *
+ * @param supabase - Service role Supabase client
+ * @returns Postgres RateLimitStore
+ */
+export function createPostgresRateLimitStore(supabase: SupabaseClient): RateLimitStore {
+  return {
+    name: "postgres",
+    async consume(key, limit, windowMs) {
+      const { data, error } = await supabase
+        .rpc("consume_rate_limit", { p_key: key, p_limit: limit, p_window_ms: windowMs })
+        .single();
+
+      if (error) {
+        throw new Error(`consume_rate_limit failed: ${error.message}`);
+      }
+
+      return { allowed: data.allowed, tokens: data.tokens };
+    },
+    async reset(key) {
+      const { error } = await supabase.rpc("reset_rate_limit", { p_key: key });
+      if (error) {
+        throw new Error(`reset_rate_limit failed: ${error.message}`);
+      }
+    },
+  };
+}
+
+/**
+ * Lua token bucket run atomically by the Redis server
+ *
+ * KEYS[1] = bucket key, ARGV[1] = limit, ARGV[2] = window in ms.
+ * Uses the server clock so instances with skewed clocks agree. The bucket
+ * expires once it would be full again. Tokens are returned as a string
+ * because Lua numbers are truncated to integers in replies.
+ */
+const REDIS_CONSUME_SCRIPT = `
+local limit = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local time = redis.call("TIME")
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local rate = limit / window
+local bucket = redis.call("HMGET", KEYS[1], "tokens", "last_refill")
+local tokens = tonumber(bucket[1])
+if tokens == nil then
+  tokens = limit
+else
+  tokens = math.min(limit, tokens + (now - tonumber(bucket[2])) * rate)
+end
+local allowed = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+end
+redis.call("HSET", KEYS[1], "tokens", tostring(tokens), "last_refill", tostring(now))
+redis.call("PEXPIRE", KEYS[1], math.ceil((limit - tokens) / rate) + 1)
+return { allowed, tostring(tokens) }
+`;
+
+/**
+ * Create a store keeping buckets in a Redis-protocol server
+ *
+ * @param client - Redis client (see createRedisClient)
+ * @returns Redis RateLimitStore
+ */
+export function createRedisRateLimitStore(client: RedisClient): RateLimitStore {
+  return {
+    name: "redis",
+    async consume(key, limit, windowMs) {
+      const reply = await client.command([
+        "EVAL",
+        REDIS_CONSUME_SCRIPT,
+        1,
+        `${REDIS_KEY_PREFIX}${key}`,
+        limit,
+        windowMs,
+      ]);
+
+      if (!Array.isArray(reply) || reply.length !== 2) {
+        throw new Error("Unexpected reply from rate limit script");
+      }
+
+      return { allowed: reply[0] === 1, tokens: Number(reply[1]) };
+    },
+    async reset(key) {
+      await client.command(["DEL", `${REDIS_KEY_PREFIX}${key}`]);
+    },
+  };
+}
+
+/**
+ * Create the store configured by RATE_LIMIT_STORE
+ *
+ * Falls back to the in-memory store, with a warning, when the configured
+ * store cannot be created (unknown name, missing Redis URL or service role key).
+ *
+ * @param type - Store name (defaults to "memory")
+ * @param redisUrl - Redis URL for the redis store
+ * @returns RateLimitStore
+ */
+export function createRateLimitStore(type = "memory", redisUrl?: string): RateLimitStore {
+  const fallback = (reason: string) => {
+    // eslint-disable-next-line no-console
+    console.warn(`Rate limit store "${type}" unavailable (${reason}); using the in-memory store`);
+    return createMemoryRateLimitStore();
+  };
+
+  switch (type) {
+    case "memory":
+      return createMemoryRateLimitStore();
+    case "postgres": {
+      const supabase = createSupabaseAdminClient();
+      return supabase ? createPostgresRateLimitStore(supabase) : fallback("SUPABASE_SERVICE_ROLE_KEY is not set");
+    }
+    case "redis":
+      return redisUrl
+        ? createRedisRateLimitStore(createRedisClient({ url: redisUrl }))
+        : fallback("no RATE_LIMIT_REDIS_URL");
+    default:
+      return fallback(`expected one of ${RATE_LIMIT_STORE_TYPES.join(", ")}`);
+  }
+}
@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { createMemoryRateLimitStore, type RateLimitStore } from "./rate-limit-stores.service";
+import { buildRateLimitHeaders, ensureRateLimit, setRateLimitStore } from "./rate-limit.service";
+
+const WINDOW_MS = 60000;
+
+describe("memory rate limit store", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("starts full and consumes one token per request", async () => {
+    const store = createMemoryRateLimitStore();
+
+    expect(await store.consume("key", 3, WINDOW_MS)).toEqual({ allowed: true, tokens: 2 });
+    expect(await store.consume("key", 3, WINDOW_MS)).toEqual({ allowed: true, tokens: 1 });
+    expect(await store.consume("key", 3, WINDOW_MS)).toEqual({ allowed: true, tokens: 0 });
+    expect(await store.consume("key", 3, WINDOW_MS)).toEqual({ allowed: false, tokens: 0 });
+  });
+
+  it("refills at limit tokens per window", async () => {
+    const store = createMemoryRateLimitStore();
+    for (let i = 0; i < 3; i++) {
+      await store.consume("key", 3, WINDOW_MS);
+    }
+
+    // A third of the window refills one token
+    vi.advanceTimersByTime(WINDOW_MS / 3);
+    expect(await store.consume("key", 3, WINDOW_MS)).toEqual({ allowed: true, tokens: 0 });
+
+    vi.advanceTimersByTime(WINDOW_MS / 6);
+    const halfToken = await store.consume("key", 3, WINDOW_MS);
+    expect(halfToken.allowed).toBe(false);
+    expect(halfToken.tokens).toBeCloseTo(0.5);
+  });
+
+  it("never refills past the limit", async () => {
+    const store = createMemoryRateLimitStore();
+    await store.consume("key", 3, WINDOW_MS);
+
+    vi.advanceTimersByTime(WINDOW_MS * 10);
+    expect(await store.consume("key", 3, WINDOW_MS)).toEqual({ allowed: true, tokens: 2 });
+  });
+
+  it("keeps separate buckets per key and restores a reset key", async () => {
+    const store = createMemoryRateLimitStore();
+    await store.consume("a", 1, WINDOW_MS);
+
+    expect((await store.consume("a", 1, WINDOW_MS)).allowed).toBe(false);
+    expect((await store.consume("b", 1, WINDOW_MS)).allowed).toBe(true);
+
+    await store.reset("a");
+    expect((await store.consume("a", 1, WINDOW_MS)).allowed).toBe(true);
+  });
+});
+
+describe("ensureRateLimit", () => {
+  const storeReturning = (tokens: number, allowed: boolean): RateLimitStore => ({
+    name: "stub",
+    consume: async () => ({ allowed, tokens }),
+    reset: async () => undefined,
+  });
+
+  it("reports remaining requests and seconds until the bucket is full", async () => {
+    setRateLimitStore(storeReturning(2.5, true));
+
+    expect(await ensureRateLimit({ key: "key", limit: 5, windowMs: WINDOW_MS })).toEqual({
+      allowed: true,
+      limit: 5,
+      remaining: 2,
+      // 2.5 missing tokens at 5 per minute
+      reset: 30,
+    });
+  });
+
+  it("tells blocked requests when the next token arrives", async () => {
+    setRateLimitStore(storeReturning(0.25, false));
+
+    const result = await ensureRateLimit({ key: "key", limit: 5, windowMs: WINDOW_MS });
+    expect(result.allowed).toBe(false);
+    expect(result.remaining).toBe(0);
+    // 0.75 tokens at one token per 12 seconds
+    expect(result.retryAfter).toBe(9);
+  });
+
+  it("fails open when the store throws", async () => {
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => undefined);
+    setRateLimitStore({
+      name: "broken",
+      consume: async () => {
+        throw new Error("connection refused");
+      },
+      reset: async () => undefined,
+    });
+
+    expect(await ensureRateLimit({ key: "key", limit: 5, windowMs: WINDOW_MS })).toEqual({
+      allowed: true,
+      limit: 5,
+      remaining: 5,
+      reset: 0,
+    });
+    consoleError.mockRestore();
+  });
+});
+
+describe("buildRateLimitHeaders", () => {
+  const policy = {
+    name: "login",
+    method: "POST",
+    route: "/api/auth/login",
+    identity: "ip" as const,
+    limit: 5,
+    windowMs: WINDOW_MS,
+    message: "Too many login attempts",
+  };
+
+  it("adds Retry-After only to blocked requests", () => {
+    expect(buildRateLimitHeaders({ policy, result: { allowed: true, limit: 5, remaining: 4, reset: 12 } })).toEqual({
+      "RateLimit-Limit": "5",
+      "RateLimit-Remaining": "4",
+      "RateLimit-Reset": "12",
+    });
+
+    expect(
+      buildRateLimitHeaders({ policy, result: { allowed: false, limit: 5, remaining: 0, reset: 60, retryAfter: 12 } })
+    ).toMatchObject({ "Retry-After": "12" });
+  });
+});
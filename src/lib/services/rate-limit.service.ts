@@ -1,9 +1,10 @@
 /**
  * Rate limiting service for API endpoints
  *
- * This module provides a simple in-memory token bucket rate limiter for development.
- * In production, this should be replaced with a Redis/Upstash-backed solution for
- * distributed rate limiting across multiple server instances.
+ * This module implements a token bucket rate limiter over a pluggable
+ * RateLimitStore (see rate-limit-stores.service.ts). The store is chosen with
+ * RATE_LIMIT_STORE: "memory" (default, per process), "postgres" or "redis"
+ * for limits shared across server instances.
  *
  * Token Bucket Algorithm:
  * - Each key (e.g., IP address) gets a bucket with a maximum number of tokens
@@ -12,10 +13,7 @@
  * - When bucket is empty, requests are rate limited
  */
 
-interface RateLimitBucket {
-  tokens: number;
-  lastRefill: number;
-}
+import { createRateLimitStore, type RateLimitStore } from "./rate-limit-stores.service";
 
 interface RateLimitOptions {
   key: string;
@@ -23,43 +21,73 @@ interface RateLimitOptions {
   windowMs: number;
 }
 
-interface RateLimitResult {
+export interface RateLimitResult {
   allowed: boolean;
+  /** Bucket size (requests allowed in a window) */
+  limit: number;
+  /** Requests left before the limit is hit */
+  remaining: number;
+  /** Seconds until the bucket is full again */
+  reset: number;
+  /** Seconds until the next request is allowed (blocked requests only) */
   retryAfter?: number;
 }
 
 /**
- * In-memory storage for rate limit buckets
- * WARNING: This is not suitable for production with multiple server instances
- * Use Redis or similar for distributed rate limiting in production
+ * Request attribute a policy counts requests by
+ * - ip: client IP address
+ * - user: authenticated user id (the policy is skipped for anonymous requests)
+ * - user-or-ip: user id when authenticated, otherwise the client IP
+ * - email: SHA-256 hash of the normalized `email` field of the JSON body
+ *   (the policy is skipped when the body has none)
  */
-const buckets = new Map<string, RateLimitBucket>();
+export type RateLimitIdentity = "ip" | "user" | "user-or-ip" | "email";
 
 /**
- * Cleanup interval to remove old buckets and prevent memory leaks
+ * Declarative rate limit for one route and identity
  */
-const CLEANUP_INTERVAL = 60000; // 1 minute
-let lastCleanup = Date.now();
+export interface RateLimitPolicy {
+  /** Policy name, used in bucket keys and reported in 429 responses */
+  name: string;
+  /** HTTP method the policy applies to */
+  method: string;
+  /** Route path; ":param" segments match any single segment */
+  route: string;
+  identity: RateLimitIdentity;
+  limit: number;
+  windowMs: number;
+  /** Error message of the 429 response */
+  message: string;
+}
 
 /**
- * Remove buckets that haven't been used in the last hour
+ * Outcome of checking the policies that apply to a request
  */
-function cleanupOldBuckets(): void {
-  const now = Date.now();
-  const oneHourAgo = now - 3600000;
+export interface RateLimitPolicyCheck {
+  /** The policy that blocked the request, or else the one with the fewest remaining requests */
+  policy: RateLimitPolicy;
+  result: RateLimitResult;
+}
 
-  for (const [key, bucket] of buckets.entries()) {
-    if (bucket.lastRefill < oneHourAgo) {
-      buckets.delete(key);
-    }
-  }
+/**
+ * Store shared by all requests of this process, created on first use
+ */
+let store: RateLimitStore | null = null;
 
-  lastCleanup = now;
+/**
+ * Get the configured rate limit store
+ */
+function getRateLimitStore(): RateLimitStore {
+  store ??= createRateLimitStore(import.meta.env.RATE_LIMIT_STORE, import.meta.env.RATE_LIMIT_REDIS_URL);
+  return store;
 }
 
 /**
  * Check if a request should be rate limited
  *
+ * Fails open: if the store is unreachable the request is allowed and the
+ * error logged, so an outage of Redis or Postgres does not take the API down.
+ *
  * @param options - Rate limiting options
  * @param options.key - Unique identifier for the rate limit (e.g., IP address)
  * @param options.limit - Maximum number of requests allowed in the window
@@ -67,80 +95,153 @@ function cleanupOldBuckets(): void {
  * @returns Result indicating if request is allowed and retry time if blocked
  *
  * @example
- * const result = ensureRateLimit({
- *   key: request.headers.get("x-forwarded-for") || "unknown",
+ * const result = await ensureRateLimit({
+ *   key: `login:${toClientNetwork(getClientIp(context))}`,
  *   limit: 5,
  *   windowMs: 60000 // 1 minute
  * });
  *
  * if (!result.allowed) {
- *   return new Response(JSON.stringify({ error: "Rate limit exceeded" }), {
- *     status: 429,
- *     headers: { "Retry-After": result.retryAfter?.toString() || "60" }
+ *   return createErrorResponse("RATE_LIMIT_EXCEEDED", "Too many requests", 429, {
+ *     retryAfter: result.retryAfter || 60,
  *   });
  * }
  */
-export function ensureRateLimit(options: RateLimitOptions): RateLimitResult {
+export async function ensureRateLimit(options: RateLimitOptions): Promise<RateLimitResult> {
   const { key, limit, windowMs } = options;
-  const now = Date.now();
-
-  // Periodic cleanup to prevent memory leaks
-  if (now - lastCleanup > CLEANUP_INTERVAL) {
-    cleanupOldBuckets();
-  }
-
-  let bucket = buckets.get(key);
-
-  // Initialize bucket if it doesn't exist
-  if (!bucket) {
-    bucket = {
-      tokens: limit - 1,
-      lastRefill: now,
-    };
-    buckets.set(key, bucket);
-    return { allowed: true };
+  const rateLimitStore = getRateLimitStore();
+
+  let bucket;
+  try {
+    bucket = await rateLimitStore.consume(key, limit, windowMs);
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error(`Rate limit store "${rateLimitStore.name}" error:`, error instanceof Error ? error.message : error);
+    return { allowed: true, limit, remaining: limit, reset: 0 };
   }
 
-  // Calculate tokens to refill based on time elapsed
-  const timeSinceLastRefill = now - bucket.lastRefill;
   const refillRate = limit / windowMs;
-  const tokensToAdd = timeSinceLastRefill * refillRate;
-
-  // Refill tokens up to the limit
-  bucket.tokens = Math.min(limit, bucket.tokens + tokensToAdd);
-  bucket.lastRefill = now;
+  const result: RateLimitResult = {
+    allowed: bucket.allowed,
+    limit,
+    remaining: Math.max(0, Math.floor(bucket.tokens)),
+    reset: Math.ceil((limit - bucket.tokens) / refillRate / 1000),
+  };
 
-  // Check if we have tokens available
-  if (bucket.tokens >= 1) {
-    bucket.tokens -= 1;
-    buckets.set(key, bucket);
-    return { allowed: true };
+  if (bucket.allowed) {
+    return result;
   }
 
   // Calculate retry after time
   const tokensNeeded = 1 - bucket.tokens;
   const retryAfterMs = tokensNeeded / refillRate;
-  const retryAfterSeconds = Math.ceil(retryAfterMs / 1000);
+  result.retryAfter = Math.ceil(retryAfterMs / 1000);
+
+  return result;
+}
+
+/**
+ * Check whether a route path matches a policy route
+ * ":param" segments match any single path segment
+ *
+ * @param route - Route pattern, e.g. "/api/collection/:userCardId"
+ * @param pathname - Request path
+ * @returns True if the path matches the pattern segment by segment
+ */
+export function matchesPolicyRoute(route: string, pathname: string): boolean {
+  const routeSegments = route.split("/").filter(Boolean);
+  const pathSegments = pathname.split("/").filter(Boolean);
+
+  return (
+    routeSegments.length === pathSegments.length &&
+    routeSegments.every((segment, index) => segment.startsWith(":") || segment === pathSegments[index])
+  );
+}
 
-  return {
-    allowed: false,
-    retryAfter: retryAfterSeconds,
+/**
+ * Find the policies that apply to a request
+ *
+ * @param policies - Policy table
+ * @param method - Request method
+ * @param pathname - Request path
+ * @returns Matching policies in table order
+ */
+export function findRateLimitPolicies(
+  policies: RateLimitPolicy[],
+  method: string,
+  pathname: string
+): RateLimitPolicy[] {
+  return policies.filter((policy) => policy.method === method && matchesPolicyRoute(policy.route, pathname));
+}
+
+/**
+ * Consume one request from each policy's bucket, in order
+ *
+ * Stops at the first policy that blocks, so a request blocked by IP does not
+ * also use up its email allowance. Policies whose identity cannot be resolved
+ * (e.g. `user` on an anonymous request) are skipped.
+ *
+ * @param policies - Policies that apply to the request
+ * @param resolveIdentity - Returns the identity value for the request, or null if unavailable
+ * @returns The blocking or most exhausted policy with its result, or null if no policy applied
+ */
+export async function checkRateLimitPolicies(
+  policies: RateLimitPolicy[],
+  resolveIdentity: (identity: RateLimitIdentity) => Promise<string | null>
+): Promise<RateLimitPolicyCheck | null> {
+  let tightest: RateLimitPolicyCheck | null = null;
+
+  for (const policy of policies) {
+    const identity = await resolveIdentity(policy.identity);
+    if (!identity) {
+      continue;
+    }
+
+    const result = await ensureRateLimit({ key: `${policy.name}:${identity}`, ...policy });
+    if (!result.allowed) {
+      return { policy, result };
+    }
+
+    if (!tightest || result.remaining < tightest.result.remaining) {
+      tightest = { policy, result };
+    }
+  }
+
+  return tightest;
+}
+
+/**
+ * Build the IETF RateLimit headers for a policy check
+ *
+ * @param check - Policy check from checkRateLimitPolicies
+ * @returns RateLimit-Limit, RateLimit-Remaining and RateLimit-Reset (plus Retry-After when blocked)
+ */
+export function buildRateLimitHeaders(check: RateLimitPolicyCheck): Record<string, string> {
+  const headers: Record<string, string> = {
+    "RateLimit-Limit": String(check.result.limit),
+    "RateLimit-Remaining": String(check.result.remaining),
+    "RateLimit-Reset": String(check.result.reset),
   };
+
+  if (check.result.retryAfter !== undefined) {
+    headers["Retry-After"] = String(check.result.retryAfter);
+  }
+
+  return headers;
 }
 
 /**
  * Reset rate limit for a specific key
  * Useful for testing or manual intervention
  */
-export function resetRateLimit(key: string): void {
-  buckets.delete(key);
+export async function resetRateLimit(key: string): Promise<void> {
+  await getRateLimitStore().reset(key);
 }
 
 /**
- * Clear all rate limit buckets
- * Useful for testing
+ * Replace the rate limit store
+ * Useful for testing, e.g. with a fresh createMemoryRateLimitStore()
  */
-export function clearAllRateLimits(): void {
-  buckets.clear();
-  lastCleanup = Date.now();
+export function setRateLimitStore(rateLimitStore: RateLimitStore): void {
+  store = rateLimitStore;
 }
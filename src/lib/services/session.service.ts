@@ -0,0 +1,130 @@
+/**
+ * Session service for listing and revoking a user's active sessions
+ *
+ * Supabase Auth keeps one session per sign-in, identified by the session_id
+ * claim of its access tokens. This module stores device metadata for each
+ * session in user_sessions (user agent and IP hash, recorded at sign-in and
+ * refreshed on token rotation) so users can review where they are signed in
+ * and revoke individual sessions or all of them.
+ */
+
+import type { RecordSessionCommand, UserSessionDTO } from "../../types";
+import { createSupabaseServerClient } from "../../db/supabase.client";
+import type { SupabaseClient } from "../../db/supabase.client";
+import { hashString } from "../utils/api-helpers";
+import { describeUserAgent } from "../utils/user-agent";
+import { AuthErrorCodes, AuthServiceError, decodeTokenSessionId } from "./auth.service";
+
+/**
+ * Record the metadata of a session, or refresh its last_seen_at
+ *
+ * Runs with a client bound to the session's own access token, so the row is
+ * keyed by that token's session_id claim. Callers treat this as
+ * fire-and-forget: a failure only leaves the session without device details.
+ *
+ * @param command - The session's access token and the client it was issued to
+ * @throws Error when the metadata cannot be stored
+ *
+ * @example
+ * recordUserSession({ accessToken, ipAddress: clientIp, userAgent }).catch(() => {
+ *   // Session metadata is best effort
+ * });
+ */
+export async function recordUserSession(command: RecordSessionCommand): Promise<void> {
+  const { error } = await createSupabaseServerClient(command.accessToken).rpc("record_user_session", {
+    p_user_agent: command.userAgent,
+    p_ip_hash: command.ipAddress ? await hashString(command.ipAddress) : undefined,
+  });
+
+  if (error) {
+    throw new Error(`Failed to record session: ${error.message}`);
+  }
+}
+
+/**
+ * List the user's active sessions, most recently seen first
+ *
+ * Sessions ended by logout or revocation are removed together with their
+ * Supabase Auth session, so every listed session can still refresh tokens.
+ *
+ * @param supabase - Supabase client instance from context.locals
+ * @param userId - The authenticated user's id
+ * @param accessToken - The request's access token, used to flag the current session
+ * @returns Active sessions
+ * @throws AuthServiceError for database errors
+ */
+export async function listUserSessions(
+  supabase: SupabaseClient,
+  userId: string,
+  accessToken: string
+): Promise<UserSessionDTO[]> {
+  const { data, error } = await supabase
+    .from("user_sessions")
+    .select("id, user_agent, ip_hash, created_at, last_seen_at")
+    .eq("user_id", userId)
+    .order("last_seen_at", { ascending: false });
+
+  if (error) {
+    throw new AuthServiceError(AuthErrorCodes.INTERNAL_ERROR, "Failed to list sessions", 500, {
+      originalError: error.message,
+    });
+  }
+
+  const currentSessionId = decodeTokenSessionId(accessToken);
+
+  return data.map((session) => ({
+    id: session.id,
+    device: describeUserAgent(session.user_agent),
+    user_agent: session.user_agent,
+    ip_hash: session.ip_hash,
+    created_at: session.created_at,
+    last_seen_at: session.last_seen_at,
+    current: session.id === currentSessionId,
+  }));
+}
+
+/**
+ * Revoke one of the user's sessions
+ *
+ * Deletes the Supabase Auth session with its refresh tokens. Access tokens
+ * already issued for it are rejected by Supabase Auth from then on.
+ *
+ * @param supabase - Supabase client instance from context.locals (bound to the user)
+ * @param sessionId - Id of the session to revoke
+ * @throws AuthServiceError SESSION_NOT_FOUND if the user has no such session, INTERNAL_ERROR otherwise
+ */
+export async function revokeUserSession(supabase: SupabaseClient, sessionId: string): Promise<void> {
+  const { data: revoked, error } = await supabase.rpc("revoke_user_session", { p_session_id: sessionId });
+
+  if (error) {
+    throw new AuthServiceError(AuthErrorCodes.INTERNAL_ERROR, "Failed to revoke the session", 500, {
+      originalError: error.message,
+    });
+  }
+
+  // Sessions of other users are reported as missing so their existence is not revealed
+  if (!revoked) {
+    throw new AuthServiceError(AuthErrorCodes.SESSION_NOT_FOUND, "Session not found", 404);
+  }
+}
+
+/**
+ * Revoke all of the user's sessions, including the current one
+ *
+ * @param token - Access token of any of the user's sessions
+ * @param supabase - Supabase client instance from context.locals
+ * @throws AuthServiceError UNAUTHORIZED for an invalid or expired token, INTERNAL_ERROR otherwise
+ */
+export async function signOutEverywhere(token: string, supabase: SupabaseClient): Promise<void> {
+  const { error } = await supabase.auth.admin.signOut(token, "global");
+
+  if (error) {
+    if (error.status && error.status < 500) {
+      throw new AuthServiceError(AuthErrorCodes.UNAUTHORIZED, "Token is invalid or expired", 401);
+    }
+
+    throw new AuthServiceError(AuthErrorCodes.INTERNAL_ERROR, "Failed to sign out of all sessions", 500, {
+      originalError: error.message,
+    });
+  }
+}
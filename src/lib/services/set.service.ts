@@ -0,0 +1,277 @@
+/**
+ * Set service for browsing card sets and tracking completion
+ *
+ * This module provides business logic for set operations using Supabase.
+ * It handles paginated and series-grouped set listings, set detail lookups,
+ * and per-user completion computed by the get_set_completion Postgres function.
+ */
+
+import type {
+  ErrorResponseDTO,
+  PaginatedResponseDTO,
+  SetCompletionDTO,
+  SetDetailDTO,
+  SetDTO,
+  SetSeriesGroupDTO,
+  SetsQueryDTO,
+} from "../../types";
+import type { SupabaseClient } from "../../db/supabase.client";
+import { buildPagination, escapeLikePattern } from "../utils/api-helpers";
+
+/**
+ * Error codes for set operations
+ */
+export const SetErrorCodes = {
+  NOT_FOUND: "NOT_FOUND",
+  VALIDATION_ERROR: "VALIDATION_ERROR",
+  INTERNAL_ERROR: "INTERNAL_ERROR",
+} as const;
+
+/**
+ * Custom error class for set operations
+ */
+export class SetServiceError extends Error {
+  constructor(
+    public code: string,
+    public message: string,
+    public statusCode: number,
+    public details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = "SetServiceError";
+  }
+
+  toErrorResponse(): ErrorResponseDTO {
+    return {
+      error: {
+        code: this.code,
+        message: this.message,
+        details: this.details,
+      },
+    };
+  }
+}
+
+/**
+ * Validated set list parameters
+ */
+export type SetListParams = Required<Pick<SetsQueryDTO, "page" | "limit" | "sort" | "order">> &
+  Pick<SetsQueryDTO, "search" | "series">;
+
+/**
+ * Columns selected from the sets table for SetDTO payloads
+ */
+export const SET_DTO_COLUMNS = "id, name, series, total_cards, release_date, logo_url, symbol_url, ptcgo_code";
+
+/**
+ * List sets with filtering, sorting and pagination
+ *
+ * @param supabase - Supabase client instance from context.locals
+ * @param params - Validated list parameters
+ * @returns Paginated list of sets
+ * @throws SetServiceError for database errors
+ */
+export async function listSets(supabase: SupabaseClient, params: SetListParams): Promise<PaginatedResponseDTO<SetDTO>> {
+  try {
+    const { page, limit, sort, order } = params;
+    const from = (page - 1) * limit;
+    const to = from + limit - 1;
+    const ascending = order === "asc";
+
+    let builder = supabase.from("sets").select(SET_DTO_COLUMNS, { count: "exact" });
+
+    if (params.search) {
+      builder = builder.ilike("name", `%${escapeLikePattern(params.search)}%`);
+    }
+
+    if (params.series) {
+      builder = builder.eq("series", params.series);
+    }
+
+    // Secondary keys keep pages stable when the primary sort has ties (e.g. same series)
+    const { data, error, count } = await builder
+      .order(sort, { ascending, nullsFirst: false })
+      .order("release_date", { ascending, nullsFirst: false })
+      .order("id", { ascending: true })
+      .range(from, to);
+
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.error("Set list query error:", { code: error.code, message: error.message });
+
+      throw new SetServiceError(SetErrorCodes.INTERNAL_ERROR, "Failed to fetch sets", 500, { code: error.code });
+    }
+
+    return {
+      data: data || [],
+      pagination: buildPagination(page, limit, count || 0),
+    };
+  } catch (error) {
+    if (error instanceof SetServiceError) {
+      throw error;
+    }
+
+    throw new SetServiceError(SetErrorCodes.INTERNAL_ERROR, "An unexpected error occurred while fetching sets", 500, {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+}
+
+/**
+ * List every matching set grouped by series
+ *
+ * This function:
+ * 1. Fetches all sets matching the filters ordered by release date
+ * 2. Groups them by series, keeping the order in which each series first appears
+ *
+ * With ascending order the oldest series comes first; with descending order
+ * the series holding the newest release comes first. Sets without a release
+ * date sort last within their series.
+ *
+ * @param supabase - Supabase client instance from context.locals
+ * @param params - Validated filter and order parameters
+ * @returns Series groups with their sets
+ * @throws SetServiceError for database errors
+ */
+export async function listSetsGroupedBySeries(
+  supabase: SupabaseClient,
+  params: Pick<SetListParams, "order" | "search" | "series">
+): Promise<SetSeriesGroupDTO[]> {
+  try {
+    const ascending = params.order === "asc";
+
+    let builder = supabase.from("sets").select(SET_DTO_COLUMNS);
+
+    if (params.search) {
+      builder = builder.ilike("name", `%${escapeLikePattern(params.search)}%`);
+    }
+
+    if (params.series) {
+      builder = builder.eq("series", params.series);
+    }
+
+    const { data, error } = await builder
+      .order("release_date", { ascending, nullsFirst: false })
+      .order("name", { ascending: true });
+
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.error("Grouped set list query error:", { code: error.code, message: error.message });
+
+      throw new SetServiceError(SetErrorCodes.INTERNAL_ERROR, "Failed to fetch sets", 500, { code: error.code });
+    }
+
+    const groups = new Map<string | null, SetDTO[]>();
+    for (const set of data || []) {
+      const group = groups.get(set.series);
+      if (group) {
+        group.push(set);
+      } else {
+        groups.set(set.series, [set]);
+      }
+    }
+
+    return Array.from(groups, ([series, sets]) => ({ series, sets }));
+  } catch (error) {
+    if (error instanceof SetServiceError) {
+      throw error;
+    }
+
+    throw new SetServiceError(SetErrorCodes.INTERNAL_ERROR, "An unexpected error occurred while fetching sets", 500, {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+}
+
+/**
+ * Fetch a single set with sync metadata
+ *
+ * @param supabase - Supabase client instance from context.locals
+ * @param setId - The set ID
+ * @returns SetDetailDTO, or null if the set does not exist
+ * @throws SetServiceError for database errors
+ */
+export async function getSetById(supabase: SupabaseClient, setId: string): Promise<SetDetailDTO | null> {
+  try {
+    const { data, error } = await supabase
+      .from("sets")
+      .select(`${SET_DTO_COLUMNS}, last_synced_at, created_at, updated_at`)
+      .eq("id", setId)
+      .maybeSingle();
+
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.error("Set detail query error:", { code: error.code, message: error.message, setId });
+
+      throw new SetServiceError(SetErrorCodes.INTERNAL_ERROR, "Failed to fetch set", 500, { code: error.code });
+    }
+
+    return data;
+  } catch (error) {
+    if (error instanceof SetServiceError) {
+      throw error;
+    }
+
+    throw new SetServiceError(SetErrorCodes.INTERNAL_ERROR, "An unexpected error occurred while fetching set", 500, {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+}
+
+/**
+ * Compute a user's completion progress for a set
+ *
+ * Completion counts distinct owned card_ids against sets.total_cards:
+ * different variants of the same card count once. Wishlist items are wanted
+ * rather than owned and never count.
+ *
+ * @param supabase - Supabase client instance from context.locals
+ * @param userId - The authenticated user's ID
+ * @param setId - The set ID
+ * @returns SetCompletionDTO, or null if the set does not exist
+ * @throws SetServiceError for database errors
+ */
+export async function getSetCompletion(
+  supabase: SupabaseClient,
+  userId: string,
+  setId: string
+): Promise<SetCompletionDTO | null> {
+  try {
+    const { data, error } = await supabase
+      .rpc("get_set_completion", { p_user_id: userId, p_set_id: setId })
+      .maybeSingle();
+
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.error("Set completion query error:", { code: error.code, message: error.message, userId, setId });
+
+      throw new SetServiceError(SetErrorCodes.INTERNAL_ERROR, "Failed to compute set completion", 500, {
+        code: error.code,
+      });
+    }
+
+    if (!data) {
+      return null;
+    }
+
+    return {
+      set_id: data.set_id,
+      set_name: data.set_name,
+      total_cards: data.total_cards,
+      owned_cards: data.owned_cards,
+      // numeric columns arrive as strings or numbers depending on precision
+      completion_percentage: Number(data.completion_percentage),
+    };
+  } catch (error) {
+    if (error instanceof SetServiceError) {
+      throw error;
+    }
+
+    throw new SetServiceError(
+      SetErrorCodes.INTERNAL_ERROR,
+      "An unexpected error occurred while computing set completion",
+      500,
+      { error: error instanceof Error ? error.message : "Unknown error" }
+    );
+  }
+}
@@ -0,0 +1,373 @@
+/**
+ * Wishlist service for managing the cards a user wants to acquire
+ *
+ * Wishlist items live in wishlist_items, separate from the owned cards in
+ * user_cards, so wanted cards never count toward the collection totals or
+ * limits. Items are fulfilled by database triggers once the user owns the
+ * desired quantity of the desired variant (or of any variant when none is
+ * set); this module lists, adds, updates and removes items and maps
+ * constraint failures to application error codes.
+ */
+
+import type {
+  AddWishlistItemRequestDTO,
+  CardDTO,
+  ErrorResponseDTO,
+  PaginatedResponseDTO,
+  UpdateWishlistItemRequestDTO,
+  WishlistItemDTO,
+  WishlistItemWithCardDTO,
+  WishlistQueryDTO,
+} from "../../types";
+import type { SupabaseClient } from "../../db/supabase.client";
+import { buildPagination, escapeLikePattern } from "../utils/api-helpers";
+import { CARD_DTO_COLUMNS } from "./card.service";
+
+/**
+ * Error codes for wishlist operations
+ */
+export const WishlistErrorCodes = {
+  NOT_FOUND: "NOT_FOUND",
+  ALREADY_WISHLISTED: "ALREADY_WISHLISTED",
+  VALIDATION_ERROR: "VALIDATION_ERROR",
+  INTERNAL_ERROR: "INTERNAL_ERROR",
+} as const;
+
+/**
+ * Custom error class for wishlist operations
+ */
+export class WishlistServiceError extends Error {
+  constructor(
+    public code: string,
+    public message: string,
+    public statusCode: number,
+    public details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = "WishlistServiceError";
+  }
+
+  toErrorResponse(): ErrorResponseDTO {
+    return {
+      error: {
+        code: this.code,
+        message: this.message,
+        details: this.details,
+      },
+    };
+  }
+}
+
+/**
+ * Select clause for wishlist_items rows joined with their card
+ * The inner join allows filtering and ordering on card columns
+ */
+const WISHLIST_ITEM_WITH_CARD_SELECT = `id, card_id, desired_variant, desired_quantity, priority, max_price, fulfilled_at, created_at, updated_at, card:cards!inner(${CARD_DTO_COLUMNS})`;
+
+/**
+ * Postgres error codes surfaced by PostgREST
+ */
+const PG_UNIQUE_VIOLATION = "23505";
+const PG_FOREIGN_KEY_VIOLATION = "23503";
+
+/**
+ * Shape of a wishlist_items row joined with its card via WISHLIST_ITEM_WITH_CARD_SELECT
+ */
+type WishlistItemRow = WishlistItemDTO & { card: CardDTO };
+
+/**
+ * Translate a Postgres error raised while writing wishlist_items into a WishlistServiceError
+ *
+ * The unique constraint on (user_id, card_id, desired_variant) raises 23505
+ * and the card foreign key raises 23503.
+ * @internal
+ */
+function mapWishlistWriteError(
+  error: { code: string; message: string; details?: string | null },
+  fallbackMessage: string
+): WishlistServiceError {
+  if (error.code === PG_UNIQUE_VIOLATION) {
+    return new WishlistServiceError(
+      WishlistErrorCodes.ALREADY_WISHLISTED,
+      "This card and variant are already on the wishlist",
+      409
+    );
+  }
+
+  if (error.code === PG_FOREIGN_KEY_VIOLATION) {
+    return new WishlistServiceError(WishlistErrorCodes.NOT_FOUND, "Card not found", 404);
+  }
+
+  // eslint-disable-next-line no-console
+  console.error("Wishlist write error:", { code: error.code, message: error.message, details: error.details });
+
+  return new WishlistServiceError(WishlistErrorCodes.INTERNAL_ERROR, fallbackMessage, 500, {
+    code: error.code,
+  });
+}
+
+/**
+ * Map a joined wishlist_items row to WishlistItemWithCardDTO
+ * @internal
+ */
+function toWishlistItemWithCard(row: WishlistItemRow): WishlistItemWithCardDTO {
+  const { card, ...item } = row;
+  return { ...item, card };
+}
+
+/**
+ * Wrap unexpected errors in a WishlistServiceError
+ * @internal
+ */
+function toWishlistServiceError(error: unknown, message: string): WishlistServiceError {
+  if (error instanceof WishlistServiceError) {
+    return error;
+  }
+
+  return new WishlistServiceError(WishlistErrorCodes.INTERNAL_ERROR, message, 500, {
+    error: error instanceof Error ? error.message : "Unknown error",
+  });
+}
+
+/**
+ * List the user's wishlist with filtering, sorting and pagination
+ *
+ * This function:
+ * 1. Joins wishlist_items with cards so filters/sorts can target card columns
+ * 2. Applies set, priority, fulfilment and name search filters
+ * 3. Applies sorting and range-based pagination with an exact count
+ * 4. Maps rows to PaginatedResponseDTO<WishlistItemWithCardDTO>
+ *
+ * @param supabase - Supabase client instance from context.locals
+ * @param userId - The authenticated user's ID
+ * @param query - Validated wishlist query parameters
+ * @returns Paginated wishlist items with nested card data
+ * @throws WishlistServiceError for database errors
+ */
+export async function listWishlist(
+  supabase: SupabaseClient,
+  userId: string,
+  query: Required<Pick<WishlistQueryDTO, "page" | "limit" | "sort" | "order">> & WishlistQueryDTO
+): Promise<PaginatedResponseDTO<WishlistItemWithCardDTO>> {
+  try {
+    const { page, limit, sort, order } = query;
+    const from = (page - 1) * limit;
+    const to = from + limit - 1;
+
+    let builder = supabase
+      .from("wishlist_items")
+      .select(WISHLIST_ITEM_WITH_CARD_SELECT, { count: "exact" })
+      .eq("user_id", userId);
+
+    if (query.set_id) {
+      builder = builder.eq("card.set_id", query.set_id);
+    }
+
+    if (query.priority) {
+      builder = builder.eq("priority", query.priority);
+    }
+
+    if (query.fulfilled !== undefined) {
+      builder = query.fulfilled ? builder.not("fulfilled_at", "is", null) : builder.is("fulfilled_at", null);
+    }
+
+    if (query.search) {
+      builder = builder.ilike("card.name", `%${escapeLikePattern(query.search)}%`);
+    }
+
+    // priority is an enum and sorts low < medium < high; ties fall back to id for stable pages
+    const ascending = order === "asc";
+    builder = sort === "name" ? builder.order("card(name)", { ascending }) : builder.order(sort, { ascending });
+    builder = builder.order("id", { ascending: true });
+
+    const { data, error, count } = await builder.range(from, to);
+
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.error("Wishlist list query error:", { code: error.code, message: error.message, userId });
+
+      throw new WishlistServiceError(WishlistErrorCodes.INTERNAL_ERROR, "Failed to fetch wishlist", 500, {
+        code: error.code,
+      });
+    }
+
+    return {
+      data: (data || []).map(toWishlistItemWithCard),
+      pagination: buildPagination(page, limit, count || 0),
+    };
+  } catch (error) {
+    throw toWishlistServiceError(error, "An unexpected error occurred while fetching wishlist");
+  }
+}
+
+/**
+ * Fetch a single wishlist item owned by the user
+ *
+ * @param supabase - Supabase client instance from context.locals
+ * @param userId - The authenticated user's ID
+ * @param itemId - The wishlist item ID
+ * @returns Wishlist item with nested card, or null if not found for this user
+ * @throws WishlistServiceError for database errors
+ */
+export async function getWishlistItem(
+  supabase: SupabaseClient,
+  userId: string,
+  itemId: string
+): Promise<WishlistItemWithCardDTO | null> {
+  try {
+    const { data, error } = await supabase
+      .from("wishlist_items")
+      .select(WISHLIST_ITEM_WITH_CARD_SELECT)
+      .eq("id", itemId)
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.error("Wishlist item query error:", { code: error.code, message: error.message, userId, itemId });
+
+      throw new WishlistServiceError(WishlistErrorCodes.INTERNAL_ERROR, "Failed to fetch wishlist item", 500, {
+        code: error.code,
+      });
+    }
+
+    return data ? toWishlistItemWithCard(data) : null;
+  } catch (error) {
+    throw toWishlistServiceError(error, "An unexpected error occurred while fetching wishlist item");
+  }
+}
+
+/**
+ * Add a card to the user's wishlist
+ *
+ * An item for a card the user already owns in the desired quantity is
+ * created with fulfilled_at set.
+ *
+ * @param supabase - Supabase client instance from context.locals
+ * @param userId - The authenticated user's ID
+ * @param payload - Validated add-item payload
+ * @returns The created wishlist item with nested card
+ * @throws WishlistServiceError for missing cards, duplicate items or database errors
+ */
+export async function addWishlistItem(
+  supabase: SupabaseClient,
+  userId: string,
+  payload: AddWishlistItemRequestDTO
+): Promise<WishlistItemWithCardDTO> {
+  try {
+    const { data, error } = await supabase
+      .from("wishlist_items")
+      .insert({
+        user_id: userId,
+        card_id: payload.card_id,
+        desired_variant: payload.desired_variant,
+        desired_quantity: payload.desired_quantity,
+        priority: payload.priority,
+        max_price: payload.max_price,
+      })
+      .select(WISHLIST_ITEM_WITH_CARD_SELECT)
+      .single();
+
+    if (error) {
+      throw mapWishlistWriteError(error, "Failed to add card to wishlist");
+    }
+
+    return toWishlistItemWithCard(data);
+  } catch (error) {
+    throw toWishlistServiceError(error, "An unexpected error occurred while adding card to wishlist");
+  }
+}
+
+/**
+ * Update the desired variant, quantity, priority and/or maximum price of a wishlist item
+ *
+ * Changing the desired variant or quantity re-evaluates fulfilment against
+ * the cards the user owns.
+ *
+ * @param supabase - Supabase client instance from context.locals
+ * @param userId - The authenticated user's ID
+ * @param itemId - The wishlist item ID
+ * @param payload - Validated partial update payload
+ * @returns Updated item with nested card, or null if not found for this user
+ * @throws WishlistServiceError for duplicate items or database errors
+ */
+export async function updateWishlistItem(
+  supabase: SupabaseClient,
+  userId: string,
+  itemId: string,
+  payload: UpdateWishlistItemRequestDTO
+): Promise<WishlistItemWithCardDTO | null> {
+  try {
+    const updatePayload: UpdateWishlistItemRequestDTO = {};
+
+    if (payload.desired_variant !== undefined) {
+      updatePayload.desired_variant = payload.desired_variant;
+    }
+
+    if (payload.desired_quantity !== undefined) {
+      updatePayload.desired_quantity = payload.desired_quantity;
+    }
+
+    if (payload.priority !== undefined) {
+      updatePayload.priority = payload.priority;
+    }
+
+    if (payload.max_price !== undefined) {
+      updatePayload.max_price = payload.max_price;
+    }
+
+    const { data, error } = await supabase
+      .from("wishlist_items")
+      .update(updatePayload)
+      .eq("id", itemId)
+      .eq("user_id", userId)
+      .select(WISHLIST_ITEM_WITH_CARD_SELECT)
+      .maybeSingle();
+
+    if (error) {
+      throw mapWishlistWriteError(error, "Failed to update wishlist item");
+    }
+
+    return data ? toWishlistItemWithCard(data) : null;
+  } catch (error) {
+    throw toWishlistServiceError(error, "An unexpected error occurred while updating wishlist item");
+  }
+}
+
+/**
+ * Remove a wishlist item owned by the user
+ *
+ * @param supabase - Supabase client instance from context.locals
+ * @param userId - The authenticated user's ID
+ * @param itemId - The wishlist item ID
+ * @returns The removed item's card_id, or null if not found for this user
+ * @throws WishlistServiceError for database errors
+ */
+export async function removeWishlistItem(
+  supabase: SupabaseClient,
+  userId: string,
+  itemId: string
+): Promise<{ card_id: string } | null> {
+  try {
+    const { data, error } = await supabase
+      .from("wishlist_items")
+      .delete()
+      .eq("id", itemId)
+      .eq("user_id", userId)
+      .select("card_id")
+      .maybeSingle();
+
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.error("Wishlist delete error:", { code: error.code, message: error.message, userId, itemId });
+
+      throw new WishlistServiceError(WishlistErrorCodes.INTERNAL_ERROR, "Failed to remove wishlist item", 500, {
+        code: error.code,
+      });
+    }
+
+    return data;
+  } catch (error) {
+    throw toWishlistServiceError(error, "An unexpected error occurred while removing wishlist item");
+  }
+}
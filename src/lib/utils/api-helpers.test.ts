@@ -0,0 +1,86 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+/**
+ * Load getClientIp with TRUSTED_PROXIES set to `trustedProxies`
+ * The trusted proxy list is cached per module instance, so each call imports a fresh one
+ */
+async function loadGetClientIp(trustedProxies: string) {
+  vi.stubEnv("TRUSTED_PROXIES", trustedProxies);
+  vi.resetModules();
+  const { getClientIp } = await import("./api-helpers");
+
+  return (options: { headers?: Record<string, string>; peerAddress?: string; clientAddress?: string }) =>
+    getClientIp({
+      request: new Request("http://localhost/api/auth/login", { headers: options.headers }),
+      clientAddress: options.clientAddress ?? "",
+      locals: { peerAddress: options.peerAddress },
+    } as Parameters<typeof getClientIp>[0]);
+}
+
+describe("getClientIp", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  describe("without trusted proxies", () => {
+    it("uses the peer address and ignores forwarding headers", async () => {
+      const getClientIp = await loadGetClientIp("");
+
+      expect(getClientIp({ peerAddress: "::ffff:203.0.113.7" })).toBe("203.0.113.7");
+      expect(
+        getClientIp({
+          peerAddress: "203.0.113.7",
+          headers: { "x-forwarded-for": "198.51.100.1", forwarded: "for=198.51.100.2" },
+        })
+      ).toBe("203.0.113.7");
+    });
+
+    it("only falls back to clientAddress when X-Forwarded-For is absent", async () => {
+      const getClientIp = await loadGetClientIp("");
+
+      expect(getClientIp({ clientAddress: "203.0.113.7" })).toBe("203.0.113.7");
+      // Astro reports the first X-Forwarded-For entry as clientAddress
+      expect(getClientIp({ clientAddress: "198.51.100.1", headers: { "x-forwarded-for": "198.51.100.1" } })).toBe(
+        "unknown"
+      );
+    });
+  });
+
+  describe("with trusted proxies", () => {
+    it("walks the chain back to the first untrusted hop", async () => {
+      const getClientIp = await loadGetClientIp("10.0.0.0/8");
+
+      expect(
+        getClientIp({ peerAddress: "10.0.0.1", headers: { "x-forwarded-for": "198.51.100.1, 203.0.113.7, 10.0.0.2" } })
+      ).toBe("203.0.113.7");
+    });
+
+    it("prefers Forwarded over X-Forwarded-For and X-Real-IP", async () => {
+      const getClientIp = await loadGetClientIp("10.0.0.0/8");
+
+      expect(
+        getClientIp({
+          peerAddress: "10.0.0.1",
+          headers: { forwarded: 'for="[2001:db8::17]:4711"', "x-forwarded-for": "198.51.100.1" },
+        })
+      ).toBe("2001:db8::17");
+      expect(getClientIp({ peerAddress: "10.0.0.1", headers: { "x-real-ip": "203.0.113.7" } })).toBe("203.0.113.7");
+    });
+
+    it("ignores forwarding headers from an untrusted peer", async () => {
+      const getClientIp = await loadGetClientIp("10.0.0.0/8");
+
+      expect(getClientIp({ peerAddress: "203.0.113.7", headers: { "x-forwarded-for": "198.51.100.1" } })).toBe(
+        "203.0.113.7"
+      );
+    });
+
+    it("stops at an unknown hop", async () => {
+      const getClientIp = await loadGetClientIp("10.0.0.0/8");
+
+      expect(getClientIp({ peerAddress: "10.0.0.1", headers: { forwarded: "for=198.51.100.1, for=unknown" } })).toBe(
+        "10.0.0.1"
+      );
+    });
+  });
+});
@@ -2,30 +2,91 @@
  * Shared utility functions for API endpoints
  *
  * This module provides reusable helper functions for common API operations
- * including IP extraction, error response formatting, and data hashing.
+ * including IP extraction, error response formatting, data hashing,
+ * validation error flattening, and pagination metadata.
  */
 
-import type { ErrorResponseDTO } from "../../types";
+import type { BlockList } from "node:net";
+import type { APIContext } from "astro";
+import type { ZodError } from "zod";
+import type { ErrorResponseDTO, PaginationDTO } from "../../types";
+import {
+  isTrustedProxy,
+  normalizeIpAddress,
+  parseForwardedForHeader,
+  parseForwardedHeader,
+  parseTrustedProxies,
+} from "./ip-address";
 
 /**
- * Extract client IP address from request headers
- * Handles various proxy headers and falls back to "unknown"
+ * Trusted proxies parsed from TRUSTED_PROXIES, created on first use
+ */
+let trustedProxies: BlockList | null | undefined;
+
+/**
+ * Get the proxies whose forwarding headers are trusted
+ */
+function getTrustedProxies(): BlockList | null {
+  if (trustedProxies === undefined) {
+    trustedProxies = parseTrustedProxies(import.meta.env.TRUSTED_PROXIES);
+  }
+  return trustedProxies;
+}
+
+/**
+ * Extract client IP address of a request
  *
- * @param request - Incoming request object
- * @returns Client IP address string
+ * Forwarding headers (RFC 7239 Forwarded, then X-Forwarded-For, then X-Real-IP)
+ * are only read when TRUSTED_PROXIES is configured; the chain is walked from
+ * the nearest hop back and the first address not belonging to a trusted proxy
+ * is the client. Without trusted proxies the connection address is used and
+ * forwarding headers are ignored.
+ *
+ * The connection address is the peer address set in locals by server.mjs.
+ * Astro's Node adapter reports the first X-Forwarded-For entry as
+ * clientAddress, so without a peer address (astro dev and preview) clientAddress
+ * is only used when that header is absent, and requests carrying it are
+ * reported as "unknown".
+ *
+ * @param context - Astro API context (request, clientAddress and locals)
+ * @returns Normalised client IP address, or "unknown"
  */
-export function getClientIp(request: Request): string {
-  const forwardedFor = request.headers.get("x-forwarded-for");
-  if (forwardedFor) {
-    return forwardedFor.split(",")[0].trim();
+export function getClientIp(context: Pick<APIContext, "request" | "clientAddress" | "locals">): string {
+  const { headers } = context.request;
+
+  let peer: string | null = null;
+  try {
+    if (context.locals.peerAddress) {
+      peer = normalizeIpAddress(context.locals.peerAddress);
+    } else if (!headers.has("x-forwarded-for")) {
+      peer = normalizeIpAddress(context.clientAddress);
+    }
+  } catch {
+    // clientAddress is unavailable (e.g. prerendering or an adapter without it)
+  }
+
+  const proxies = getTrustedProxies();
+  if (!proxies || (peer && !isTrustedProxy(proxies, peer))) {
+    return peer ?? "unknown";
   }
 
-  const realIp = request.headers.get("x-real-ip");
-  if (realIp) {
-    return realIp.trim();
+  const forwarded = headers.get("forwarded");
+  const forwardedFor = headers.get("x-forwarded-for") ?? headers.get("x-real-ip");
+  const chain = forwarded ? parseForwardedHeader(forwarded) : forwardedFor ? parseForwardedForHeader(forwardedFor) : [];
+
+  let client = peer;
+  for (const hop of chain.reverse()) {
+    // Hops before an unknown or obfuscated identifier cannot be attributed
+    if (!hop) {
+      break;
+    }
+    client = hop;
+    if (!isTrustedProxy(proxies, hop)) {
+      break;
+    }
   }
 
-  return "unknown";
+  return client ?? "unknown";
 }
 
 /**
@@ -95,3 +156,50 @@ export function parseBearerToken(authHeader: string | null): string | null {
   const token = parts[1]?.trim();
   return token || null;
 }
+
+/**
+ * Flatten Zod validation issues into a field -> messages map
+ * Matches the `fields` detail format used by validation error responses
+ *
+ * @param error - ZodError returned from safeParse
+ * @returns Map of dotted field paths to their error messages
+ */
+export function formatValidationErrors(error: ZodError): Record<string, string[]> {
+  const fieldErrors: Record<string, string[]> = {};
+  error.errors.forEach((issue) => {
+    const field = issue.path.join(".") || "body";
+    if (!fieldErrors[field]) {
+      fieldErrors[field] = [];
+    }
+    fieldErrors[field].push(issue.message);
+  });
+  return fieldErrors;
+}
+
+/**
+ * Escape LIKE/ILIKE wildcards so user input matches literally
+ * Uses the default backslash escape, as the search_cards function does
+ *
+ * @param value - Raw search text
+ * @returns Text with \, % and _ escaped
+ */
+export function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+/**
+ * Build pagination metadata for list responses
+ *
+ * @param page - Current page number (1-indexed)
+ * @param limit - Items per page
+ * @param totalItems - Total number of matching items
+ * @returns PaginationDTO with computed total pages
+ */
+export function buildPagination(page: number, limit: number, totalItems: number): PaginationDTO {
+  return {
+    page,
+    limit,
+    total_items: totalItems,
+    total_pages: Math.ceil(totalItems / limit),
+  };
+}
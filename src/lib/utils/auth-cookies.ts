@@ -0,0 +1,127 @@
+/**
+ * Session cookie helpers
+ *
+ * Browser sessions keep the Supabase access and refresh tokens in httpOnly,
+ * SameSite=Lax cookies so page scripts never see them. Cross-site POSTs do not
+ * carry Lax cookies, which keeps cookie-authenticated API calls same-site.
+ * API clients can keep using the tokens from the response body with a Bearer header.
+ */
+
+import type { AstroCookies, AstroCookieSetOptions } from "astro";
+
+/**
+ * Cookie holding the access token (JWT)
+ */
+export const ACCESS_TOKEN_COOKIE = "sb-access-token";
+
+/**
+ * Cookie holding the refresh token
+ */
+export const REFRESH_TOKEN_COOKIE = "sb-refresh-token";
+
+/**
+ * Cookie holding the PKCE code verifier between the OAuth start and the callback
+ */
+export const OAUTH_VERIFIER_COOKIE = "sb-oauth-verifier";
+
+/**
+ * Path of the OAuth callback, the only route that needs the code verifier cookie
+ */
+const OAUTH_CALLBACK_PATH = "/api/auth/callback";
+
+/**
+ * Code verifier cookie lifetime (10 minutes to complete the provider sign-in)
+ */
+const OAUTH_VERIFIER_COOKIE_MAX_AGE = 10 * 60;
+
+/**
+ * Session cookie lifetime (30 days); the access token inside is refreshed long before
+ */
+const SESSION_COOKIE_MAX_AGE = 30 * 24 * 60 * 60;
+
+/**
+ * Tokens stored in the session cookies
+ */
+export interface SessionCookieTokens {
+  access_token: string;
+  refresh_token: string;
+}
+
+/**
+ * Attributes shared by both session cookies
+ * Secure is only dropped in development, where the app is served over plain http
+ */
+function sessionCookieOptions(): AstroCookieSetOptions {
+  return {
+    path: "/",
+    httpOnly: true,
+    sameSite: "lax",
+    secure: import.meta.env.PROD,
+  };
+}
+
+/**
+ * Store a session in the response cookies
+ *
+ * @param cookies - Astro cookies of the current request
+ * @param session - Access and refresh tokens to store
+ */
+export function setSessionCookies(cookies: AstroCookies, session: SessionCookieTokens): void {
+  const options = { ...sessionCookieOptions(), maxAge: SESSION_COOKIE_MAX_AGE };
+  cookies.set(ACCESS_TOKEN_COOKIE, session.access_token, options);
+  cookies.set(REFRESH_TOKEN_COOKIE, session.refresh_token, options);
+}
+
+/**
+ * Remove the session cookies
+ *
+ * @param cookies - Astro cookies of the current request
+ */
+export function clearSessionCookies(cookies: AstroCookies): void {
+  const options = sessionCookieOptions();
+  cookies.delete(ACCESS_TOKEN_COOKIE, options);
+  cookies.delete(REFRESH_TOKEN_COOKIE, options);
+}
+
+/**
+ * Read the session from the request cookies
+ *
+ * @param cookies - Astro cookies of the current request
+ * @returns Stored tokens, or null unless both cookies are present
+ */
+export function readSessionCookies(cookies: AstroCookies): SessionCookieTokens | null {
+  const accessToken = cookies.get(ACCESS_TOKEN_COOKIE)?.value;
+  const refreshToken = cookies.get(REFRESH_TOKEN_COOKIE)?.value;
+
+  if (!accessToken || !refreshToken) {
+    return null;
+  }
+
+  return { access_token: accessToken, refresh_token: refreshToken };
+}
+
+/**
+ * Store the PKCE code verifier of an OAuth sign-in until the callback
+ *
+ * @param cookies - Astro cookies of the current request
+ * @param codeVerifier - Code verifier from createSupabasePkceClient
+ */
+export function setOAuthVerifierCookie(cookies: AstroCookies, codeVerifier: string): void {
+  cookies.set(OAUTH_VERIFIER_COOKIE, codeVerifier, {
+    ...sessionCookieOptions(),
+    path: OAUTH_CALLBACK_PATH,
+    maxAge: OAUTH_VERIFIER_COOKIE_MAX_AGE,
+  });
+}
+
+/**
+ * Read and remove the PKCE code verifier cookie; each verifier is used once
+ *
+ * @param cookies - Astro cookies of the current request
+ * @returns Stored code verifier, or null if the cookie is missing or expired
+ */
+export function takeOAuthVerifierCookie(cookies: AstroCookies): string | null {
+  const codeVerifier = cookies.get(OAUTH_VERIFIER_COOKIE)?.value ?? null;
+  cookies.delete(OAUTH_VERIFIER_COOKIE, { ...sessionCookieOptions(), path: OAUTH_CALLBACK_PATH });
+  return codeVerifier || null;
+}
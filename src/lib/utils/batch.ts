@@ -0,0 +1,21 @@
+/**
+ * Batching helpers for database calls
+ *
+ * PostgREST sends `in` filters in the URL and bulk writes in one request
+ * body, so large id lists and row sets are split into fixed-size batches.
+ */
+
+/**
+ * Split an array into chunks of at most `size` items
+ *
+ * @param items - Items to split
+ * @param size - Maximum chunk length
+ * @returns Chunks in the original order; empty when there are no items
+ */
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+
+import { escapeCsvField, parseCsv, toCsvRecord, unescapeCsvFormula } from "./csv";
+
+describe("escapeCsvField", () => {
+  it("leaves plain values unquoted", () => {
+    expect(escapeCsvField("Charizard")).toBe("Charizard");
+    expect(escapeCsvField(4)).toBe("4");
+    expect(escapeCsvField(-1)).toBe("-1");
+    expect(escapeCsvField(true)).toBe("true");
+    expect(escapeCsvField(null)).toBe("");
+  });
+
+  it("quotes fields with delimiters, quotes and line breaks", () => {
+    expect(escapeCsvField("Pikachu, Detective")).toBe('"Pikachu, Detective"');
+    expect(escapeCsvField('Say "hi"')).toBe('"Say ""hi"""');
+    expect(escapeCsvField("two\nlines")).toBe('"two\nlines"');
+  });
+
+  it("guards text starting with a formula trigger", () => {
+    expect(escapeCsvField('=HYPERLINK("http://x")')).toBe('"\'=HYPERLINK(""http://x"")"');
+    expect(escapeCsvField("+1")).toBe("'+1");
+    expect(escapeCsvField("@SUM(A1)")).toBe("'@SUM(A1)");
+    expect(escapeCsvField("\tcmd")).toBe("'\tcmd");
+  });
+});
+
+describe("unescapeCsvFormula", () => {
+  it("removes only the guard added by escapeCsvField", () => {
+    expect(unescapeCsvFormula("'=1+1")).toBe("=1+1");
+    expect(unescapeCsvFormula("'-5")).toBe("-5");
+    expect(unescapeCsvFormula("'Tis the season")).toBe("'Tis the season");
+    expect(unescapeCsvFormula("Farfetch'd")).toBe("Farfetch'd");
+  });
+});
+
+describe("parseCsv", () => {
+  it("parses CRLF and LF records with their starting line numbers", () => {
+    expect(parseCsv('a,b\r\n"multi\nline",c\n\nd,\n')).toEqual([
+      { line: 1, fields: ["a", "b"] },
+      { line: 2, fields: ["multi\nline", "c"] },
+      { line: 5, fields: ["d", ""] },
+    ]);
+  });
+
+  it("strips a leading BOM and supports other delimiters", () => {
+    expect(parseCsv("\uFEFFname;qty\r\nMew;2", ";")).toEqual([
+      { line: 1, fields: ["name", "qty"] },
+      { line: 2, fields: ["Mew", "2"] },
+    ]);
+  });
+
+  it("keeps a quoted empty field as a record", () => {
+    expect(parseCsv('""\n')).toEqual([{ line: 1, fields: [""] }]);
+  });
+
+  it("rejects an unterminated quoted field", () => {
+    expect(() => parseCsv('a,b\n"open,c\n')).toThrow("Unterminated quoted field starting on line 2");
+  });
+});
+
+describe("CSV round trip", () => {
+  it("parses exported records back to the original values", () => {
+    const rows = [
+      ["card_id", "name", "quantity", "grade"],
+      ["base1-4", 'Charizard "Holo", 1st Edition', 3, null],
+      ["sv1-1", "=cmd|' /C calc'!A0", 1, 9.5],
+      ["sv1-2", "-Leading dash\r\nand a line break", 2, "@note"],
+    ] as const;
+
+    const text = rows.map(toCsvRecord).join("");
+    const parsed = parseCsv(text).map((record) => record.fields.map(unescapeCsvFormula));
+
+    expect(parsed).toEqual(rows.map((row) => row.map((value) => (value === null ? "" : String(value)))));
+  });
+});
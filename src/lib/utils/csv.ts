@@ -0,0 +1,147 @@
+/**
+ * CSV encoding and parsing helpers (RFC 4180)
+ *
+ * This module provides the field escaping used by collection export and the
+ * matching parser used by collection import, so exported files round-trip.
+ */
+
+/**
+ * Leading characters that make spreadsheet applications evaluate a cell as a formula
+ */
+const FORMULA_TRIGGER_PATTERN = /^[=+\-@\t\r]/;
+
+/**
+ * Escape a single CSV field per RFC 4180
+ *
+ * Text fields starting with a formula trigger (=, +, -, @, tab or CR) are
+ * prefixed with a single quote so spreadsheets show them as text instead of
+ * evaluating them (CSV injection). Fields containing a comma, double quote, CR
+ * or LF are then wrapped in double quotes, with embedded double quotes
+ * doubled. Null becomes an empty field.
+ *
+ * @param value - Field value
+ * @returns Escaped field
+ */
+export function escapeCsvField(value: string | number | boolean | null): string {
+  if (value === null) {
+    return "";
+  }
+
+  let text = String(value);
+  if (typeof value === "string" && FORMULA_TRIGGER_PATTERN.test(text)) {
+    text = `'${text}`;
+  }
+
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+
+  return text;
+}
+
+/**
+ * Undo the formula-injection prefix added by escapeCsvField
+ *
+ * @param field - Parsed field value
+ * @returns Field without the leading single quote if it guarded a formula trigger
+ */
+export function unescapeCsvFormula(field: string): string {
+  return field.startsWith("'") && FORMULA_TRIGGER_PATTERN.test(field.slice(1)) ? field.slice(1) : field;
+}
+
+/**
+ * Encode values as one CSV record terminated by CRLF
+ *
+ * @param values - Field values in column order
+ * @returns CSV record
+ */
+export function toCsvRecord(values: readonly (string | number | boolean | null)[]): string {
+  return `${values.map(escapeCsvField).join(",")}\r\n`;
+}
+
+/**
+ * Parsed CSV record with the 1-based line number it started on
+ */
+export interface CsvRecord {
+  line: number;
+  fields: string[];
+}
+
+/**
+ * Parse CSV text into records per RFC 4180
+ *
+ * Accepts CRLF or LF line endings, quoted fields spanning lines, doubled
+ * quotes inside quoted fields, and a leading UTF-8 BOM. Blank lines are skipped.
+ *
+ * @param text - CSV document
+ * @param delimiter - Field delimiter (defaults to comma)
+ * @returns Records in document order
+ * @throws Error when a quoted field is not terminated
+ */
+export function parseCsv(text: string, delimiter = ","): CsvRecord[] {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const records: CsvRecord[] = [];
+
+  let fields: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+  let fieldStarted = false;
+
+  const endRecord = () => {
+    // Skip blank lines (a single empty unquoted field)
+    if (fields.length > 0 || field.length > 0 || fieldStarted) {
+      fields.push(field);
+      records.push({ line: recordLine, fields });
+    }
+    fields = [];
+    field = "";
+    fieldStarted = false;
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (char === "\n") {
+          line++;
+        }
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field.length === 0) {
+      inQuotes = true;
+      fieldStarted = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = "";
+      fieldStarted = true;
+    } else if (char === "\r" && input[i + 1] === "\n") {
+      continue;
+    } else if (char === "\n" || char === "\r") {
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error(`Unterminated quoted field starting on line ${recordLine}`);
+  }
+
+  endRecord();
+  return records;
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it, vi } from "vitest";
+
+import {
+  isTrustedProxy,
+  normalizeIpAddress,
+  parseForwardedForHeader,
+  parseForwardedHeader,
+  parseTrustedProxies,
+  toClientNetwork,
+} from "./ip-address";
+
+describe("normalizeIpAddress", () => {
+  it.each([
+    ["1.2.3.4", "1.2.3.4"],
+    [" 1.2.3.4:5678 ", "1.2.3.4"],
+    ['"1.2.3.4"', "1.2.3.4"],
+    ["2001:DB8:0:0:0:0:0:1", "2001:db8::1"],
+    ["[2001:db8::1]:5678", "2001:db8::1"],
+    ["fe80::1%eth0", "fe80::1"],
+    ["::ffff:1.2.3.4", "1.2.3.4"],
+  ])("normalises %s to %s", (value, expected) => {
+    expect(normalizeIpAddress(value)).toBe(expected);
+  });
+
+  it.each(["", "unknown", "_hidden", "1.2.3", "example.com"])("rejects %j", (value) => {
+    expect(normalizeIpAddress(value)).toBeNull();
+  });
+});
+
+describe("toClientNetwork", () => {
+  it("groups IPv6 addresses by their /64", () => {
+    expect(toClientNetwork("2001:db8:1:2:3:4:5:6")).toBe("2001:db8:1:2::/64");
+    expect(toClientNetwork("2001:db8:1:2::ffff")).toBe("2001:db8:1:2::/64");
+    expect(toClientNetwork("2001:db8::1")).toBe("2001:db8::/64");
+  });
+
+  it("keeps IPv4 addresses and non-IP values", () => {
+    expect(toClientNetwork("1.2.3.4")).toBe("1.2.3.4");
+    expect(toClientNetwork("unknown")).toBe("unknown");
+  });
+});
+
+describe("parseTrustedProxies", () => {
+  it("returns null for an empty list", () => {
+    expect(parseTrustedProxies(undefined)).toBeNull();
+    expect(parseTrustedProxies(" , ")).toBeNull();
+  });
+
+  it("matches addresses and CIDR ranges of both families", () => {
+    const proxies = parseTrustedProxies("10.0.0.0/8, 127.0.0.1, fd00::/8");
+    expect(proxies).not.toBeNull();
+    if (!proxies) return;
+
+    expect(isTrustedProxy(proxies, "10.20.30.40")).toBe(true);
+    expect(isTrustedProxy(proxies, "127.0.0.1")).toBe(true);
+    expect(isTrustedProxy(proxies, "127.0.0.2")).toBe(false);
+    expect(isTrustedProxy(proxies, "fd12::1")).toBe(true);
+    expect(isTrustedProxy(proxies, "2001:db8::1")).toBe(false);
+    expect(isTrustedProxy(proxies, "unknown")).toBe(false);
+  });
+
+  it("skips invalid entries with a warning", () => {
+    const consoleWarn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+
+    const proxies = parseTrustedProxies("proxy.internal, 10.0.0.0/33, 192.168.0.1");
+    expect(consoleWarn).toHaveBeenCalledTimes(2);
+    expect(proxies && isTrustedProxy(proxies, "192.168.0.1")).toBe(true);
+    expect(proxies && isTrustedProxy(proxies, "10.0.0.1")).toBe(false);
+    consoleWarn.mockRestore();
+  });
+});
+
+describe("forwarding headers", () => {
+  it("reads the for parameter of each Forwarded element", () => {
+    expect(
+      parseForwardedHeader('for=192.0.2.60;proto=http, For="[2001:db8::17]:4711", for=unknown, by=10.0.0.1')
+    ).toEqual(["192.0.2.60", "2001:db8::17", null, null]);
+  });
+
+  it("reads each X-Forwarded-For entry", () => {
+    expect(parseForwardedForHeader("203.0.113.7, garbage, 10.0.0.2:443")).toEqual(["203.0.113.7", null, "10.0.0.2"]);
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * IP address helpers for client IP resolution
+ *
+ * Addresses are normalised before use so one client always maps to one
+ * string: brackets, ports and zone ids are stripped, IPv4-mapped IPv6
+ * addresses become plain IPv4, and IPv6 is written in canonical compressed
+ * form. Trusted proxy lists are matched with node:net BlockList.
+ */
+
+import { BlockList, isIP } from "node:net";
+
+/**
+ * Prefix length IPv6 clients are grouped by for rate limiting
+ * A single subscriber is usually assigned a whole /64
+ */
+const IPV6_CLIENT_PREFIX_LENGTH = 64;
+
+/**
+ * Write an IPv6 address in canonical compressed form (RFC 5952), e.g. "2001:db8::1"
+ * @internal
+ */
+function canonicalIpv6(ip: string): string {
+  return new URL(`http://[${ip}]`).hostname.slice(1, -1);
+}
+
+/**
+ * Expand a canonical IPv6 address into its eight 16-bit groups
+ * @internal
+ */
+function expandIpv6(ip: string): number[] {
+  const [head, tail] = ip.split("::");
+  const parseGroups = (part: string | undefined) => (part ? part.split(":").map((group) => parseInt(group, 16)) : []);
+
+  const headGroups = parseGroups(head);
+  if (tail === undefined) {
+    return headGroups;
+  }
+
+  const tailGroups = parseGroups(tail);
+  return [...headGroups, ...new Array<number>(8 - headGroups.length - tailGroups.length).fill(0), ...tailGroups];
+}
+
+/**
+ * Normalise an address from a proxy header or the server
+ *
+ * Accepts "1.2.3.4", "1.2.3.4:5678", "2001:db8::1", "[2001:db8::1]:5678",
+ * "fe80::1%eth0" and "::ffff:1.2.3.4".
+ *
+ * @param value - Raw address
+ * @returns Normalised IP address, or null if the value is not an IP address
+ */
+export function normalizeIpAddress(value: string): string | null {
+  let address = value.trim().replace(/^"(.*)"$/, "$1");
+
+  if (address.startsWith("[")) {
+    address = address.slice(1, address.indexOf("]"));
+  } else if (address.includes(".") && address.indexOf(":") === address.lastIndexOf(":")) {
+    // IPv4 with an optional port
+    address = address.split(":")[0];
+  }
+
+  address = address.split("%")[0].toLowerCase();
+
+  const mappedIpv4 = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/.exec(address);
+  if (mappedIpv4) {
+    address = mappedIpv4[1];
+  }
+
+  switch (isIP(address)) {
+    case 4:
+      return address;
+    case 6:
+      return canonicalIpv6(address);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Reduce an address to the network a client controls
+ *
+ * IPv6 addresses become their /64 network (e.g. "2001:db8:1:2::/64") so a
+ * client cannot rotate through its own prefix to escape a rate limit. IPv4
+ * addresses and non-IP values are returned unchanged.
+ *
+ * @param ip - Normalised IP address
+ * @returns Rate limit identity for the address
+ */
+export function toClientNetwork(ip: string): string {
+  if (isIP(ip) !== 6) {
+    return ip;
+  }
+
+  const groups = expandIpv6(ip).slice(0, IPV6_CLIENT_PREFIX_LENGTH / 16);
+  const network = canonicalIpv6(`${groups.map((group) => group.toString(16)).join(":")}::`);
+  return `${network}/${IPV6_CLIENT_PREFIX_LENGTH}`;
+}
+
+/**
+ * Parse a comma-separated list of trusted proxy addresses and CIDR ranges
+ *
+ * Invalid entries are skipped with a warning.
+ *
+ * @param value - List such as "10.0.0.0/8, 127.0.0.1, fd00::/8"
+ * @returns BlockList of trusted proxies, or null if the list is empty
+ */
+export function parseTrustedProxies(value: string | undefined): BlockList | null {
+  const entries = (value ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+  if (entries.length === 0) {
+    return null;
+  }
+
+  const trustedProxies = new BlockList();
+  for (const entry of entries) {
+    const [rawAddress, rawPrefix] = entry.split("/");
+    const address = normalizeIpAddress(rawAddress);
+    const family = address ? isIP(address) : 0;
+    const maxPrefix = family === 4 ? 32 : 128;
+    const prefix = rawPrefix === undefined ? maxPrefix : Number(rawPrefix);
+
+    if (!address || !Number.isInteger(prefix) || prefix < 0 || prefix > maxPrefix) {
+      // eslint-disable-next-line no-console
+      console.warn(`Ignoring invalid TRUSTED_PROXIES entry "${entry}"`);
+      continue;
+    }
+
+    trustedProxies.addSubnet(address, prefix, family === 4 ? "ipv4" : "ipv6");
+  }
+
+  return trustedProxies;
+}
+
+/**
+ * Check whether an address belongs to a trusted proxy
+ *
+ * @param trustedProxies - List from parseTrustedProxies
+ * @param ip - Normalised IP address
+ */
+export function isTrustedProxy(trustedProxies: BlockList, ip: string): boolean {
+  const family = isIP(ip);
+  return family !== 0 && trustedProxies.check(ip, family === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * Read the client addresses of an RFC 7239 Forwarded header, nearest proxy last
+ *
+ * @param value - Header value, e.g. `for=192.0.2.60;proto=http, for="[2001:db8::17]:4711"`
+ * @returns One entry per forwarded element; null for "unknown", obfuscated or missing `for` values
+ */
+export function parseForwardedHeader(value: string): (string | null)[] {
+  return value.split(",").map((element) => {
+    const forPair = element
+      .split(";")
+      .map((pair) => pair.trim())
+      .find((pair) => pair.toLowerCase().startsWith("for="));
+
+    return forPair ? normalizeIpAddress(forPair.slice(4)) : null;
+  });
+}
+
+/**
+ * Read the addresses of an X-Forwarded-For header, nearest proxy last
+ *
+ * @param value - Header value, e.g. "203.0.113.7, 10.0.0.2"
+ * @returns One entry per listed address; null for values that are not IP addresses
+ */
+export function parseForwardedForHeader(value: string): (string | null)[] {
+  return value.split(",").map((entry) => normalizeIpAddress(entry));
+}
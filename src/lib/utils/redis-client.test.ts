@@ -0,0 +1,75 @@
+import net from "node:net";
+import { afterEach, describe, expect, it } from "vitest";
+
+import { createRedisClient, RedisReplyError } from "./redis-client";
+
+/**
+ * Start a server that answers each received chunk with `reply`, or never answers when `reply` is null
+ */
+async function startServer(reply: string | null): Promise<{ url: string; close: () => void }> {
+  const sockets = new Set<net.Socket>();
+  const server = net.createServer((socket) => {
+    sockets.add(socket);
+    socket.on("close", () => sockets.delete(socket));
+    socket.on("data", () => {
+      if (reply !== null) {
+        socket.write(reply);
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as net.AddressInfo;
+
+  return {
+    url: `redis://127.0.0.1:${port}`,
+    close: () => {
+      for (const socket of sockets) {
+        socket.destroy();
+      }
+      server.close();
+    },
+  };
+}
+
+describe("createRedisClient", () => {
+  let close: (() => void) | undefined;
+
+  afterEach(() => {
+    close?.();
+    close = undefined;
+  });
+
+  it("decodes replies", async () => {
+    const server = await startServer("+PONG\r\n");
+    close = server.close;
+    const client = createRedisClient({ url: server.url });
+
+    await expect(client.command(["PING"])).resolves.toBe("PONG");
+    client.close();
+  });
+
+  it("rejects error replies", async () => {
+    const server = await startServer("-ERR unknown command\r\n");
+    close = server.close;
+    const client = createRedisClient({ url: server.url });
+
+    const reply = client.command(["NOPE"]);
+    await expect(reply).rejects.toBeInstanceOf(RedisReplyError);
+    await expect(reply).rejects.toThrow("ERR unknown command");
+    client.close();
+  });
+
+  it("rejects every pending command when a stalled server misses the command timeout", async () => {
+    const server = await startServer(null);
+    close = server.close;
+    const client = createRedisClient({ url: server.url, commandTimeoutMs: 50 });
+
+    const replies = await Promise.allSettled([client.command(["PING"]), client.command(["PING"])]);
+    expect(replies).toEqual([
+      { status: "rejected", reason: new Error("Redis command timed out after 50ms") },
+      { status: "rejected", reason: new Error("Redis command timed out after 50ms") },
+    ]);
+    client.close();
+  });
+});
@@ -0,0 +1,246 @@
+/**
+ * Minimal Redis (RESP2) client
+ *
+ * Just enough of the protocol for the rate-limit store: one lazily opened
+ * connection per client, pipelined commands answered in order, AUTH and
+ * SELECT taken from the URL, and TLS for rediss:// URLs. A command that gets
+ * no reply within the command timeout fails every pending command and drops
+ * the connection, so callers fail fast instead of hanging on a stalled server. Works against Redis,
+ * Valkey, KeyDB or any other server speaking RESP.
+ */
+
+import net from "node:net";
+import tls from "node:tls";
+
+/**
+ * Reply value decoded from RESP
+ */
+export type RedisReply = string | number | null | RedisReply[];
+
+/**
+ * Error reply returned by the server (e.g. "ERR unknown command")
+ */
+export class RedisReplyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RedisReplyError";
+  }
+}
+
+/**
+ * Connection to a Redis-protocol server
+ */
+export interface RedisClient {
+  /** Send a command and resolve with its reply */
+  command(args: (string | number)[]): Promise<RedisReply>;
+  /** Close the connection; pending commands are rejected */
+  close(): void;
+}
+
+/**
+ * Options for createRedisClient
+ */
+export interface RedisClientOptions {
+  /** Connection URL, e.g. redis://:password@localhost:6379/0 or rediss://host:6380 */
+  url: string;
+  /** Connect timeout in milliseconds (defaults to 2000) */
+  connectTimeoutMs?: number;
+  /** Time to wait for a command's reply in milliseconds, counted from when the command is queued (defaults to 1000) */
+  commandTimeoutMs?: number;
+}
+
+interface PendingCommand {
+  resolve: (reply: RedisReply) => void;
+  reject: (error: Error) => void;
+}
+
+const CRLF = "\r\n";
+
+/**
+ * Encode a command as a RESP array of bulk strings
+ * @internal
+ */
+function encodeCommand(args: (string | number)[]): Buffer {
+  const parts = [`*${args.length}${CRLF}`];
+  for (const arg of args) {
+    const value = String(arg);
+    parts.push(`$${Buffer.byteLength(value)}${CRLF}${value}${CRLF}`);
+  }
+  return Buffer.from(parts.join(""));
+}
+
+/**
+ * Decode one reply starting at `offset`
+ *
+ * @returns The reply (errors as RedisReplyError) and the offset after it, or null if the buffer is incomplete
+ * @internal
+ */
+function decodeReply(buffer: Buffer, offset: number): { value: RedisReply | RedisReplyError; next: number } | null {
+  const lineEnd = buffer.indexOf(CRLF, offset);
+  if (lineEnd === -1) {
+    return null;
+  }
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString("utf8", offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case "+":
+      return { value: line, next };
+    case "-":
+      return { value: new RedisReplyError(line), next };
+    case ":":
+      return { value: Number(line), next };
+    case "$": {
+      const length = Number(line);
+      if (length === -1) {
+        return { value: null, next };
+      }
+      if (buffer.length < next + length + 2) {
+        return null;
+      }
+      return { value: buffer.toString("utf8", next, next + length), next: next + length + 2 };
+    }
+    case "*": {
+      const count = Number(line);
+      if (count === -1) {
+        return { value: null, next };
+      }
+      const items: RedisReply[] = [];
+      let cursor = next;
+      for (let i = 0; i < count; i++) {
+        const item = decodeReply(buffer, cursor);
+        if (!item) {
+          return null;
+        }
+        // Errors nested in arrays (e.g. from EXEC) are surfaced as their message
+        items.push(item.value instanceof RedisReplyError ? item.value.message : item.value);
+        cursor = item.next;
+      }
+      return { value: items, next: cursor };
+    }
+    default:
+      throw new RedisReplyError(`Unexpected RESP type "${type}"`);
+  }
+}
+
+/**
+ * Create a client for a Redis-protocol server
+ *
+ * The connection opens on the first command and is reopened after errors.
+ *
+ * @param options - Server URL and connect timeout
+ * @returns RedisClient
+ */
+export function createRedisClient(options: RedisClientOptions): RedisClient {
+  const url = new URL(options.url);
+  const useTls = url.protocol === "rediss:";
+  const host = url.hostname || "localhost";
+  const port = Number(url.port) || 6379;
+  const username = decodeURIComponent(url.username);
+  const password = decodeURIComponent(url.password);
+  const database = Number(url.pathname.slice(1)) || 0;
+  const connectTimeoutMs = options.connectTimeoutMs ?? 2000;
+  const commandTimeoutMs = options.commandTimeoutMs ?? 1000;
+
+  let socket: net.Socket | null = null;
+  let buffer = Buffer.alloc(0);
+  const pending: PendingCommand[] = [];
+
+  const failAll = (error: Error) => {
+    socket?.destroy();
+    socket = null;
+    buffer = Buffer.alloc(0);
+    for (const command of pending.splice(0)) {
+      command.reject(error);
+    }
+  };
+
+  const onData = (chunk: Buffer) => {
+    buffer = Buffer.concat([buffer, chunk]);
+    let offset = 0;
+
+    try {
+      for (;;) {
+        const reply = decodeReply(buffer, offset);
+        if (!reply) {
+          break;
+        }
+        offset = reply.next;
+
+        const command = pending.shift();
+        if (reply.value instanceof RedisReplyError) {
+          command?.reject(reply.value);
+        } else {
+          command?.resolve(reply.value);
+        }
+      }
+    } catch (error) {
+      failAll(error instanceof Error ? error : new Error("Invalid reply"));
+      return;
+    }
+
+    buffer = buffer.subarray(offset);
+  };
+
+  const send = (args: (string | number)[]) =>
+    new Promise<RedisReply>((resolve, reject) => {
+      // Replies arrive in order, so a command without a reply stalls every command behind it
+      const timer = setTimeout(
+        () => failAll(new Error(`Redis command timed out after ${commandTimeoutMs}ms`)),
+        commandTimeoutMs
+      );
+      timer.unref();
+
+      pending.push({
+        resolve: (reply) => {
+          clearTimeout(timer);
+          resolve(reply);
+        },
+        reject: (error) => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      });
+      socket?.write(encodeCommand(args));
+    });
+
+  const connect = () => {
+    const connectOptions = { host, port, timeout: connectTimeoutMs };
+    const connection = useTls ? tls.connect({ ...connectOptions, servername: host }) : net.connect(connectOptions);
+
+    connection.on("data", onData);
+    connection.on("timeout", () => failAll(new Error(`Redis connection to ${host}:${port} timed out`)));
+    connection.on("error", (error) => failAll(error));
+    connection.on("close", () => {
+      if (socket === connection) {
+        failAll(new Error("Redis connection closed"));
+      }
+    });
+    connection.once(useTls ? "secureConnect" : "connect", () => connection.setTimeout(0));
+    socket = connection;
+
+    // Writes are buffered until the socket connects, so the handshake is queued like any command
+    const handshake: Promise<RedisReply>[] = [];
+    if (password) {
+      handshake.push(send(username ? ["AUTH", username, password] : ["AUTH", password]));
+    }
+    if (database) {
+      handshake.push(send(["SELECT", database]));
+    }
+    Promise.all(handshake).catch((error: Error) => failAll(error));
+  };
+
+  return {
+    command(args) {
+      if (!socket) {
+        connect();
+      }
+      return send(args);
+    },
+    close() {
+      failAll(new Error("Redis client closed"));
+    },
+  };
+}
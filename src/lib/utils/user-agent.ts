@@ -0,0 +1,67 @@
+/**
+ * User agent helpers for session listings
+ *
+ * Produces a short, readable device summary such as "Chrome on macOS" from a
+ * User-Agent header. Only the common browsers and platforms are recognised;
+ * the raw header is always kept alongside for anything more specific.
+ */
+
+/**
+ * Browser patterns, most specific first: Edge and Opera also claim to be Chrome,
+ * and Chrome also claims to be Safari
+ */
+const BROWSER_PATTERNS: [RegExp, string][] = [
+  [/\bEdg(?:e|A|iOS)?\//, "Edge"],
+  [/\b(?:OPR|Opera)\//, "Opera"],
+  [/\bSamsungBrowser\//, "Samsung Internet"],
+  [/\b(?:Firefox|FxiOS)\//, "Firefox"],
+  [/\b(?:Chrome|CriOS)\//, "Chrome"],
+  [/\bVersion\/[\d.]+.*\bSafari\//, "Safari"],
+];
+
+/**
+ * Platform patterns, most specific first: Android also claims to be Linux,
+ * and iPadOS may claim to be macOS
+ */
+const PLATFORM_PATTERNS: [RegExp, string][] = [
+  [/\bAndroid\b/, "Android"],
+  [/\b(?:iPhone|iPad|iPod)\b/, "iOS"],
+  [/\bWindows\b/, "Windows"],
+  [/\bCrOS\b/, "ChromeOS"],
+  [/\bMac OS X\b|\bMacintosh\b/, "macOS"],
+  [/\bLinux\b/, "Linux"],
+];
+
+/**
+ * Find the label of the first matching pattern
+ * @internal
+ */
+function matchLabel(userAgent: string, patterns: [RegExp, string][]): string | null {
+  return patterns.find(([pattern]) => pattern.test(userAgent))?.[1] ?? null;
+}
+
+/**
+ * Describe the device behind a User-Agent header
+ *
+ * @param userAgent - User-Agent header value
+ * @returns "Browser on Platform", either part alone when the other is unknown,
+ *          or null for a missing or unrecognised user agent
+ *
+ * @example
+ * describeUserAgent("Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:128.0) Gecko/20100101 Firefox/128.0");
+ * // "Firefox on Windows"
+ */
+export function describeUserAgent(userAgent: string | null | undefined): string | null {
+  if (!userAgent) {
+    return null;
+  }
+
+  const browser = matchLabel(userAgent, BROWSER_PATTERNS);
+  const platform = matchLabel(userAgent, PLATFORM_PATTERNS);
+
+  if (browser && platform) {
+    return `${browser} on ${platform}`;
+  }
+
+  return browser ?? platform;
+}
@@ -0,0 +1,167 @@
+/**
+ * Validation schemas for analytics events
+ *
+ * This module defines one Zod schema per analytics event type, combined into
+ * a discriminated union on event_type. Each schema fixes the shape of
+ * event_data so that analytics_events rows stay queryable. ip_hash,
+ * user_agent and timestamp are added by the analytics service and are not
+ * part of these shapes.
+ */
+
+import { z } from "zod";
+import { VERIFICATION_EMAIL_TYPES } from "./auth.schema";
+import { EXPORT_FORMATS, IMPORT_FORMATS, IMPORT_STRATEGIES, VALID_CARD_VARIANTS } from "./collection.schema";
+
+/**
+ * Reusable field schemas
+ */
+const cardIdField = z.string().trim().min(1, { message: "card_id is required" }).max(64);
+const countField = z.number().int().min(0);
+
+/**
+ * Event schemas recorded by the server
+ */
+const userRegisteredEventSchema = z.object({
+  event_type: z.literal("user_registered"),
+  event_data: z.object({}).strict().default({}),
+});
+
+const userLoginEventSchema = z.object({
+  event_type: z.literal("user_login"),
+  event_data: z.object({}).strict().default({}),
+});
+
+const userLogoutEventSchema = z.object({
+  event_type: z.literal("user_logout"),
+  event_data: z.object({}).strict().default({}),
+});
+
+const passwordResetRequestedEventSchema = z.object({
+  event_type: z.literal("password_reset_requested"),
+  event_data: z.object({}).strict().default({}),
+});
+
+const emailChangeRequestedEventSchema = z.object({
+  event_type: z.literal("email_change_requested"),
+  event_data: z.object({}).strict().default({}),
+});
+
+const verificationEmailResentEventSchema = z.object({
+  event_type: z.literal("verification_email_resent"),
+  event_data: z.object({ type: z.enum(VERIFICATION_EMAIL_TYPES) }).strict(),
+});
+
+const loginFailedEventSchema = z.object({
+  event_type: z.literal("login_failed"),
+  event_data: z.object({ failures: countField }).strict(),
+});
+
+const accountLockedEventSchema = z.object({
+  event_type: z.literal("account_locked"),
+  event_data: z.object({ failures: countField, lock_seconds: countField }).strict(),
+});
+
+const cardAddedEventSchema = z.object({
+  event_type: z.literal("card_added"),
+  event_data: z
+    .object({
+      card_id: cardIdField,
+      variant: z.enum(VALID_CARD_VARIANTS),
+      quantity: z.number().int().min(1),
+    })
+    .strict(),
+});
+
+const cardRemovedEventSchema = z.object({
+  event_type: z.literal("card_removed"),
+  event_data: z.object({ card_id: cardIdField }).strict(),
+});
+
+const collectionExportedEventSchema = z.object({
+  event_type: z.literal("collection_exported"),
+  event_data: z.object({ format: z.enum(EXPORT_FORMATS), card_count: countField }).strict(),
+});
+
+const collectionImportedEventSchema = z.object({
+  event_type: z.literal("collection_imported"),
+  event_data: z
+    .object({
+      format: z.enum(IMPORT_FORMATS),
+      strategy: z.enum(IMPORT_STRATEGIES),
+      total_rows: countField,
+      created: countField,
+      merged: countField,
+      replaced: countField,
+      failed: countField,
+    })
+    .strict(),
+});
+
+/**
+ * Event schemas reported by clients
+ */
+const cardViewedEventSchema = z.object({
+  event_type: z.literal("card_viewed"),
+  event_data: z
+    .object({
+      card_id: cardIdField,
+      source: z.enum(["search", "collection", "set", "direct"]).optional(),
+    })
+    .strict(),
+});
+
+const searchPerformedEventSchema = z.object({
+  event_type: z.literal("search_performed"),
+  event_data: z
+    .object({
+      query: z.string().trim().max(100, { message: "query must not exceed 100 characters" }),
+      filters: z
+        .record(
+          z.string().max(32),
+          z.union([z.string().max(100), z.number(), z.boolean(), z.array(z.string().max(100)).max(20)])
+        )
+        .refine((filters) => Object.keys(filters).length <= 20, { message: "filters must not exceed 20 keys" })
+        .optional(),
+      result_count: countField.optional(),
+    })
+    .strict(),
+});
+
+/**
+ * Validation schema for any analytics event
+ * Used to type server-side tracking calls
+ */
+export const analyticsEventSchema = z.discriminatedUnion("event_type", [
+  userRegisteredEventSchema,
+  userLoginEventSchema,
+  userLogoutEventSchema,
+  passwordResetRequestedEventSchema,
+  emailChangeRequestedEventSchema,
+  verificationEmailResentEventSchema,
+  loginFailedEventSchema,
+  accountLockedEventSchema,
+  cardAddedEventSchema,
+  cardRemovedEventSchema,
+  cardViewedEventSchema,
+  searchPerformedEventSchema,
+  collectionExportedEventSchema,
+  collectionImportedEventSchema,
+]);
+
+/**
+ * Validation schema for POST /api/analytics/events
+ *
+ * Only events that happen in the browser are accepted; everything else is
+ * recorded by the server where it happens and cannot be submitted by clients.
+ */
+export const clientAnalyticsEventSchema = z.discriminatedUnion("event_type", [
+  cardViewedEventSchema,
+  searchPerformedEventSchema,
+]);
+
+/**
+ * Inferred TypeScript types from schemas
+ */
+export type AnalyticsEventSchema = z.infer<typeof analyticsEventSchema>;
+export type AnalyticsEventInput = z.input<typeof analyticsEventSchema>;
+export type ClientAnalyticsEventSchema = z.infer<typeof clientAnalyticsEventSchema>;
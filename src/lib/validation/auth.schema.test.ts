@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+
+import { changeEmailSchema, resendVerificationSchema } from "./auth.schema";
+
+describe("changeEmailSchema", () => {
+  it("trims and lowercases the new address", () => {
+    expect(changeEmailSchema.parse({ email: "  New.Address@Example.COM ", password: "current" })).toEqual({
+      email: "new.address@example.com",
+      password: "current",
+    });
+  });
+
+  it("requires the current password", () => {
+    const result = changeEmailSchema.safeParse({ email: "new@example.com", password: "" });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.flatten().fieldErrors).toEqual({ password: ["Password is required"] });
+  });
+
+  it("rejects invalid and overlong addresses", () => {
+    const overlong = `${"a".repeat(64)}@${"b".repeat(63)}.${"c".repeat(63)}.${"d".repeat(60)}.com`;
+
+    expect(changeEmailSchema.safeParse({ email: "not-an-email", password: "current" }).error?.issues[0].message).toBe(
+      "Invalid email format"
+    );
+    expect(changeEmailSchema.safeParse({ email: overlong, password: "current" }).error?.issues[0].message).toBe(
+      "Email must not exceed 254 characters"
+    );
+  });
+});
+
+describe("resendVerificationSchema", () => {
+  it("defaults to the signup confirmation email", () => {
+    expect(resendVerificationSchema.parse({ email: "User@Example.com" })).toEqual({
+      email: "user@example.com",
+      type: "signup",
+    });
+  });
+
+  it("accepts email change confirmations and rejects other types", () => {
+    expect(resendVerificationSchema.parse({ email: "user@example.com", type: "email_change" }).type).toBe(
+      "email_change"
+    );
+    expect(resendVerificationSchema.safeParse({ email: "user@example.com", type: "recovery" }).success).toBe(false);
+  });
+});
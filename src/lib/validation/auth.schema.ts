@@ -20,6 +20,9 @@ const PASSWORD_REGEX = /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@
  * Rules:
  * - Email: must be valid email format, trimmed, max 254 chars, normalized to lowercase
  * - Password: 12-72 chars, must contain uppercase, lowercase, digit, and symbol
+ *
+ * Passwords that pass are then rated by checkPasswordPolicy (password-strength.service),
+ * which needs the user's email as context and may read the breached-password dataset.
  */
 export const registerSchema = z.object({
   email: z
@@ -75,6 +78,9 @@ export const resetPasswordSchema = z.object({
  *
  * Rules:
  * - Password: 12-72 chars, must contain uppercase, lowercase, digit, and symbol
+ *
+ * Passwords that pass are then rated by checkPasswordPolicy (password-strength.service),
+ * which needs the user's email as context and may read the breached-password dataset.
  */
 export const updatePasswordSchema = z.object({
   password: z
@@ -86,6 +92,209 @@ export const updatePasswordSchema = z.object({
     }),
 });
 
+/**
+ * Validation schema for a passwordless sign-in email request
+ *
+ * Rules:
+ * - Email: must be valid email format, trimmed, normalized to lowercase
+ */
+export const magicLinkSchema = z.object({
+  email: z
+    .string({ required_error: "Email is required" })
+    .trim()
+    .email({ message: "Invalid email format" })
+    .toLowerCase()
+    .transform((val) => val.toLowerCase()),
+});
+
+/**
+ * Validation schema for passwordless sign-in verification
+ *
+ * Rules:
+ * - Either token_hash (from the magic link), or email and token (the emailed code)
+ * - Email: valid email format, trimmed, normalized to lowercase
+ * - Token: exactly 6 digits (otp_length in supabase/config.toml)
+ */
+export const verifyOtpSchema = z
+  .object({
+    email: z
+      .string()
+      .trim()
+      .email({ message: "Invalid email format" })
+      .toLowerCase()
+      .transform((val) => val.toLowerCase())
+      .optional(),
+    token: z
+      .string()
+      .trim()
+      .regex(/^\d{6}$/, { message: "Code must be 6 digits" })
+      .optional(),
+    token_hash: z.string().trim().min(1, { message: "Token hash must not be empty" }).max(256).optional(),
+  })
+  .superRefine((value, ctx) => {
+    if (value.token_hash) {
+      return;
+    }
+    if (!value.email) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["email"], message: "Email is required" });
+    }
+    if (!value.token) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["token"], message: "Code is required" });
+    }
+  });
+
+/**
+ * Verification email types accepted by resend-verification
+ */
+export const VERIFICATION_EMAIL_TYPES = ["signup", "email_change"] as const;
+
+/**
+ * Validation schema for an email change request
+ *
+ * Rules:
+ * - Email: the new address; valid email format, trimmed, max 254 chars, normalized to lowercase
+ * - Password: required string (the current password, no complexity check)
+ */
+export const changeEmailSchema = z.object({
+  email: z
+    .string({ required_error: "Email is required" })
+    .trim()
+    .email({ message: "Invalid email format" })
+    .max(254, { message: "Email must not exceed 254 characters" })
+    .toLowerCase()
+    .transform((val) => val.toLowerCase()),
+  password: z.string({ required_error: "Password is required" }).min(1, { message: "Password is required" }),
+});
+
+/**
+ * Validation schema for a verification email resend
+ *
+ * Rules:
+ * - Email: must be valid email format, trimmed, normalized to lowercase
+ * - Type: "signup" (default) or "email_change"
+ */
+export const resendVerificationSchema = z.object({
+  email: z
+    .string({ required_error: "Email is required" })
+    .trim()
+    .email({ message: "Invalid email format" })
+    .toLowerCase()
+    .transform((val) => val.toLowerCase()),
+  type: z.enum(VERIFICATION_EMAIL_TYPES).default("signup"),
+});
+
+/**
+ * OAuth providers accepted by /api/auth/oauth/:provider
+ * Keep in sync with the [auth.external.*] providers in supabase/config.toml
+ */
+export const OAUTH_PROVIDERS = ["google", "discord"] as const;
+
+/**
+ * Validation schema for the OAuth start route parameters
+ *
+ * Rules:
+ * - Provider: one of OAUTH_PROVIDERS
+ */
+export const oauthProviderParamsSchema = z.object({
+  provider: z.enum(OAUTH_PROVIDERS, {
+    errorMap: () => ({ message: `Provider must be one of: ${OAUTH_PROVIDERS.join(", ")}` }),
+  }),
+});
+
+/**
+ * Validation schema for the OAuth callback query
+ *
+ * Rules:
+ * - Code: required non-empty authorization code issued by Supabase Auth
+ */
+export const oauthCallbackQuerySchema = z.object({
+  code: z
+    .string({ required_error: "Authorization code is required" })
+    .trim()
+    .min(1, { message: "Authorization code is required" })
+    .max(512, { message: "Authorization code is too long" }),
+});
+
+/**
+ * Validation schema for a TOTP factor enrollment
+ *
+ * Rules:
+ * - Friendly name: optional, 1-64 chars, unique per user (checked by Supabase Auth)
+ */
+export const mfaEnrollSchema = z.object({
+  friendly_name: z
+    .string()
+    .trim()
+    .min(1, { message: "Friendly name must not be empty" })
+    .max(64, { message: "Friendly name must not exceed 64 characters" })
+    .optional(),
+});
+
+/**
+ * Validation schema for an MFA challenge
+ *
+ * Rules:
+ * - Factor id: UUID of one of the user's TOTP factors
+ */
+export const mfaChallengeSchema = z.object({
+  factor_id: z.string({ required_error: "Factor id is required" }).uuid({ message: "Invalid factor id" }),
+});
+
+/**
+ * Validation schema for an MFA verification
+ *
+ * Rules:
+ * - Either factor_id, challenge_id and code, or recovery_code
+ * - Code: exactly 6 digits from the authenticator app
+ * - Recovery code: as shown at enrollment; case, spaces and dashes are ignored
+ */
+export const mfaVerifySchema = z
+  .object({
+    factor_id: z.string().uuid({ message: "Invalid factor id" }).optional(),
+    challenge_id: z.string().uuid({ message: "Invalid challenge id" }).optional(),
+    code: z
+      .string()
+      .trim()
+      .regex(/^\d{6}$/, { message: "Code must be 6 digits" })
+      .optional(),
+    recovery_code: z
+      .string()
+      .trim()
+      .min(1, { message: "Recovery code must not be empty" })
+      .max(32, { message: "Invalid recovery code" })
+      .optional(),
+  })
+  .superRefine((value, ctx) => {
+    if (value.recovery_code) {
+      return;
+    }
+    if (!value.factor_id) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["factor_id"], message: "Factor id is required" });
+    }
+    if (!value.challenge_id) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["challenge_id"], message: "Challenge id is required" });
+    }
+    if (!value.code) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["code"], message: "Code is required" });
+    }
+  });
+
+/**
+ * Validation schema for the session id route parameter
+ */
+export const sessionIdSchema = z.string().uuid({ message: "Invalid session ID" });
+
+/**
+ * Validation schema for session refresh
+ *
+ * Rules:
+ * - Refresh token: optional non-empty string; browser clients send none and
+ *   rely on the session cookie
+ */
+export const refreshSessionSchema = z.object({
+  refresh_token: z.string().trim().min(1, { message: "Refresh token must not be empty" }).optional(),
+});
+
 /**
  * Inferred TypeScript types from schemas
  */
@@ -93,3 +302,13 @@ export type RegisterSchema = z.infer<typeof registerSchema>;
 export type LoginSchema = z.infer<typeof loginSchema>;
 export type ResetPasswordSchema = z.infer<typeof resetPasswordSchema>;
 export type UpdatePasswordSchema = z.infer<typeof updatePasswordSchema>;
+export type MagicLinkSchema = z.infer<typeof magicLinkSchema>;
+export type VerifyOtpSchema = z.infer<typeof verifyOtpSchema>;
+export type ChangeEmailSchema = z.infer<typeof changeEmailSchema>;
+export type ResendVerificationSchema = z.infer<typeof resendVerificationSchema>;
+export type MfaEnrollSchema = z.infer<typeof mfaEnrollSchema>;
+export type MfaChallengeSchema = z.infer<typeof mfaChallengeSchema>;
+export type MfaVerifySchema = z.infer<typeof mfaVerifySchema>;
+export type OAuthProviderParamsSchema = z.infer<typeof oauthProviderParamsSchema>;
+export type OAuthCallbackQuerySchema = z.infer<typeof oauthCallbackQuerySchema>;
+export type RefreshSessionSchema = z.infer<typeof refreshSessionSchema>;
@@ -0,0 +1,77 @@
+/**
+ * Validation schemas for card catalog endpoints
+ *
+ * This module defines Zod schemas for validating card search and lookup requests.
+ * These schemas enforce pagination bounds, allowed sort keys, and canonical
+ * Pokémon TCG type names before queries reach the database.
+ */
+
+import { z } from "zod";
+import { VALID_POKEMON_TYPES } from "./profile.schema";
+
+/**
+ * Validation schema for card ID path parameter
+ *
+ * Rules:
+ * - cardId: trimmed non-empty string, max 64 chars (e.g. "sv04.5-1")
+ */
+export const cardIdSchema = z
+  .string({ required_error: "Card ID is required" })
+  .trim()
+  .min(1, { message: "Card ID is required" })
+  .max(64, { message: "Card ID must not exceed 64 characters" });
+
+/**
+ * Validation schema for card search query parameters
+ *
+ * Rules:
+ * - page: integer >= 1, defaults to 1
+ * - limit: integer 1-100, defaults to 20
+ * - sort: optional, one of name, card_number, rarity (omitted = relevance when searching, else name)
+ * - order: asc or desc, defaults to asc
+ * - search: optional trimmed string, 1-100 chars
+ * - set_id: optional trimmed string
+ * - types: optional comma-separated list of canonical Pokémon TCG types, normalized to lowercase
+ * - rarity: optional trimmed string
+ */
+export const cardSearchQuerySchema = z.object({
+  page: z.coerce.number().int().min(1, { message: "page must be at least 1" }).default(1),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1, { message: "limit must be between 1 and 100" })
+    .max(100, { message: "limit must be between 1 and 100" })
+    .default(20),
+  sort: z
+    .enum(["name", "card_number", "rarity"], {
+      errorMap: () => ({ message: "sort must be one of: name, card_number, rarity" }),
+    })
+    .optional(),
+  order: z.enum(["asc", "desc"], { errorMap: () => ({ message: "order must be one of: asc, desc" }) }).default("asc"),
+  search: z
+    .string()
+    .trim()
+    .min(1, { message: "search must not be empty" })
+    .max(100, { message: "search must not exceed 100 characters" })
+    .optional(),
+  set_id: z.string().trim().min(1).optional(),
+  types: z
+    .string()
+    .transform((val) =>
+      val
+        .split(",")
+        .map((type) => type.trim().toLowerCase())
+        .filter((type) => type.length > 0)
+    )
+    .refine((types) => types.length > 0, { message: "types must contain at least one type" })
+    .refine((types) => types.every((type) => VALID_POKEMON_TYPES.includes(type as never)), {
+      message: `types must be a comma-separated list of: ${VALID_POKEMON_TYPES.join(", ")}`,
+    })
+    .optional(),
+  rarity: z.string().trim().min(1).optional(),
+});
+
+/**
+ * Inferred TypeScript types from schemas
+ */
+export type CardSearchQuerySchema = z.infer<typeof cardSearchQuerySchema>;
@@ -0,0 +1,51 @@
+/**
+ * Validation schemas for catalog administration endpoints
+ *
+ * This module defines Zod schemas for validating catalog sync requests.
+ */
+
+import { z } from "zod";
+import { setIdSchema } from "./set.schema";
+
+/**
+ * Maximum number of sets that can be named in one targeted sync
+ */
+export const MAX_SYNC_SET_IDS = 50;
+
+/**
+ * Validation schema for catalog sync query parameters
+ *
+ * Rules:
+ * - dry_run: optional "true"/"false" string coerced to boolean, defaults to false
+ * - set_ids: optional comma-separated set IDs (max 50); omitted means a full sync
+ */
+export const catalogSyncQuerySchema = z.object({
+  dry_run: z
+    .enum(["true", "false"], { errorMap: () => ({ message: "dry_run must be true or false" }) })
+    .default("false")
+    .transform((val) => val === "true"),
+  set_ids: z
+    .string()
+    .transform((val) =>
+      Array.from(
+        new Set(
+          val
+            .split(",")
+            .map((id) => id.trim())
+            .filter(Boolean)
+        )
+      )
+    )
+    .pipe(
+      z
+        .array(setIdSchema)
+        .min(1, { message: "set_ids must contain at least one set ID" })
+        .max(MAX_SYNC_SET_IDS, { message: `set_ids must not exceed ${MAX_SYNC_SET_IDS} sets` })
+    )
+    .optional(),
+});
+
+/**
+ * Inferred TypeScript types from schemas
+ */
+export type CatalogSyncQuerySchema = z.infer<typeof catalogSyncQuerySchema>;
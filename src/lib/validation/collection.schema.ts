@@ -0,0 +1,454 @@
+/**
+ * Validation schemas for collection endpoints
+ *
+ * This module defines Zod schemas for validating collection-related requests.
+ * These schemas enforce business rules for card variants, per-entry quantity
+ * limits, condition and grading metadata, and pagination/filter parameters
+ * before any database work is done.
+ */
+
+import { z } from "zod";
+
+/**
+ * Valid card variants
+ * Mirrors the check constraints on user_cards.variant and wishlist_items.desired_variant
+ */
+export const VALID_CARD_VARIANTS = ["normal", "reverse", "holo", "firstEdition"] as const;
+
+/**
+ * Valid raw card conditions, best first
+ * Mirrors the check constraint on user_cards.condition
+ */
+export const CARD_CONDITIONS = ["NM", "LP", "MP", "HP", "DMG"] as const;
+
+/**
+ * Valid card languages (ISO 639-1, Chinese split into traditional and simplified script)
+ * Mirrors the check constraint on user_cards.language
+ */
+export const CARD_LANGUAGES = [
+  "en",
+  "ja",
+  "ko",
+  "zh-Hant",
+  "zh-Hans",
+  "fr",
+  "de",
+  "it",
+  "es",
+  "pt",
+  "nl",
+  "pl",
+  "ru",
+  "id",
+  "th",
+] as const;
+
+/**
+ * Valid grading companies
+ * Mirrors the check constraint on user_cards.grading_company
+ */
+export const GRADING_COMPANIES = ["PSA", "BGS", "CGC"] as const;
+
+/**
+ * Half-point grades from `from` to `to` inclusive
+ * @internal
+ */
+function halfPointGrades(from: number, to: number): number[] {
+  return Array.from({ length: (to - from) * 2 + 1 }, (_, i) => from + i / 2);
+}
+
+/**
+ * Grades awarded by each grading company
+ * Mirrors the user_cards_grade_scale check constraint
+ */
+export const GRADE_SCALES: Record<(typeof GRADING_COMPANIES)[number], { grades: number[]; description: string }> = {
+  PSA: {
+    grades: [...halfPointGrades(1, 8.5), 9, 10],
+    description: "whole grades from 1 to 10, or half grades from 1.5 to 8.5",
+  },
+  BGS: { grades: halfPointGrades(1, 10), description: "grades from 1 to 10 in steps of 0.5" },
+  CGC: { grades: halfPointGrades(1, 10), description: "grades from 1 to 10 in steps of 0.5" },
+};
+
+/**
+ * Maximum length of a grading certification number
+ * Mirrors the check constraint on user_cards.cert_number
+ */
+export const MAX_CERT_NUMBER_LENGTH = 30;
+
+/**
+ * Maximum number of copies allowed per collection entry (card, variant, condition, language and grading)
+ * Mirrors the check constraints on user_cards.quantity and wishlist_items.desired_quantity
+ */
+export const MAX_VARIANT_QUANTITY = 1000;
+
+/**
+ * Maximum total number of cards (sum of quantities) per collection
+ * Mirrors the check_card_limit trigger on user_cards
+ */
+export const MAX_COLLECTION_CARDS = 10000;
+
+/**
+ * Validation schema for collection entry ID path parameter
+ */
+export const userCardIdSchema = z.string().uuid({ message: "Invalid collection entry ID" });
+
+const conditionSchema = z.enum(CARD_CONDITIONS, {
+  errorMap: () => ({ message: `condition must be one of: ${CARD_CONDITIONS.join(", ")}` }),
+});
+
+const languageSchema = z.enum(CARD_LANGUAGES, {
+  errorMap: () => ({ message: `language must be one of: ${CARD_LANGUAGES.join(", ")}` }),
+});
+
+const gradingCompanySchema = z.enum(GRADING_COMPANIES, {
+  errorMap: () => ({ message: `grading_company must be one of: ${GRADING_COMPANIES.join(", ")}` }),
+});
+
+const gradeSchema = z.number({ invalid_type_error: "grade must be a number" });
+
+const certNumberSchema = z
+  .string()
+  .trim()
+  .min(1, { message: "cert_number must not be empty" })
+  .max(MAX_CERT_NUMBER_LENGTH, { message: `cert_number must be at most ${MAX_CERT_NUMBER_LENGTH} characters` });
+
+/**
+ * Condition and grading fields shared by the add-card and import row schemas
+ */
+interface GradingFields {
+  condition?: (typeof CARD_CONDITIONS)[number] | null;
+  grading_company?: (typeof GRADING_COMPANIES)[number] | null;
+  grade?: number | null;
+  cert_number?: string | null;
+}
+
+/**
+ * Cross-field grading rules
+ *
+ * - grading_company and grade are given together
+ * - cert_number requires grading_company
+ * - grade must be on the grading company's scale
+ * - condition applies to raw cards only
+ *
+ * @internal
+ */
+function refineGrading(data: GradingFields, ctx: z.RefinementCtx): void {
+  const company = data.grading_company ?? null;
+  const grade = data.grade ?? null;
+
+  if (company && grade === null) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["grade"], message: "grade is required for graded cards" });
+  }
+
+  if (!company && grade !== null) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["grading_company"],
+      message: "grading_company is required when grade is set",
+    });
+  }
+
+  if (!company && data.cert_number) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["cert_number"],
+      message: "cert_number is only allowed for graded cards",
+    });
+  }
+
+  if (company && grade !== null && !GRADE_SCALES[company].grades.includes(grade)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["grade"],
+      message: `${company} awards ${GRADE_SCALES[company].description}`,
+    });
+  }
+
+  if (company && data.condition) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["condition"],
+      message: "condition is only allowed for raw cards; graded cards carry a grade instead",
+    });
+  }
+}
+
+/**
+ * Fill in the stored shape: graded cards have no condition, raw cards default to Near Mint
+ * @internal
+ */
+function normalizeGrading<T extends GradingFields>(data: T) {
+  const company = data.grading_company ?? null;
+
+  return {
+    ...data,
+    condition: company ? null : (data.condition ?? "NM"),
+    grading_company: company,
+    grade: company ? (data.grade ?? null) : null,
+    cert_number: company ? (data.cert_number ?? null) : null,
+  };
+}
+
+/**
+ * Validation schema for adding a card to the collection
+ *
+ * Rules:
+ * - card_id: required trimmed non-empty string
+ * - variant: required, one of the canonical card variants
+ * - quantity: optional integer 1-1000, defaults to 1
+ * - condition: optional NM, LP, MP, HP or DMG for raw cards, defaults to NM; not allowed for graded cards
+ * - language: optional card language code, defaults to en
+ * - grading_company, grade: optional, given together; grade must be on the company's scale
+ * - cert_number: optional trimmed string up to 30 characters, graded cards only
+ */
+export const addUserCardSchema = z
+  .object({
+    card_id: z.string({ required_error: "card_id is required" }).trim().min(1, { message: "card_id is required" }),
+    variant: z.enum(VALID_CARD_VARIANTS, {
+      errorMap: () => ({ message: `variant must be one of: ${VALID_CARD_VARIANTS.join(", ")}` }),
+    }),
+    quantity: z
+      .number()
+      .int({ message: "Quantity must be an integer" })
+      .min(1, { message: `Quantity must be between 1 and ${MAX_VARIANT_QUANTITY}` })
+      .max(MAX_VARIANT_QUANTITY, { message: `Quantity must be between 1 and ${MAX_VARIANT_QUANTITY}` })
+      .default(1),
+    condition: conditionSchema.nullish(),
+    language: languageSchema.default("en"),
+    grading_company: gradingCompanySchema.nullish(),
+    grade: gradeSchema.nullish(),
+    cert_number: certNumberSchema.nullish(),
+  })
+  .superRefine(refineGrading)
+  .transform(normalizeGrading);
+
+/**
+ * Validation schema for updating a collection entry
+ *
+ * Rules:
+ * - quantity: optional integer 1-1000
+ * - condition, language, grading_company, grade, cert_number: optional, as for adding;
+ *   null clears condition or grading
+ * - At least one field must be provided
+ *
+ * Grading rules apply to the entry after the update is merged in, so they are
+ * checked by userCardGradingSchema once the current entry is known.
+ */
+export const updateUserCardSchema = z
+  .object({
+    quantity: z
+      .number()
+      .int({ message: "Quantity must be an integer" })
+      .min(1, { message: `Quantity must be between 1 and ${MAX_VARIANT_QUANTITY}` })
+      .max(MAX_VARIANT_QUANTITY, { message: `Quantity must be between 1 and ${MAX_VARIANT_QUANTITY}` })
+      .optional(),
+    condition: conditionSchema.nullish(),
+    language: languageSchema.optional(),
+    grading_company: gradingCompanySchema.nullish(),
+    grade: gradeSchema.nullish(),
+    cert_number: certNumberSchema.nullish(),
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: "At least one of quantity, condition, language, grading_company, grade or cert_number must be provided",
+  });
+
+/**
+ * Validation schema for the condition and grading of a collection entry
+ * Applies the add-card grading rules and fills in the stored shape
+ */
+export const userCardGradingSchema = z
+  .object({
+    condition: conditionSchema.nullish(),
+    grading_company: gradingCompanySchema.nullish(),
+    grade: gradeSchema.nullish(),
+    cert_number: certNumberSchema.nullish(),
+  })
+  .superRefine(refineGrading)
+  .transform(normalizeGrading);
+
+/**
+ * Condition, language and grading filters shared by the list and export query schemas
+ */
+const entryFilterSchemas = {
+  condition: conditionSchema.optional(),
+  language: languageSchema.optional(),
+  grading_company: gradingCompanySchema.optional(),
+  graded: z
+    .enum(["true", "false"], { errorMap: () => ({ message: "graded must be true or false" }) })
+    .transform((val) => val === "true")
+    .optional(),
+};
+
+/**
+ * Validation schema for collection list query parameters
+ *
+ * Rules:
+ * - page: integer >= 1, defaults to 1
+ * - limit: integer 1-100, defaults to 20
+ * - sort: one of name, created_at, quantity (defaults to name)
+ * - order: asc or desc (defaults to asc)
+ * - set_id, search: optional trimmed strings
+ * - variant: optional canonical card variant
+ * - condition, language, grading_company: optional exact-match filters
+ * - graded: optional "true"/"false" string coerced to boolean
+ */
+export const collectionQuerySchema = z.object({
+  page: z.coerce.number().int().min(1, { message: "page must be at least 1" }).default(1),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1, { message: "limit must be between 1 and 100" })
+    .max(100, { message: "limit must be between 1 and 100" })
+    .default(20),
+  sort: z.enum(["name", "created_at", "quantity"]).default("name"),
+  order: z.enum(["asc", "desc"]).default("asc"),
+  set_id: z.string().trim().min(1).optional(),
+  variant: z.enum(VALID_CARD_VARIANTS).optional(),
+  ...entryFilterSchemas,
+  search: z.string().trim().min(1).max(100).optional(),
+});
+
+/**
+ * Validation schema for set statistics query parameters
+ *
+ * Rules:
+ * - include_empty: optional "true"/"false" string coerced to boolean, defaults to false
+ */
+export const setStatsQuerySchema = z.object({
+  include_empty: z
+    .enum(["true", "false"], { errorMap: () => ({ message: "include_empty must be true or false" }) })
+    .default("false")
+    .transform((val) => val === "true"),
+});
+
+/**
+ * Supported collection export formats
+ */
+export const EXPORT_FORMATS = ["csv", "json"] as const;
+
+/**
+ * Validation schema for collection export query parameters
+ *
+ * Rules:
+ * - format: csv or json (defaults to csv)
+ * - set_id: optional trimmed string
+ * - variant: optional canonical card variant
+ * - condition, language, grading_company, graded: optional, as for the collection list
+ */
+export const exportQuerySchema = z.object({
+  format: z
+    .enum(EXPORT_FORMATS, { errorMap: () => ({ message: `format must be one of: ${EXPORT_FORMATS.join(", ")}` }) })
+    .default("csv"),
+  set_id: z.string().trim().min(1).optional(),
+  variant: z.enum(VALID_CARD_VARIANTS).optional(),
+  ...entryFilterSchemas,
+});
+
+/**
+ * Supported import conflict strategies
+ */
+export const IMPORT_STRATEGIES = ["merge", "replace"] as const;
+
+/**
+ * Supported import file formats
+ */
+export const IMPORT_FORMATS = ["tcgcollectr", "tcgplayer", "dragonshield", "ptcgl"] as const;
+
+/**
+ * Validation schema for collection import query parameters
+ *
+ * Rules:
+ * - format: one of the supported import formats (defaults to tcgcollectr)
+ * - dry_run: optional "true"/"false" string coerced to boolean, defaults to false
+ * - strategy: merge or replace (defaults to merge)
+ */
+export const importQuerySchema = z.object({
+  format: z
+    .enum(IMPORT_FORMATS, { errorMap: () => ({ message: `format must be one of: ${IMPORT_FORMATS.join(", ")}` }) })
+    .default("tcgcollectr"),
+  dry_run: z
+    .enum(["true", "false"], { errorMap: () => ({ message: "dry_run must be true or false" }) })
+    .default("false")
+    .transform((val) => val === "true"),
+  strategy: z
+    .enum(IMPORT_STRATEGIES, {
+      errorMap: () => ({ message: `strategy must be one of: ${IMPORT_STRATEGIES.join(", ")}` }),
+    })
+    .default("merge"),
+});
+
+/**
+ * Treat an empty CSV field like a missing one, optionally canonicalizing the
+ * case of a code (e.g. "nm" to "NM", "ZH-HANT" to "zh-Hant")
+ * @internal
+ */
+function csvField(codes?: readonly string[]) {
+  return (val: unknown) => {
+    if (val === null || val === undefined || (typeof val === "string" && val.trim() === "")) return undefined;
+    if (typeof val !== "string" || !codes) return val;
+    const trimmed = val.trim();
+    return codes.find((code) => code.toLowerCase() === trimmed.toLowerCase()) ?? trimmed;
+  };
+}
+
+/**
+ * Validation schema for a single normalized import row
+ *
+ * Values arrive as CSV strings, so quantity and grade are coerced, codes are
+ * matched case-insensitively, empty fields count as missing, and wishlisted
+ * accepts "true"/"false" (as written by exports made before the wishlist moved
+ * to its own table), "1"/"0" or an empty field.
+ *
+ * Rules:
+ * - card_id: required trimmed non-empty string
+ * - variant: required, one of the canonical card variants
+ * - quantity: integer 1-1000
+ * - condition, language, grading_company, grade, cert_number: as for adding a card
+ * - wishlisted: optional boolean, defaults to false; flagged rows are owned
+ *   cards and import like any other
+ */
+export const importRowSchema = z
+  .object({
+    card_id: z.string().trim().min(1, { message: "card_id is required" }),
+    variant: z.enum(VALID_CARD_VARIANTS, {
+      errorMap: () => ({ message: `variant must be one of: ${VALID_CARD_VARIANTS.join(", ")}` }),
+    }),
+    quantity: z.coerce
+      .number({ invalid_type_error: "Quantity must be a number" })
+      .int({ message: "Quantity must be an integer" })
+      .min(1, { message: `Quantity must be between 1 and ${MAX_VARIANT_QUANTITY}` })
+      .max(MAX_VARIANT_QUANTITY, { message: `Quantity must be between 1 and ${MAX_VARIANT_QUANTITY}` }),
+    condition: z.preprocess(csvField(CARD_CONDITIONS), conditionSchema.optional()),
+    language: z.preprocess(csvField(CARD_LANGUAGES), languageSchema.default("en")),
+    grading_company: z.preprocess(csvField(GRADING_COMPANIES), gradingCompanySchema.optional()),
+    grade: z.preprocess(
+      (val) => (typeof val === "string" && val.trim() !== "" ? Number(val) : csvField()(val)),
+      gradeSchema.optional()
+    ),
+    cert_number: z.preprocess(csvField(), certNumberSchema.optional()),
+    wishlisted: z
+      .union([z.boolean(), z.string().trim().toLowerCase()])
+      .optional()
+      .transform((val, ctx) => {
+        if (typeof val === "boolean") return val;
+        if (val === undefined || val === "" || val === "false" || val === "0") return false;
+        if (val === "true" || val === "1") return true;
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "wishlisted must be true or false" });
+        return z.NEVER;
+      }),
+  })
+  .superRefine(refineGrading)
+  .transform(normalizeGrading);
+
+/**
+ * Inferred TypeScript types from schemas
+ */
+export type AddUserCardSchema = z.infer<typeof addUserCardSchema>;
+export type UpdateUserCardSchema = z.infer<typeof updateUserCardSchema>;
+export type UserCardGradingSchema = z.infer<typeof userCardGradingSchema>;
+export type CollectionQuerySchema = z.infer<typeof collectionQuerySchema>;
+export type SetStatsQuerySchema = z.infer<typeof setStatsQuerySchema>;
+export type ExportQuerySchema = z.infer<typeof exportQuerySchema>;
+export type ImportQuerySchema = z.infer<typeof importQuerySchema>;
+export type ImportRowSchema = z.infer<typeof importRowSchema>;
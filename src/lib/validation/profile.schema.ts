@@ -63,6 +63,24 @@ export const updateProfileSchema = z
   );
 
 /**
- * Inferred TypeScript type from schema
+ * Validation schema for deleting the account
+ * The password is only checked for presence; Supabase verifies it
+ */
+export const deleteAccountSchema = z.object({
+  password: z.string().min(1, { message: "Password is required" }),
+});
+
+/**
+ * Validation schema for data export query parameters
+ * - format: "zip" (default, one JSON file per section) or "json" (single document)
+ */
+export const dataExportQuerySchema = z.object({
+  format: z.enum(["zip", "json"]).default("zip"),
+});
+
+/**
+ * Inferred TypeScript types from schemas
  */
 export type UpdateProfileSchema = z.infer<typeof updateProfileSchema>;
+export type DeleteAccountSchema = z.infer<typeof deleteAccountSchema>;
+export type DataExportQuerySchema = z.infer<typeof dataExportQuerySchema>;
@@ -0,0 +1,62 @@
+/**
+ * Validation schemas for set endpoints
+ *
+ * This module defines Zod schemas for validating set browsing requests.
+ * These schemas enforce pagination bounds, allowed sort keys, and the
+ * series grouping option used by the set browser.
+ */
+
+import { z } from "zod";
+
+/**
+ * Validation schema for set ID path parameter
+ *
+ * Rules:
+ * - setId: trimmed non-empty string, max 64 chars (e.g. "sv04.5")
+ */
+export const setIdSchema = z
+  .string({ required_error: "Set ID is required" })
+  .trim()
+  .min(1, { message: "Set ID is required" })
+  .max(64, { message: "Set ID must not exceed 64 characters" });
+
+/**
+ * Validation schema for set list query parameters
+ *
+ * Rules:
+ * - page: integer >= 1, defaults to 1
+ * - limit: integer 1-100, defaults to 20
+ * - sort: one of name, release_date, series (defaults to name)
+ * - order: asc or desc (defaults to asc)
+ * - search: optional trimmed string matched against set name
+ * - series: optional exact series name
+ * - group_by: optional "series"; returns every matching set grouped by series in release-date order
+ */
+export const setsQuerySchema = z.object({
+  page: z.coerce.number().int().min(1, { message: "page must be at least 1" }).default(1),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1, { message: "limit must be between 1 and 100" })
+    .max(100, { message: "limit must be between 1 and 100" })
+    .default(20),
+  sort: z
+    .enum(["name", "release_date", "series"], {
+      errorMap: () => ({ message: "sort must be one of: name, release_date, series" }),
+    })
+    .default("name"),
+  order: z.enum(["asc", "desc"], { errorMap: () => ({ message: "order must be one of: asc, desc" }) }).default("asc"),
+  search: z
+    .string()
+    .trim()
+    .min(1, { message: "search must not be empty" })
+    .max(100, { message: "search must not exceed 100 characters" })
+    .optional(),
+  series: z.string().trim().min(1).optional(),
+  group_by: z.enum(["series"], { errorMap: () => ({ message: "group_by must be: series" }) }).optional(),
+});
+
+/**
+ * Inferred TypeScript types from schemas
+ */
+export type SetsQuerySchema = z.infer<typeof setsQuerySchema>;
@@ -0,0 +1,138 @@
+/**
+ * Validation schemas for wishlist endpoints
+ *
+ * This module defines Zod schemas for validating wishlist-related requests.
+ * Desired variants and quantities follow the collection rules; priorities and
+ * maximum prices mirror the wishlist_items columns.
+ */
+
+import { z } from "zod";
+import { MAX_VARIANT_QUANTITY, VALID_CARD_VARIANTS } from "./collection.schema";
+
+/**
+ * Valid wishlist priorities, lowest first
+ * Mirrors the wishlist_priority enum
+ */
+export const WISHLIST_PRIORITIES = ["low", "medium", "high"] as const;
+
+/**
+ * Largest accepted maximum price
+ * Mirrors the numeric(10, 2) type of wishlist_items.max_price
+ */
+export const MAX_WISHLIST_PRICE = 99999999.99;
+
+/**
+ * Validation schema for wishlist item ID path parameter
+ */
+export const wishlistItemIdSchema = z.string().uuid({ message: "Invalid wishlist item ID" });
+
+/**
+ * Desired variant: a canonical card variant, or null for any variant
+ */
+const desiredVariantSchema = z
+  .enum(VALID_CARD_VARIANTS, {
+    errorMap: () => ({ message: `desired_variant must be null or one of: ${VALID_CARD_VARIANTS.join(", ")}` }),
+  })
+  .nullable();
+
+/**
+ * Desired quantity: integer 1-1000
+ */
+const desiredQuantitySchema = z
+  .number()
+  .int({ message: "desired_quantity must be an integer" })
+  .min(1, { message: `desired_quantity must be between 1 and ${MAX_VARIANT_QUANTITY}` })
+  .max(MAX_VARIANT_QUANTITY, { message: `desired_quantity must be between 1 and ${MAX_VARIANT_QUANTITY}` });
+
+/**
+ * Priority: one of the wishlist priorities
+ */
+const prioritySchema = z.enum(WISHLIST_PRIORITIES, {
+  errorMap: () => ({ message: `priority must be one of: ${WISHLIST_PRIORITIES.join(", ")}` }),
+});
+
+/**
+ * Maximum price: non-negative amount with at most two decimals, or null for no limit
+ */
+const maxPriceSchema = z
+  .number()
+  .min(0, { message: "max_price must not be negative" })
+  .max(MAX_WISHLIST_PRICE, { message: `max_price must be at most ${MAX_WISHLIST_PRICE}` })
+  .refine((val) => Math.abs(val * 100 - Math.round(val * 100)) < 1e-6, {
+    message: "max_price must have at most two decimal places",
+  })
+  .nullable();
+
+/**
+ * Validation schema for adding a card to the wishlist
+ *
+ * Rules:
+ * - card_id: required trimmed non-empty string
+ * - desired_variant: optional canonical card variant or null (any variant), defaults to null
+ * - desired_quantity: optional integer 1-1000, defaults to 1
+ * - priority: optional low, medium or high, defaults to medium
+ * - max_price: optional non-negative amount with two decimals or null, defaults to null
+ */
+export const addWishlistItemSchema = z.object({
+  card_id: z.string({ required_error: "card_id is required" }).trim().min(1, { message: "card_id is required" }),
+  desired_variant: desiredVariantSchema.default(null),
+  desired_quantity: desiredQuantitySchema.default(1),
+  priority: prioritySchema.default("medium"),
+  max_price: maxPriceSchema.default(null),
+});
+
+/**
+ * Validation schema for updating a wishlist item
+ *
+ * Rules:
+ * - desired_variant, desired_quantity, priority, max_price: optional, as for adding
+ * - At least one field must be provided
+ */
+export const updateWishlistItemSchema = z
+  .object({
+    desired_variant: desiredVariantSchema.optional(),
+    desired_quantity: desiredQuantitySchema.optional(),
+    priority: prioritySchema.optional(),
+    max_price: maxPriceSchema.optional(),
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: "At least one of desired_variant, desired_quantity, priority or max_price must be provided",
+  });
+
+/**
+ * Validation schema for wishlist list query parameters
+ *
+ * Rules:
+ * - page: integer >= 1, defaults to 1
+ * - limit: integer 1-100, defaults to 20
+ * - sort: one of priority, name, created_at (defaults to priority)
+ * - order: asc or desc (defaults to desc, highest priority first)
+ * - set_id, search: optional trimmed strings
+ * - priority: optional wishlist priority
+ * - fulfilled: optional "true"/"false" string coerced to boolean
+ */
+export const wishlistQuerySchema = z.object({
+  page: z.coerce.number().int().min(1, { message: "page must be at least 1" }).default(1),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1, { message: "limit must be between 1 and 100" })
+    .max(100, { message: "limit must be between 1 and 100" })
+    .default(20),
+  sort: z.enum(["priority", "name", "created_at"]).default("priority"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  set_id: z.string().trim().min(1).optional(),
+  priority: prioritySchema.optional(),
+  fulfilled: z
+    .enum(["true", "false"], { errorMap: () => ({ message: "fulfilled must be true or false" }) })
+    .transform((val) => val === "true")
+    .optional(),
+  search: z.string().trim().min(1).max(100).optional(),
+});
+
+/**
+ * Inferred TypeScript types from schemas
+ */
+export type AddWishlistItemSchema = z.infer<typeof addWishlistItemSchema>;
+export type UpdateWishlistItemSchema = z.infer<typeof updateWishlistItemSchema>;
+export type WishlistQuerySchema = z.infer<typeof wishlistQuerySchema>;
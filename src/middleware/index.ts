@@ -1,8 +1,209 @@
 import { defineMiddleware } from "astro:middleware";
+import type { APIContext } from "astro";
 
-import { supabaseClient } from "../db/supabase.client.ts";
+import { createSupabaseServerClient, createSupabaseSessionClient } from "../db/supabase.client.ts";
+import { decodeTokenExpiry, getRequestAuth, getVerifiedMfaFactors, refreshSession } from "../lib/services/auth.service";
+import {
+  buildRateLimitHeaders,
+  checkRateLimitPolicies,
+  findRateLimitPolicies,
+  type RateLimitIdentity,
+} from "../lib/services/rate-limit.service";
+import { recordUserSession } from "../lib/services/session.service";
+import { createErrorResponse, getClientIp, hashString, parseBearerToken } from "../lib/utils/api-helpers";
+import { toClientNetwork } from "../lib/utils/ip-address";
+import { clearSessionCookies, readSessionCookies, setSessionCookies } from "../lib/utils/auth-cookies";
+import type { RateLimitErrorDetailsDTO, RequestAuth } from "../types";
+import { RATE_LIMIT_POLICIES } from "./rate-limit-policies";
 
-export const onRequest = defineMiddleware((context, next) => {
-  context.locals.supabase = supabaseClient;
-  return next();
+/**
+ * Route prefixes that require an authenticated user
+ * Requests without a valid bearer token or session cookie are rejected with 401 before reaching the route
+ */
+export const PROTECTED_ROUTE_PREFIXES = [
+  "/api/collection",
+  "/api/wishlist",
+  "/api/profile",
+  "/api/auth/logout",
+  "/api/auth/update-password",
+  "/api/auth/change-email",
+  "/api/auth/mfa",
+  "/api/auth/sessions",
+];
+
+/**
+ * Protected routes a user with two-factor authentication can reach before verifying the second factor
+ * Every other protected route requires an AAL2 session from such users; users without a verified
+ * factor are unaffected. Row level security enforces the same rule for direct database access.
+ */
+export const MFA_STEP_UP_ROUTES = ["/api/auth/mfa/challenge", "/api/auth/mfa/verify", "/api/auth/logout"];
+
+/**
+ * Route prefixes whose Authorization header carries a shared secret rather than a user token
+ */
+const NON_USER_TOKEN_ROUTE_PREFIXES = ["/api/admin"];
+
+/**
+ * Cookie sessions are refreshed when the access token expires within this many seconds
+ */
+const SESSION_REFRESH_MARGIN_SECONDS = 60;
+
+/**
+ * Check whether a path is one of the prefixes or below one of them
+ * "/api/profile" matches "/api/profile" and "/api/profile/..." but not "/api/profiles"
+ */
+function matchesRoutePrefix(pathname: string, prefixes: string[]): boolean {
+  return prefixes.some((prefix) => pathname === prefix || pathname.startsWith(`${prefix}/`));
+}
+
+/**
+ * Resolve the session stored in cookies, refreshing it when the access token is near expiry
+ * Rotated tokens are written back to the cookies and the session's last seen time is updated;
+ * cookies of a dead session are cleared
+ */
+async function resolveCookieSession(context: APIContext): Promise<RequestAuth | null> {
+  const tokens = readSessionCookies(context.cookies);
+  if (!tokens) {
+    return null;
+  }
+
+  const expiresAt = decodeTokenExpiry(tokens.access_token);
+  if (expiresAt !== null && expiresAt - Date.now() / 1000 > SESSION_REFRESH_MARGIN_SECONDS) {
+    const auth = await getRequestAuth(tokens.access_token, context.locals.supabase, tokens.refresh_token);
+    if (auth) {
+      return auth;
+    }
+  }
+
+  // Access token expiring, expired or rejected: rotate the refresh token
+  try {
+    const auth = await refreshSession(tokens.refresh_token, context.locals.supabase);
+    setSessionCookies(context.cookies, {
+      access_token: auth.session.access_token,
+      refresh_token: auth.session.refresh_token ?? tokens.refresh_token,
+    });
+    recordUserSession({
+      accessToken: auth.session.access_token,
+      ipAddress: getClientIp(context),
+      userAgent: context.request.headers.get("user-agent") || undefined,
+    }).catch(() => {
+      // Session metadata is best effort
+    });
+    return auth;
+  } catch {
+    clearSessionCookies(context.cookies);
+    return null;
+  }
+}
+
+/**
+ * Read the normalized `email` field of a JSON request body without consuming the body
+ * Returns null for non-JSON bodies or a missing email; the route reports validation errors itself
+ */
+async function readBodyEmail(request: Request): Promise<string | null> {
+  try {
+    const body: unknown = await request.clone().json();
+    if (body && typeof body === "object" && "email" in body && typeof body.email === "string") {
+      const email = body.email.trim().toLowerCase();
+      return email || null;
+    }
+  } catch {
+    // Not JSON
+  }
+  return null;
+}
+
+/**
+ * Resolve the value a rate limit policy counts the request by
+ * IPv6 clients are counted per /64 network; email addresses are hashed so they never appear in bucket keys
+ */
+async function resolveRateLimitIdentity(context: APIContext, identity: RateLimitIdentity): Promise<string | null> {
+  const userId = context.locals.user?.id ?? null;
+
+  switch (identity) {
+    case "ip":
+      return toClientNetwork(getClientIp(context));
+    case "user":
+      return userId;
+    case "user-or-ip":
+      return userId ? `user:${userId}` : `ip:${toClientNetwork(getClientIp(context))}`;
+    case "email": {
+      const email = await readBodyEmail(context.request);
+      return email ? hashString(email) : null;
+    }
+  }
+}
+
+export const onRequest = defineMiddleware(async (context, next) => {
+  context.locals.supabase = createSupabaseServerClient();
+  context.locals.user = null;
+  context.locals.session = null;
+
+  const { pathname } = context.url;
+  const usesUserTokens = !matchesRoutePrefix(pathname, NON_USER_TOKEN_ROUTE_PREFIXES);
+
+  // Resolve the user once per request: a bearer token takes precedence over the session cookies
+  const token = usesUserTokens ? parseBearerToken(context.request.headers.get("Authorization")) : null;
+  let auth: RequestAuth | null = null;
+
+  if (token) {
+    auth = await getRequestAuth(token, context.locals.supabase);
+  } else if (usesUserTokens) {
+    auth = await resolveCookieSession(context);
+  }
+
+  if (auth) {
+    // Bind the request's client to the caller so RLS applies to every query and
+    // auth calls act on the caller's session
+    context.locals.supabase = createSupabaseSessionClient(auth.session.access_token, auth.user);
+    context.locals.user = auth.user;
+    context.locals.session = auth.session;
+  }
+
+  // Enforce authentication on protected routes
+  if (!context.locals.user && matchesRoutePrefix(pathname, PROTECTED_ROUTE_PREFIXES)) {
+    return token
+      ? createErrorResponse("UNAUTHORIZED", "Invalid or expired token", 401)
+      : createErrorResponse("UNAUTHORIZED", "Missing or invalid Authorization header", 401);
+  }
+
+  // Require a verified second factor on protected routes once the user has enrolled one
+  if (
+    context.locals.user &&
+    context.locals.session?.aal !== "aal2" &&
+    matchesRoutePrefix(pathname, PROTECTED_ROUTE_PREFIXES) &&
+    !MFA_STEP_UP_ROUTES.includes(pathname) &&
+    getVerifiedMfaFactors(context.locals.user).length > 0
+  ) {
+    return createErrorResponse("MFA_REQUIRED", "This action requires two-factor verification", 403);
+  }
+
+  // Apply the rate limit policies of the route
+  const policies = findRateLimitPolicies(RATE_LIMIT_POLICIES, context.request.method, pathname);
+  const rateLimit = policies.length
+    ? await checkRateLimitPolicies(policies, (identity) => resolveRateLimitIdentity(context, identity))
+    : null;
+
+  if (!rateLimit) {
+    return next();
+  }
+
+  const rateLimitHeaders = buildRateLimitHeaders(rateLimit);
+  let response: Response;
+
+  if (rateLimit.result.allowed) {
+    response = await next();
+  } else {
+    const details: RateLimitErrorDetailsDTO = {
+      policy: rateLimit.policy.name,
+      retryAfter: rateLimit.result.retryAfter ?? rateLimit.result.reset,
+    };
+    response = createErrorResponse("RATE_LIMIT_EXCEEDED", rateLimit.policy.message, 429, { ...details });
+  }
+
+  for (const [name, value] of Object.entries(rateLimitHeaders)) {
+    response.headers.set(name, value);
+  }
+
+  return response;
 });
@@ -0,0 +1,254 @@
+import type { RateLimitPolicy } from "../lib/services/rate-limit.service";
+
+/**
+ * Rate limit policies, applied by the middleware before the route runs
+ *
+ * A request consumes one token from every matching policy, in table order, and
+ * is rejected with 429 by the first policy that is exhausted. Buckets are keyed
+ * by `<name>:<identity>`, so policies never share a bucket.
+ */
+export const RATE_LIMIT_POLICIES: RateLimitPolicy[] = [
+  {
+    name: "login-ip",
+    method: "POST",
+    route: "/api/auth/login",
+    identity: "ip",
+    limit: 5,
+    windowMs: 15 * 60 * 1000,
+    message: "Too many login attempts. Please try again later.",
+  },
+  {
+    name: "register-ip",
+    method: "POST",
+    route: "/api/auth/register",
+    identity: "ip",
+    limit: 5,
+    windowMs: 60 * 1000,
+    message: "Too many registration attempts. Please try again later.",
+  },
+  {
+    name: "refresh-ip",
+    method: "POST",
+    route: "/api/auth/refresh",
+    identity: "ip",
+    limit: 30,
+    windowMs: 60 * 1000,
+    message: "Too many refresh attempts. Please try again later.",
+  },
+  {
+    name: "reset-password-ip",
+    method: "POST",
+    route: "/api/auth/reset-password",
+    identity: "ip",
+    limit: 3,
+    windowMs: 15 * 60 * 1000,
+    message: "Too many password reset requests from your IP. Please try again later.",
+  },
+  {
+    name: "reset-password-email",
+    method: "POST",
+    route: "/api/auth/reset-password",
+    identity: "email",
+    limit: 3,
+    windowMs: 15 * 60 * 1000,
+    message: "Too many password reset requests for this email. Please try again later.",
+  },
+  {
+    name: "magic-link-ip",
+    method: "POST",
+    route: "/api/auth/magic-link",
+    identity: "ip",
+    limit: 3,
+    windowMs: 15 * 60 * 1000,
+    message: "Too many sign-in link requests from your IP. Please try again later.",
+  },
+  {
+    name: "magic-link-email",
+    method: "POST",
+    route: "/api/auth/magic-link",
+    identity: "email",
+    limit: 3,
+    windowMs: 15 * 60 * 1000,
+    message: "Too many sign-in link requests for this email. Please try again later.",
+  },
+  {
+    name: "verify-otp-ip",
+    method: "POST",
+    route: "/api/auth/verify-otp",
+    identity: "ip",
+    limit: 10,
+    windowMs: 15 * 60 * 1000,
+    message: "Too many code attempts from your IP. Please try again later.",
+  },
+  {
+    name: "verify-otp-email",
+    method: "POST",
+    route: "/api/auth/verify-otp",
+    identity: "email",
+    limit: 5,
+    windowMs: 15 * 60 * 1000,
+    message: "Too many code attempts for this email. Please try again later.",
+  },
+  {
+    name: "change-email-ip",
+    method: "POST",
+    route: "/api/auth/change-email",
+    identity: "ip",
+    limit: 3,
+    windowMs: 15 * 60 * 1000,
+    message: "Too many email change requests from your IP. Please try again later.",
+  },
+  {
+    name: "change-email-email",
+    method: "POST",
+    route: "/api/auth/change-email",
+    identity: "email",
+    limit: 3,
+    windowMs: 15 * 60 * 1000,
+    message: "Too many email change requests for this email. Please try again later.",
+  },
+  {
+    name: "resend-verification-ip",
+    method: "POST",
+    route: "/api/auth/resend-verification",
+    identity: "ip",
+    limit: 3,
+    windowMs: 15 * 60 * 1000,
+    message: "Too many verification email requests from your IP. Please try again later.",
+  },
+  {
+    name: "resend-verification-email",
+    method: "POST",
+    route: "/api/auth/resend-verification",
+    identity: "email",
+    limit: 3,
+    windowMs: 15 * 60 * 1000,
+    message: "Too many verification email requests for this email. Please try again later.",
+  },
+  {
+    name: "oauth-ip",
+    method: "GET",
+    route: "/api/auth/oauth/:provider",
+    identity: "ip",
+    limit: 10,
+    windowMs: 60 * 1000,
+    message: "Too many sign-in attempts. Please try again later.",
+  },
+  {
+    name: "oauth-callback-ip",
+    method: "GET",
+    route: "/api/auth/callback",
+    identity: "ip",
+    limit: 10,
+    windowMs: 60 * 1000,
+    message: "Too many sign-in attempts. Please try again later.",
+  },
+  {
+    name: "mfa-enroll-user",
+    method: "POST",
+    route: "/api/auth/mfa/enroll",
+    identity: "user",
+    limit: 10,
+    windowMs: 60 * 60 * 1000,
+    message: "Too many authenticator enrollments. Please try again later.",
+  },
+  {
+    name: "mfa-challenge-user",
+    method: "POST",
+    route: "/api/auth/mfa/challenge",
+    identity: "user",
+    limit: 20,
+    windowMs: 15 * 60 * 1000,
+    message: "Too many verification challenges. Please try again later.",
+  },
+  {
+    name: "mfa-verify-user",
+    method: "POST",
+    route: "/api/auth/mfa/verify",
+    identity: "user",
+    limit: 10,
+    windowMs: 15 * 60 * 1000,
+    message: "Too many verification attempts. Please try again later.",
+  },
+  {
+    name: "session-revoke-user",
+    method: "DELETE",
+    route: "/api/auth/sessions/:sessionId",
+    identity: "user",
+    limit: 20,
+    windowMs: 15 * 60 * 1000,
+    message: "Too many session revocations. Please try again later.",
+  },
+  {
+    name: "sessions-revoke-all-user",
+    method: "DELETE",
+    route: "/api/auth/sessions",
+    identity: "user",
+    limit: 5,
+    windowMs: 15 * 60 * 1000,
+    message: "Too many sign-out requests. Please try again later.",
+  },
+  {
+    name: "card-search-ip",
+    method: "GET",
+    route: "/api/cards",
+    identity: "ip",
+    limit: 60,
+    windowMs: 60 * 1000,
+    message: "Too many search requests. Please try again later.",
+  },
+  {
+    name: "collection-add-user",
+    method: "POST",
+    route: "/api/collection",
+    identity: "user",
+    limit: 100,
+    windowMs: 60 * 1000,
+    message: "Too many card additions. Please try again later.",
+  },
+  {
+    name: "collection-import-user",
+    method: "POST",
+    route: "/api/collection/import",
+    identity: "user",
+    limit: 10,
+    windowMs: 15 * 60 * 1000,
+    message: "Too many imports. Please try again later.",
+  },
+  {
+    name: "wishlist-add-user",
+    method: "POST",
+    route: "/api/wishlist",
+    identity: "user",
+    limit: 100,
+    windowMs: 60 * 1000,
+    message: "Too many wishlist additions. Please try again later.",
+  },
+  {
+    name: "profile-delete-user",
+    method: "DELETE",
+    route: "/api/profile",
+    identity: "user",
+    limit: 5,
+    windowMs: 15 * 60 * 1000,
+    message: "Too many account deletion attempts. Please try again later.",
+  },
+  {
+    name: "data-export-user",
+    method: "GET",
+    route: "/api/profile/data-export",
+    identity: "user",
+    limit: 5,
+    windowMs: 60 * 60 * 1000,
+    message: "Too many data exports. Please try again later.",
+  },
+  {
+    name: "analytics-events",
+    method: "POST",
+    route: "/api/analytics/events",
+    identity: "user-or-ip",
+    limit: 60,
+    windowMs: 60 * 1000,
+    message: "Too many events. Please try again later.",
+  },
+];
@@ -0,0 +1,104 @@
+/**
+ * POST /api/admin/catalog/sync
+ *
+ * Sync the sets and cards catalog from the configured catalog source.
+ *
+ * Features:
+ * - Bearer authentication with the CATALOG_SYNC_SECRET environment variable
+ *   (the endpoint is disabled when the secret is not configured)
+ * - Source from CATALOG_SYNC_SOURCE: a TCGDex-compatible API base URL (e.g. a
+ *   local fixture server) or a TCGDex JSON dump directory; defaults to TCGDex
+ * - `set_ids=sv04.5,sv05` limits the run to specific sets; removals are only
+ *   detected on full runs
+ * - `dry_run=true` reports the diff without writing
+ * - Writes with the service role key (SUPABASE_SERVICE_ROLE_KEY), as RLS makes
+ *   the catalog read-only for API clients
+ * - Idempotent upserts that refresh last_synced_at
+ * - Cards referenced by collections are never deleted; they are reported as retained
+ *
+ * Response codes:
+ * - 200: Sync completed (or previewed with dry_run); body is the diff report
+ * - 400: Invalid query parameters or set IDs missing from the source
+ * - 401: Missing or invalid sync secret
+ * - 502: Catalog source unavailable or returned invalid data
+ * - 500: Internal server error
+ */
+
+import type { APIContext } from "astro";
+import {
+  CatalogSyncErrorCodes,
+  CatalogSyncServiceError,
+  syncCatalog,
+} from "../../../../lib/services/catalog-sync.service";
+import { createCatalogSource } from "../../../../lib/services/catalog-sources.service";
+import { createSupabaseAdminClient } from "../../../../db/supabase.client";
+import { catalogSyncQuerySchema } from "../../../../lib/validation/catalog.schema";
+import {
+  createErrorResponse,
+  formatValidationErrors,
+  hashString,
+  parseBearerToken,
+} from "../../../../lib/utils/api-helpers";
+
+// Disable static prerendering for this API route
+export const prerender = false;
+
+/**
+ * POST handler for catalog sync
+ */
+export async function POST(context: APIContext): Promise<Response> {
+  const { request, url } = context;
+
+  try {
+    // Step 1: Authenticate with the sync secret (compared by hash to avoid length/timing leaks)
+    const secret = import.meta.env.CATALOG_SYNC_SECRET;
+    const token = parseBearerToken(request.headers.get("Authorization"));
+
+    if (!secret || !token || (await hashString(token)) !== (await hashString(secret))) {
+      return createErrorResponse("UNAUTHORIZED", "Missing or invalid sync secret", 401);
+    }
+
+    // Step 2: Validate query parameters
+    const validationResult = catalogSyncQuerySchema.safeParse(Object.fromEntries(url.searchParams));
+    if (!validationResult.success) {
+      return createErrorResponse(CatalogSyncErrorCodes.VALIDATION_ERROR, "Invalid query parameters", 400, {
+        fields: formatValidationErrors(validationResult.error),
+      });
+    }
+
+    // Step 3: Run the sync with the service role (catalog tables are read-only under RLS)
+    const adminClient = createSupabaseAdminClient();
+    if (!adminClient) {
+      return createErrorResponse(
+        CatalogSyncErrorCodes.INTERNAL_ERROR,
+        "Catalog sync requires SUPABASE_SERVICE_ROLE_KEY to be configured",
+        500
+      );
+    }
+
+    const report = await syncCatalog(adminClient, createCatalogSource(import.meta.env.CATALOG_SYNC_SOURCE), {
+      dryRun: validationResult.data.dry_run,
+      setIds: validationResult.data.set_ids,
+    });
+
+    return new Response(JSON.stringify(report), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    if (error instanceof CatalogSyncServiceError) {
+      return new Response(JSON.stringify(error.toErrorResponse()), {
+        status: error.statusCode,
+        headers: {
+          "Content-Type": "application/json",
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    return createErrorResponse(CatalogSyncErrorCodes.INTERNAL_ERROR, "An unexpected error occurred during sync", 500);
+  }
+}
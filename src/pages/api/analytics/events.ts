@@ -0,0 +1,91 @@
+/**
+ * POST /api/analytics/events
+ *
+ * Record a client-side analytics event.
+ *
+ * Features:
+ * - Optional bearer token authentication; events without an Authorization
+ *   header are stored anonymously, an invalid token is rejected
+ * - Rate limiting per user, or per IP for anonymous events (60 per minute, `analytics-events` policy)
+ * - Only client events are accepted (card_viewed, search_performed), each
+ *   validated against its event_data schema; server-side events such as
+ *   card_added or user_login cannot be submitted
+ * - IP address stored only as a SHA-256 hash
+ *
+ * Response codes:
+ * - 201: Event recorded
+ * - 400: Invalid JSON, unknown event type or invalid event_data
+ * - 401: Invalid or expired token
+ * - 429: Rate limit exceeded
+ * - 500: Internal server error
+ */
+
+import type { APIContext } from "astro";
+import { AnalyticsErrorCodes, AnalyticsServiceError, trackEvent } from "../../../lib/services/analytics.service";
+import { clientAnalyticsEventSchema } from "../../../lib/validation/analytics.schema";
+import { createErrorResponse, formatValidationErrors, getClientIp } from "../../../lib/utils/api-helpers";
+
+// Disable static prerendering for this API route
+export const prerender = false;
+
+/**
+ * POST handler for analytics event ingestion
+ */
+export async function POST(context: APIContext): Promise<Response> {
+  const { request, locals } = context;
+  const supabase = locals.supabase;
+
+  try {
+    // Step 1: Reject an Authorization header the middleware could not verify
+    if (request.headers.has("Authorization") && !locals.user) {
+      return createErrorResponse("UNAUTHORIZED", "Invalid or expired token", 401);
+    }
+
+    const userId = locals.user?.id ?? null;
+
+    // Step 2: Extract client IP
+    const clientIp = getClientIp(context);
+
+    // Step 3: Parse and validate request body
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return createErrorResponse(AnalyticsErrorCodes.VALIDATION_ERROR, "Invalid JSON in request body", 400);
+    }
+
+    const validationResult = clientAnalyticsEventSchema.safeParse(body);
+    if (!validationResult.success) {
+      return createErrorResponse(AnalyticsErrorCodes.VALIDATION_ERROR, "Invalid analytics event", 400, {
+        fields: formatValidationErrors(validationResult.error),
+      });
+    }
+
+    // Step 4: Record the event
+    const event = await trackEvent(supabase, validationResult.data, {
+      userId,
+      ipAddress: clientIp,
+      userAgent: request.headers.get("User-Agent") || undefined,
+    });
+
+    return new Response(JSON.stringify(event), {
+      status: 201,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    if (error instanceof AnalyticsServiceError) {
+      return new Response(JSON.stringify(error.toErrorResponse()), {
+        status: error.statusCode,
+        headers: {
+          "Content-Type": "application/json",
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    return createErrorResponse(AnalyticsErrorCodes.INTERNAL_ERROR, "An unexpected error occurred", 500);
+  }
+}
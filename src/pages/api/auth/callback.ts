@@ -0,0 +1,132 @@
+/**
+ * GET /api/auth/callback
+ *
+ * Complete a social sign-in started at GET /api/auth/oauth/:provider.
+ * Supabase Auth redirects here with an authorization code, which is exchanged
+ * for a session using the PKCE code verifier kept in a cookie.
+ *
+ * First-time users are created by Supabase Auth; the create_profile_for_user
+ * trigger creates their profile, exactly as for email registration.
+ *
+ * Features:
+ * - IP-based rate limiting (10 requests per minute, `oauth-callback-ip` policy)
+ * - Single-use code verifier cookie, removed on every callback
+ * - Provider errors (e.g. a cancelled consent screen) reported as 401
+ * - Session stored in httpOnly, SameSite=Lax cookies (tokens are also returned for API clients)
+ * - Analytics event tracking for successful logins
+ *
+ * Response codes:
+ * - 200: Sign-in successful, returns AuthResponseDTO or an MFA step-up like POST /api/auth/login
+ * - 400: Missing authorization code or code verifier cookie
+ * - 401: Provider error, or invalid or expired authorization code
+ * - 429: Rate limit exceeded
+ * - 500: Internal server error
+ */
+
+import type { APIContext } from "astro";
+import { oauthCallbackQuerySchema } from "../../../lib/validation/auth.schema";
+import { AuthErrorCodes, AuthServiceError, exchangeOAuthCode } from "../../../lib/services/auth.service";
+import { trackEvent } from "../../../lib/services/analytics.service";
+import { recordUserSession } from "../../../lib/services/session.service";
+import { createErrorResponse, formatValidationErrors, getClientIp } from "../../../lib/utils/api-helpers";
+import { setSessionCookies, takeOAuthVerifierCookie } from "../../../lib/utils/auth-cookies";
+
+// Disable static prerendering for this API route
+export const prerender = false;
+
+/**
+ * GET handler for the OAuth callback
+ */
+export async function GET(context: APIContext): Promise<Response> {
+  const { request, locals, url, cookies } = context;
+
+  try {
+    // Step 1: Read the code verifier kept since the start of the flow
+    const codeVerifier = takeOAuthVerifierCookie(cookies);
+
+    // Step 2: Report errors returned by the provider or Supabase Auth
+    const providerError = url.searchParams.get("error");
+    if (providerError) {
+      return createErrorResponse(AuthErrorCodes.UNAUTHORIZED, "OAuth sign-in was cancelled or failed", 401, {
+        error: providerError,
+        description: url.searchParams.get("error_description") ?? undefined,
+      });
+    }
+
+    // Step 3: Validate the callback query
+    const validationResult = oauthCallbackQuerySchema.safeParse(Object.fromEntries(url.searchParams));
+    if (!validationResult.success) {
+      return createErrorResponse(AuthErrorCodes.VALIDATION_ERROR, "Invalid callback parameters", 400, {
+        fields: formatValidationErrors(validationResult.error),
+      });
+    }
+
+    if (!codeVerifier) {
+      return createErrorResponse(
+        AuthErrorCodes.VALIDATION_ERROR,
+        "OAuth sign-in session is missing or expired. Please start the sign-in again.",
+        400
+      );
+    }
+
+    // Step 4: Exchange the authorization code for a session
+    const authResponse = await exchangeOAuthCode(validationResult.data.code, codeVerifier);
+
+    // Step 5: Users with MFA get a step-up token instead of a session (no cookies, no event yet)
+    if ("mfa_required" in authResponse) {
+      return new Response(JSON.stringify(authResponse), {
+        status: 200,
+        headers: {
+          "Content-Type": "application/json",
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    // Step 6: Track analytics event (fire-and-forget)
+    trackEvent(
+      locals.supabase,
+      { event_type: "user_login" },
+      {
+        userId: authResponse.user.id,
+        ipAddress: getClientIp(context),
+        userAgent: request.headers.get("user-agent") || undefined,
+      }
+    ).catch(() => {
+      // Silently ignore analytics tracking errors
+    });
+
+    // Step 7: Record the session's device details for the session list (fire-and-forget)
+    recordUserSession({
+      accessToken: authResponse.session.access_token,
+      ipAddress: getClientIp(context),
+      userAgent: request.headers.get("user-agent") || undefined,
+    }).catch(() => {
+      // Session metadata is best effort
+    });
+
+    // Step 8: Store the session in httpOnly cookies for browser clients
+    setSessionCookies(cookies, authResponse.session);
+
+    // Step 9: Return success response
+    return new Response(JSON.stringify(authResponse), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    if (error instanceof AuthServiceError) {
+      return new Response(JSON.stringify(error.toErrorResponse()), {
+        status: error.statusCode,
+        headers: {
+          "Content-Type": "application/json",
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    return createErrorResponse(AuthErrorCodes.INTERNAL_ERROR, "An unexpected error occurred during OAuth sign-in", 500);
+  }
+}
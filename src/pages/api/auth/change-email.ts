@@ -0,0 +1,188 @@
+/**
+ * POST /api/auth/change-email
+ *
+ * Request a change of the authenticated user's email address.
+ * The current password re-confirms the request; Supabase then sends a
+ * confirmation link to both the current and the new address
+ * (`double_confirm_changes`) and switches the email once both are confirmed.
+ *
+ * Features:
+ * - Bearer token authentication via the auth middleware
+ * - Current password re-confirmation, throttled like logins (wrong passwords
+ *   count towards the failed-login back-off and lockout)
+ * - Explicit no-store cache control for sensitive auth operations
+ *
+ * Rate Limits (applied by the middleware, see rate-limit-policies.ts):
+ * - Per-IP: 3 requests per 15 minutes (`change-email-ip`)
+ * - Per-Email: 3 requests per 15 minutes for the new address (`change-email-email`)
+ *
+ * Local testing: confirmation emails are caught by Inbucket
+ * (http://127.0.0.1:54324) when running `supabase start`.
+ *
+ * @example
+ * POST /api/auth/change-email
+ * Authorization: Bearer <access_token>
+ * Content-Type: application/json
+ *
+ * { "email": "new@example.com", "password": "current password" }
+ *
+ * Response (200):
+ * { "message": "Confirmation emails sent" }
+ *
+ * Response codes:
+ * - 200: Confirmation emails sent
+ * - 400: Validation error, invalid JSON or unchanged email
+ * - 401: Missing or invalid bearer token, or incorrect password
+ * - 409: Email already used by another account
+ * - 429: Rate limit exceeded or too many failed attempts
+ * - 500: Internal server error
+ */
+
+import type { APIContext } from "astro";
+import { changeEmailSchema } from "../../../lib/validation/auth.schema";
+import {
+  AuthErrorCodes,
+  AuthServiceError,
+  requestEmailChange,
+  verifyUserPassword,
+} from "../../../lib/services/auth.service";
+import { getLoginThrottle, recordLoginFailure } from "../../../lib/services/login-attempts.service";
+import { trackEvent } from "../../../lib/services/analytics.service";
+import { createErrorResponse, formatValidationErrors, getClientIp } from "../../../lib/utils/api-helpers";
+import { createSupabaseServerClient } from "../../../db/supabase.client";
+import type { ChangeEmailCommand, MessageResponseDTO } from "../../../types";
+
+// Disable static prerendering for this API route
+export const prerender = false;
+
+/**
+ * POST handler for email change requests
+ *
+ * Flow:
+ * 1. Get the user and session authenticated by the middleware
+ * 2. Parse and validate request body
+ * 3. Reject a new email equal to the current one
+ * 4. Re-confirm the current password, throttled like logins
+ * 5. Ask Supabase to send the confirmation emails
+ * 6. Track event in analytics (fire-and-forget, no email stored)
+ * 7. Return 200 success
+ */
+export async function POST(context: APIContext): Promise<Response> {
+  const { request, locals } = context;
+
+  try {
+    // Step 1: Get the user and session authenticated by the middleware
+    const user = locals.user;
+    if (!user || !locals.session) {
+      return createErrorResponse("UNAUTHORIZED", "Missing or invalid Authorization header", 401);
+    }
+
+    if (!user.email) {
+      return createErrorResponse(
+        "VALIDATION_ERROR",
+        "Password re-confirmation is not available for accounts without an email",
+        400
+      );
+    }
+
+    const clientIp = getClientIp(context);
+    const userAgent = request.headers.get("user-agent") || undefined;
+
+    // Step 2: Parse and validate request body
+    let requestBody: unknown;
+    try {
+      requestBody = await request.json();
+    } catch {
+      return createErrorResponse("VALIDATION_ERROR", "Invalid JSON in request body", 400);
+    }
+
+    const validationResult = changeEmailSchema.safeParse(requestBody);
+    if (!validationResult.success) {
+      return createErrorResponse("VALIDATION_ERROR", "Validation failed", 400, {
+        fields: formatValidationErrors(validationResult.error),
+      });
+    }
+
+    const { email, password } = validationResult.data;
+
+    // Step 3: Reject a change to the current address
+    if (email === user.email.toLowerCase()) {
+      return createErrorResponse(
+        AuthErrorCodes.EMAIL_UNCHANGED,
+        "The new email address must differ from the current one",
+        400
+      );
+    }
+
+    // Step 4: Re-confirm the password, throttled like logins
+    const throttle = await getLoginThrottle(user.email);
+    if (throttle.retryAfter > 0) {
+      return createErrorResponse(
+        AuthErrorCodes.TOO_MANY_FAILED_ATTEMPTS,
+        "Too many failed password attempts. Please try again later.",
+        429,
+        { retryAfter: throttle.retryAfter }
+      );
+    }
+
+    try {
+      await verifyUserPassword(user.email, password, createSupabaseServerClient());
+    } catch (error) {
+      if (error instanceof AuthServiceError && error.code === AuthErrorCodes.INVALID_CREDENTIALS) {
+        await recordLoginFailure(user.email);
+      }
+      throw error;
+    }
+
+    // Step 5: Ask Supabase to send the confirmation emails
+    const siteUrl = import.meta.env.PUBLIC_SITE_URL || "http://localhost:3000";
+    const command: ChangeEmailCommand = {
+      email,
+      ipAddress: clientIp,
+      userAgent,
+      redirectTo: `${siteUrl}/auth/confirm-email`,
+    };
+
+    await requestEmailChange(command, locals.supabase);
+
+    // Step 6: Track analytics event without the email (fire-and-forget)
+    trackEvent(
+      locals.supabase,
+      { event_type: "email_change_requested" },
+      { userId: user.id, ipAddress: clientIp, userAgent }
+    ).catch(() => {
+      // Silently ignore analytics tracking errors
+    });
+
+    // Step 7: Return success response
+    const response: MessageResponseDTO = {
+      message: "Confirmation emails sent",
+    };
+
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    if (error instanceof AuthServiceError) {
+      return new Response(JSON.stringify(error.toErrorResponse()), {
+        status: error.statusCode,
+        headers: {
+          "Content-Type": "application/json",
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    // eslint-disable-next-line no-console
+    console.error({
+      event: "change_email_endpoint_error",
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+
+    return createErrorResponse("INTERNAL_ERROR", "An unexpected error occurred. Please try again later.", 500);
+  }
+}
@@ -4,65 +4,57 @@
  * User login endpoint that authenticates existing Supabase Auth users.
  *
  * Features:
- * - IP-based rate limiting (5 requests per 15 minutes)
+ * - IP-based rate limiting (5 requests per 15 minutes, `login-ip` policy)
  * - Email and password validation with Zod
  * - Prevents duplicate logins by authenticated users
- * - Analytics event tracking for successful logins
+ * - Per-email back-off and temporary lockout after repeated failures, applied
+ *   the same way to unknown emails so responses do not reveal which accounts exist
+ * - Session stored in httpOnly, SameSite=Lax cookies (tokens are also returned for API clients)
+ * - Users with a verified TOTP factor get an MFA step-up (`mfa_required`) with
+ *   an AAL1 token instead of a session; see POST /api/auth/mfa/verify
+ * - Analytics event tracking for successful and failed logins and lockouts
  * - Comprehensive error handling with standardized responses
  *
  * Response codes:
- * - 200: Login successful, returns user and session data
+ * - 200: Login successful, returns user and session data, or an MFA step-up
  * - 400: Validation error or already authenticated
  * - 401: Invalid credentials
- * - 429: Rate limit exceeded
+ * - 429: Rate limit exceeded, or too many failed attempts for this email
  * - 500: Internal server error
  */
 
 import type { APIContext } from "astro";
 import { loginSchema } from "../../../lib/validation/auth.schema";
-import { ensureRateLimit } from "../../../lib/services/rate-limit.service";
-import { loginUser, getCurrentUser, AuthServiceError, AuthErrorCodes } from "../../../lib/services/auth.service";
-import type { LoginCommand } from "../../../types";
-import type { SupabaseClient } from "../../../db/supabase.client";
-import { getClientIp, createErrorResponse, hashString } from "../../../lib/utils/api-helpers";
+import { loginUser, AuthServiceError, AuthErrorCodes } from "../../../lib/services/auth.service";
+import { trackEvent } from "../../../lib/services/analytics.service";
+import { recordUserSession } from "../../../lib/services/session.service";
+import {
+  clearLoginFailures,
+  getLoginThrottle,
+  LOCK_THRESHOLD,
+  recordLoginFailure,
+} from "../../../lib/services/login-attempts.service";
+import type { LoginCommand, LoginResponseDTO } from "../../../types";
+import { getClientIp, createErrorResponse } from "../../../lib/utils/api-helpers";
+import { setSessionCookies } from "../../../lib/utils/auth-cookies";
 
 // Disable static prerendering for this API route
 export const prerender = false;
 
-/**
- * Rate limiting configuration for login endpoint
- * 5 requests per 15 minutes per IP address (stricter than registration)
- */
-const RATE_LIMIT_CONFIG = {
-  limit: 5,
-  windowMs: 900000, // 15 minutes
-};
-
 /**
  * POST handler for user login
  */
 export async function POST(context: APIContext): Promise<Response> {
-  const { request, locals } = context;
+  const { request, locals, cookies } = context;
   const supabase = locals.supabase;
 
   try {
-    // Step 1: Extract client IP and apply rate limiting
-    const clientIp = getClientIp(request);
-    const rateLimitResult = ensureRateLimit({
-      key: `login:${clientIp}`,
-      ...RATE_LIMIT_CONFIG,
-    });
-
-    if (!rateLimitResult.allowed) {
-      return createErrorResponse("RATE_LIMIT_EXCEEDED", "Too many login attempts. Please try again later.", 429, {
-        retryAfter: rateLimitResult.retryAfter || 900, // 15 minutes in seconds
-      });
-    }
+    // Step 1: Extract client IP
+    const clientIp = getClientIp(context);
 
     // Step 2: Check if user is already authenticated (optional flow)
     // This prevents creating duplicate sessions but can be disabled if needed
-    const currentUserId = await getCurrentUser(supabase);
-    if (currentUserId) {
+    if (locals.user) {
       return createErrorResponse(
         AuthErrorCodes.ALREADY_AUTHENTICATED,
         "You are already authenticated. Please log out before logging in again.",
@@ -100,15 +92,85 @@ export async function POST(context: APIContext): Promise<Response> {
       userAgent: request.headers.get("user-agent") || undefined,
     };
 
-    // Step 5: Login user via AuthService
-    const authResponse = await loginUser(command, supabase);
+    // Step 5: Reject the attempt while the email is backing off or locked
+    const throttle = await getLoginThrottle(command.email);
+    if (throttle.retryAfter > 0) {
+      return createErrorResponse(
+        AuthErrorCodes.TOO_MANY_FAILED_ATTEMPTS,
+        "Too many failed login attempts. Please try again later.",
+        429,
+        { retryAfter: throttle.retryAfter }
+      );
+    }
+
+    // Step 6: Login user via AuthService, counting invalid credentials against the email
+    let authResponse: LoginResponseDTO;
+    try {
+      authResponse = await loginUser(command, supabase);
+    } catch (error) {
+      if (error instanceof AuthServiceError && error.code === AuthErrorCodes.INVALID_CREDENTIALS) {
+        const failure = await recordLoginFailure(command.email);
+        const analyticsContext = { ipAddress: clientIp, userAgent: command.userAgent };
+
+        trackEvent(
+          supabase,
+          { event_type: "login_failed", event_data: { failures: failure.failures } },
+          analyticsContext
+        ).catch(() => {
+          // Silently ignore analytics tracking errors
+        });
+
+        if (failure.failures === LOCK_THRESHOLD) {
+          trackEvent(
+            supabase,
+            {
+              event_type: "account_locked",
+              event_data: { failures: failure.failures, lock_seconds: failure.retryAfter },
+            },
+            analyticsContext
+          ).catch(() => {
+            // Silently ignore analytics tracking errors
+          });
+        }
+      }
+      throw error;
+    }
+
+    await clearLoginFailures(command.email);
 
-    // Step 6: Track analytics event (fire-and-forget)
-    trackLoginEvent(supabase, authResponse.user.id, clientIp, command.userAgent).catch(() => {
+    // Step 7: Users with MFA get a step-up token instead of a session (no cookies, no event yet)
+    if ("mfa_required" in authResponse) {
+      return new Response(JSON.stringify(authResponse), {
+        status: 200,
+        headers: {
+          "Content-Type": "application/json",
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    // Step 8: Track analytics event (fire-and-forget)
+    trackEvent(
+      supabase,
+      { event_type: "user_login" },
+      { userId: authResponse.user.id, ipAddress: clientIp, userAgent: command.userAgent }
+    ).catch(() => {
       // Silently ignore analytics tracking errors
     });
 
-    // Step 7: Return success response
+    // Step 9: Record the session's device details for the session list (fire-and-forget)
+    recordUserSession({
+      accessToken: authResponse.session.access_token,
+      ipAddress: clientIp,
+      userAgent: command.userAgent,
+    }).catch(() => {
+      // Session metadata is best effort
+    });
+
+    // Step 10: Store the session in httpOnly cookies for browser clients
+    setSessionCookies(cookies, authResponse.session);
+
+    // Step 11: Return success response
     return new Response(JSON.stringify(authResponse), {
       status: 200,
       headers: {
@@ -132,27 +194,3 @@ export async function POST(context: APIContext): Promise<Response> {
     return createErrorResponse(AuthErrorCodes.INTERNAL_ERROR, "An unexpected error occurred during login", 500);
   }
 }
-
-/**
- * Track login analytics event
- * This is a fire-and-forget operation that should not block the login response
- */
-async function trackLoginEvent(
-  supabase: SupabaseClient,
-  userId: string,
-  ipAddress: string,
-  userAgent?: string
-): Promise<void> {
-  // Create anonymized IP hash for privacy
-  const ipHash = await hashString(ipAddress);
-
-  await supabase.from("analytics_events").insert({
-    user_id: userId,
-    event_type: "user_login",
-    event_data: {
-      ip_hash: ipHash,
-      user_agent: userAgent,
-      timestamp: new Date().toISOString(),
-    },
-  });
-}
@@ -1,25 +1,27 @@
 /**
  * POST /api/auth/logout
  *
- * User logout endpoint that revokes the current Supabase session.
+ * User logout endpoint that revokes the current Supabase session. Other sessions
+ * stay signed in; DELETE /api/auth/sessions signs out everywhere.
  *
  * Features:
- * - Requires Bearer token in Authorization header
+ * - Requires a Bearer token or session cookie, verified by the auth middleware
+ * - Clears the session cookies
  * - Revokes the session by invalidating the JWT
  * - Analytics event tracking for logouts
  * - Comprehensive error handling with standardized responses
  *
  * Response codes:
  * - 200: Logout successful
- * - 400: Validation error (missing or malformed Authorization header)
- * - 401: Unauthorized (token is invalid or expired)
+ * - 401: Unauthorized (missing, invalid or expired token)
  * - 500: Internal server error
  */
 
 import type { APIContext } from "astro";
 import { logoutUser, AuthServiceError, AuthErrorCodes } from "../../../lib/services/auth.service";
-import type { SupabaseClient } from "../../../db/supabase.client";
-import { getClientIp, createErrorResponse, hashString, parseBearerToken } from "../../../lib/utils/api-helpers";
+import { trackEvent } from "../../../lib/services/analytics.service";
+import { getClientIp, createErrorResponse } from "../../../lib/utils/api-helpers";
+import { clearSessionCookies } from "../../../lib/utils/auth-cookies";
 
 // Disable static prerendering for this API route
 export const prerender = false;
@@ -28,35 +30,32 @@ export const prerender = false;
  * POST handler for user logout
  */
 export async function POST(context: APIContext): Promise<Response> {
-  const { request, locals } = context;
+  const { request, locals, cookies } = context;
   const supabase = locals.supabase;
 
   try {
-    // Step 1: Extract and validate Authorization header
-    const authHeader = request.headers.get("authorization");
-    const token = parseBearerToken(authHeader);
-
-    if (!token) {
-      return createErrorResponse(
-        AuthErrorCodes.VALIDATION_ERROR,
-        "Authorization header is required with Bearer token",
-        400,
-        {
-          required: "Authorization: Bearer <token>",
-        }
-      );
+    // Step 1: Get the session authenticated by the middleware
+    if (!locals.session) {
+      return createErrorResponse(AuthErrorCodes.UNAUTHORIZED, "Missing or invalid Authorization header", 401);
     }
 
     // Step 2: Logout user via AuthService
-    await logoutUser(token, supabase);
+    await logoutUser(locals.session.access_token, supabase);
+
+    // Step 3: Remove the session cookies of browser clients
+    clearSessionCookies(cookies);
 
-    // Step 3: Track analytics event (fire-and-forget)
-    const clientIp = getClientIp(request);
-    trackLogoutEvent(supabase, clientIp, request.headers.get("user-agent") || undefined).catch(() => {
+    // Step 4: Track analytics event (fire-and-forget)
+    const clientIp = getClientIp(context);
+    trackEvent(
+      supabase,
+      { event_type: "user_logout" },
+      { ipAddress: clientIp, userAgent: request.headers.get("user-agent") || undefined }
+    ).catch(() => {
       // Silently ignore analytics tracking errors
     });
 
-    // Step 4: Return success response
+    // Step 5: Return success response
     return new Response(JSON.stringify({ message: "Successfully logged out" }), {
       status: 200,
       headers: {
@@ -80,21 +79,3 @@ export async function POST(context: APIContext): Promise<Response> {
     return createErrorResponse(AuthErrorCodes.INTERNAL_ERROR, "An unexpected error occurred during logout", 500);
   }
 }
-
-/**
- * Track logout analytics event
- * This is a fire-and-forget operation that should not block the logout response
- */
-async function trackLogoutEvent(supabase: SupabaseClient, ipAddress: string, userAgent?: string): Promise<void> {
-  // Create anonymized IP hash for privacy
-  const ipHash = await hashString(ipAddress);
-
-  await supabase.from("analytics_events").insert({
-    event_type: "user_logout",
-    event_data: {
-      ip_hash: ipHash,
-      user_agent: userAgent,
-      timestamp: new Date().toISOString(),
-    },
-  });
-}
@@ -0,0 +1,115 @@
+/**
+ * POST /api/auth/magic-link
+ *
+ * Request a passwordless sign-in email for an existing account. The email
+ * carries both a magic link and a 6-digit one-time code; either is completed
+ * with POST /api/auth/verify-otp.
+ * Uses rate limiting (per-IP and per-email) to prevent abuse.
+ * Always returns 200 on valid shape to prevent email enumeration.
+ *
+ * Rate Limits (applied by the middleware, see rate-limit-policies.ts):
+ * - Per-IP: 3 requests per 15 minutes (`magic-link-ip`)
+ * - Per-Email: 3 requests per 15 minutes (`magic-link-email`)
+ *
+ * Local testing: emails are caught by Inbucket (http://127.0.0.1:54324) when
+ * running `supabase start`.
+ *
+ * @example
+ * POST /api/auth/magic-link
+ * Content-Type: application/json
+ *
+ * { "email": "user@example.com" }
+ *
+ * Response (200):
+ * { "message": "If an account exists for this email, a sign-in link has been sent" }
+ *
+ * Response (400 - Validation Error):
+ * {
+ *   "error": {
+ *     "code": "VALIDATION_ERROR",
+ *     "message": "Validation failed",
+ *     "details": { "fields": { "email": ["Invalid email format"] } }
+ *   }
+ * }
+ */
+
+import type { APIContext } from "astro";
+import { magicLinkSchema } from "../../../lib/validation/auth.schema";
+import { requestMagicLink } from "../../../lib/services/auth.service";
+import { getClientIp, createErrorResponse, formatValidationErrors } from "../../../lib/utils/api-helpers";
+import type { MagicLinkCommand, MessageResponseDTO } from "../../../types";
+
+// Disable static rendering for this endpoint
+export const prerender = false;
+
+/**
+ * POST handler for passwordless sign-in email requests
+ *
+ * Flow:
+ * 1. Extract and normalize client IP
+ * 2. Parse request body
+ * 3. Validate against magicLinkSchema
+ * 4. Build MagicLinkCommand with config-based redirectTo
+ * 5. Call auth service to send the Supabase email
+ * 6. Return 200 success (always, to prevent enumeration)
+ */
+export async function POST(context: APIContext): Promise<Response> {
+  try {
+    // Step 1: Extract client IP
+    const clientIp = getClientIp(context);
+    const userAgent = context.request.headers.get("user-agent") || undefined;
+
+    // Step 2: Parse request body
+    let parsedBody: unknown;
+    try {
+      parsedBody = await context.request.json();
+    } catch {
+      return createErrorResponse("VALIDATION_ERROR", "Invalid JSON in request body", 400);
+    }
+
+    // Step 3: Validate input
+    const validationResult = magicLinkSchema.safeParse(parsedBody);
+    if (!validationResult.success) {
+      return createErrorResponse("VALIDATION_ERROR", "Validation failed", 400, {
+        fields: formatValidationErrors(validationResult.error),
+      });
+    }
+
+    // Step 4: Build command with config-based redirectTo URL
+    // (the magic link opens this page with a token_hash to post to verify-otp)
+    const siteUrl = import.meta.env.PUBLIC_SITE_URL || "http://localhost:3000";
+
+    const command: MagicLinkCommand = {
+      email: validationResult.data.email,
+      ipAddress: clientIp,
+      userAgent,
+      redirectTo: `${siteUrl}/auth/magic-link`,
+    };
+
+    // Step 5: Call auth service to send the email
+    // This silently handles errors to prevent enumeration
+    await requestMagicLink(command, context.locals.supabase);
+
+    // Step 6: Return success response (always 200 to prevent enumeration)
+    const response: MessageResponseDTO = {
+      message: "If an account exists for this email, a sign-in link has been sent",
+    };
+
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    // Handle unexpected errors
+    // eslint-disable-next-line no-console
+    console.error({
+      event: "magic_link_endpoint_error",
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+
+    return createErrorResponse("INTERNAL_ERROR", "An unexpected error occurred. Please try again later.", 500);
+  }
+}
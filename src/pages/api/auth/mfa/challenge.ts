@@ -0,0 +1,81 @@
+/**
+ * POST /api/auth/mfa/challenge
+ *
+ * Create a challenge for one of the authenticated user's TOTP factors, to be
+ * answered with a code at POST /api/auth/mfa/verify. Works with the AAL1
+ * step-up token returned by the sign-in endpoints for users with MFA.
+ *
+ * Features:
+ * - Bearer token authentication via the auth middleware
+ * - Per-user rate limiting (20 requests per 15 minutes, `mfa-challenge-user` policy)
+ *
+ * Response codes:
+ * - 200: Challenge created
+ * - 400: Validation error or invalid JSON
+ * - 401: Missing or invalid bearer token
+ * - 404: Factor not found
+ * - 429: Rate limit exceeded
+ * - 500: Internal server error
+ */
+
+import type { APIContext } from "astro";
+import { mfaChallengeSchema } from "../../../../lib/validation/auth.schema";
+import { AuthServiceError } from "../../../../lib/services/auth.service";
+import { createMfaChallenge } from "../../../../lib/services/mfa.service";
+import { createErrorResponse, formatValidationErrors } from "../../../../lib/utils/api-helpers";
+
+// Disable static prerendering for this API route
+export const prerender = false;
+
+/**
+ * POST handler for MFA challenges
+ */
+export async function POST(context: APIContext): Promise<Response> {
+  const { request, locals } = context;
+
+  try {
+    // Step 1: Get the user and session authenticated by the middleware
+    if (!locals.user || !locals.session) {
+      return createErrorResponse("UNAUTHORIZED", "Missing or invalid Authorization header", 401);
+    }
+
+    // Step 2: Parse and validate request body
+    let requestBody: unknown;
+    try {
+      requestBody = await request.json();
+    } catch {
+      return createErrorResponse("VALIDATION_ERROR", "Invalid JSON in request body", 400);
+    }
+
+    const validationResult = mfaChallengeSchema.safeParse(requestBody);
+    if (!validationResult.success) {
+      return createErrorResponse("VALIDATION_ERROR", "Validation failed", 400, {
+        fields: formatValidationErrors(validationResult.error),
+      });
+    }
+
+    // Step 3: Create the challenge through Supabase Auth
+    const challenge = await createMfaChallenge(validationResult.data.factor_id, locals.supabase);
+
+    // Step 4: Return the challenge
+    return new Response(JSON.stringify(challenge), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    if (error instanceof AuthServiceError) {
+      return new Response(JSON.stringify(error.toErrorResponse()), {
+        status: error.statusCode,
+        headers: {
+          "Content-Type": "application/json",
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    return createErrorResponse("INTERNAL_ERROR", "An unexpected error occurred during MFA challenge", 500);
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * POST /api/auth/mfa/enroll
+ *
+ * Enroll a TOTP authenticator for the authenticated user. The response carries
+ * the secret and a QR code for the authenticator app; the factor becomes active
+ * once a challenge for it is verified (POST /api/auth/mfa/challenge, then
+ * POST /api/auth/mfa/verify).
+ *
+ * Features:
+ * - Bearer token authentication via the auth middleware
+ * - Per-user rate limiting (10 requests per hour, `mfa-enroll-user` policy)
+ * - Users who already have a verified factor must enroll from an AAL2 session
+ * - No-store cache header, since the response contains the TOTP secret
+ *
+ * Response codes:
+ * - 200: Factor enrolled (unverified)
+ * - 400: Validation error or invalid JSON
+ * - 401: Missing or invalid bearer token
+ * - 403: AAL2 session required
+ * - 422: Enrollment rejected by Supabase Auth (e.g. duplicate friendly name)
+ * - 429: Rate limit exceeded
+ * - 500: Internal server error
+ */
+
+import type { APIContext } from "astro";
+import { mfaEnrollSchema } from "../../../../lib/validation/auth.schema";
+import { AuthServiceError } from "../../../../lib/services/auth.service";
+import { enrollTotpFactor } from "../../../../lib/services/mfa.service";
+import { createErrorResponse, formatValidationErrors } from "../../../../lib/utils/api-helpers";
+
+// Disable static prerendering for this API route
+export const prerender = false;
+
+/**
+ * POST handler for TOTP enrollment
+ */
+export async function POST(context: APIContext): Promise<Response> {
+  const { request, locals } = context;
+
+  try {
+    // Step 1: Get the user and session authenticated by the middleware
+    if (!locals.user || !locals.session) {
+      return createErrorResponse("UNAUTHORIZED", "Missing or invalid Authorization header", 401);
+    }
+
+    // Step 2: Parse and validate request body (an empty body is allowed)
+    let requestBody: unknown = {};
+    const rawBody = await request.text();
+    if (rawBody.trim()) {
+      try {
+        requestBody = JSON.parse(rawBody);
+      } catch {
+        return createErrorResponse("VALIDATION_ERROR", "Invalid JSON in request body", 400);
+      }
+    }
+
+    const validationResult = mfaEnrollSchema.safeParse(requestBody);
+    if (!validationResult.success) {
+      return createErrorResponse("VALIDATION_ERROR", "Validation failed", 400, {
+        fields: formatValidationErrors(validationResult.error),
+      });
+    }
+
+    // Step 3: Enroll the factor through Supabase Auth
+    const enrollment = await enrollTotpFactor(validationResult.data.friendly_name, locals.supabase);
+
+    // Step 4: Return the enrollment with the TOTP secret
+    return new Response(JSON.stringify(enrollment), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    if (error instanceof AuthServiceError) {
+      return new Response(JSON.stringify(error.toErrorResponse()), {
+        status: error.statusCode,
+        headers: {
+          "Content-Type": "application/json",
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    return createErrorResponse("INTERNAL_ERROR", "An unexpected error occurred during MFA enrollment", 500);
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * POST /api/auth/mfa/verify
+ *
+ * Answer an MFA challenge with a code from the authenticator app, or redeem
+ * a recovery code.
+ *
+ * With `factor_id`, `challenge_id` and `code`, the session is upgraded to
+ * AAL2: this completes the sign-in of users with MFA (who got an AAL1 step-up
+ * token from the sign-in endpoint) and activates newly enrolled factors. When
+ * the user's first factor is activated, the response also carries ten
+ * one-time recovery codes, shown only this once.
+ *
+ * With `recovery_code`, the code is used up and all of the user's factors are
+ * removed; the user then signs in again with their password and re-enrolls.
+ *
+ * Features:
+ * - Bearer token authentication via the auth middleware
+ * - Per-user rate limiting (10 requests per 15 minutes, `mfa-verify-user` policy)
+ * - AAL2 session stored in httpOnly, SameSite=Lax cookies (tokens are also returned for API clients)
+ * - Recovery codes stored only as hashes
+ *
+ * Response codes:
+ * - 200: AAL2 session (MfaVerifyResponseDTO), or confirmation that MFA was removed
+ * - 400: Validation error or invalid JSON
+ * - 401: Missing or invalid bearer token, wrong code or invalid recovery code
+ * - 404: Factor not found
+ * - 429: Rate limit exceeded
+ * - 500: Internal server error (including a missing SUPABASE_SERVICE_ROLE_KEY for recovery codes)
+ */
+
+import type { APIContext } from "astro";
+import { mfaVerifySchema } from "../../../../lib/validation/auth.schema";
+import { AuthServiceError, getVerifiedMfaFactors } from "../../../../lib/services/auth.service";
+import { redeemRecoveryCode, verifyMfaChallenge } from "../../../../lib/services/mfa.service";
+import { trackEvent } from "../../../../lib/services/analytics.service";
+import { recordUserSession } from "../../../../lib/services/session.service";
+import { createErrorResponse, formatValidationErrors, getClientIp } from "../../../../lib/utils/api-helpers";
+import { setSessionCookies } from "../../../../lib/utils/auth-cookies";
+import { createSupabaseAdminClient } from "../../../../db/supabase.client";
+import type { MessageResponseDTO } from "../../../../types";
+
+// Disable static prerendering for this API route
+export const prerender = false;
+
+/**
+ * POST handler for MFA verification
+ */
+export async function POST(context: APIContext): Promise<Response> {
+  const { request, locals, cookies } = context;
+
+  try {
+    // Step 1: Get the user and session authenticated by the middleware
+    const user = locals.user;
+    if (!user || !locals.session) {
+      return createErrorResponse("UNAUTHORIZED", "Missing or invalid Authorization header", 401);
+    }
+
+    // Step 2: Parse and validate request body
+    let requestBody: unknown;
+    try {
+      requestBody = await request.json();
+    } catch {
+      return createErrorResponse("VALIDATION_ERROR", "Invalid JSON in request body", 400);
+    }
+
+    const validationResult = mfaVerifySchema.safeParse(requestBody);
+    if (!validationResult.success) {
+      return createErrorResponse("VALIDATION_ERROR", "Validation failed", 400, {
+        fields: formatValidationErrors(validationResult.error),
+      });
+    }
+
+    const { factor_id, challenge_id, code, recovery_code } = validationResult.data;
+
+    // Step 3: Redeem a recovery code, removing the user's factors
+    if (recovery_code !== undefined) {
+      const adminClient = createSupabaseAdminClient();
+      if (!adminClient) {
+        return createErrorResponse(
+          "INTERNAL_ERROR",
+          "Recovery codes require SUPABASE_SERVICE_ROLE_KEY to be configured",
+          500
+        );
+      }
+
+      await redeemRecoveryCode(user, recovery_code, locals.supabase, adminClient);
+
+      const response: MessageResponseDTO = {
+        message: "Two-factor authentication removed. Please sign in again and set up a new authenticator.",
+      };
+
+      return new Response(JSON.stringify(response), {
+        status: 200,
+        headers: {
+          "Content-Type": "application/json",
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    // Step 4: Verify the challenge, upgrading the session to AAL2
+    const completesSignIn = getVerifiedMfaFactors(user).length > 0 && locals.session.aal !== "aal2";
+    const verifyResponse = await verifyMfaChallenge(
+      user,
+      { factorId: factor_id ?? "", challengeId: challenge_id ?? "", code: code ?? "" },
+      locals.supabase
+    );
+
+    // Step 5: Record the completed sign-in of an MFA user (fire-and-forget)
+    if (completesSignIn) {
+      trackEvent(
+        locals.supabase,
+        { event_type: "user_login" },
+        {
+          userId: user.id,
+          ipAddress: getClientIp(context),
+          userAgent: request.headers.get("user-agent") || undefined,
+        }
+      ).catch(() => {
+        // Silently ignore analytics tracking errors
+      });
+    }
+
+    // Step 6: Record the session's device details for the session list (fire-and-forget)
+    recordUserSession({
+      accessToken: verifyResponse.session.access_token,
+      ipAddress: getClientIp(context),
+      userAgent: request.headers.get("user-agent") || undefined,
+    }).catch(() => {
+      // Session metadata is best effort
+    });
+
+    // Step 7: Store the AAL2 session in httpOnly cookies for browser clients
+    setSessionCookies(cookies, verifyResponse.session);
+
+    // Step 8: Return the session (and recovery codes on first activation)
+    return new Response(JSON.stringify(verifyResponse), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    if (error instanceof AuthServiceError) {
+      return new Response(JSON.stringify(error.toErrorResponse()), {
+        status: error.statusCode,
+        headers: {
+          "Content-Type": "application/json",
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    return createErrorResponse("INTERNAL_ERROR", "An unexpected error occurred during MFA verification", 500);
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * GET /api/auth/oauth/:provider
+ *
+ * Start a social sign-in (Google or Discord) with the OAuth PKCE flow.
+ * Redirects the browser to Supabase Auth, which sends it on to the provider
+ * and back to GET /api/auth/callback with an authorization code.
+ *
+ * Features:
+ * - IP-based rate limiting (10 requests per minute, `oauth-ip` policy)
+ * - Provider validated against the providers enabled in supabase/config.toml
+ * - Prevents duplicate logins by authenticated users
+ * - PKCE code verifier kept in an httpOnly cookie scoped to the callback path
+ *   (10 minutes), so only the browser that started the flow can complete it
+ *
+ * Response codes:
+ * - 302: Redirect to the provider sign-in
+ * - 400: Unsupported provider or already authenticated
+ * - 429: Rate limit exceeded
+ * - 500: Internal server error
+ */
+
+import type { APIContext } from "astro";
+import { oauthProviderParamsSchema } from "../../../../lib/validation/auth.schema";
+import { AuthErrorCodes, AuthServiceError, startOAuthSignIn } from "../../../../lib/services/auth.service";
+import { createErrorResponse, formatValidationErrors } from "../../../../lib/utils/api-helpers";
+import { setOAuthVerifierCookie } from "../../../../lib/utils/auth-cookies";
+
+// Disable static prerendering for this API route
+export const prerender = false;
+
+/**
+ * GET handler starting an OAuth sign-in
+ */
+export async function GET(context: APIContext): Promise<Response> {
+  const { locals, params, cookies } = context;
+
+  try {
+    // Step 1: Validate the provider
+    const validationResult = oauthProviderParamsSchema.safeParse(params);
+    if (!validationResult.success) {
+      return createErrorResponse(AuthErrorCodes.VALIDATION_ERROR, "Unsupported OAuth provider", 400, {
+        fields: formatValidationErrors(validationResult.error),
+      });
+    }
+
+    // Step 2: Check if user is already authenticated
+    if (locals.user) {
+      return createErrorResponse(
+        AuthErrorCodes.ALREADY_AUTHENTICATED,
+        "You are already authenticated. Please log out before logging in again.",
+        400
+      );
+    }
+
+    // Step 3: Build the Supabase authorize URL with a fresh PKCE code verifier
+    const siteUrl = import.meta.env.PUBLIC_SITE_URL || "http://localhost:3000";
+    const { url, codeVerifier } = await startOAuthSignIn(
+      validationResult.data.provider,
+      `${siteUrl}/api/auth/callback`
+    );
+
+    // Step 4: Keep the code verifier for the callback
+    setOAuthVerifierCookie(cookies, codeVerifier);
+
+    // Step 5: Redirect to the provider sign-in
+    return new Response(null, {
+      status: 302,
+      headers: {
+        Location: url,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    if (error instanceof AuthServiceError) {
+      return new Response(JSON.stringify(error.toErrorResponse()), {
+        status: error.statusCode,
+        headers: {
+          "Content-Type": "application/json",
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    return createErrorResponse(AuthErrorCodes.INTERNAL_ERROR, "An unexpected error occurred during OAuth sign-in", 500);
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * POST /api/auth/refresh
+ *
+ * Exchange a refresh token for a new session.
+ *
+ * Features:
+ * - IP-based rate limiting (30 requests per minute, `refresh-ip` policy)
+ * - Refresh token from the request body (API clients) or the session cookie (browsers)
+ * - Refresh token rotation: the response carries a new refresh token and the
+ *   old one stops working
+ * - Session cookies rewritten for cookie sessions, cleared when the refresh token is rejected
+ * - Last seen time of the session updated for the session list (GET /api/auth/sessions)
+ * - Explicit no-store cache control for sensitive auth operations
+ *
+ * Response codes:
+ * - 200: Session refreshed, returns user and session data
+ * - 400: Validation error (invalid JSON or empty refresh token)
+ * - 401: Missing, invalid, used or revoked refresh token
+ * - 429: Rate limit exceeded
+ * - 500: Internal server error
+ */
+
+import type { APIContext } from "astro";
+import { refreshSessionSchema } from "../../../lib/validation/auth.schema";
+import { refreshSession, AuthServiceError, AuthErrorCodes } from "../../../lib/services/auth.service";
+import type { AuthResponseDTO } from "../../../types";
+import { recordUserSession } from "../../../lib/services/session.service";
+import { createErrorResponse, formatValidationErrors, getClientIp } from "../../../lib/utils/api-helpers";
+import { clearSessionCookies, readSessionCookies, setSessionCookies } from "../../../lib/utils/auth-cookies";
+
+// Disable static prerendering for this API route
+export const prerender = false;
+
+/**
+ * POST handler for session refresh
+ */
+export async function POST(context: APIContext): Promise<Response> {
+  const { request, locals, cookies } = context;
+  let fromCookie = false;
+
+  try {
+    // Step 1: Parse and validate request body (an empty body is allowed for cookie sessions)
+    let requestBody: unknown = {};
+    const rawBody = await request.text();
+    if (rawBody.trim()) {
+      try {
+        requestBody = JSON.parse(rawBody);
+      } catch {
+        return createErrorResponse(AuthErrorCodes.VALIDATION_ERROR, "Invalid JSON in request body", 400);
+      }
+    }
+
+    const validationResult = refreshSessionSchema.safeParse(requestBody);
+    if (!validationResult.success) {
+      return createErrorResponse(AuthErrorCodes.VALIDATION_ERROR, "Validation failed", 400, {
+        fields: formatValidationErrors(validationResult.error),
+      });
+    }
+
+    // Step 2: Pick the refresh token from the body or the session cookie
+    let refreshToken = validationResult.data.refresh_token;
+    if (!refreshToken) {
+      refreshToken = readSessionCookies(cookies)?.refresh_token;
+      fromCookie = true;
+    }
+
+    if (!refreshToken) {
+      return createErrorResponse(AuthErrorCodes.UNAUTHORIZED, "Missing refresh token", 401);
+    }
+
+    // Step 3: Rotate the session via AuthService
+    const auth = await refreshSession(refreshToken, locals.supabase);
+
+    const response: AuthResponseDTO = {
+      user: {
+        id: auth.user.id,
+        email: auth.user.email || "",
+      },
+      session: {
+        access_token: auth.session.access_token,
+        refresh_token: auth.session.refresh_token || "",
+        expires_at: auth.session.expires_at || 0,
+      },
+    };
+
+    // Step 4: Update the session's last seen time (fire-and-forget)
+    recordUserSession({
+      accessToken: response.session.access_token,
+      ipAddress: getClientIp(context),
+      userAgent: request.headers.get("user-agent") || undefined,
+    }).catch(() => {
+      // Session metadata is best effort
+    });
+
+    // Step 5: Rewrite the cookies of cookie sessions
+    if (fromCookie) {
+      setSessionCookies(cookies, response.session);
+    }
+
+    // Step 6: Return success response
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    // Handle AuthServiceError
+    if (error instanceof AuthServiceError) {
+      if (fromCookie && error.statusCode === 401) {
+        clearSessionCookies(cookies);
+      }
+
+      return new Response(JSON.stringify(error.toErrorResponse()), {
+        status: error.statusCode,
+        headers: {
+          "Content-Type": "application/json",
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    // Handle unexpected errors
+    return createErrorResponse(AuthErrorCodes.INTERNAL_ERROR, "An unexpected error occurred during refresh", 500);
+  }
+}
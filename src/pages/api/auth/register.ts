@@ -4,15 +4,17 @@
  * User registration endpoint that creates a new Supabase Auth user and profile.
  *
  * Features:
- * - IP-based rate limiting (5 requests per minute)
+ * - IP-based rate limiting (5 requests per minute, `register-ip` policy)
  * - Email and password validation with Zod
+ * - Password strength estimate (with the email as user context) and breached-password check
  * - Prevents re-registration by authenticated users
+ * - Session stored in httpOnly, SameSite=Lax cookies (tokens are also returned for API clients)
  * - Analytics event tracking for successful registrations
  * - Comprehensive error handling with standardized responses
  *
  * Response codes:
  * - 201: Registration successful, returns user and session data
- * - 400: Validation error or already authenticated
+ * - 400: Validation error, weak or breached password, or already authenticated
  * - 409: Email already exists
  * - 429: Rate limit exceeded
  * - 500: Internal server error
@@ -20,53 +22,30 @@
 
 import type { APIContext } from "astro";
 import { registerSchema } from "../../../lib/validation/auth.schema";
-import { ensureRateLimit } from "../../../lib/services/rate-limit.service";
-import { registerUser, getCurrentUser, AuthServiceError, AuthErrorCodes } from "../../../lib/services/auth.service";
+import { registerUser, AuthServiceError, AuthErrorCodes } from "../../../lib/services/auth.service";
+import { trackEvent } from "../../../lib/services/analytics.service";
+import { checkPasswordPolicy } from "../../../lib/services/password-strength.service";
+import { recordUserSession } from "../../../lib/services/session.service";
 import type { RegisterCommand } from "../../../types";
-import type { SupabaseClient } from "../../../db/supabase.client";
-import { getClientIp, createErrorResponse, hashString } from "../../../lib/utils/api-helpers";
+import { getClientIp, createErrorResponse } from "../../../lib/utils/api-helpers";
+import { setSessionCookies } from "../../../lib/utils/auth-cookies";
 
 // Disable static prerendering for this API route
 export const prerender = false;
 
-/**
- * Rate limiting configuration for registration endpoint
- * 5 requests per minute per IP address
- */
-const RATE_LIMIT_CONFIG = {
-  limit: 5,
-  windowMs: 60000, // 1 minute
-};
-
 /**
  * POST handler for user registration
  */
 export async function POST(context: APIContext): Promise<Response> {
-  const { request, locals } = context;
+  const { request, locals, cookies } = context;
   const supabase = locals.supabase;
 
   try {
-    // Step 1: Extract client IP and apply rate limiting
-    const clientIp = getClientIp(request);
-    const rateLimitResult = ensureRateLimit({
-      key: `register:${clientIp}`,
-      ...RATE_LIMIT_CONFIG,
-    });
-
-    if (!rateLimitResult.allowed) {
-      return createErrorResponse(
-        "RATE_LIMIT_EXCEEDED",
-        "Too many registration attempts. Please try again later.",
-        429,
-        {
-          retryAfter: rateLimitResult.retryAfter || 60,
-        }
-      );
-    }
+    // Step 1: Extract client IP
+    const clientIp = getClientIp(context);
 
     // Step 2: Check if user is already authenticated
-    const currentUserId = await getCurrentUser(supabase);
-    if (currentUserId) {
+    if (locals.user) {
       return createErrorResponse(
         AuthErrorCodes.ALREADY_AUTHENTICATED,
         "You are already authenticated. Please log out before creating a new account.",
@@ -96,7 +75,17 @@ export async function POST(context: APIContext): Promise<Response> {
       return createErrorResponse(AuthErrorCodes.VALIDATION_ERROR, "Validation failed", 400, { fields: fieldErrors });
     }
 
-    // Step 4: Build RegisterCommand
+    // Step 4: Reject guessable or breached passwords
+    const passwordProblems = await checkPasswordPolicy(validationResult.data.password, {
+      email: validationResult.data.email,
+    });
+    if (passwordProblems.length > 0) {
+      return createErrorResponse(AuthErrorCodes.WEAK_PASSWORD, "Password is too weak", 400, {
+        fields: { password: passwordProblems },
+      });
+    }
+
+    // Step 5: Build RegisterCommand
     const command: RegisterCommand = {
       email: validationResult.data.email,
       password: validationResult.data.password,
@@ -104,15 +93,31 @@ export async function POST(context: APIContext): Promise<Response> {
       userAgent: request.headers.get("user-agent") || undefined,
     };
 
-    // Step 5: Register user via AuthService
+    // Step 6: Register user via AuthService
     const authResponse = await registerUser(command, supabase);
 
-    // Step 6: Track analytics event (fire-and-forget)
-    trackRegistrationEvent(supabase, authResponse.user.id, clientIp, command.userAgent).catch(() => {
+    // Step 7: Track analytics event (fire-and-forget)
+    trackEvent(
+      supabase,
+      { event_type: "user_registered" },
+      { userId: authResponse.user.id, ipAddress: clientIp, userAgent: command.userAgent }
+    ).catch(() => {
       // Silently ignore analytics tracking errors
     });
 
-    // Step 7: Return success response
+    // Step 8: Record the session's device details for the session list (fire-and-forget)
+    recordUserSession({
+      accessToken: authResponse.session.access_token,
+      ipAddress: clientIp,
+      userAgent: command.userAgent,
+    }).catch(() => {
+      // Session metadata is best effort
+    });
+
+    // Step 9: Store the session in httpOnly cookies for browser clients
+    setSessionCookies(cookies, authResponse.session);
+
+    // Step 10: Return success response
     return new Response(JSON.stringify(authResponse), {
       status: 201,
       headers: {
@@ -136,27 +141,3 @@ export async function POST(context: APIContext): Promise<Response> {
     return createErrorResponse(AuthErrorCodes.INTERNAL_ERROR, "An unexpected error occurred during registration", 500);
   }
 }
-
-/**
- * Track registration analytics event
- * This is a fire-and-forget operation that should not block the registration response
- */
-async function trackRegistrationEvent(
-  supabase: SupabaseClient,
-  userId: string,
-  ipAddress: string,
-  userAgent?: string
-): Promise<void> {
-  // Create anonymized IP hash for privacy
-  const ipHash = await hashString(ipAddress);
-
-  await supabase.from("analytics_events").insert({
-    user_id: userId,
-    event_type: "user_registered",
-    event_data: {
-      ip_hash: ipHash,
-      user_agent: userAgent,
-      timestamp: new Date().toISOString(),
-    },
-  });
-}
@@ -0,0 +1,128 @@
+/**
+ * POST /api/auth/resend-verification
+ *
+ * Resend a signup confirmation (`type: "signup"`, default) or email change
+ * verification (`type: "email_change"`) email.
+ * Uses rate limiting (per-IP and per-email) to prevent abuse.
+ * Always returns 200 on valid shape to prevent email enumeration.
+ *
+ * Rate Limits (applied by the middleware, see rate-limit-policies.ts):
+ * - Per-IP: 3 requests per 15 minutes (`resend-verification-ip`)
+ * - Per-Email: 3 requests per 15 minutes (`resend-verification-email`)
+ *
+ * Local testing: emails are caught by Inbucket (http://127.0.0.1:54324) when
+ * running `supabase start`. Signup confirmations are only sent while
+ * `[auth.email] enable_confirmations` is enabled in supabase/config.toml.
+ *
+ * @example
+ * POST /api/auth/resend-verification
+ * Content-Type: application/json
+ *
+ * { "email": "user@example.com", "type": "signup" }
+ *
+ * Response (200):
+ * { "message": "If a verification is pending for this email, a new link has been sent" }
+ *
+ * Response (400 - Validation Error):
+ * {
+ *   "error": {
+ *     "code": "VALIDATION_ERROR",
+ *     "message": "Validation failed",
+ *     "details": { "fields": { "email": ["Invalid email format"] } }
+ *   }
+ * }
+ */
+
+import type { APIContext } from "astro";
+import { resendVerificationSchema } from "../../../lib/validation/auth.schema";
+import { resendVerificationEmail } from "../../../lib/services/auth.service";
+import { trackEvent } from "../../../lib/services/analytics.service";
+import { getClientIp, createErrorResponse, formatValidationErrors } from "../../../lib/utils/api-helpers";
+import type { MessageResponseDTO, ResendVerificationCommand } from "../../../types";
+
+// Disable static rendering for this endpoint
+export const prerender = false;
+
+/**
+ * POST handler for verification email resends
+ *
+ * Flow:
+ * 1. Extract and normalize client IP
+ * 2. Parse request body
+ * 3. Validate against resendVerificationSchema
+ * 4. Build ResendVerificationCommand with config-based redirectTo
+ * 5. Call auth service to resend the Supabase email
+ * 6. Track event in analytics (fire-and-forget, no email stored)
+ * 7. Return 200 success (always, to prevent enumeration)
+ */
+export async function POST(context: APIContext): Promise<Response> {
+  try {
+    // Step 1: Extract client IP
+    const clientIp = getClientIp(context);
+    const userAgent = context.request.headers.get("user-agent") || undefined;
+
+    // Step 2: Parse request body
+    let parsedBody: unknown;
+    try {
+      parsedBody = await context.request.json();
+    } catch {
+      return createErrorResponse("VALIDATION_ERROR", "Invalid JSON in request body", 400);
+    }
+
+    // Step 3: Validate input
+    const validationResult = resendVerificationSchema.safeParse(parsedBody);
+    if (!validationResult.success) {
+      return createErrorResponse("VALIDATION_ERROR", "Validation failed", 400, {
+        fields: formatValidationErrors(validationResult.error),
+      });
+    }
+
+    const { email, type } = validationResult.data;
+
+    // Step 4: Build command with config-based redirectTo URL
+    const siteUrl = import.meta.env.PUBLIC_SITE_URL || "http://localhost:3000";
+
+    const command: ResendVerificationCommand = {
+      email,
+      type,
+      ipAddress: clientIp,
+      userAgent,
+      redirectTo: `${siteUrl}/auth/confirm-email`,
+    };
+
+    // Step 5: Call auth service to resend the email
+    // This silently handles errors to prevent enumeration
+    await resendVerificationEmail(command, context.locals.supabase);
+
+    // Step 6: Track analytics event without the email (fire-and-forget)
+    trackEvent(
+      context.locals.supabase,
+      { event_type: "verification_email_resent", event_data: { type } },
+      { ipAddress: clientIp, userAgent }
+    ).catch(() => {
+      // Silently ignore analytics tracking errors
+    });
+
+    // Step 7: Return success response (always 200 to prevent enumeration)
+    const response: MessageResponseDTO = {
+      message: "If a verification is pending for this email, a new link has been sent",
+    };
+
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    // Handle unexpected errors
+    // eslint-disable-next-line no-console
+    console.error({
+      event: "resend_verification_endpoint_error",
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+
+    return createErrorResponse("INTERNAL_ERROR", "An unexpected error occurred. Please try again later.", 500);
+  }
+}
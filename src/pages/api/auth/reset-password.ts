@@ -5,9 +5,9 @@
  * Uses rate limiting (per-IP and per-email) to prevent abuse.
  * Always returns 200 on valid shape to prevent email enumeration.
  *
- * Rate Limits:
- * - Per-IP: 3 requests per 15 minutes
- * - Per-Email: 3 requests per 15 minutes
+ * Rate Limits (applied by the middleware, see rate-limit-policies.ts):
+ * - Per-IP: 3 requests per 15 minutes (`reset-password-ip`)
+ * - Per-Email: 3 requests per 15 minutes (`reset-password-email`)
  *
  * @example
  * POST /api/auth/reset-password
@@ -31,8 +31,8 @@
  * {
  *   "error": {
  *     "code": "RATE_LIMIT_EXCEEDED",
- *     "message": "Too many requests",
- *     "details": { "retryAfter": 300 }
+ *     "message": "Too many password reset requests for this email. Please try again later.",
+ *     "details": { "policy": "reset-password-email", "retryAfter": 300 }
  *   }
  * }
  */
@@ -40,7 +40,7 @@
 import type { APIContext } from "astro";
 import { resetPasswordSchema } from "../../../lib/validation/auth.schema";
 import { requestPasswordReset } from "../../../lib/services/auth.service";
-import { ensureRateLimit } from "../../../lib/services/rate-limit.service";
+import { trackEvent } from "../../../lib/services/analytics.service";
 import { getClientIp, createErrorResponse } from "../../../lib/utils/api-helpers";
 import type { ResetPasswordCommand, MessageResponseDTO } from "../../../types";
 
@@ -54,17 +54,15 @@ export const prerender = false;
  * 1. Extract and normalize client IP
  * 2. Parse request body
  * 3. Validate against resetPasswordSchema
- * 4. Check IP-based rate limit (3 req / 15 min)
- * 5. Check email-based rate limit (3 req / 15 min)
- * 6. Build ResetPasswordCommand with config-based redirectTo
- * 7. Call auth service to trigger Supabase reset email
- * 8. Return 200 success (always, to prevent enumeration)
- * 9. Optionally track event in analytics (fire-and-forget)
+ * 4. Build ResetPasswordCommand with config-based redirectTo
+ * 5. Call auth service to trigger Supabase reset email
+ * 6. Track event in analytics (fire-and-forget, no email stored)
+ * 7. Return 200 success (always, to prevent enumeration)
  */
 export async function POST(context: APIContext): Promise<Response> {
   try {
     // Step 1: Extract client IP
-    const clientIp = getClientIp(context.request);
+    const clientIp = getClientIp(context);
     const userAgent = context.request.headers.get("user-agent") || undefined;
 
     // Step 2: Parse request body
@@ -88,39 +86,7 @@ export async function POST(context: APIContext): Promise<Response> {
 
     const { email } = validationResult.data;
 
-    // Step 4: Check IP-based rate limit (3 requests per 15 minutes)
-    const ipLimitResult = ensureRateLimit({
-      key: `reset-password-ip:${clientIp}`,
-      limit: 3,
-      windowMs: 900000, // 15 minutes
-    });
-
-    if (!ipLimitResult.allowed) {
-      return createErrorResponse(
-        "RATE_LIMIT_EXCEEDED",
-        "Too many password reset requests from your IP. Please try again later.",
-        429,
-        { retryAfter: ipLimitResult.retryAfter }
-      );
-    }
-
-    // Step 5: Check email-based rate limit (3 requests per 15 minutes)
-    const emailLimitResult = ensureRateLimit({
-      key: `reset-password-email:${email}`,
-      limit: 3,
-      windowMs: 900000, // 15 minutes
-    });
-
-    if (!emailLimitResult.allowed) {
-      return createErrorResponse(
-        "RATE_LIMIT_EXCEEDED",
-        "Too many password reset requests for this email. Please try again later.",
-        429,
-        { retryAfter: emailLimitResult.retryAfter }
-      );
-    }
-
-    // Step 6: Build command with config-based redirectTo URL
+    // Step 4: Build command with config-based redirectTo URL
     const siteUrl = import.meta.env.PUBLIC_SITE_URL || "http://localhost:3000";
     const redirectTo = `${siteUrl}/auth/reset-password-confirm`;
 
@@ -131,11 +97,20 @@ export async function POST(context: APIContext): Promise<Response> {
       redirectTo,
     };
 
-    // Step 7: Call auth service to trigger reset email
+    // Step 5: Call auth service to trigger reset email
     // This silently handles errors to prevent enumeration
     await requestPasswordReset(command, context.locals.supabase);
 
-    // Step 8: Return success response (always 200 to prevent enumeration)
+    // Step 6: Track analytics event without the email (fire-and-forget)
+    trackEvent(
+      context.locals.supabase,
+      { event_type: "password_reset_requested" },
+      { ipAddress: clientIp, userAgent }
+    ).catch(() => {
+      // Silently ignore analytics tracking errors
+    });
+
+    // Step 7: Return success response (always 200 to prevent enumeration)
     const response: MessageResponseDTO = {
       message: "Password reset email sent",
     };
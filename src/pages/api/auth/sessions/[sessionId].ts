@@ -0,0 +1,79 @@
+/**
+ * DELETE /api/auth/sessions/:sessionId
+ *
+ * Revoke one of the authenticated user's sessions, e.g. a lost device.
+ * Revoking the current session also clears the session cookies.
+ *
+ * Response codes:
+ * - 204: Session revoked
+ * - 400: Invalid session ID
+ * - 401: Missing or invalid bearer token
+ * - 404: Session not found
+ * - 429: Rate limit exceeded (`session-revoke-user` policy)
+ * - 500: Internal server error
+ *
+ * Sessions of other users are reported as 404 so their existence is not revealed.
+ */
+
+import type { APIContext } from "astro";
+import { AuthServiceError, AuthErrorCodes, decodeTokenSessionId } from "../../../../lib/services/auth.service";
+import { revokeUserSession } from "../../../../lib/services/session.service";
+import { sessionIdSchema } from "../../../../lib/validation/auth.schema";
+import { createErrorResponse } from "../../../../lib/utils/api-helpers";
+import { clearSessionCookies } from "../../../../lib/utils/auth-cookies";
+
+// Disable static prerendering for this API route
+export const prerender = false;
+
+/**
+ * DELETE handler for revoking a session
+ */
+export async function DELETE(context: APIContext): Promise<Response> {
+  const { locals, params, cookies } = context;
+
+  try {
+    // Step 1: Get the user and session authenticated by the middleware
+    if (!locals.user || !locals.session) {
+      return createErrorResponse(AuthErrorCodes.UNAUTHORIZED, "Missing or invalid Authorization header", 401);
+    }
+
+    // Step 2: Validate path parameter
+    const idResult = sessionIdSchema.safeParse(params.sessionId);
+    if (!idResult.success) {
+      return createErrorResponse(AuthErrorCodes.VALIDATION_ERROR, "Invalid session ID", 400, {
+        field: "sessionId",
+      });
+    }
+
+    // Step 3: Revoke the session
+    await revokeUserSession(locals.supabase, idResult.data);
+
+    // Step 4: Remove the session cookies when the current session was revoked
+    if (decodeTokenSessionId(locals.session.access_token) === idResult.data) {
+      clearSessionCookies(cookies);
+    }
+
+    return new Response(null, {
+      status: 204,
+      headers: {
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    if (error instanceof AuthServiceError) {
+      return new Response(JSON.stringify(error.toErrorResponse()), {
+        status: error.statusCode,
+        headers: {
+          "Content-Type": "application/json",
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    return createErrorResponse(
+      AuthErrorCodes.INTERNAL_ERROR,
+      "An unexpected error occurred while revoking the session",
+      500
+    );
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * GET /api/auth/sessions
+ *
+ * List the authenticated user's active sessions, most recently seen first.
+ * Each session carries the device summary and user agent recorded at sign-in,
+ * the hash of the IP it signed in from and whether it is the current session.
+ *
+ * Response codes:
+ * - 200: Sessions listed
+ * - 401: Missing or invalid bearer token
+ * - 500: Internal server error
+ *
+ * DELETE /api/auth/sessions
+ *
+ * Sign out everywhere: revoke all of the user's sessions, including the
+ * current one, and clear the session cookies.
+ *
+ * Response codes:
+ * - 200: All sessions revoked
+ * - 401: Missing or invalid bearer token
+ * - 429: Rate limit exceeded (`sessions-revoke-all-user` policy)
+ * - 500: Internal server error
+ */
+
+import type { APIContext } from "astro";
+import { AuthServiceError, AuthErrorCodes } from "../../../../lib/services/auth.service";
+import { listUserSessions, signOutEverywhere } from "../../../../lib/services/session.service";
+import { trackEvent } from "../../../../lib/services/analytics.service";
+import { createErrorResponse, getClientIp } from "../../../../lib/utils/api-helpers";
+import { clearSessionCookies } from "../../../../lib/utils/auth-cookies";
+import type { MessageResponseDTO, UserSessionListResponseDTO } from "../../../../types";
+
+// Disable static prerendering for this API route
+export const prerender = false;
+
+/**
+ * GET handler for the session list
+ */
+export async function GET(context: APIContext): Promise<Response> {
+  const { locals } = context;
+
+  try {
+    // Step 1: Get the user and session authenticated by the middleware
+    if (!locals.user || !locals.session) {
+      return createErrorResponse(AuthErrorCodes.UNAUTHORIZED, "Missing or invalid Authorization header", 401);
+    }
+
+    // Step 2: Fetch the active sessions
+    const sessions = await listUserSessions(locals.supabase, locals.user.id, locals.session.access_token);
+
+    // Step 3: Return the list
+    const response: UserSessionListResponseDTO = { data: sessions };
+
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    return handleServiceError(error, "An unexpected error occurred while listing sessions");
+  }
+}
+
+/**
+ * DELETE handler for signing out everywhere
+ */
+export async function DELETE(context: APIContext): Promise<Response> {
+  const { request, locals, cookies } = context;
+
+  try {
+    // Step 1: Get the user and session authenticated by the middleware
+    if (!locals.user || !locals.session) {
+      return createErrorResponse(AuthErrorCodes.UNAUTHORIZED, "Missing or invalid Authorization header", 401);
+    }
+
+    // Step 2: Revoke all of the user's sessions
+    await signOutEverywhere(locals.session.access_token, locals.supabase);
+
+    // Step 3: Remove the session cookies of browser clients
+    clearSessionCookies(cookies);
+
+    // Step 4: Track analytics event (fire-and-forget)
+    trackEvent(
+      locals.supabase,
+      { event_type: "user_logout" },
+      {
+        userId: locals.user.id,
+        ipAddress: getClientIp(context),
+        userAgent: request.headers.get("user-agent") || undefined,
+      }
+    ).catch(() => {
+      // Silently ignore analytics tracking errors
+    });
+
+    // Step 5: Return success response
+    const response: MessageResponseDTO = { message: "Signed out of all sessions" };
+
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    return handleServiceError(error, "An unexpected error occurred while signing out");
+  }
+}
+
+/**
+ * Map service and unexpected errors to standardized error responses
+ */
+function handleServiceError(error: unknown, fallbackMessage: string): Response {
+  if (error instanceof AuthServiceError) {
+    return new Response(JSON.stringify(error.toErrorResponse()), {
+      status: error.statusCode,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-store",
+      },
+    });
+  }
+
+  return createErrorResponse(AuthErrorCodes.INTERNAL_ERROR, fallbackMessage, 500);
+}
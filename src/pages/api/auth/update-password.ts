@@ -5,23 +5,26 @@
  * The recovery token is obtained from a password reset email sent via reset-password endpoint.
  *
  * Features:
- * - Bearer token validation from Authorization header
- * - Password strength validation with Zod
- * - Supabase Auth session setup with recovery token
+ * - Recovery token verified by the auth middleware (Authorization: Bearer <token>)
+ * - Password rules validated with Zod, then a strength estimate and breached-password check
+ * - Recovery session bound to the request-scoped Supabase client only
  * - Password update through authenticated session
+ * - Clears failed-login back-off and lockout for the account
  * - Comprehensive error handling for token validity and password policy
  * - Explicit no-store cache control for sensitive auth operations
  *
  * Response codes:
  * - 200: Password updated successfully
- * - 400: Validation error (missing/malformed header or invalid password)
- * - 401: Invalid or expired recovery token
+ * - 400: Validation error (invalid password or JSON), weak or breached password
+ * - 401: Missing, invalid or expired recovery token
  * - 500: Internal server error
  */
 
 import type { APIContext } from "astro";
 import { updatePasswordSchema } from "../../../lib/validation/auth.schema";
-import { createErrorResponse, parseBearerToken } from "../../../lib/utils/api-helpers";
+import { clearLoginFailures } from "../../../lib/services/login-attempts.service";
+import { checkPasswordPolicy } from "../../../lib/services/password-strength.service";
+import { createErrorResponse } from "../../../lib/utils/api-helpers";
 import type { UpdatePasswordRequestDTO } from "../../../types";
 
 // Disable static prerendering for this API route
@@ -32,6 +35,7 @@ export const prerender = false;
  */
 enum UpdatePasswordErrorCodes {
   VALIDATION_ERROR = "VALIDATION_ERROR",
+  WEAK_PASSWORD = "WEAK_PASSWORD",
   UNAUTHORIZED = "UNAUTHORIZED",
   INTERNAL_ERROR = "INTERNAL_ERROR",
 }
@@ -44,17 +48,9 @@ export async function POST(context: APIContext): Promise<Response> {
   const supabase = locals.supabase;
 
   try {
-    // Step 1: Extract and validate Authorization header
-    const authHeader = request.headers.get("Authorization");
-    const token = parseBearerToken(authHeader);
-
-    if (!token) {
-      return createErrorResponse(
-        UpdatePasswordErrorCodes.VALIDATION_ERROR,
-        "Missing or invalid Authorization header. Expected format: 'Bearer <token>'",
-        400,
-        { field: "Authorization" }
-      );
+    // Step 1: Get the recovery session authenticated by the middleware
+    if (!locals.user || !locals.session) {
+      return createErrorResponse(UpdatePasswordErrorCodes.UNAUTHORIZED, "Invalid or expired token", 401);
     }
 
     // Step 2: Parse and validate request body
@@ -81,32 +77,22 @@ export async function POST(context: APIContext): Promise<Response> {
       });
     }
 
-    const updateRequest: UpdatePasswordRequestDTO = {
-      password: validationResult.data.password,
-    };
-
-    // Step 3: Set Supabase auth session with recovery token
-    const { error: sessionError } = await supabase.auth.setSession({
-      access_token: token,
-      refresh_token: token,
+    // Step 3: Reject guessable or breached passwords
+    const passwordProblems = await checkPasswordPolicy(validationResult.data.password, {
+      email: locals.user.email,
     });
-
-    if (sessionError) {
-      // eslint-disable-next-line no-console
-      console.error("Session setup failed:", sessionError.message);
-      return createErrorResponse(UpdatePasswordErrorCodes.UNAUTHORIZED, "Invalid or expired token", 401);
+    if (passwordProblems.length > 0) {
+      return createErrorResponse(UpdatePasswordErrorCodes.WEAK_PASSWORD, "Password is too weak", 400, {
+        fields: { password: passwordProblems },
+      });
     }
 
-    // Verify token validity by fetching user
-    const { data: userData, error: userError } = await supabase.auth.getUser(token);
-
-    if (userError || !userData.user) {
-      // eslint-disable-next-line no-console
-      console.error("Token verification failed:", userError?.message || "User not found");
-      return createErrorResponse(UpdatePasswordErrorCodes.UNAUTHORIZED, "Invalid or expired token", 401);
-    }
+    const updateRequest: UpdatePasswordRequestDTO = {
+      password: validationResult.data.password,
+    };
 
     // Step 4: Update password through Supabase Auth
+    // (the middleware binds the request-scoped client to the verified recovery session)
     const { error: updateError } = await supabase.auth.updateUser({
       password: updateRequest.password,
     });
@@ -134,7 +120,12 @@ export async function POST(context: APIContext): Promise<Response> {
       );
     }
 
-    // Step 5: Return success response
+    // Step 5: Lift any failed-login back-off or lock on the account's email
+    if (locals.user.email) {
+      await clearLoginFailures(locals.user.email);
+    }
+
+    // Step 6: Return success response
     return new Response(
       JSON.stringify({
         message: "Password updated successfully",
@@ -0,0 +1,158 @@
+/**
+ * POST /api/auth/verify-otp
+ *
+ * Complete a passwordless sign-in requested with POST /api/auth/magic-link,
+ * with either the emailed 6-digit code (`email` + `token`) or the token hash
+ * carried by the magic link (`token_hash`).
+ *
+ * Features:
+ * - IP and email rate limiting (`verify-otp-ip`: 10 and `verify-otp-email`:
+ *   5 requests per 15 minutes)
+ * - Wrong codes count towards the failed-login back-off and lockout of the email
+ * - Prevents duplicate logins by authenticated users
+ * - Session stored in httpOnly, SameSite=Lax cookies (tokens are also returned for API clients)
+ * - Analytics event tracking for successful logins
+ *
+ * Response codes:
+ * - 200: Sign-in successful, returns AuthResponseDTO or an MFA step-up like POST /api/auth/login
+ * - 400: Validation error or already authenticated
+ * - 401: Invalid, expired or already used code
+ * - 429: Rate limit exceeded, or too many failed attempts for this email
+ * - 500: Internal server error
+ */
+
+import type { APIContext } from "astro";
+import { verifyOtpSchema } from "../../../lib/validation/auth.schema";
+import { AuthErrorCodes, AuthServiceError, verifyEmailOtp } from "../../../lib/services/auth.service";
+import { trackEvent } from "../../../lib/services/analytics.service";
+import { recordUserSession } from "../../../lib/services/session.service";
+import { clearLoginFailures, getLoginThrottle, recordLoginFailure } from "../../../lib/services/login-attempts.service";
+import type { LoginResponseDTO, VerifyOtpCommand } from "../../../types";
+import { getClientIp, createErrorResponse, formatValidationErrors } from "../../../lib/utils/api-helpers";
+import { setSessionCookies } from "../../../lib/utils/auth-cookies";
+
+// Disable static prerendering for this API route
+export const prerender = false;
+
+/**
+ * POST handler for passwordless sign-in verification
+ */
+export async function POST(context: APIContext): Promise<Response> {
+  const { request, locals, cookies } = context;
+  const supabase = locals.supabase;
+
+  try {
+    // Step 1: Extract client IP
+    const clientIp = getClientIp(context);
+    const userAgent = request.headers.get("user-agent") || undefined;
+
+    // Step 2: Check if user is already authenticated
+    if (locals.user) {
+      return createErrorResponse(
+        AuthErrorCodes.ALREADY_AUTHENTICATED,
+        "You are already authenticated. Please log out before logging in again.",
+        400
+      );
+    }
+
+    // Step 3: Parse and validate request body
+    let requestBody: unknown;
+    try {
+      requestBody = await request.json();
+    } catch {
+      return createErrorResponse(AuthErrorCodes.VALIDATION_ERROR, "Invalid JSON in request body", 400);
+    }
+
+    const validationResult = verifyOtpSchema.safeParse(requestBody);
+    if (!validationResult.success) {
+      return createErrorResponse(AuthErrorCodes.VALIDATION_ERROR, "Validation failed", 400, {
+        fields: formatValidationErrors(validationResult.error),
+      });
+    }
+
+    const { email, token, token_hash } = validationResult.data;
+    const command: VerifyOtpCommand =
+      token_hash !== undefined
+        ? { tokenHash: token_hash, ipAddress: clientIp, userAgent }
+        : { email: email ?? "", token: token ?? "", ipAddress: clientIp, userAgent };
+
+    // Step 4: Reject codes for an email that is backing off or locked
+    // (magic link token hashes are not guessable and skip the back-off)
+    const codeEmail = "email" in command ? command.email : null;
+    if (codeEmail) {
+      const throttle = await getLoginThrottle(codeEmail);
+      if (throttle.retryAfter > 0) {
+        return createErrorResponse(
+          AuthErrorCodes.TOO_MANY_FAILED_ATTEMPTS,
+          "Too many failed attempts. Please try again later.",
+          429,
+          { retryAfter: throttle.retryAfter }
+        );
+      }
+    }
+
+    // Step 5: Verify the code via AuthService, counting wrong codes against the email
+    let authResponse: LoginResponseDTO;
+    try {
+      authResponse = await verifyEmailOtp(command, supabase);
+    } catch (error) {
+      if (codeEmail && error instanceof AuthServiceError && error.code === AuthErrorCodes.INVALID_CREDENTIALS) {
+        await recordLoginFailure(codeEmail);
+      }
+      throw error;
+    }
+
+    await clearLoginFailures(authResponse.user.email);
+
+    // Step 6: Users with MFA get a step-up token instead of a session (no cookies, no event yet)
+    if ("mfa_required" in authResponse) {
+      return new Response(JSON.stringify(authResponse), {
+        status: 200,
+        headers: {
+          "Content-Type": "application/json",
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    // Step 7: Track analytics event (fire-and-forget)
+    trackEvent(
+      supabase,
+      { event_type: "user_login" },
+      { userId: authResponse.user.id, ipAddress: clientIp, userAgent }
+    ).catch(() => {
+      // Silently ignore analytics tracking errors
+    });
+
+    // Step 8: Record the session's device details for the session list (fire-and-forget)
+    recordUserSession({ accessToken: authResponse.session.access_token, ipAddress: clientIp, userAgent }).catch(() => {
+      // Session metadata is best effort
+    });
+
+    // Step 9: Store the session in httpOnly cookies for browser clients
+    setSessionCookies(cookies, authResponse.session);
+
+    // Step 10: Return success response
+    return new Response(JSON.stringify(authResponse), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    // Handle AuthServiceError
+    if (error instanceof AuthServiceError) {
+      return new Response(JSON.stringify(error.toErrorResponse()), {
+        status: error.statusCode,
+        headers: {
+          "Content-Type": "application/json",
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    // Handle unexpected errors
+    return createErrorResponse(AuthErrorCodes.INTERNAL_ERROR, "An unexpected error occurred during sign-in", 500);
+  }
+}
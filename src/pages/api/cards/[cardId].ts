@@ -0,0 +1,62 @@
+/**
+ * GET /api/cards/:cardId
+ *
+ * Retrieve a single card with its set information and sync metadata.
+ *
+ * Features:
+ * - Public endpoint (no authentication required)
+ * - Nested set data for the card
+ *
+ * Response codes:
+ * - 200: Card retrieved successfully
+ * - 400: Invalid card ID
+ * - 404: Card not found
+ * - 500: Internal server error
+ */
+
+import type { APIContext } from "astro";
+import { getCardById, CardServiceError, CardErrorCodes } from "../../../lib/services/card.service";
+import { cardIdSchema } from "../../../lib/validation/card.schema";
+import { createErrorResponse } from "../../../lib/utils/api-helpers";
+
+// Disable static prerendering for this API route
+export const prerender = false;
+
+/**
+ * GET handler for card detail
+ */
+export async function GET(context: APIContext): Promise<Response> {
+  const { locals, params } = context;
+
+  try {
+    // Step 1: Validate path parameter
+    const idResult = cardIdSchema.safeParse(params.cardId);
+    if (!idResult.success) {
+      return createErrorResponse(CardErrorCodes.VALIDATION_ERROR, "Invalid card ID", 400, { field: "cardId" });
+    }
+
+    // Step 2: Fetch card
+    const card = await getCardById(locals.supabase, idResult.data);
+    if (!card) {
+      return createErrorResponse(CardErrorCodes.NOT_FOUND, "Card not found", 404);
+    }
+
+    return new Response(JSON.stringify(card), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+      },
+    });
+  } catch (error) {
+    if (error instanceof CardServiceError) {
+      return new Response(JSON.stringify(error.toErrorResponse()), {
+        status: error.statusCode,
+        headers: {
+          "Content-Type": "application/json",
+        },
+      });
+    }
+
+    return createErrorResponse(CardErrorCodes.INTERNAL_ERROR, "An unexpected error occurred", 500);
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * GET /api/cards
+ *
+ * Search and browse the card catalog with filtering and pagination.
+ *
+ * Features:
+ * - IP-based rate limiting (60 requests per minute, `card-search-ip` policy)
+ * - Fuzzy name search ranked by trigram similarity
+ * - Type filtering by array containment (all requested types must match)
+ * - Set and rarity exact-match filters
+ * - Sorting by name, card_number or rarity
+ * - Public endpoint (no authentication required)
+ *
+ * Response codes:
+ * - 200: Cards page retrieved successfully
+ * - 400: Invalid query parameters
+ * - 429: Rate limit exceeded
+ * - 500: Internal server error
+ */
+
+import type { APIContext } from "astro";
+import { searchCards, CardServiceError, CardErrorCodes } from "../../../lib/services/card.service";
+import { cardSearchQuerySchema } from "../../../lib/validation/card.schema";
+import { createErrorResponse, formatValidationErrors } from "../../../lib/utils/api-helpers";
+
+// Disable static prerendering for this API route
+export const prerender = false;
+
+/**
+ * GET handler for card search
+ */
+export async function GET(context: APIContext): Promise<Response> {
+  const { locals, url } = context;
+
+  try {
+    // Step 1: Validate query parameters
+    const validationResult = cardSearchQuerySchema.safeParse(Object.fromEntries(url.searchParams));
+    if (!validationResult.success) {
+      return createErrorResponse(CardErrorCodes.VALIDATION_ERROR, "Invalid query parameters", 400, {
+        fields: formatValidationErrors(validationResult.error),
+      });
+    }
+
+    // Step 2: Search cards
+    const result = await searchCards(locals.supabase, validationResult.data);
+
+    return new Response(JSON.stringify(result), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+      },
+    });
+  } catch (error) {
+    if (error instanceof CardServiceError) {
+      return new Response(JSON.stringify(error.toErrorResponse()), {
+        status: error.statusCode,
+        headers: {
+          "Content-Type": "application/json",
+        },
+      });
+    }
+
+    return createErrorResponse(CardErrorCodes.INTERNAL_ERROR, "An unexpected error occurred", 500);
+  }
+}
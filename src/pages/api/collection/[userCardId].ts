@@ -0,0 +1,215 @@
+/**
+ * GET /api/collection/:userCardId
+ *
+ * Retrieve a single entry from the authenticated user's collection.
+ *
+ * Response codes:
+ * - 200: Collection entry retrieved successfully
+ * - 400: Invalid collection entry ID
+ * - 401: Missing or invalid bearer token
+ * - 404: Collection entry not found
+ * - 500: Internal server error
+ *
+ * PATCH /api/collection/:userCardId
+ *
+ * Update the quantity, language, condition or grading of a collection entry.
+ *
+ * Response codes:
+ * - 200: Collection entry updated successfully
+ * - 400: Validation error (invalid ID, quantity, condition, grading or JSON)
+ * - 401: Missing or invalid bearer token
+ * - 404: Collection entry not found
+ * - 409: The change matches another entry of the collection
+ * - 422: Collection limit of 10,000 cards exceeded
+ * - 500: Internal server error
+ *
+ * DELETE /api/collection/:userCardId
+ *
+ * Remove an entry from the authenticated user's collection.
+ *
+ * Response codes:
+ * - 204: Collection entry removed
+ * - 400: Invalid collection entry ID
+ * - 401: Missing or invalid bearer token
+ * - 404: Collection entry not found
+ * - 500: Internal server error
+ *
+ * Entries owned by other users are reported as 404 so their existence is not revealed.
+ */
+
+import type { APIContext } from "astro";
+import {
+  getCollectionEntry,
+  updateCollectionEntry,
+  removeCollectionEntry,
+  CollectionServiceError,
+  CollectionErrorCodes,
+} from "../../../lib/services/collection.service";
+import { trackEvent } from "../../../lib/services/analytics.service";
+import { updateUserCardSchema, userCardIdSchema } from "../../../lib/validation/collection.schema";
+import { createErrorResponse, formatValidationErrors, getClientIp } from "../../../lib/utils/api-helpers";
+
+// Disable static prerendering for this API route
+export const prerender = false;
+
+/**
+ * GET handler for a single collection entry
+ */
+export async function GET(context: APIContext): Promise<Response> {
+  const { locals, params } = context;
+  const supabase = locals.supabase;
+
+  try {
+    // Step 1: Get the user authenticated by the middleware
+    const user = locals.user;
+    if (!user) {
+      return createErrorResponse("UNAUTHORIZED", "Missing or invalid Authorization header", 401);
+    }
+
+    // Step 2: Validate path parameter
+    const idResult = userCardIdSchema.safeParse(params.userCardId);
+    if (!idResult.success) {
+      return createErrorResponse(CollectionErrorCodes.VALIDATION_ERROR, "Invalid collection entry ID", 400, {
+        field: "userCardId",
+      });
+    }
+
+    // Step 3: Fetch entry
+    const entry = await getCollectionEntry(supabase, user.id, idResult.data);
+    if (!entry) {
+      return createErrorResponse(CollectionErrorCodes.NOT_FOUND, "Collection entry not found", 404);
+    }
+
+    return new Response(JSON.stringify(entry), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    return handleServiceError(error);
+  }
+}
+
+/**
+ * PATCH handler for updating a collection entry
+ */
+export async function PATCH(context: APIContext): Promise<Response> {
+  const { request, locals, params } = context;
+  const supabase = locals.supabase;
+
+  try {
+    // Step 1: Get the user authenticated by the middleware
+    const user = locals.user;
+    if (!user) {
+      return createErrorResponse("UNAUTHORIZED", "Missing or invalid Authorization header", 401);
+    }
+
+    // Step 2: Validate path parameter
+    const idResult = userCardIdSchema.safeParse(params.userCardId);
+    if (!idResult.success) {
+      return createErrorResponse(CollectionErrorCodes.VALIDATION_ERROR, "Invalid collection entry ID", 400, {
+        field: "userCardId",
+      });
+    }
+
+    // Step 3: Parse and validate request body
+    let requestBody: unknown;
+    try {
+      requestBody = await request.json();
+    } catch {
+      return createErrorResponse(CollectionErrorCodes.VALIDATION_ERROR, "Invalid JSON in request body", 400);
+    }
+
+    const validationResult = updateUserCardSchema.safeParse(requestBody);
+    if (!validationResult.success) {
+      return createErrorResponse(CollectionErrorCodes.VALIDATION_ERROR, "Validation failed", 400, {
+        fields: formatValidationErrors(validationResult.error),
+      });
+    }
+
+    // Step 4: Update entry
+    const updated = await updateCollectionEntry(supabase, user.id, idResult.data, validationResult.data);
+    if (!updated) {
+      return createErrorResponse(CollectionErrorCodes.NOT_FOUND, "Collection entry not found", 404);
+    }
+
+    return new Response(JSON.stringify(updated), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    return handleServiceError(error);
+  }
+}
+
+/**
+ * DELETE handler for removing a collection entry
+ */
+export async function DELETE(context: APIContext): Promise<Response> {
+  const { locals, params } = context;
+  const supabase = locals.supabase;
+
+  try {
+    // Step 1: Get the user authenticated by the middleware
+    const user = locals.user;
+    if (!user) {
+      return createErrorResponse("UNAUTHORIZED", "Missing or invalid Authorization header", 401);
+    }
+
+    const userId = user.id;
+
+    // Step 2: Validate path parameter
+    const idResult = userCardIdSchema.safeParse(params.userCardId);
+    if (!idResult.success) {
+      return createErrorResponse(CollectionErrorCodes.VALIDATION_ERROR, "Invalid collection entry ID", 400, {
+        field: "userCardId",
+      });
+    }
+
+    // Step 3: Remove entry
+    const removed = await removeCollectionEntry(supabase, userId, idResult.data);
+    if (!removed) {
+      return createErrorResponse(CollectionErrorCodes.NOT_FOUND, "Collection entry not found", 404);
+    }
+
+    // Step 4: Track analytics event (fire-and-forget)
+    trackEvent(
+      supabase,
+      { event_type: "card_removed", event_data: { card_id: removed.card_id } },
+      { userId, ipAddress: getClientIp(context) }
+    ).catch(() => {
+      // Silently ignore analytics tracking errors
+    });
+
+    return new Response(null, {
+      status: 204,
+      headers: {
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    return handleServiceError(error);
+  }
+}
+
+/**
+ * Map service and unexpected errors to standardized error responses
+ */
+function handleServiceError(error: unknown): Response {
+  if (error instanceof CollectionServiceError) {
+    return new Response(JSON.stringify(error.toErrorResponse()), {
+      status: error.statusCode,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-store",
+      },
+    });
+  }
+
+  return createErrorResponse(CollectionErrorCodes.INTERNAL_ERROR, "An unexpected error occurred", 500);
+}
@@ -0,0 +1,86 @@
+/**
+ * GET /api/collection/export
+ *
+ * Export the authenticated user's collection as CSV or JSON.
+ *
+ * Features:
+ * - Bearer token authentication via Authorization header
+ * - `format=csv|json` (defaults to csv); CSV escaping follows RFC 4180, with
+ *   formula-like text cells prefixed with ' against CSV injection
+ * - Filters by set_id, variant, condition, language, grading_company and graded
+ *   like GET /api/collection
+ * - Streams rows in batches instead of buffering the whole collection
+ * - Download filename via Content-Disposition (collection_YYYYMMDD_HHMMSS.<format>)
+ * - Analytics event tracking once the export completes
+ *
+ * Response codes:
+ * - 200: Export stream started
+ * - 400: Invalid query parameters
+ * - 401: Missing or invalid bearer token
+ * - 500: Internal server error
+ */
+
+import type { APIContext } from "astro";
+import {
+  buildExportFilename,
+  createCollectionExportStream,
+  EXPORT_CONTENT_TYPES,
+} from "../../../lib/services/export.service";
+import { CollectionErrorCodes } from "../../../lib/services/collection.service";
+import { trackEvent } from "../../../lib/services/analytics.service";
+import { exportQuerySchema } from "../../../lib/validation/collection.schema";
+import { createErrorResponse, formatValidationErrors, getClientIp } from "../../../lib/utils/api-helpers";
+
+// Disable static prerendering for this API route
+export const prerender = false;
+
+/**
+ * GET handler for collection export
+ */
+export async function GET(context: APIContext): Promise<Response> {
+  const { locals, url } = context;
+  const supabase = locals.supabase;
+
+  try {
+    // Step 1: Get the user authenticated by the middleware
+    const user = locals.user;
+    if (!user) {
+      return createErrorResponse("UNAUTHORIZED", "Missing or invalid Authorization header", 401);
+    }
+
+    const userId = user.id;
+
+    // Step 2: Validate query parameters
+    const validationResult = exportQuerySchema.safeParse(Object.fromEntries(url.searchParams));
+    if (!validationResult.success) {
+      return createErrorResponse(CollectionErrorCodes.VALIDATION_ERROR, "Invalid query parameters", 400, {
+        fields: formatValidationErrors(validationResult.error),
+      });
+    }
+
+    const query = validationResult.data;
+    const clientIp = getClientIp(context);
+
+    // Step 3: Build streaming body; analytics are recorded once every row has been written
+    const body = createCollectionExportStream(supabase, userId, query, (rowCount) => {
+      trackEvent(
+        supabase,
+        { event_type: "collection_exported", event_data: { format: query.format, card_count: rowCount } },
+        { userId, ipAddress: clientIp }
+      ).catch(() => {
+        // Silently ignore analytics tracking errors
+      });
+    });
+
+    return new Response(body, {
+      status: 200,
+      headers: {
+        "Content-Type": EXPORT_CONTENT_TYPES[query.format],
+        "Content-Disposition": `attachment; filename="${buildExportFilename(query.format)}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch {
+    return createErrorResponse(CollectionErrorCodes.INTERNAL_ERROR, "An unexpected error occurred during export", 500);
+  }
+}
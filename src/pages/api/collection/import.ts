@@ -0,0 +1,146 @@
+/**
+ * POST /api/collection/import
+ *
+ * Import cards into the authenticated user's collection from a file.
+ *
+ * Features:
+ * - Bearer token authentication via Authorization header
+ * - Per-user rate limiting (10 imports per 15 minutes, dry runs included; `collection-import-user` policy)
+ * - `format=tcgcollectr|tcgplayer|dragonshield|ptcgl` (defaults to tcgcollectr):
+ *   our export CSV (card_id, variant and quantity columns required; condition,
+ *   language, grading_company, grade and cert_number optional), TCGplayer
+ *   app CSV, Dragon Shield/DeckBox-style CSV or a PTCGL deck list
+ * - File sent as the raw request body or as a multipart `file` field
+ * - Third-party lines are matched to catalog cards by set code/name and number;
+ *   unmatched lines are reported per row
+ * - `dry_run=true` validates and plans the import without writing anything
+ * - Third-party condition and language labels are mapped to their codes
+ * - `strategy=merge|replace` (defaults to merge) for rows whose entry (card,
+ *   variant, condition, language and grading) already exists in the collection
+ * - Per-row report: matched card, unknown card_id, invalid variant/quantity,
+ *   invalid condition/language/grading, or rows that would exceed the
+ *   10,000-card or 1,000-per-entry limits
+ * - Rows flagged as wishlisted in older exports are owned cards and are
+ *   imported like any other
+ * - Analytics event tracking for applied imports
+ *
+ * Response codes:
+ * - 200: Import applied (or previewed with dry_run); see per-row results
+ * - 400: Invalid query parameters, malformed CSV, missing columns or too many rows
+ * - 401: Missing or invalid bearer token
+ * - 409: Collection changed by a concurrent request while applying
+ * - 413: File larger than 2 MB
+ * - 422: Collection limit exceeded by a concurrent change while applying
+ * - 429: Rate limit exceeded
+ * - 500: Internal server error
+ */
+
+import type { APIContext } from "astro";
+import { CollectionServiceError, CollectionErrorCodes } from "../../../lib/services/collection.service";
+import { importCollectionRows, MAX_IMPORT_BYTES, parseCollectionCsv } from "../../../lib/services/import.service";
+import { resolveExternalImport } from "../../../lib/services/import-formats.service";
+import { trackEvent } from "../../../lib/services/analytics.service";
+import { importQuerySchema } from "../../../lib/validation/collection.schema";
+import { createErrorResponse, formatValidationErrors, getClientIp } from "../../../lib/utils/api-helpers";
+
+// Disable static prerendering for this API route
+export const prerender = false;
+
+/**
+ * POST handler for collection import
+ */
+export async function POST(context: APIContext): Promise<Response> {
+  const { request, locals, url } = context;
+  const supabase = locals.supabase;
+
+  try {
+    // Step 1: Get the user authenticated by the middleware
+    const user = locals.user;
+    if (!user) {
+      return createErrorResponse("UNAUTHORIZED", "Missing or invalid Authorization header", 401);
+    }
+
+    const userId = user.id;
+
+    // Step 2: Validate query parameters
+    const validationResult = importQuerySchema.safeParse(Object.fromEntries(url.searchParams));
+    if (!validationResult.success) {
+      return createErrorResponse(CollectionErrorCodes.VALIDATION_ERROR, "Invalid query parameters", 400, {
+        fields: formatValidationErrors(validationResult.error),
+      });
+    }
+
+    // Step 3: Read the uploaded file
+    if (Number(request.headers.get("Content-Length") || 0) > MAX_IMPORT_BYTES) {
+      return createErrorResponse("PAYLOAD_TOO_LARGE", "Import file must be 2 MB or smaller", 413);
+    }
+
+    let fileText: string;
+    if ((request.headers.get("Content-Type") || "").startsWith("multipart/form-data")) {
+      let file: FormDataEntryValue | null;
+      try {
+        file = (await request.formData()).get("file");
+      } catch {
+        return createErrorResponse(CollectionErrorCodes.VALIDATION_ERROR, "Invalid multipart request body", 400);
+      }
+
+      if (!file || typeof file === "string") {
+        return createErrorResponse(CollectionErrorCodes.VALIDATION_ERROR, "Missing import file", 400, {
+          fields: { file: ["file is required"] },
+        });
+      }
+
+      fileText = await file.text();
+    } else {
+      fileText = await request.text();
+    }
+
+    if (new TextEncoder().encode(fileText).byteLength > MAX_IMPORT_BYTES) {
+      return createErrorResponse("PAYLOAD_TOO_LARGE", "Import file must be 2 MB or smaller", 413);
+    }
+
+    // Step 4: Parse (and for third-party formats, match) the file, then plan and apply
+    const { format, ...options } = validationResult.data;
+    const { rows, rejected } =
+      format === "tcgcollectr"
+        ? { rows: parseCollectionCsv(fileText), rejected: [] }
+        : await resolveExternalImport(supabase, format, fileText);
+
+    const result = await importCollectionRows(supabase, userId, rows, options, rejected);
+
+    // Step 5: Track analytics event for applied imports (fire-and-forget)
+    if (!result.dry_run) {
+      const { total_rows, created, merged, replaced, failed } = result.summary;
+      trackEvent(
+        supabase,
+        {
+          event_type: "collection_imported",
+          event_data: { format, strategy: result.strategy, total_rows, created, merged, replaced, failed },
+        },
+        { userId, ipAddress: getClientIp(context) }
+      ).catch(() => {
+        // Silently ignore analytics tracking errors
+      });
+    }
+
+    return new Response(JSON.stringify(result), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    if (error instanceof CollectionServiceError) {
+      return new Response(JSON.stringify(error.toErrorResponse()), {
+        status: error.statusCode,
+        headers: {
+          "Content-Type": "application/json",
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    return createErrorResponse(CollectionErrorCodes.INTERNAL_ERROR, "An unexpected error occurred during import", 500);
+  }
+}
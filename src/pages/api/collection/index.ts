@@ -0,0 +1,181 @@
+/**
+ * GET /api/collection
+ *
+ * Retrieve the authenticated user's card collection with filtering and pagination.
+ *
+ * Features:
+ * - Bearer token authentication via Authorization header
+ * - Query validation with Zod (page, limit, sort, order, set_id, variant,
+ *   condition, language, grading_company, graded, search)
+ * - Nested card data for every collection entry
+ * - No-store cache header for sensitive user data
+ *
+ * Response codes:
+ * - 200: Collection page retrieved successfully
+ * - 400: Invalid query parameters
+ * - 401: Missing or invalid bearer token
+ * - 500: Internal server error
+ *
+ * POST /api/collection
+ *
+ * Add a card to the authenticated user's collection. If an entry with the same
+ * card, variant, condition, language and grading already exists, its quantity
+ * is increased instead; the same card in another condition or grade is a
+ * separate entry.
+ *
+ * Features:
+ * - Bearer token authentication via Authorization header
+ * - Per-user rate limiting (100 requests per minute, `collection-add-user` policy)
+ * - Duplicate entries merged into quantity increments
+ * - Grades validated against the grading company's scale (PSA, BGS, CGC)
+ * - Analytics event tracking for added cards
+ *
+ * Response codes:
+ * - 201: New collection entry created
+ * - 200: Existing entry quantity increased
+ * - 400: Validation error (invalid variant, quantity, condition, language, grading or JSON)
+ * - 401: Missing or invalid bearer token
+ * - 404: Card not found
+ * - 409: Entry kept changing under concurrent requests
+ * - 422: Collection (10,000) or per-entry (1,000) limit exceeded
+ * - 429: Rate limit exceeded
+ * - 500: Internal server error
+ */
+
+import type { APIContext } from "astro";
+import {
+  addCardToCollection,
+  listCollection,
+  CollectionServiceError,
+  CollectionErrorCodes,
+} from "../../../lib/services/collection.service";
+import { trackEvent } from "../../../lib/services/analytics.service";
+import { addUserCardSchema, collectionQuerySchema } from "../../../lib/validation/collection.schema";
+import { createErrorResponse, formatValidationErrors, getClientIp } from "../../../lib/utils/api-helpers";
+
+// Disable static prerendering for this API route
+export const prerender = false;
+
+/**
+ * GET handler for listing the user's collection
+ */
+export async function GET(context: APIContext): Promise<Response> {
+  const { locals, url } = context;
+  const supabase = locals.supabase;
+
+  try {
+    // Step 1: Get the user authenticated by the middleware
+    const user = locals.user;
+    if (!user) {
+      return createErrorResponse("UNAUTHORIZED", "Missing or invalid Authorization header", 401);
+    }
+
+    // Step 2: Validate query parameters
+    const validationResult = collectionQuerySchema.safeParse(Object.fromEntries(url.searchParams));
+    if (!validationResult.success) {
+      return createErrorResponse(CollectionErrorCodes.VALIDATION_ERROR, "Invalid query parameters", 400, {
+        fields: formatValidationErrors(validationResult.error),
+      });
+    }
+
+    // Step 3: Fetch collection page
+    const collection = await listCollection(supabase, user.id, validationResult.data);
+
+    return new Response(JSON.stringify(collection), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    if (error instanceof CollectionServiceError) {
+      return new Response(JSON.stringify(error.toErrorResponse()), {
+        status: error.statusCode,
+        headers: {
+          "Content-Type": "application/json",
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    return createErrorResponse(CollectionErrorCodes.INTERNAL_ERROR, "An unexpected error occurred", 500);
+  }
+}
+
+/**
+ * POST handler for adding a card to the user's collection
+ */
+export async function POST(context: APIContext): Promise<Response> {
+  const { request, locals } = context;
+  const supabase = locals.supabase;
+
+  try {
+    // Step 1: Get the user authenticated by the middleware
+    const user = locals.user;
+    if (!user) {
+      return createErrorResponse("UNAUTHORIZED", "Missing or invalid Authorization header", 401);
+    }
+
+    const userId = user.id;
+
+    // Step 2: Parse and validate request body
+    let requestBody: unknown;
+    try {
+      requestBody = await request.json();
+    } catch {
+      return createErrorResponse(CollectionErrorCodes.VALIDATION_ERROR, "Invalid JSON in request body", 400);
+    }
+
+    const validationResult = addUserCardSchema.safeParse(requestBody);
+    if (!validationResult.success) {
+      return createErrorResponse(CollectionErrorCodes.VALIDATION_ERROR, "Validation failed", 400, {
+        fields: formatValidationErrors(validationResult.error),
+      });
+    }
+
+    // Step 3: Add card (merging into an existing entry with the same identity if present)
+    const { entry, created } = await addCardToCollection(supabase, userId, validationResult.data);
+
+    // Step 4: Track analytics event (fire-and-forget)
+    trackEvent(
+      supabase,
+      {
+        event_type: "card_added",
+        event_data: {
+          card_id: entry.card_id,
+          variant: validationResult.data.variant,
+          quantity: validationResult.data.quantity,
+        },
+      },
+      { userId, ipAddress: getClientIp(context) }
+    ).catch(() => {
+      // Silently ignore analytics tracking errors
+    });
+
+    // Step 5: Return 201 for new entries, 200 for merged quantity updates
+    return new Response(JSON.stringify(entry), {
+      status: created ? 201 : 200,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    if (error instanceof CollectionServiceError) {
+      return new Response(JSON.stringify(error.toErrorResponse()), {
+        status: error.statusCode,
+        headers: {
+          "Content-Type": "application/json",
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    return createErrorResponse(
+      CollectionErrorCodes.INTERNAL_ERROR,
+      "An unexpected error occurred while adding card",
+      500
+    );
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * GET /api/collection/stats
+ *
+ * Retrieve aggregated statistics about the authenticated user's collection.
+ *
+ * Features:
+ * - Bearer token authentication via Authorization header
+ * - Single database round trip via the get_collection_stats function
+ * - No-store cache header for user-specific data
+ *
+ * Response codes:
+ * - 200: Statistics retrieved successfully
+ * - 401: Missing or invalid bearer token
+ * - 500: Internal server error
+ */
+
+import type { APIContext } from "astro";
+import { getCollectionStats } from "../../../../lib/services/collection-stats.service";
+import { CollectionServiceError, CollectionErrorCodes } from "../../../../lib/services/collection.service";
+import { createErrorResponse } from "../../../../lib/utils/api-helpers";
+
+// Disable static prerendering for this API route
+export const prerender = false;
+
+/**
+ * GET handler for collection statistics
+ */
+export async function GET(context: APIContext): Promise<Response> {
+  const { locals } = context;
+  const supabase = locals.supabase;
+
+  try {
+    // Step 1: Get the user authenticated by the middleware
+    const user = locals.user;
+    if (!user) {
+      return createErrorResponse("UNAUTHORIZED", "Missing or invalid Authorization header", 401);
+    }
+
+    // Step 2: Fetch statistics
+    const stats = await getCollectionStats(supabase, user.id);
+
+    return new Response(JSON.stringify(stats), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    if (error instanceof CollectionServiceError) {
+      return new Response(JSON.stringify(error.toErrorResponse()), {
+        status: error.statusCode,
+        headers: {
+          "Content-Type": "application/json",
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    return createErrorResponse(CollectionErrorCodes.INTERNAL_ERROR, "An unexpected error occurred", 500);
+  }
+}
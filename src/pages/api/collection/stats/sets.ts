@@ -0,0 +1,73 @@
+/**
+ * GET /api/collection/stats/sets
+ *
+ * Retrieve set completion statistics for the authenticated user's collection.
+ *
+ * Features:
+ * - Bearer token authentication via Authorization header
+ * - Single database round trip via the get_set_completion_stats function
+ * - Optional `include_empty=true` to list sets with no owned cards
+ * - No-store cache header for user-specific data
+ *
+ * Response codes:
+ * - 200: Set statistics retrieved successfully
+ * - 400: Invalid query parameters
+ * - 401: Missing or invalid bearer token
+ * - 500: Internal server error
+ */
+
+import type { APIContext } from "astro";
+import { getSetCompletionStats } from "../../../../lib/services/collection-stats.service";
+import { CollectionServiceError, CollectionErrorCodes } from "../../../../lib/services/collection.service";
+import { setStatsQuerySchema } from "../../../../lib/validation/collection.schema";
+import { createErrorResponse, formatValidationErrors } from "../../../../lib/utils/api-helpers";
+
+// Disable static prerendering for this API route
+export const prerender = false;
+
+/**
+ * GET handler for set completion statistics
+ */
+export async function GET(context: APIContext): Promise<Response> {
+  const { locals, url } = context;
+  const supabase = locals.supabase;
+
+  try {
+    // Step 1: Get the user authenticated by the middleware
+    const user = locals.user;
+    if (!user) {
+      return createErrorResponse("UNAUTHORIZED", "Missing or invalid Authorization header", 401);
+    }
+
+    // Step 2: Validate query parameters
+    const validationResult = setStatsQuerySchema.safeParse(Object.fromEntries(url.searchParams));
+    if (!validationResult.success) {
+      return createErrorResponse(CollectionErrorCodes.VALIDATION_ERROR, "Invalid query parameters", 400, {
+        fields: formatValidationErrors(validationResult.error),
+      });
+    }
+
+    // Step 3: Fetch set statistics
+    const data = await getSetCompletionStats(supabase, user.id, validationResult.data.include_empty);
+
+    return new Response(JSON.stringify({ data }), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    if (error instanceof CollectionServiceError) {
+      return new Response(JSON.stringify(error.toErrorResponse()), {
+        status: error.statusCode,
+        headers: {
+          "Content-Type": "application/json",
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    return createErrorResponse(CollectionErrorCodes.INTERNAL_ERROR, "An unexpected error occurred", 500);
+  }
+}
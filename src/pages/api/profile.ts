@@ -5,8 +5,7 @@
  * favorite card type/set, aggregated card count, and timestamps.
  *
  * Features:
- * - Bearer token authentication via Authorization header
- * - Supabase Auth integration for user verification
+ * - Bearer token authentication via the auth middleware
  * - Aggregated card count calculation from user_cards table
  * - No-store cache header for sensitive user data
  * - Comprehensive error handling with standardized responses
@@ -23,7 +22,7 @@
  * favorite Pokémon TCG type, and preferred set.
  *
  * Features:
- * - Bearer token authentication via Authorization header
+ * - Bearer token authentication via the auth middleware
  * - Validation of favorite type against canonical Pokémon TCG types
  * - Verification that favorite set exists in database
  * - Partial field updates with null-clearing support
@@ -36,13 +35,42 @@
  * - 401: Missing or invalid bearer token
  * - 404: Profile not found for authenticated user
  * - 500: Internal server error
+ *
+ * DELETE /api/profile
+ *
+ * Permanently delete the authenticated user's account and all of its data.
+ *
+ * Features:
+ * - Bearer token authentication via the auth middleware
+ * - Current password re-confirmation, throttled like logins (wrong passwords
+ *   count towards the failed-login back-off and lockout)
+ * - Auth user removed through the admin API; profile, collection and
+ *   analytics events cascade
+ * - Session cookies cleared
+ *
+ * Response codes:
+ * - 200: Account deleted
+ * - 400: Validation error (missing password or invalid JSON)
+ * - 401: Missing or invalid bearer token, or incorrect password
+ * - 429: Rate limit exceeded or too many failed attempts
+ * - 500: Internal server error (including a missing SUPABASE_SERVICE_ROLE_KEY)
  */
 
 import type { APIContext } from "astro";
-import { getProfileWithTotals, updateProfile, ProfileServiceError } from "../../lib/services/profile.service";
-import { createErrorResponse } from "../../lib/utils/api-helpers";
-import { updateProfileSchema } from "../../lib/validation/profile.schema";
+import {
+  deleteAccount,
+  getProfileWithTotals,
+  updateProfile,
+  ProfileServiceError,
+} from "../../lib/services/profile.service";
+import { AuthErrorCodes, AuthServiceError, verifyUserPassword } from "../../lib/services/auth.service";
+import { clearLoginFailures, getLoginThrottle, recordLoginFailure } from "../../lib/services/login-attempts.service";
+import { createErrorResponse, formatValidationErrors } from "../../lib/utils/api-helpers";
+import { clearSessionCookies } from "../../lib/utils/auth-cookies";
+import { deleteAccountSchema, updateProfileSchema } from "../../lib/validation/profile.schema";
+import { createSupabaseAdminClient, createSupabaseServerClient } from "../../db/supabase.client";
 import type { SupabaseClient } from "../../db/supabase.client";
+import type { MessageResponseDTO } from "../../types";
 
 // Disable static prerendering for this API route
 export const prerender = false;
@@ -54,32 +82,18 @@ export const prerender = false;
  * @returns Response with profile data (200), unauthorized error (401), not found (404), or server error (500)
  */
 export async function GET(context: APIContext): Promise<Response> {
-  const { request, locals } = context;
+  const { locals } = context;
   const supabase = locals.supabase as SupabaseClient;
 
   try {
-    // Step 1: Extract and validate Authorization header
-    const authHeader = request.headers.get("Authorization");
-
-    if (!authHeader) {
-      return createErrorResponse("UNAUTHORIZED", "Missing Authorization header", 401);
+    // Step 1: Get the user authenticated by the middleware
+    if (!locals.user) {
+      return createErrorResponse("UNAUTHORIZED", "Missing or invalid Authorization header", 401);
     }
 
-    // Verify the header format (should be "Bearer <token>")
-    if (!authHeader.startsWith("Bearer ")) {
-      return createErrorResponse("UNAUTHORIZED", "Invalid Authorization header format", 401);
-    }
-
-    // Step 2: Authenticate user via Supabase Auth
-    const { data: authData, error: authError } = await supabase.auth.getUser();
-
-    if (authError || !authData?.user) {
-      return createErrorResponse("UNAUTHORIZED", "Invalid or expired token", 401);
-    }
+    const userId = locals.user.id;
 
-    const userId = authData.user.id;
-
-    // Step 3: Fetch profile with aggregated card count
+    // Step 2: Fetch profile with aggregated card count
     // eslint-disable-next-line no-console
     console.log("Fetching profile for userId:", userId);
     try {
@@ -90,7 +104,7 @@ export async function GET(context: APIContext): Promise<Response> {
         return createErrorResponse("NOT_FOUND", "Profile not found for authenticated user", 404);
       }
 
-      // Step 4: Return successful response with no-store cache header
+      // Step 3: Return successful response with no-store cache header
       return new Response(JSON.stringify(profile), {
         status: 200,
         headers: {
@@ -139,27 +153,14 @@ export async function PATCH(context: APIContext): Promise<Response> {
   const supabase = locals.supabase as SupabaseClient;
 
   try {
-    // Step 1: Extract and validate Authorization header
-    const authHeader = request.headers.get("Authorization");
-
-    if (!authHeader) {
-      return createErrorResponse("UNAUTHORIZED", "Missing Authorization header", 401);
-    }
-
-    if (!authHeader.startsWith("Bearer ")) {
-      return createErrorResponse("UNAUTHORIZED", "Invalid Authorization header format", 401);
+    // Step 1: Get the user authenticated by the middleware
+    if (!locals.user) {
+      return createErrorResponse("UNAUTHORIZED", "Missing or invalid Authorization header", 401);
     }
 
-    // Step 2: Authenticate user via Supabase Auth
-    const { data: authData, error: authError } = await supabase.auth.getUser();
+    const userId = locals.user.id;
 
-    if (authError || !authData?.user) {
-      return createErrorResponse("UNAUTHORIZED", "Invalid or expired token", 401);
-    }
-
-    const userId = authData.user.id;
-
-    // Step 3: Parse and validate request body
+    // Step 2: Parse and validate request body
     let requestBody: unknown;
     try {
       requestBody = await request.json();
@@ -168,7 +169,7 @@ export async function PATCH(context: APIContext): Promise<Response> {
       return createErrorResponse("VALIDATION_ERROR", "Invalid JSON in request body", 400, { field: "body" });
     }
 
-    // Step 4: Validate request body against schema
+    // Step 3: Validate request body against schema
     const validationResult = updateProfileSchema.safeParse(requestBody);
 
     if (!validationResult.success) {
@@ -181,7 +182,7 @@ export async function PATCH(context: APIContext): Promise<Response> {
       return createErrorResponse("VALIDATION_ERROR", firstErrorMessage, 400, { field: firstErrorField, errors });
     }
 
-    // Step 5: Call service to update profile
+    // Step 4: Call service to update profile
     // eslint-disable-next-line no-console
     console.log("Updating profile for userId:", userId, "payload:", validationResult.data);
 
@@ -193,7 +194,7 @@ export async function PATCH(context: APIContext): Promise<Response> {
         return createErrorResponse("NOT_FOUND", "Profile not found for authenticated user", 404);
       }
 
-      // Step 6: Return successful response with no-store cache header
+      // Step 5: Return successful response with no-store cache header
       return new Response(JSON.stringify(updatedProfile), {
         status: 200,
         headers: {
@@ -227,3 +228,106 @@ export async function PATCH(context: APIContext): Promise<Response> {
     return createErrorResponse("INTERNAL_ERROR", "An unexpected error occurred", 500);
   }
 }
+
+/**
+ * DELETE handler for account deletion
+ *
+ * @param context - Astro APIContext containing request, locals, and response utilities
+ * @returns Response with confirmation (200), validation error (400), unauthorized (401), throttled (429), or server error (500)
+ */
+export async function DELETE(context: APIContext): Promise<Response> {
+  const { request, locals, cookies } = context;
+
+  try {
+    // Step 1: Get the user authenticated by the middleware
+    const user = locals.user;
+    if (!user) {
+      return createErrorResponse("UNAUTHORIZED", "Missing or invalid Authorization header", 401);
+    }
+
+    if (!user.email) {
+      return createErrorResponse(
+        "VALIDATION_ERROR",
+        "Password re-confirmation is not available for accounts without an email",
+        400
+      );
+    }
+
+    // Step 2: Parse and validate request body
+    let requestBody: unknown;
+    try {
+      requestBody = await request.json();
+    } catch {
+      return createErrorResponse("VALIDATION_ERROR", "Invalid JSON in request body", 400);
+    }
+
+    const validationResult = deleteAccountSchema.safeParse(requestBody);
+    if (!validationResult.success) {
+      return createErrorResponse("VALIDATION_ERROR", "Validation failed", 400, {
+        fields: formatValidationErrors(validationResult.error),
+      });
+    }
+
+    // Step 3: Deleting auth users requires the service role
+    const adminClient = createSupabaseAdminClient();
+    if (!adminClient) {
+      return createErrorResponse(
+        "INTERNAL_ERROR",
+        "Account deletion requires SUPABASE_SERVICE_ROLE_KEY to be configured",
+        500
+      );
+    }
+
+    // Step 4: Re-confirm the password, throttled like logins
+    const throttle = await getLoginThrottle(user.email);
+    if (throttle.retryAfter > 0) {
+      return createErrorResponse(
+        AuthErrorCodes.TOO_MANY_FAILED_ATTEMPTS,
+        "Too many failed password attempts. Please try again later.",
+        429,
+        { retryAfter: throttle.retryAfter }
+      );
+    }
+
+    try {
+      await verifyUserPassword(user.email, validationResult.data.password, createSupabaseServerClient());
+    } catch (error) {
+      if (error instanceof AuthServiceError && error.code === AuthErrorCodes.INVALID_CREDENTIALS) {
+        await recordLoginFailure(user.email);
+      }
+      throw error;
+    }
+
+    // Step 5: Delete the auth user; profile, collection and analytics events cascade
+    await deleteAccount(adminClient, user.id);
+    await clearLoginFailures(user.email);
+
+    // Step 6: Clear the session cookies of the deleted account
+    clearSessionCookies(cookies);
+
+    // Step 7: Return success response
+    const response: MessageResponseDTO = {
+      message: "Account deleted",
+    };
+
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    if (error instanceof AuthServiceError || error instanceof ProfileServiceError) {
+      return new Response(JSON.stringify(error.toErrorResponse()), {
+        status: error.statusCode,
+        headers: {
+          "Content-Type": "application/json",
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    return createErrorResponse("INTERNAL_ERROR", "An unexpected error occurred", 500);
+  }
+}
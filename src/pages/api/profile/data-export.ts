@@ -0,0 +1,87 @@
+/**
+ * GET /api/profile/data-export
+ *
+ * Download everything stored about the authenticated user.
+ *
+ * Features:
+ * - Bearer token authentication via the auth middleware
+ * - `format=zip|json` (defaults to zip): a ZIP archive with account.json,
+ *   profile.json, collection.json, wishlist.json and analytics_events.json, or the same
+ *   sections as a single AccountDataExportDTO document
+ * - Per-user rate limiting (5 exports per hour, `data-export-user` policy)
+ * - Download filename via Content-Disposition (tcgcollectr_data_YYYYMMDD_HHMMSS.<format>)
+ * - No-store cache header for sensitive user data
+ *
+ * Response codes:
+ * - 200: Export generated
+ * - 400: Invalid query parameters
+ * - 401: Missing or invalid bearer token
+ * - 429: Rate limit exceeded
+ * - 500: Internal server error
+ */
+
+import type { APIContext } from "astro";
+import {
+  buildAccountDataExport,
+  buildDataExportFilename,
+  createAccountDataArchive,
+  DATA_EXPORT_CONTENT_TYPES,
+} from "../../../lib/services/data-export.service";
+import { ProfileServiceError } from "../../../lib/services/profile.service";
+import { dataExportQuerySchema } from "../../../lib/validation/profile.schema";
+import { createErrorResponse, formatValidationErrors } from "../../../lib/utils/api-helpers";
+
+// Disable static prerendering for this API route
+export const prerender = false;
+
+/**
+ * GET handler for the account data export
+ */
+export async function GET(context: APIContext): Promise<Response> {
+  const { locals, url } = context;
+
+  try {
+    // Step 1: Get the user authenticated by the middleware
+    const user = locals.user;
+    if (!user) {
+      return createErrorResponse("UNAUTHORIZED", "Missing or invalid Authorization header", 401);
+    }
+
+    // Step 2: Validate query parameters
+    const validationResult = dataExportQuerySchema.safeParse(Object.fromEntries(url.searchParams));
+    if (!validationResult.success) {
+      return createErrorResponse("VALIDATION_ERROR", "Invalid query parameters", 400, {
+        fields: formatValidationErrors(validationResult.error),
+      });
+    }
+
+    const { format } = validationResult.data;
+
+    // Step 3: Gather the user's data
+    const dataExport = await buildAccountDataExport(locals.supabase, user);
+
+    // Step 4: Return the bundle as a download
+    const body = format === "zip" ? createAccountDataArchive(dataExport) : JSON.stringify(dataExport, null, 2);
+
+    return new Response(body, {
+      status: 200,
+      headers: {
+        "Content-Type": DATA_EXPORT_CONTENT_TYPES[format],
+        "Content-Disposition": `attachment; filename="${buildDataExportFilename(format, new Date(dataExport.exported_at))}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    if (error instanceof ProfileServiceError) {
+      return new Response(JSON.stringify(error.toErrorResponse()), {
+        status: error.statusCode,
+        headers: {
+          "Content-Type": "application/json",
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    return createErrorResponse("INTERNAL_ERROR", "An unexpected error occurred during data export", 500);
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * GET /api/sets/:setId
+ *
+ * Retrieve a single set including sync metadata.
+ *
+ * Features:
+ * - Public endpoint (no authentication required)
+ *
+ * Response codes:
+ * - 200: Set retrieved successfully
+ * - 400: Invalid set ID
+ * - 404: Set not found
+ * - 500: Internal server error
+ */
+
+import type { APIContext } from "astro";
+import { getSetById, SetServiceError, SetErrorCodes } from "../../../lib/services/set.service";
+import { setIdSchema } from "../../../lib/validation/set.schema";
+import { createErrorResponse } from "../../../lib/utils/api-helpers";
+
+// Disable static prerendering for this API route
+export const prerender = false;
+
+/**
+ * GET handler for set detail
+ */
+export async function GET(context: APIContext): Promise<Response> {
+  const { locals, params } = context;
+
+  try {
+    // Step 1: Validate path parameter
+    const idResult = setIdSchema.safeParse(params.setId);
+    if (!idResult.success) {
+      return createErrorResponse(SetErrorCodes.VALIDATION_ERROR, "Invalid set ID", 400, { field: "setId" });
+    }
+
+    // Step 2: Fetch set
+    const set = await getSetById(locals.supabase, idResult.data);
+    if (!set) {
+      return createErrorResponse(SetErrorCodes.NOT_FOUND, "Set not found", 404);
+    }
+
+    return new Response(JSON.stringify(set), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+      },
+    });
+  } catch (error) {
+    if (error instanceof SetServiceError) {
+      return new Response(JSON.stringify(error.toErrorResponse()), {
+        status: error.statusCode,
+        headers: {
+          "Content-Type": "application/json",
+        },
+      });
+    }
+
+    return createErrorResponse(SetErrorCodes.INTERNAL_ERROR, "An unexpected error occurred", 500);
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * GET /api/sets/:setId/completion
+ *
+ * Retrieve the authenticated user's completion progress for a set.
+ *
+ * Features:
+ * - Bearer token authentication via Authorization header
+ * - Counts distinct owned cards; variants of the same card count once
+ * - No-store cache header for user-specific data
+ *
+ * Response codes:
+ * - 200: Completion retrieved successfully
+ * - 400: Invalid set ID
+ * - 401: Missing or invalid bearer token
+ * - 404: Set not found
+ * - 500: Internal server error
+ */
+
+import type { APIContext } from "astro";
+import { getSetCompletion, SetServiceError, SetErrorCodes } from "../../../../lib/services/set.service";
+import { setIdSchema } from "../../../../lib/validation/set.schema";
+import { createErrorResponse } from "../../../../lib/utils/api-helpers";
+
+// Disable static prerendering for this API route
+export const prerender = false;
+
+/**
+ * GET handler for set completion
+ */
+export async function GET(context: APIContext): Promise<Response> {
+  const { locals, params } = context;
+  const supabase = locals.supabase;
+
+  try {
+    // Step 1: Get the user authenticated by the middleware
+    const user = locals.user;
+    if (!user) {
+      return createErrorResponse("UNAUTHORIZED", "Missing or invalid Authorization header", 401);
+    }
+
+    // Step 2: Validate path parameter
+    const idResult = setIdSchema.safeParse(params.setId);
+    if (!idResult.success) {
+      return createErrorResponse(SetErrorCodes.VALIDATION_ERROR, "Invalid set ID", 400, { field: "setId" });
+    }
+
+    // Step 3: Compute completion
+    const completion = await getSetCompletion(supabase, user.id, idResult.data);
+    if (!completion) {
+      return createErrorResponse(SetErrorCodes.NOT_FOUND, "Set not found", 404);
+    }
+
+    return new Response(JSON.stringify(completion), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    if (error instanceof SetServiceError) {
+      return new Response(JSON.stringify(error.toErrorResponse()), {
+        status: error.statusCode,
+        headers: {
+          "Content-Type": "application/json",
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    return createErrorResponse(SetErrorCodes.INTERNAL_ERROR, "An unexpected error occurred", 500);
+  }
+}
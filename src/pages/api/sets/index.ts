@@ -0,0 +1,68 @@
+/**
+ * GET /api/sets
+ *
+ * Browse Pokémon TCG sets with filtering, sorting and pagination.
+ *
+ * Features:
+ * - Public endpoint (no authentication required)
+ * - Partial name search and exact series filter
+ * - Sorting by name, release_date or series
+ * - Optional `group_by=series` mode returning every matching set grouped by
+ *   series in release-date order (unpaginated) for the set browser
+ *
+ * Response codes:
+ * - 200: Sets retrieved successfully
+ * - 400: Invalid query parameters
+ * - 500: Internal server error
+ */
+
+import type { APIContext } from "astro";
+import { listSets, listSetsGroupedBySeries, SetServiceError, SetErrorCodes } from "../../../lib/services/set.service";
+import { setsQuerySchema } from "../../../lib/validation/set.schema";
+import { createErrorResponse, formatValidationErrors } from "../../../lib/utils/api-helpers";
+
+// Disable static prerendering for this API route
+export const prerender = false;
+
+/**
+ * GET handler for set browsing
+ */
+export async function GET(context: APIContext): Promise<Response> {
+  const { locals, url } = context;
+
+  try {
+    // Step 1: Validate query parameters
+    const validationResult = setsQuerySchema.safeParse(Object.fromEntries(url.searchParams));
+    if (!validationResult.success) {
+      return createErrorResponse(SetErrorCodes.VALIDATION_ERROR, "Invalid query parameters", 400, {
+        fields: formatValidationErrors(validationResult.error),
+      });
+    }
+
+    const query = validationResult.data;
+
+    // Step 2: Fetch sets, grouped by series or paginated
+    const body =
+      query.group_by === "series"
+        ? { data: await listSetsGroupedBySeries(locals.supabase, query) }
+        : await listSets(locals.supabase, query);
+
+    return new Response(JSON.stringify(body), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+      },
+    });
+  } catch (error) {
+    if (error instanceof SetServiceError) {
+      return new Response(JSON.stringify(error.toErrorResponse()), {
+        status: error.statusCode,
+        headers: {
+          "Content-Type": "application/json",
+        },
+      });
+    }
+
+    return createErrorResponse(SetErrorCodes.INTERNAL_ERROR, "An unexpected error occurred", 500);
+  }
+}
@@ -0,0 +1,204 @@
+/**
+ * GET /api/wishlist/:itemId
+ *
+ * Retrieve a single item from the authenticated user's wishlist.
+ *
+ * Response codes:
+ * - 200: Wishlist item retrieved successfully
+ * - 400: Invalid wishlist item ID
+ * - 401: Missing or invalid bearer token
+ * - 404: Wishlist item not found
+ * - 500: Internal server error
+ *
+ * PATCH /api/wishlist/:itemId
+ *
+ * Update the desired variant, desired quantity, priority and/or maximum price
+ * of a wishlist item. Changing the desired variant or quantity re-evaluates
+ * whether the item is fulfilled.
+ *
+ * Response codes:
+ * - 200: Wishlist item updated successfully
+ * - 400: Validation error (invalid ID, variant, quantity, priority, price or JSON)
+ * - 401: Missing or invalid bearer token
+ * - 404: Wishlist item not found
+ * - 409: Another item already wishes for this card and variant
+ * - 500: Internal server error
+ *
+ * DELETE /api/wishlist/:itemId
+ *
+ * Remove an item from the authenticated user's wishlist.
+ *
+ * Response codes:
+ * - 204: Wishlist item removed
+ * - 400: Invalid wishlist item ID
+ * - 401: Missing or invalid bearer token
+ * - 404: Wishlist item not found
+ * - 500: Internal server error
+ *
+ * Items owned by other users are reported as 404 so their existence is not revealed.
+ */
+
+import type { APIContext } from "astro";
+import {
+  getWishlistItem,
+  updateWishlistItem,
+  removeWishlistItem,
+  WishlistServiceError,
+  WishlistErrorCodes,
+} from "../../../lib/services/wishlist.service";
+import { updateWishlistItemSchema, wishlistItemIdSchema } from "../../../lib/validation/wishlist.schema";
+import { createErrorResponse, formatValidationErrors } from "../../../lib/utils/api-helpers";
+
+// Disable static prerendering for this API route
+export const prerender = false;
+
+/**
+ * GET handler for a single wishlist item
+ */
+export async function GET(context: APIContext): Promise<Response> {
+  const { locals, params } = context;
+  const supabase = locals.supabase;
+
+  try {
+    // Step 1: Get the user authenticated by the middleware
+    const user = locals.user;
+    if (!user) {
+      return createErrorResponse("UNAUTHORIZED", "Missing or invalid Authorization header", 401);
+    }
+
+    // Step 2: Validate path parameter
+    const idResult = wishlistItemIdSchema.safeParse(params.itemId);
+    if (!idResult.success) {
+      return createErrorResponse(WishlistErrorCodes.VALIDATION_ERROR, "Invalid wishlist item ID", 400, {
+        field: "itemId",
+      });
+    }
+
+    // Step 3: Fetch item
+    const item = await getWishlistItem(supabase, user.id, idResult.data);
+    if (!item) {
+      return createErrorResponse(WishlistErrorCodes.NOT_FOUND, "Wishlist item not found", 404);
+    }
+
+    return new Response(JSON.stringify(item), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    return handleServiceError(error);
+  }
+}
+
+/**
+ * PATCH handler for updating a wishlist item
+ */
+export async function PATCH(context: APIContext): Promise<Response> {
+  const { request, locals, params } = context;
+  const supabase = locals.supabase;
+
+  try {
+    // Step 1: Get the user authenticated by the middleware
+    const user = locals.user;
+    if (!user) {
+      return createErrorResponse("UNAUTHORIZED", "Missing or invalid Authorization header", 401);
+    }
+
+    // Step 2: Validate path parameter
+    const idResult = wishlistItemIdSchema.safeParse(params.itemId);
+    if (!idResult.success) {
+      return createErrorResponse(WishlistErrorCodes.VALIDATION_ERROR, "Invalid wishlist item ID", 400, {
+        field: "itemId",
+      });
+    }
+
+    // Step 3: Parse and validate request body
+    let requestBody: unknown;
+    try {
+      requestBody = await request.json();
+    } catch {
+      return createErrorResponse(WishlistErrorCodes.VALIDATION_ERROR, "Invalid JSON in request body", 400);
+    }
+
+    const validationResult = updateWishlistItemSchema.safeParse(requestBody);
+    if (!validationResult.success) {
+      return createErrorResponse(WishlistErrorCodes.VALIDATION_ERROR, "Validation failed", 400, {
+        fields: formatValidationErrors(validationResult.error),
+      });
+    }
+
+    // Step 4: Update item
+    const updated = await updateWishlistItem(supabase, user.id, idResult.data, validationResult.data);
+    if (!updated) {
+      return createErrorResponse(WishlistErrorCodes.NOT_FOUND, "Wishlist item not found", 404);
+    }
+
+    return new Response(JSON.stringify(updated), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    return handleServiceError(error);
+  }
+}
+
+/**
+ * DELETE handler for removing a wishlist item
+ */
+export async function DELETE(context: APIContext): Promise<Response> {
+  const { locals, params } = context;
+  const supabase = locals.supabase;
+
+  try {
+    // Step 1: Get the user authenticated by the middleware
+    const user = locals.user;
+    if (!user) {
+      return createErrorResponse("UNAUTHORIZED", "Missing or invalid Authorization header", 401);
+    }
+
+    // Step 2: Validate path parameter
+    const idResult = wishlistItemIdSchema.safeParse(params.itemId);
+    if (!idResult.success) {
+      return createErrorResponse(WishlistErrorCodes.VALIDATION_ERROR, "Invalid wishlist item ID", 400, {
+        field: "itemId",
+      });
+    }
+
+    // Step 3: Remove item
+    const removed = await removeWishlistItem(supabase, user.id, idResult.data);
+    if (!removed) {
+      return createErrorResponse(WishlistErrorCodes.NOT_FOUND, "Wishlist item not found", 404);
+    }
+
+    return new Response(null, {
+      status: 204,
+      headers: {
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    return handleServiceError(error);
+  }
+}
+
+/**
+ * Map service and unexpected errors to standardized error responses
+ */
+function handleServiceError(error: unknown): Response {
+  if (error instanceof WishlistServiceError) {
+    return new Response(JSON.stringify(error.toErrorResponse()), {
+      status: error.statusCode,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-store",
+      },
+    });
+  }
+
+  return createErrorResponse(WishlistErrorCodes.INTERNAL_ERROR, "An unexpected error occurred", 500);
+}
@@ -0,0 +1,148 @@
+/**
+ * GET /api/wishlist
+ *
+ * Retrieve the authenticated user's wishlist with filtering and pagination.
+ *
+ * Features:
+ * - Bearer token authentication via Authorization header
+ * - Query validation with Zod (page, limit, sort, order, set_id, priority, fulfilled, search)
+ * - Nested card data for every wishlist item
+ * - No-store cache header for sensitive user data
+ *
+ * Response codes:
+ * - 200: Wishlist page retrieved successfully
+ * - 400: Invalid query parameters
+ * - 401: Missing or invalid bearer token
+ * - 500: Internal server error
+ *
+ * POST /api/wishlist
+ *
+ * Add a card to the authenticated user's wishlist. The item is fulfilled
+ * automatically once the desired quantity of the desired variant (any variant
+ * when desired_variant is null) is in the collection.
+ *
+ * Features:
+ * - Bearer token authentication via Authorization header
+ * - Per-user rate limiting (100 requests per minute, `wishlist-add-user` policy)
+ * - Wishlisted cards do not count toward the collection totals or limits
+ *
+ * Response codes:
+ * - 201: Wishlist item created
+ * - 400: Validation error (invalid variant, quantity, priority, price or JSON)
+ * - 401: Missing or invalid bearer token
+ * - 404: Card not found
+ * - 409: Card and desired variant already on the wishlist
+ * - 429: Rate limit exceeded
+ * - 500: Internal server error
+ */
+
+import type { APIContext } from "astro";
+import {
+  addWishlistItem,
+  listWishlist,
+  WishlistServiceError,
+  WishlistErrorCodes,
+} from "../../../lib/services/wishlist.service";
+import { addWishlistItemSchema, wishlistQuerySchema } from "../../../lib/validation/wishlist.schema";
+import { createErrorResponse, formatValidationErrors } from "../../../lib/utils/api-helpers";
+
+// Disable static prerendering for this API route
+export const prerender = false;
+
+/**
+ * GET handler for listing the user's wishlist
+ */
+export async function GET(context: APIContext): Promise<Response> {
+  const { locals, url } = context;
+  const supabase = locals.supabase;
+
+  try {
+    // Step 1: Get the user authenticated by the middleware
+    const user = locals.user;
+    if (!user) {
+      return createErrorResponse("UNAUTHORIZED", "Missing or invalid Authorization header", 401);
+    }
+
+    // Step 2: Validate query parameters
+    const validationResult = wishlistQuerySchema.safeParse(Object.fromEntries(url.searchParams));
+    if (!validationResult.success) {
+      return createErrorResponse(WishlistErrorCodes.VALIDATION_ERROR, "Invalid query parameters", 400, {
+        fields: formatValidationErrors(validationResult.error),
+      });
+    }
+
+    // Step 3: Fetch wishlist page
+    const wishlist = await listWishlist(supabase, user.id, validationResult.data);
+
+    return new Response(JSON.stringify(wishlist), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    return handleServiceError(error, "An unexpected error occurred");
+  }
+}
+
+/**
+ * POST handler for adding a card to the user's wishlist
+ */
+export async function POST(context: APIContext): Promise<Response> {
+  const { request, locals } = context;
+  const supabase = locals.supabase;
+
+  try {
+    // Step 1: Get the user authenticated by the middleware
+    const user = locals.user;
+    if (!user) {
+      return createErrorResponse("UNAUTHORIZED", "Missing or invalid Authorization header", 401);
+    }
+
+    // Step 2: Parse and validate request body
+    let requestBody: unknown;
+    try {
+      requestBody = await request.json();
+    } catch {
+      return createErrorResponse(WishlistErrorCodes.VALIDATION_ERROR, "Invalid JSON in request body", 400);
+    }
+
+    const validationResult = addWishlistItemSchema.safeParse(requestBody);
+    if (!validationResult.success) {
+      return createErrorResponse(WishlistErrorCodes.VALIDATION_ERROR, "Validation failed", 400, {
+        fields: formatValidationErrors(validationResult.error),
+      });
+    }
+
+    // Step 3: Add the wishlist item
+    const item = await addWishlistItem(supabase, user.id, validationResult.data);
+
+    return new Response(JSON.stringify(item), {
+      status: 201,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    return handleServiceError(error, "An unexpected error occurred while adding card to wishlist");
+  }
+}
+
+/**
+ * Map service and unexpected errors to standardized error responses
+ */
+function handleServiceError(error: unknown, fallbackMessage: string): Response {
+  if (error instanceof WishlistServiceError) {
+    return new Response(JSON.stringify(error.toErrorResponse()), {
+      status: error.statusCode,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-store",
+      },
+    });
+  }
+
+  return createErrorResponse(WishlistErrorCodes.INTERNAL_ERROR, fallbackMessage, 500);
+}
@@ -5,7 +5,8 @@
  * All DTOs are derived from database entity types defined in database.types.ts
  */
 
-import type { Tables } from "./db/database.types";
+import type { User } from "@supabase/supabase-js";
+import type { Enums, Tables, TablesInsert } from "./db/database.types";
 
 // =============================================================================
 // AUTHENTICATION DTOs
@@ -54,6 +55,154 @@ export interface AuthResponseDTO {
   session: AuthSessionDTO;
 }
 
+/**
+ * Authenticator assurance level of a session
+ * aal1: password, one-time code or OAuth; aal2: additionally verified with a second factor (TOTP)
+ */
+export type AuthenticatorAssuranceLevel = "aal1" | "aal2";
+
+/**
+ * Verified MFA factor a user can step up with
+ */
+export interface MfaFactorDTO {
+  id: string;
+  factor_type: "totp";
+  friendly_name: string | null;
+}
+
+/**
+ * Sign-in response for users with a verified MFA factor
+ * The first factor was accepted, but instead of a full session the client gets
+ * a short-lived AAL1 access token (no refresh token) that is only good for
+ * POST /api/auth/mfa/challenge and POST /api/auth/mfa/verify
+ */
+export interface MfaRequiredResponseDTO {
+  mfa_required: true;
+  user: AuthUserDTO;
+  mfa: {
+    access_token: string;
+    expires_at: number;
+    factors: MfaFactorDTO[];
+  };
+}
+
+/**
+ * Response of the sign-in endpoints: a full session, or an MFA step-up
+ */
+export type LoginResponseDTO = AuthResponseDTO | MfaRequiredResponseDTO;
+
+/**
+ * Request body for enrolling a TOTP factor
+ */
+export interface MfaEnrollRequestDTO {
+  friendly_name?: string;
+}
+
+/**
+ * Response for a TOTP enrollment
+ * The factor stays unverified until a challenge for it is verified
+ */
+export interface MfaEnrollResponseDTO {
+  factor_id: string;
+  factor_type: "totp";
+  friendly_name: string | null;
+  totp: {
+    /** SVG data URI of the otpauth QR code */
+    qr_code: string;
+    secret: string;
+    uri: string;
+  };
+}
+
+/**
+ * Request body for creating an MFA challenge
+ */
+export interface MfaChallengeRequestDTO {
+  factor_id: string;
+}
+
+/**
+ * Response for an MFA challenge
+ */
+export interface MfaChallengeResponseDTO {
+  challenge_id: string;
+  factor_id: string;
+  /** Challenge expiry in seconds since epoch */
+  expires_at: number;
+}
+
+/**
+ * Request body for verifying an MFA challenge
+ * Either factor_id, challenge_id and code, or a recovery_code
+ */
+export interface MfaVerifyRequestDTO {
+  factor_id?: string;
+  challenge_id?: string;
+  code?: string;
+  recovery_code?: string;
+}
+
+/**
+ * Response for a verified MFA challenge: an AAL2 session
+ * recovery_codes is only present when the user's first factor was activated,
+ * and is the only time the codes are shown
+ */
+export interface MfaVerifyResponseDTO extends AuthResponseDTO {
+  recovery_codes?: string[];
+}
+
+/**
+ * Session resolved by the auth middleware for the current request
+ * Exposed to routes as context.locals.session
+ */
+export interface RequestSession {
+  access_token: string;
+  /** Refresh token of cookie sessions, null for Bearer-authenticated requests */
+  refresh_token: string | null;
+  /** Token expiry in seconds since epoch, null if the token carries none */
+  expires_at: number | null;
+  /** Assurance level from the token's aal claim, null if the token carries none */
+  aal: AuthenticatorAssuranceLevel | null;
+}
+
+/**
+ * Authenticated user and session for the current request
+ */
+export interface RequestAuth {
+  user: User;
+  session: RequestSession;
+}
+
+/**
+ * Active session of the authenticated user
+ * device is a readable summary of the user agent recorded at sign-in (e.g. "Firefox on Windows")
+ */
+export interface UserSessionDTO {
+  id: string;
+  device: string | null;
+  user_agent: string | null;
+  ip_hash: string | null;
+  created_at: string;
+  last_seen_at: string;
+  /** True for the session making the request */
+  current: boolean;
+}
+
+/**
+ * Response for the session list, most recently seen first
+ */
+export interface UserSessionListResponseDTO {
+  data: UserSessionDTO[];
+}
+
+/**
+ * Request body for session refresh
+ * Browser clients may omit refresh_token; the session cookie is used instead
+ */
+export interface RefreshSessionRequestDTO {
+  refresh_token?: string;
+}
+
 /**
  * Request body for password reset
  */
@@ -68,6 +217,51 @@ export interface UpdatePasswordRequestDTO {
   password: string;
 }
 
+/**
+ * Request body for changing the account email
+ * The current password re-confirms the change
+ */
+export interface ChangeEmailRequestDTO {
+  email: string;
+  password: string;
+}
+
+/**
+ * Kinds of verification email that can be resent
+ */
+export type VerificationEmailType = "signup" | "email_change";
+
+/**
+ * Request body for a passwordless sign-in email (magic link and one-time code)
+ */
+export interface MagicLinkRequestDTO {
+  email: string;
+}
+
+/**
+ * Request body for verifying a passwordless sign-in
+ * Either the emailed one-time code with its email, or the token_hash from the magic link
+ */
+export interface VerifyOtpRequestDTO {
+  email?: string;
+  token?: string;
+  token_hash?: string;
+}
+
+/**
+ * OAuth providers offered for social sign-in
+ * Must match the providers enabled under [auth.external] in supabase/config.toml
+ */
+export type OAuthProvider = "google" | "discord";
+
+/**
+ * Request body for resending a verification email
+ */
+export interface ResendVerificationRequestDTO {
+  email: string;
+  type?: VerificationEmailType;
+}
+
 /**
  * Command model for user registration
  * Encapsulates all data needed for registration processing
@@ -101,6 +295,60 @@ export interface ResetPasswordCommand {
   redirectTo: string;
 }
 
+/**
+ * Command model for an email change request
+ * Encapsulates all data needed to send the confirmation emails
+ */
+export interface ChangeEmailCommand {
+  /** New email address */
+  email: string;
+  ipAddress: string;
+  userAgent?: string;
+  redirectTo: string;
+}
+
+/**
+ * Command model for a passwordless sign-in email request
+ * Encapsulates all data needed for magic link processing
+ */
+export interface MagicLinkCommand {
+  email: string;
+  ipAddress: string;
+  userAgent?: string;
+  redirectTo: string;
+}
+
+/**
+ * Command model for passwordless sign-in verification
+ * Carries either the one-time code and its email, or the magic link token hash
+ */
+export type VerifyOtpCommand = ({ email: string; token: string } | { tokenHash: string }) & {
+  ipAddress: string;
+  userAgent?: string;
+};
+
+/**
+ * Command model for a verification email resend
+ * Encapsulates all data needed for resend processing
+ */
+export interface ResendVerificationCommand {
+  email: string;
+  type: VerificationEmailType;
+  ipAddress: string;
+  userAgent?: string;
+  redirectTo: string;
+}
+
+/**
+ * Command model for recording session metadata
+ * Encapsulates the new session's token and the client it was issued to
+ */
+export interface RecordSessionCommand {
+  accessToken: string;
+  ipAddress: string;
+  userAgent?: string;
+}
+
 // =============================================================================
 // PROFILE DTOs
 // =============================================================================
@@ -121,6 +369,39 @@ export interface UpdateProfileRequestDTO {
   favorite_set?: string | null;
 }
 
+/**
+ * Request body for deleting the account (DELETE /api/profile)
+ * The current password re-confirms the deletion
+ */
+export interface DeleteAccountRequestDTO {
+  password: string;
+}
+
+/**
+ * Query parameters for GET /api/profile/data-export
+ */
+export interface DataExportQueryDTO {
+  format?: "zip" | "json";
+}
+
+/**
+ * Everything stored about a user, returned by GET /api/profile/data-export
+ * The zip format holds one JSON file per top-level key
+ */
+export interface AccountDataExportDTO {
+  exported_at: string;
+  account: {
+    id: string;
+    email: string | null;
+    created_at: string;
+    last_sign_in_at: string | null;
+  };
+  profile: ProfileDTO | null;
+  collection: UserCardDTO[];
+  wishlist: WishlistItemDTO[];
+  analytics_events: Omit<Tables<"analytics_events">, "user_id">[];
+}
+
 // =============================================================================
 // SET DTOs
 // =============================================================================
@@ -137,6 +418,28 @@ export type SetDTO = Omit<Tables<"sets">, "created_at" | "updated_at" | "last_sy
  */
 export type SetDetailDTO = Omit<Tables<"sets">, "tcg_type">;
 
+/**
+ * Sets belonging to one series, used by the grouped set browser
+ * Series groups and their sets follow the requested release-date order
+ */
+export interface SetSeriesGroupDTO {
+  series: string | null;
+  sets: SetDTO[];
+}
+
+/**
+ * Query parameters for set browsing and filtering
+ */
+export interface SetsQueryDTO {
+  page?: number;
+  limit?: number;
+  sort?: "name" | "release_date" | "series";
+  order?: "asc" | "desc";
+  search?: string;
+  series?: string;
+  group_by?: "series";
+}
+
 /**
  * Set completion progress for a specific user
  * Computed from set data and user collection
@@ -191,6 +494,17 @@ export interface CardSearchQueryDTO {
  */
 export type UserCardDTO = Omit<Tables<"user_cards">, "user_id">;
 
+/**
+ * Condition, language and grading of a collection entry
+ * Together with card_id and variant these identify an entry: identical cards
+ * in different conditions, languages or grades are separate entries
+ * Derived from: Pick of user_cards identity columns
+ */
+export type UserCardGradingDTO = Pick<
+  Tables<"user_cards">,
+  "condition" | "language" | "grading_company" | "grade" | "cert_number"
+>;
+
 /**
  * User collection entry with nested card information
  * Derived from: UserCardDTO + CardDTO
@@ -207,15 +521,24 @@ export interface AddUserCardRequestDTO {
   card_id: string;
   variant: string;
   quantity?: number;
+  condition?: string | null;
+  language?: string;
+  grading_company?: string | null;
+  grade?: number | null;
+  cert_number?: string | null;
 }
 
 /**
  * Request body for updating a collection entry
- * Derived from: Partial pick of user_cards updatable fields
+ * Derived from: Pick of user_cards updatable fields
  */
 export interface UpdateUserCardRequestDTO {
   quantity?: number;
-  wishlisted?: boolean;
+  condition?: string | null;
+  language?: string;
+  grading_company?: string | null;
+  grade?: number | null;
+  cert_number?: string | null;
 }
 
 /**
@@ -228,7 +551,72 @@ export interface CollectionQueryDTO {
   order?: "asc" | "desc";
   set_id?: string;
   variant?: string;
-  wishlisted?: boolean;
+  condition?: string;
+  language?: string;
+  grading_company?: string;
+  graded?: boolean;
+  search?: string;
+}
+
+// =============================================================================
+// WISHLIST DTOs
+// =============================================================================
+
+/**
+ * Wishlist item priority, ordered low < medium < high
+ * Derived from: Enums<'wishlist_priority'>
+ */
+export type WishlistPriority = Enums<"wishlist_priority">;
+
+/**
+ * Wishlist item response
+ * Derived from: Tables<'wishlist_items'> excluding user_id (implied by auth context)
+ * desired_variant null means any variant; fulfilled_at is set once the wanted copies are owned
+ */
+export type WishlistItemDTO = Omit<Tables<"wishlist_items">, "user_id">;
+
+/**
+ * Wishlist item with nested card information
+ * Derived from: WishlistItemDTO + CardDTO
+ */
+export interface WishlistItemWithCardDTO extends WishlistItemDTO {
+  card: CardDTO;
+}
+
+/**
+ * Request body for adding a card to the wishlist
+ * Derived from: TablesInsert<'wishlist_items'> with required fields
+ */
+export interface AddWishlistItemRequestDTO {
+  card_id: string;
+  desired_variant?: string | null;
+  desired_quantity?: number;
+  priority?: WishlistPriority;
+  max_price?: number | null;
+}
+
+/**
+ * Request body for updating a wishlist item
+ * Derived from: Partial pick of wishlist_items updatable fields
+ */
+export interface UpdateWishlistItemRequestDTO {
+  desired_variant?: string | null;
+  desired_quantity?: number;
+  priority?: WishlistPriority;
+  max_price?: number | null;
+}
+
+/**
+ * Query parameters for wishlist filtering and pagination
+ */
+export interface WishlistQueryDTO {
+  page?: number;
+  limit?: number;
+  sort?: "priority" | "name" | "created_at";
+  order?: "asc" | "desc";
+  set_id?: string;
+  priority?: WishlistPriority;
+  fulfilled?: boolean;
   search?: string;
 }
 
@@ -249,7 +637,7 @@ export interface MostCollectedSetDTO {
 
 /**
  * Overall collection statistics
- * Computed from user collection data
+ * Computed from user collection data; wishlisted_count counts open (unfulfilled) wishlist items
  */
 export interface CollectionStatsDTO {
   total_cards: number;
@@ -287,7 +675,172 @@ export interface ExportCardRowDTO {
   rarity: string | null;
   quantity: number;
   variant: string;
-  wishlisted: boolean;
+  condition: string | null;
+  language: string;
+  grading_company: string | null;
+  grade: number | null;
+  cert_number: string | null;
+}
+
+/**
+ * Query parameters for collection export
+ * Filters mirror CollectionQueryDTO; pagination does not apply
+ */
+export interface ExportQueryDTO {
+  format?: "csv" | "json";
+  set_id?: string;
+  variant?: string;
+  condition?: string;
+  language?: string;
+  grading_company?: string;
+  graded?: boolean;
+}
+
+// =============================================================================
+// IMPORT DTOs
+// =============================================================================
+
+/**
+ * How imported rows are applied to an existing collection entry
+ * - merge: add the imported quantity to the existing quantity
+ * - replace: overwrite the existing quantity
+ */
+export type ImportStrategy = "merge" | "replace";
+
+/**
+ * Supported import file formats
+ * - tcgcollectr: our own CSV export
+ * - tcgplayer: TCGplayer app collection CSV
+ * - dragonshield: Dragon Shield / DeckBox-style collection CSV
+ * - ptcgl: Pokémon TCG Live deck list text
+ */
+export type ImportFormat = "tcgcollectr" | "tcgplayer" | "dragonshield" | "ptcgl";
+
+/**
+ * Query parameters for collection import
+ */
+export interface ImportQueryDTO {
+  format?: ImportFormat;
+  dry_run?: boolean;
+  strategy?: ImportStrategy;
+}
+
+/**
+ * Normalized import row, independent of the source file format
+ * `row` is the 1-based line number in the source file, used for reporting;
+ * `source` describes the original line for third-party formats;
+ * `wishlisted` comes from exports made before the wishlist moved to its own table
+ * and does not change how the row is imported;
+ * condition, language and grading are absent from exports made before they were tracked
+ */
+export interface ImportSourceRowDTO {
+  row: number;
+  card_id: string;
+  variant: string;
+  quantity: string | number;
+  condition?: string | null;
+  language?: string | null;
+  grading_company?: string | null;
+  grade?: string | number | null;
+  cert_number?: string | null;
+  wishlisted?: string | boolean;
+  source?: string;
+}
+
+/**
+ * Outcome of a single import row
+ * - create: a new collection entry is (or would be) added
+ * - merge / replace: an existing entry (or an earlier row in the file) is updated
+ * - error: the row is skipped; see error for the reason
+ */
+export type ImportRowStatus = "create" | "merge" | "replace" | "error";
+
+/**
+ * Per-row import result
+ * Condition, language and grading are reported once the row has been validated
+ */
+export interface ImportRowResultDTO extends Partial<UserCardGradingDTO> {
+  row: number;
+  card_id: string;
+  variant: string;
+  quantity: number | null;
+  status: ImportRowStatus;
+  source?: string;
+  card?: Pick<CardDTO, "name" | "set_id" | "card_number">;
+  error?: {
+    code: string;
+    message: string;
+  };
+}
+
+/**
+ * Aggregated counts for an import run
+ */
+export interface ImportSummaryDTO {
+  total_rows: number;
+  created: number;
+  merged: number;
+  replaced: number;
+  failed: number;
+  total_cards_before: number;
+  total_cards_after: number;
+}
+
+/**
+ * Response for POST /api/collection/import
+ * With dry_run=true nothing is written and the summary is a projection
+ */
+export interface ImportResultDTO {
+  dry_run: boolean;
+  strategy: ImportStrategy;
+  summary: ImportSummaryDTO;
+  rows: ImportRowResultDTO[];
+}
+
+// =============================================================================
+// CATALOG SYNC DTOs
+// =============================================================================
+
+/**
+ * Set row as written by the catalog sync
+ * Derived from: TablesInsert<'sets'> without timestamps and tcg_type
+ */
+export type CatalogSetRecord = Omit<TablesInsert<"sets">, "created_at" | "updated_at" | "last_synced_at" | "tcg_type"> &
+  Required<Pick<TablesInsert<"sets">, "series" | "release_date" | "logo_url" | "symbol_url" | "ptcgo_code">>;
+
+/**
+ * Card row as written by the catalog sync
+ * Derived from: TablesInsert<'cards'> without timestamps and tcg_type
+ */
+export type CatalogCardRecord = Omit<
+  TablesInsert<"cards">,
+  "created_at" | "updated_at" | "last_synced_at" | "tcg_type"
+> &
+  Required<Pick<TablesInsert<"cards">, "rarity" | "types" | "hp" | "image_url_small" | "image_url_large">>;
+
+/**
+ * Differences between the source and the catalog for one table
+ * `retained` lists ids missing from the source that were kept because
+ * collections or wishlists (or remaining cards, for sets) still reference them
+ */
+export interface CatalogDiffDTO {
+  added: string[];
+  changed: string[];
+  removed: string[];
+  retained: string[];
+  unchanged: number;
+}
+
+/**
+ * Report returned by a catalog sync run
+ */
+export interface CatalogSyncReportDTO {
+  source: string;
+  dry_run: boolean;
+  started_at: string;
+  finished_at: string;
+  sets: CatalogDiffDTO;
+  cards: CatalogDiffDTO;
 }
 
 // =============================================================================
@@ -353,6 +906,16 @@ export interface ErrorResponseDTO {
   };
 }
 
+/**
+ * Details of a 429 RATE_LIMIT_EXCEEDED error
+ */
+export interface RateLimitErrorDetailsDTO {
+  /** Name of the rate limit policy that rejected the request */
+  policy: string;
+  /** Seconds until the next request is allowed */
+  retryAfter: number;
+}
+
 /**
  * Standard success message response
  */
@@ -369,6 +932,36 @@ export interface MessageResponseDTO {
  */
 export type CardVariant = "normal" | "reverse" | "holo" | "firstEdition";
 
+/**
+ * Valid raw card conditions, best first
+ */
+export type CardCondition = "NM" | "LP" | "MP" | "HP" | "DMG";
+
+/**
+ * Valid card languages (ISO 639-1, Chinese split by script)
+ */
+export type CardLanguage =
+  | "en"
+  | "ja"
+  | "ko"
+  | "zh-Hant"
+  | "zh-Hans"
+  | "fr"
+  | "de"
+  | "it"
+  | "es"
+  | "pt"
+  | "nl"
+  | "pl"
+  | "ru"
+  | "id"
+  | "th";
+
+/**
+ * Valid grading companies
+ */
+export type GradingCompany = "PSA" | "BGS" | "CGC";
+
 /**
  * Valid sort orders
  */
@@ -380,9 +973,15 @@ export type SortOrder = "asc" | "desc";
 export type AnalyticsEventType =
   | "user_registered"
   | "user_login"
+  | "user_logout"
   | "password_reset_requested"
+  | "email_change_requested"
+  | "verification_email_resent"
+  | "login_failed"
+  | "account_locked"
   | "card_added"
   | "card_removed"
   | "card_viewed"
   | "search_performed"
-  | "collection_exported";
+  | "collection_exported"
+  | "collection_imported";
@@ -0,0 +1,92 @@
+-- Migration: Create card search function with trigram ranking
+-- Purpose: Back GET /api/cards with fuzzy name search ranked by similarity
+-- Affected tables: cards (read only)
+-- Special considerations: Uses pg_trgm (enabled in 20260111000005) and the idx_cards_name_search/idx_cards_types GIN indexes
+
+-- create function returning a page of matching cards plus the total match count
+-- parameters:
+--   p_search  - optional fuzzy name query; matches trigram similarity or substring
+--   p_set_id  - optional exact set filter
+--   p_types   - optional type array; cards must contain all given types (uses idx_cards_types)
+--   p_rarity  - optional exact rarity filter
+--   p_sort    - 'name' | 'card_number' | 'rarity'; null ranks by similarity when searching, else by name
+--   p_order   - 'asc' | 'desc'
+--   p_limit / p_offset - pagination window
+create or replace function search_cards(
+  p_search text default null,
+  p_set_id text default null,
+  p_types text[] default null,
+  p_rarity text default null,
+  p_sort text default null,
+  p_order text default 'asc',
+  p_limit integer default 20,
+  p_offset integer default 0
+)
+returns table (
+  id text,
+  set_id text,
+  name text,
+  card_number text,
+  rarity text,
+  types text[],
+  hp integer,
+  image_url_small text,
+  image_url_large text,
+  similarity real,
+  total_count bigint
+)
+language sql
+stable
+as $$
+  with matches as (
+    select
+      c.*,
+      case when p_search is null then null else similarity(c.name, p_search) end as similarity
+    from cards c
+    where (
+        p_search is null
+        -- % uses idx_cards_name_search; ilike catches short queries below the similarity threshold
+        or c.name % p_search
+        or c.name ilike '%' || replace(replace(replace(p_search, '\', '\\'), '%', '\%'), '_', '\_') || '%'
+      )
+      and (p_set_id is null or c.set_id = p_set_id)
+      and (p_types is null or c.types @> p_types)
+      and (p_rarity is null or c.rarity = p_rarity)
+  )
+  select
+    m.id,
+    m.set_id,
+    m.name,
+    m.card_number,
+    m.rarity,
+    m.types,
+    m.hp,
+    m.image_url_small,
+    m.image_url_large,
+    m.similarity,
+    count(*) over () as total_count
+  from matches m
+  order by
+    -- relevance ranking when searching without an explicit sort
+    case when p_sort is null and p_search is not null then m.similarity end desc nulls last,
+    case when coalesce(p_sort, 'name') = 'name' and p_order = 'asc' then m.name end asc,
+    case when coalesce(p_sort, 'name') = 'name' and p_order = 'desc' then m.name end desc,
+    -- card numbers look like "25/191"; compare the leading number numerically
+    case when p_sort = 'card_number' and p_order = 'asc' then nullif(substring(m.card_number from '^\d+'), '')::integer end asc,
+    case when p_sort = 'card_number' and p_order = 'desc' then nullif(substring(m.card_number from '^\d+'), '')::integer end desc,
+    case when p_sort = 'card_number' and p_order = 'asc' then m.card_number end asc,
+    case when p_sort = 'card_number' and p_order = 'desc' then m.card_number end desc,
+    case when p_sort = 'rarity' and p_order = 'asc' then m.rarity end asc nulls last,
+    case when p_sort = 'rarity' and p_order = 'desc' then m.rarity end desc nulls last,
+    m.name,
+    m.id
+  limit p_limit
+  offset p_offset;
+$$;
+
+-- Rationale:
+-- PostgREST cannot order by a computed similarity score, so ranking lives in SQL.
+-- The window count returns the total match count with the page in one round trip. A page past the
+-- last one has no rows to carry it, so searchCards then counts with a one-row call for the first page.
+-- STABLE lets the planner treat the function as read-only within a statement.
+-- Security invoker (default) keeps the caller's RLS context on the cards table.
@@ -0,0 +1,44 @@
+-- Migration: Create set completion function
+-- Purpose: Compute a user's completion progress for a single set in one query
+-- Affected tables: sets, cards, user_cards (read only)
+-- Special considerations: Counts distinct owned card_ids; variants of the same card count once.
+--   Every user_cards row is an owned card, including rows flagged as wishlisted
+
+-- create function returning the completion figures for one set
+-- returns no row when the set does not exist
+create or replace function get_set_completion(p_user_id uuid, p_set_id text)
+returns table (
+  set_id text,
+  set_name text,
+  total_cards integer,
+  owned_cards integer,
+  completion_percentage numeric
+)
+language sql
+stable
+as $$
+  select
+    s.id as set_id,
+    s.name as set_name,
+    s.total_cards,
+    coalesce(o.owned, 0)::integer as owned_cards,
+    case
+      when s.total_cards > 0 then round(coalesce(o.owned, 0) * 100.0 / s.total_cards, 2)
+      else 0
+    end as completion_percentage
+  from sets s
+  left join lateral (
+    -- distinct card_id collapses variants
+    select count(distinct uc.card_id) as owned
+    from user_cards uc
+    join cards c on c.id = uc.card_id
+    where uc.user_id = p_user_id
+      and c.set_id = s.id
+  ) o on true
+  where s.id = p_set_id;
+$$;
+
+-- Rationale:
+-- Counting distinct card_ids in SQL avoids pulling every variant row into the API server.
+-- The join uses idx_user_cards_user_id and idx_cards_set_id.
+-- Security invoker (default) keeps the caller's RLS context on user_cards.
@@ -0,0 +1,103 @@
+-- Migration: Create collection statistics functions
+-- Purpose: Summarize a user's collection in a single round trip for the stats dashboard and profile totals
+-- Affected tables: user_cards, cards, sets (read only)
+-- Special considerations: Every user_cards row is an owned card (the wishlisted flag is only set on owned
+--   cards), so all figures count every row, matching get_set_completion
+
+-- create function returning overall collection statistics for one user
+-- always returns exactly one row; most_collected_set_* columns are null when nothing is owned
+-- columns:
+--   total_cards      - sum of quantities across all entries (same figure as profiles.total_cards_count)
+--   unique_cards     - distinct card_ids across all entries
+--   wishlisted_count - entries flagged as wishlisted
+--   sets_with_cards  - sets with at least one owned card
+create or replace function get_collection_stats(p_user_id uuid)
+returns table (
+  total_cards bigint,
+  unique_cards bigint,
+  wishlisted_count bigint,
+  sets_with_cards bigint,
+  most_collected_set_id text,
+  most_collected_set_name text,
+  most_collected_set_owned bigint,
+  most_collected_set_total integer
+)
+language sql
+stable
+as $$
+  with entries as (
+    select uc.card_id, uc.quantity, uc.wishlisted, c.set_id
+    from user_cards uc
+    join cards c on c.id = uc.card_id
+    where uc.user_id = p_user_id
+  ),
+  owned_per_set as (
+    select e.set_id, count(distinct e.card_id) as owned
+    from entries e
+    group by e.set_id
+  ),
+  top_set as (
+    -- most owned cards wins; ties go to the more complete set, then by name
+    select s.id, s.name, o.owned, s.total_cards
+    from owned_per_set o
+    join sets s on s.id = o.set_id
+    order by o.owned desc, o.owned::numeric / nullif(s.total_cards, 0) desc nulls last, s.name
+    limit 1
+  )
+  select
+    (select coalesce(sum(e.quantity), 0) from entries e)::bigint,
+    (select count(distinct e.card_id) from entries e),
+    (select count(*) from entries e where e.wishlisted),
+    (select count(*) from owned_per_set),
+    t.id,
+    t.name,
+    t.owned,
+    t.total_cards
+  from (select 1) as single_row
+  left join top_set t on true;
+$$;
+
+-- create function returning completion statistics for every set the user collects
+-- p_include_empty adds sets with no owned cards (owned_cards = 0)
+-- ordered by completion, then newest release first
+create or replace function get_set_completion_stats(p_user_id uuid, p_include_empty boolean default false)
+returns table (
+  set_id text,
+  set_name text,
+  series text,
+  total_cards integer,
+  owned_cards integer,
+  completion_percentage numeric
+)
+language sql
+stable
+as $$
+  with owned_per_set as (
+    -- distinct card_id collapses variants
+    select c.set_id, count(distinct uc.card_id) as owned
+    from user_cards uc
+    join cards c on c.id = uc.card_id
+    where uc.user_id = p_user_id
+    group by c.set_id
+  )
+  select
+    s.id,
+    s.name,
+    s.series,
+    s.total_cards,
+    coalesce(o.owned, 0)::integer,
+    case
+      when s.total_cards > 0 then round(coalesce(o.owned, 0) * 100.0 / s.total_cards, 2)
+      else 0
+    end
+  from sets s
+  left join owned_per_set o on o.set_id = s.id
+  where p_include_empty or o.owned is not null
+  order by 6 desc, s.release_date desc nulls last, s.name;
+$$;
+
+-- Rationale:
+-- Aggregating in Postgres keeps a 10,000-card collection summary to one query instead of
+-- transferring every user_cards row to the API server and reducing it there.
+-- Both functions rely on idx_user_cards_user_id and idx_cards_set_id.
+-- Security invoker (default) keeps the caller's RLS context on user_cards.
@@ -0,0 +1,15 @@
+-- Migration: Add PTCGO/PTCGL set code to sets
+-- Purpose: Let third-party imports (PTCGL deck lists, Dragon Shield exports) resolve set codes like 'SVI' or 'PAF'
+-- Affected tables: sets
+-- Special considerations: Nullable; older and promo sets may have no code, and codes are matched case-insensitively
+
+-- add the set code used by Pokémon TCG Online / Live (TCGDex field: tcgOnline)
+alter table sets add column ptcgo_code text;
+
+-- index for case-insensitive code lookups during import
+create index idx_sets_ptcgo_code on sets (upper(ptcgo_code));
+
+-- Rationale:
+-- Deck lists and several collection trackers identify a card by set code + collector number
+-- rather than by our set id. Codes are not guaranteed unique across the catalog, so there is
+-- no unique constraint; importers report ambiguous codes instead of guessing.
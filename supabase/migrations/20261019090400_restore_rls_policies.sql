@@ -0,0 +1,80 @@
+-- Migration: Restore row level security policies
+-- Purpose: Re-enable the owner-only policies dropped by 20260111000010 so Postgres enforces authorization
+-- Affected tables: profiles, sets, cards, user_cards
+-- Special considerations: The API now sends each caller's JWT with every query (per-request clients),
+--   so auth.uid() resolves to the caller; catalog sync uses the service role, which bypasses RLS.
+--   Analytics policies are restored separately in 20261019090500.
+
+-- enable rls on all tables; policies are dropped before being created so a partially restored database migrates cleanly
+alter table public.profiles enable row level security;
+alter table public.sets enable row level security;
+alter table public.cards enable row level security;
+alter table public.user_cards enable row level security;
+
+-- profiles: users read and update only their own profile
+-- no insert policy (profiles are created by the security definer registration trigger)
+-- no delete policy (profiles are removed by cascade from auth.users)
+drop policy if exists "profiles_select_own" on profiles;
+create policy "profiles_select_own"
+  on profiles for select
+  to authenticated
+  using (auth.uid() = id);
+
+drop policy if exists "profiles_update_own" on profiles;
+create policy "profiles_update_own"
+  on profiles for update
+  to authenticated
+  using (auth.uid() = id)
+  with check (auth.uid() = id);
+
+-- sets: public catalog, read-only for anon and authenticated users
+drop policy if exists "sets_select_public" on sets;
+create policy "sets_select_public"
+  on sets for select
+  to public
+  using (true);
+
+-- cards: public catalog, read-only for anon and authenticated users
+drop policy if exists "cards_select_authenticated" on cards;
+create policy "cards_select_authenticated"
+  on cards for select
+  to authenticated
+  using (true);
+
+drop policy if exists "cards_select_anon" on cards;
+create policy "cards_select_anon"
+  on cards for select
+  to anon
+  using (true);
+
+-- user_cards: complete isolation between users' collections
+drop policy if exists "user_cards_select_own" on user_cards;
+create policy "user_cards_select_own"
+  on user_cards for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+drop policy if exists "user_cards_insert_own" on user_cards;
+create policy "user_cards_insert_own"
+  on user_cards for insert
+  to authenticated
+  with check (auth.uid() = user_id);
+
+drop policy if exists "user_cards_update_own" on user_cards;
+create policy "user_cards_update_own"
+  on user_cards for update
+  to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+drop policy if exists "user_cards_delete_own" on user_cards;
+create policy "user_cards_delete_own"
+  on user_cards for delete
+  to authenticated
+  using (auth.uid() = user_id);
+
+-- Rationale:
+-- The rpc functions (search_cards, get_set_completion, get_collection_stats, get_set_completion_stats)
+-- are security invoker, so they see only the caller's user_cards rows even if called with another
+-- user's id. The card limit and total_cards_count triggers also run as the caller and only touch
+-- the caller's own rows and profile, which these policies allow.
@@ -0,0 +1,26 @@
+-- Migration: Restore analytics_events insert policies
+-- Purpose: Re-enable RLS on analytics_events with insert-only access for clients
+-- Affected tables: analytics_events
+-- Special considerations: Anonymous events (user_id is null) are recorded with the anon key,
+--   e.g. password reset requests and unauthenticated POST /api/analytics/events calls
+
+alter table public.analytics_events enable row level security;
+
+-- authenticated users insert their own events or anonymous ones
+drop policy if exists "analytics_events_insert_own" on analytics_events;
+create policy "analytics_events_insert_own"
+  on analytics_events for insert
+  to authenticated
+  with check (auth.uid() = user_id or user_id is null);
+
+-- anonymous callers insert anonymous events only
+drop policy if exists "analytics_events_insert_anon" on analytics_events;
+create policy "analytics_events_insert_anon"
+  on analytics_events for insert
+  to anon
+  with check (user_id is null);
+
+-- Rationale:
+-- There is deliberately no select policy: events are write-only for clients and read by the
+-- service role for dashboards. The API therefore inserts without returning the row and
+-- generates the id and created_at itself.
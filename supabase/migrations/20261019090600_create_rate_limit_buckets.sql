@@ -0,0 +1,89 @@
+-- Migration: Create rate limit buckets
+-- Purpose: Shared token-bucket state so every API instance enforces the same rate limits
+-- Affected tables: rate_limit_buckets (new)
+-- Special considerations: Only reachable through consume_rate_limit, which is restricted to the service role
+
+-- create table holding one token bucket per rate limit key (e.g. 'login:203.0.113.7')
+-- expires_at is when the bucket would be full again; past that point the row carries no state
+create table rate_limit_buckets (
+  key text primary key,
+  tokens double precision not null,
+  last_refill timestamptz not null default now(),
+  expires_at timestamptz not null
+);
+
+-- index for purging expired buckets
+create index idx_rate_limit_buckets_expires_at on rate_limit_buckets (expires_at);
+
+-- enable rls without policies: clients cannot read or write buckets directly
+alter table rate_limit_buckets enable row level security;
+
+-- create function that refills and consumes one token atomically
+-- columns:
+--   allowed - whether a token was available (and consumed)
+--   tokens  - tokens left in the bucket after this request (fractional)
+create or replace function consume_rate_limit(p_key text, p_limit integer, p_window_ms integer)
+returns table (
+  allowed boolean,
+  tokens double precision
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_now timestamptz := clock_timestamp();
+  v_rate double precision := p_limit::double precision / p_window_ms; -- tokens per millisecond
+  v_tokens double precision;
+begin
+  -- refill (or create a full bucket); the upsert locks the row until the function returns
+  insert into rate_limit_buckets as b (key, tokens, last_refill, expires_at)
+  values (p_key, p_limit, v_now, v_now)
+  on conflict (key) do update
+    set tokens = least(p_limit, b.tokens + extract(epoch from (v_now - b.last_refill)) * 1000 * v_rate),
+        last_refill = v_now
+  returning b.tokens into v_tokens;
+
+  allowed := v_tokens >= 1;
+  if allowed then
+    v_tokens := v_tokens - 1;
+  end if;
+  tokens := v_tokens;
+
+  update rate_limit_buckets
+  set tokens = v_tokens,
+      expires_at = v_now + make_interval(secs => (p_limit - v_tokens) / v_rate / 1000)
+  where key = p_key;
+
+  -- purge expired buckets now and then to keep the table small
+  if random() < 0.01 then
+    delete from rate_limit_buckets where expires_at < v_now;
+  end if;
+
+  return next;
+end;
+$$;
+
+-- create function that drops a bucket (e.g. after a successful login)
+create or replace function reset_rate_limit(p_key text)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  delete from rate_limit_buckets where key = p_key;
+$$;
+
+-- only the API server (service role) may consume or reset buckets; anon callers could otherwise
+-- drain other clients' buckets through PostgREST
+revoke execute on function consume_rate_limit(text, integer, integer) from public, anon, authenticated;
+revoke execute on function reset_rate_limit(text) from public, anon, authenticated;
+grant execute on function consume_rate_limit(text, integer, integer) to service_role;
+grant execute on function reset_rate_limit(text) to service_role;
+
+-- Rationale:
+-- Doing the refill, check and decrement inside one function call makes each request a single
+-- round trip and keeps concurrent requests for the same key serialized on the row lock.
+-- The algorithm matches the in-memory store: a bucket holds up to p_limit tokens and refills
+-- at p_limit per p_window_ms.
@@ -0,0 +1,66 @@
+-- Migration: Create login attempts
+-- Purpose: Shared failed-login counters so every API instance applies the same back-off and lockout
+-- Affected tables: login_attempts (new)
+-- Special considerations: Keyed by a SHA-256 hash of the email, never the email or user id, and
+--                         written only by the service role
+
+-- create table holding the failed-login counter of one email hash
+-- expires_at is when the failures are forgotten; past that point the row carries no state
+create table login_attempts (
+  key text primary key,
+  failures integer not null,
+  last_failure_at timestamptz not null,
+  expires_at timestamptz not null
+);
+
+-- index for purging expired counters
+create index idx_login_attempts_expires_at on login_attempts (expires_at);
+
+-- enable rls without policies: clients cannot read or write counters directly
+alter table login_attempts enable row level security;
+
+-- create function that counts one failed login atomically
+-- a counter that has expired starts again at 1
+-- columns:
+--   failures        - failed logins within the window, including this one
+--   last_failure_at - time of this failure
+create or replace function record_login_failure(p_key text, p_window_ms integer)
+returns table (
+  failures integer,
+  last_failure_at timestamptz
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_now timestamptz := clock_timestamp();
+  v_expires_at timestamptz := v_now + make_interval(secs => p_window_ms / 1000.0);
+begin
+  insert into login_attempts as a (key, failures, last_failure_at, expires_at)
+  values (p_key, 1, v_now, v_expires_at)
+  on conflict (key) do update
+    set failures = case when a.expires_at < v_now then 1 else a.failures + 1 end,
+        last_failure_at = v_now,
+        expires_at = v_expires_at
+  returning a.failures, a.last_failure_at into failures, last_failure_at;
+
+  -- purge expired counters now and then to keep the table small
+  if random() < 0.01 then
+    delete from login_attempts where expires_at < v_now;
+  end if;
+
+  return next;
+end;
+$$;
+
+-- only the API server (service role) may record failures; anon callers could otherwise lock
+-- accounts without going through the login endpoint and its rate limits
+revoke execute on function record_login_failure(text, integer) from public, anon, authenticated;
+grant execute on function record_login_failure(text, integer) to service_role;
+
+-- Rationale:
+-- The back-off delay and the lock are derived from failures and last_failure_at by the API, so
+-- the table stores only the counter. Successful logins and completed password resets delete the
+-- row through the service role client.
@@ -0,0 +1,17 @@
+-- Migration: Allow users to read their own analytics events
+-- Purpose: Let GET /api/profile/data-export include the caller's events through the RLS-bound client
+-- Affected tables: analytics_events
+-- Special considerations: Anonymous events (user_id is null) stay unreadable to clients
+
+-- authenticated users read the events recorded with their user id
+drop policy if exists "analytics_events_select_own" on analytics_events;
+create policy "analytics_events_select_own"
+  on analytics_events for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+-- Rationale:
+-- A data export must contain everything stored about the user, including their events. Reading
+-- is limited to the caller's own rows, so events stay write-only with respect to other users.
+-- Inserts still do not return the row (see 20261019090500), because anonymous events are not
+-- readable by anyone but the service role.
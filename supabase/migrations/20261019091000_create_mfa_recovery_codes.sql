@@ -0,0 +1,75 @@
+-- Migration: Create MFA recovery codes
+-- Purpose: One-time recovery codes for users who lose access to their TOTP authenticator
+-- Affected tables: mfa_recovery_codes (new)
+-- Special considerations: Only SHA-256 hashes of the codes are stored; codes are replaced only
+--                         from an AAL2 session and redeemed through a security definer function
+
+-- create table holding the hashed recovery codes of a user
+-- code_hash is sha256(user_id || ':' || normalized code), computed by the API
+create table mfa_recovery_codes (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references profiles(id) on delete cascade,
+  code_hash text not null,
+  used_at timestamptz,
+  created_at timestamptz not null default now(),
+  unique (user_id, code_hash)
+);
+
+-- enable rls without policies: clients cannot read or write codes directly
+alter table mfa_recovery_codes enable row level security;
+
+-- create function that replaces the caller's recovery codes
+-- requires a session verified with a second factor (aal2), so a stolen password alone
+-- cannot mint new codes
+create or replace function replace_mfa_recovery_codes(p_code_hashes text[])
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null or coalesce(auth.jwt() ->> 'aal', '') <> 'aal2' then
+    raise exception 'AAL2 session required' using errcode = '42501';
+  end if;
+
+  delete from mfa_recovery_codes where user_id = auth.uid();
+
+  insert into mfa_recovery_codes (user_id, code_hash)
+  select auth.uid(), code_hash
+  from unnest(p_code_hashes) as code_hash;
+end;
+$$;
+
+-- create function that redeems one of the caller's unused recovery codes
+-- returns true if the code was valid; each code can be redeemed once
+create or replace function use_mfa_recovery_code(p_code_hash text)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    return false;
+  end if;
+
+  update mfa_recovery_codes
+  set used_at = now()
+  where user_id = auth.uid()
+    and code_hash = p_code_hash
+    and used_at is null;
+
+  return found;
+end;
+$$;
+
+-- signed-in users only
+revoke execute on function replace_mfa_recovery_codes(text[]) from public, anon;
+revoke execute on function use_mfa_recovery_code(text) from public, anon;
+grant execute on function replace_mfa_recovery_codes(text[]) to authenticated;
+grant execute on function use_mfa_recovery_code(text) to authenticated;
+
+-- Rationale:
+-- Codes are generated and shown once by POST /api/auth/mfa/verify when a user verifies their
+-- first TOTP factor. Redeeming a code (from an AAL1 session after the password) removes the
+-- user's factors through the admin API, so the user can sign in again and re-enroll.
@@ -0,0 +1,84 @@
+-- Migration: Create user session metadata
+-- Purpose: Let users list their active sessions and revoke them remotely
+-- Affected tables: user_sessions (new)
+-- Special considerations: Rows reference auth.sessions and disappear with the Supabase Auth session
+--                         (logout, revocation or expiry clean-up); only a hash of the IP is stored
+
+-- create table holding the device metadata of each auth session
+-- id is the auth session id, carried by access tokens as the session_id claim
+create table user_sessions (
+  id uuid primary key references auth.sessions(id) on delete cascade,
+  user_id uuid not null references profiles(id) on delete cascade,
+  user_agent text,
+  ip_hash text,
+  created_at timestamptz not null default now(),
+  last_seen_at timestamptz not null default now()
+);
+
+-- index for listing a user's sessions, most recently seen first
+create index idx_user_sessions_user_last_seen on user_sessions(user_id, last_seen_at desc);
+
+-- enable rls: users can read their own sessions; writes go through the functions below
+alter table user_sessions enable row level security;
+
+create policy "user_sessions_select_own"
+  on user_sessions for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+-- create function that records the caller's current session
+-- called at sign-in (creating the row) and on refresh (updating last_seen_at)
+create or replace function record_user_session(p_user_agent text default null, p_ip_hash text default null)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_session_id uuid := nullif(auth.jwt() ->> 'session_id', '')::uuid;
+begin
+  if auth.uid() is null or v_session_id is null then
+    raise exception 'Authenticated session required' using errcode = '42501';
+  end if;
+
+  insert into user_sessions (id, user_id, user_agent, ip_hash)
+  values (v_session_id, auth.uid(), p_user_agent, p_ip_hash)
+  on conflict (id) do update
+    set user_agent = coalesce(excluded.user_agent, user_sessions.user_agent),
+        ip_hash = coalesce(excluded.ip_hash, user_sessions.ip_hash),
+        last_seen_at = now();
+end;
+$$;
+
+-- create function that revokes one of the caller's sessions
+-- deleting the auth session also deletes its refresh tokens (and, through the foreign key,
+-- its metadata row); returns false when the session does not belong to the caller
+create or replace function revoke_user_session(p_session_id uuid)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Authenticated session required' using errcode = '42501';
+  end if;
+
+  delete from auth.sessions
+  where id = p_session_id
+    and user_id = auth.uid();
+
+  return found;
+end;
+$$;
+
+-- signed-in users only
+revoke execute on function record_user_session(text, text) from public, anon;
+revoke execute on function revoke_user_session(uuid) from public, anon;
+grant execute on function record_user_session(text, text) to authenticated;
+grant execute on function revoke_user_session(uuid) to authenticated;
+
+-- Rationale:
+-- Supabase Auth keeps no device details, so the API records the user agent and IP hash of each
+-- session at sign-in (POST /api/auth/login, /register, /verify-otp, /mfa/verify and the OAuth
+-- callback) and refreshes last_seen_at whenever the session's tokens are rotated.
@@ -0,0 +1,216 @@
+-- Migration: Create wishlist_items table and retire user_cards.wishlisted
+-- Purpose: Track wanted cards separately from owned cards, with desired variant and quantity,
+--          priority and a maximum price, fulfilled automatically once the cards are owned
+-- Affected tables: wishlist_items (new), user_cards (wishlisted column dropped)
+-- Special considerations: The wishlisted flag was only ever set on owned cards, so flagged entries are
+--   copied to wishlist_items as open items and stay in user_cards; collection totals do not change.
+--   get_collection_stats is redefined without the dropped column
+
+-- create enum for wishlist priorities
+-- an enum (unlike a text check) sorts in declaration order, so "order by priority" ranks low < medium < high
+create type wishlist_priority as enum ('low', 'medium', 'high');
+
+-- create wishlist_items table
+-- desired_variant null means any variant of the card will do
+create table wishlist_items (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references profiles(id) on delete cascade,
+  card_id text not null references cards(id) on delete restrict,
+  desired_variant text check (desired_variant in ('normal', 'reverse', 'holo', 'firstEdition')),
+  desired_quantity integer not null default 1 check (desired_quantity >= 1 and desired_quantity <= 1000),
+  priority wishlist_priority not null default 'medium',
+  max_price numeric(10, 2) check (max_price >= 0),
+  fulfilled_at timestamptz,
+  created_at timestamptz default now() not null,
+  updated_at timestamptz default now() not null,
+  unique nulls not distinct (user_id, card_id, desired_variant)
+);
+
+-- index on card_id for card update queries during syncing (the unique constraint covers user_id lookups)
+create index idx_wishlist_items_card_id on wishlist_items(card_id);
+
+-- enable rls: complete isolation between users' wishlists
+alter table wishlist_items enable row level security;
+
+create policy "wishlist_items_select_own"
+  on wishlist_items for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+create policy "wishlist_items_insert_own"
+  on wishlist_items for insert
+  to authenticated
+  with check (auth.uid() = user_id);
+
+create policy "wishlist_items_update_own"
+  on wishlist_items for update
+  to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "wishlist_items_delete_own"
+  on wishlist_items for delete
+  to authenticated
+  using (auth.uid() = user_id);
+
+-- trigger on wishlist_items for automatic updated_at updates
+create trigger update_wishlist_items_updated_at
+  before update on wishlist_items
+  for each row
+  execute function update_updated_at_column();
+
+-- copy existing wishlisted entries to the wishlist, keeping their variant, quantity and timestamps
+-- the user_cards rows are owned cards and stay in the collection. A flagged entry was still wanted,
+-- so its item starts open: fulfilled_at is set explicitly rather than by the fulfilment triggers,
+-- which only exist further down and would count the entry's own copies
+insert into wishlist_items (user_id, card_id, desired_variant, desired_quantity, fulfilled_at, created_at, updated_at)
+select user_id, card_id, variant, quantity, null, created_at, updated_at
+from user_cards
+where wishlisted;
+
+-- check the backfill: every flagged entry has exactly one open wishlist item
+-- flagged entries cannot be told apart from other owned cards, so they are reported rather than removed
+do $$
+declare
+  v_flagged bigint;
+  v_open bigint;
+begin
+  select count(*) into v_flagged from user_cards where wishlisted;
+  select count(*) into v_open from wishlist_items where fulfilled_at is null;
+
+  if v_open <> v_flagged then
+    raise exception 'Wishlist backfill created % open items for % wishlisted entries', v_open, v_flagged;
+  end if;
+
+  if v_flagged > 0 then
+    raise notice '% wishlisted collection entries were copied to wishlist_items and kept in user_cards as owned cards', v_flagged;
+  end if;
+end;
+$$;
+
+drop index if exists idx_user_cards_user_wishlisted;
+alter table user_cards drop column wishlisted;
+
+-- create function returning how many copies of a card the user owns
+-- p_variant null counts every variant
+create or replace function get_owned_card_quantity(p_user_id uuid, p_card_id text, p_variant text)
+returns integer
+language sql
+stable
+as $$
+  select coalesce(sum(uc.quantity), 0)::integer
+  from user_cards uc
+  where uc.user_id = p_user_id
+    and uc.card_id = p_card_id
+    and (p_variant is null or uc.variant = p_variant);
+$$;
+
+-- create function that fulfils open wishlist items once their cards are owned
+-- fires after user_cards writes that add copies
+create or replace function fulfil_wishlist_items()
+returns trigger as $$
+begin
+  update wishlist_items w
+  set fulfilled_at = now()
+  where w.user_id = new.user_id
+    and w.card_id = new.card_id
+    and w.fulfilled_at is null
+    and (w.desired_variant is null or w.desired_variant = new.variant)
+    and get_owned_card_quantity(w.user_id, w.card_id, w.desired_variant) >= w.desired_quantity;
+
+  return new;
+end;
+$$ language plpgsql;
+
+create trigger fulfil_wishlist_items_on_insert
+  after insert on user_cards
+  for each row
+  execute function fulfil_wishlist_items();
+
+create trigger fulfil_wishlist_items_on_update
+  after update of quantity on user_cards
+  for each row
+  when (new.quantity > old.quantity)
+  execute function fulfil_wishlist_items();
+
+-- create function that keeps fulfilled_at in line with the desired variant and quantity
+-- an item wished for a card already owned in sufficient quantity starts fulfilled; raising the
+-- desired quantity above the owned copies reopens it
+create or replace function sync_wishlist_item_fulfilment()
+returns trigger as $$
+begin
+  if get_owned_card_quantity(new.user_id, new.card_id, new.desired_variant) >= new.desired_quantity then
+    new.fulfilled_at := coalesce(new.fulfilled_at, now());
+  else
+    new.fulfilled_at := null;
+  end if;
+
+  return new;
+end;
+$$ language plpgsql;
+
+create trigger sync_wishlist_item_fulfilment_on_insert
+  before insert on wishlist_items
+  for each row
+  execute function sync_wishlist_item_fulfilment();
+
+create trigger sync_wishlist_item_fulfilment_on_update
+  before update of desired_variant, desired_quantity on wishlist_items
+  for each row
+  execute function sync_wishlist_item_fulfilment();
+
+-- redefine the collection statistics function
+-- columns are unchanged; wishlisted_count now counts open (unfulfilled) wishlist items
+create or replace function get_collection_stats(p_user_id uuid)
+returns table (
+  total_cards bigint,
+  unique_cards bigint,
+  wishlisted_count bigint,
+  sets_with_cards bigint,
+  most_collected_set_id text,
+  most_collected_set_name text,
+  most_collected_set_owned bigint,
+  most_collected_set_total integer
+)
+language sql
+stable
+as $$
+  with entries as (
+    select uc.card_id, uc.quantity, c.set_id
+    from user_cards uc
+    join cards c on c.id = uc.card_id
+    where uc.user_id = p_user_id
+  ),
+  owned_per_set as (
+    select e.set_id, count(distinct e.card_id) as owned
+    from entries e
+    group by e.set_id
+  ),
+  top_set as (
+    -- most owned cards wins; ties go to the more complete set, then by name
+    select s.id, s.name, o.owned, s.total_cards
+    from owned_per_set o
+    join sets s on s.id = o.set_id
+    order by o.owned desc, o.owned::numeric / nullif(s.total_cards, 0) desc nulls last, s.name
+    limit 1
+  )
+  select
+    (select coalesce(sum(e.quantity), 0) from entries e)::bigint,
+    (select count(distinct e.card_id) from entries e),
+    (select count(*) from wishlist_items w where w.user_id = p_user_id and w.fulfilled_at is null),
+    (select count(*) from owned_per_set),
+    t.id,
+    t.name,
+    t.owned,
+    t.total_cards
+  from (select 1) as single_row
+  left join top_set t on true;
+$$;
+
+-- Rationale:
+-- The wishlisted flag could only mark cards already in the collection, so there was no way to want a
+-- card before owning it. Wishlist items live in their own table and never touch total_cards_count or
+-- the 10,000-card limit. The triggers run as the caller (security invoker), so RLS limits fulfilment
+-- to the caller's own wishlist, and they cover every write path (single adds, PATCH and imports).
+-- Migrated items stay open until more copies of the card are added. Fulfilled items are kept with
+-- fulfilled_at set as a record of completed wants; removing the cards later does not reopen them.
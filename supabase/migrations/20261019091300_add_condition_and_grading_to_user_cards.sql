@@ -0,0 +1,61 @@
+-- Migration: Add condition, language and grading metadata to user_cards
+-- Purpose: Track raw card condition (NM/LP/MP/HP/DMG), card language and graded slabs
+--          (PSA/BGS/CGC with grade and cert number), so identical cards in different
+--          conditions are separate collection entries
+-- Affected tables: user_cards (new columns, replaced unique constraint)
+-- Special considerations: Existing rows become raw Near Mint English copies, which keeps them unique
+--   under the wider key; grade scales per grading company are enforced by a check constraint that
+--   mirrors GRADE_SCALES in collection.schema.ts
+
+-- add condition: raw cards only, graded cards carry a grade instead
+alter table user_cards
+  add column condition text default 'NM'
+    check (condition in ('NM', 'LP', 'MP', 'HP', 'DMG'));
+
+-- add language: the printed language of the card (ISO 639-1, Chinese split by script)
+alter table user_cards
+  add column language text not null default 'en'
+    check (language in ('en', 'ja', 'ko', 'zh-Hant', 'zh-Hans', 'fr', 'de', 'it', 'es', 'pt', 'nl', 'pl', 'ru', 'id', 'th'));
+
+-- add grading: company, grade and the certification number printed on the slab
+alter table user_cards
+  add column grading_company text check (grading_company in ('PSA', 'BGS', 'CGC')),
+  add column grade numeric(3, 1),
+  add column cert_number text check (char_length(cert_number) between 1 and 30);
+
+-- a graded card has both a company and a grade and no raw condition; a raw card has a condition
+alter table user_cards
+  add constraint user_cards_grading_complete
+    check ((grading_company is null) = (grade is null)),
+  add constraint user_cards_cert_number_graded
+    check (cert_number is null or grading_company is not null),
+  add constraint user_cards_condition_raw_only
+    check ((grading_company is null) = (condition is not null));
+
+-- grade scales: every company grades 1-10 in half points, except that PSA has no 9.5
+-- and only awards half grades from 1.5 to 8.5
+alter table user_cards
+  add constraint user_cards_grade_scale
+    check (
+      grade is null
+      or (
+        grade between 1 and 10
+        and grade * 2 = trunc(grade * 2)
+        and (grading_company <> 'PSA' or grade = trunc(grade) or grade between 1.5 and 8.5)
+      )
+    );
+
+-- widen the entry key: the same card and variant may now be held in several conditions,
+-- languages and grades, and graded slabs are told apart by their cert numbers
+alter table user_cards drop constraint user_cards_user_id_card_id_variant_key;
+
+alter table user_cards
+  add constraint user_cards_entry_key
+    unique nulls not distinct (user_id, card_id, variant, condition, language, grading_company, grade, cert_number);
+
+-- Rationale:
+-- Condition and grading are part of what a collector owns, so they belong to the entry's identity
+-- rather than being attributes of a single card+variant row. NULLS NOT DISTINCT keeps graded entries
+-- (condition null) and slabs without a recorded cert number (cert_number null) unique, and lets
+-- imports upsert on the full key. Quantity limits stay per entry; collection totals, set completion
+-- and wishlist fulfilment sum every entry of a card, so they need no changes.
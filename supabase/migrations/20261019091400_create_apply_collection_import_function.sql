@@ -0,0 +1,62 @@
+-- Migration: Create function applying a planned collection import in one transaction
+-- Purpose: Write import plans as updates by id for existing entries and plain inserts for new ones
+-- Affected tables: user_cards (writes through the function)
+-- Special considerations: Replaces the INSERT ... ON CONFLICT DO UPDATE upsert used by imports.
+--   Postgres fires BEFORE INSERT triggers for every proposed row of an upsert, with OLD null, so
+--   check_card_limit counted a merged entry's existing quantity on top of its new quantity and
+--   rejected imports that fit the 10,000-card limit
+
+-- create function applying planned import entries in array order
+-- parameters:
+--   p_user_id - owner of the entries (RLS still limits writes to the caller's own rows)
+--   p_entries - array of objects; entries with an "id" update that entry's quantity from
+--               "previous_quantity" to "quantity", entries without one are inserted with their
+--               card_id, variant, condition, language, grading_company, grade, cert_number and quantity
+-- an entry that no longer holds its previous quantity (changed or removed by a concurrent request)
+-- aborts the whole import with serialization_failure (40001)
+create or replace function apply_collection_import(p_user_id uuid, p_entries jsonb)
+returns void
+language plpgsql
+security invoker
+as $$
+declare
+  v_entry jsonb;
+begin
+  for v_entry in
+    select e.value from jsonb_array_elements(p_entries) with ordinality as e(value, position) order by e.position
+  loop
+    if v_entry ? 'id' then
+      update user_cards
+      set quantity = (v_entry->>'quantity')::integer
+      where id = (v_entry->>'id')::uuid
+        and user_id = p_user_id
+        and quantity = (v_entry->>'previous_quantity')::integer;
+
+      if not found then
+        raise exception 'Collection entry % changed during import', v_entry->>'id'
+          using errcode = '40001';
+      end if;
+    else
+      insert into user_cards (user_id, card_id, variant, condition, language, grading_company, grade, cert_number, quantity)
+      select p_user_id, r.card_id, r.variant, r.condition, r.language, r.grading_company, r.grade, r.cert_number, r.quantity
+      from jsonb_to_record(v_entry) as r(
+        card_id text,
+        variant text,
+        condition text,
+        language text,
+        grading_company text,
+        grade numeric,
+        cert_number text,
+        quantity integer
+      );
+    end if;
+  end loop;
+end;
+$$;
+
+-- Rationale:
+-- Updating existing entries by id gives check_card_limit the old row, so it subtracts the entry's
+-- current quantity; new entries have no conflicting row to double count. A single function call is
+-- one transaction, so the import stays all-or-nothing. Entries are applied in the order given, which
+-- lets the caller shrink entries before growing others. Guarding updates on the planned previous
+-- quantity keeps a concurrent add or removal from being silently overwritten.
@@ -0,0 +1,97 @@
+-- Migration: Require an AAL2 session for users with a verified second factor
+-- Purpose: Keep a password-only (AAL1) session of a user with two-factor authentication away
+--          from their data, mirroring the auth middleware in src/middleware/index.ts
+-- Affected tables: profiles, user_cards, wishlist_items, user_sessions, analytics_events (new restrictive policies)
+-- Special considerations: Restrictive policies are combined with AND on top of the owner-only policies,
+--   so they only ever narrow access. Users without a verified factor keep AAL1 access. Analytics inserts
+--   stay open to AAL1 sessions, which sign-in events are recorded with before the second factor.
+
+-- create function telling whether the caller's session satisfies their second factor requirement
+-- security definer: the authenticated role cannot read auth.mfa_factors
+create or replace function session_meets_mfa_requirement()
+returns boolean
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select coalesce(auth.jwt() ->> 'aal', '') = 'aal2'
+    or not exists (
+      select 1
+      from auth.mfa_factors f
+      where f.user_id = auth.uid()
+        and f.status = 'verified'
+    );
+$$;
+
+revoke execute on function session_meets_mfa_requirement() from public, anon;
+grant execute on function session_meets_mfa_requirement() to authenticated;
+
+-- profiles, collections, wishlists and sessions: every command needs the second factor
+drop policy if exists "profiles_require_mfa" on profiles;
+create policy "profiles_require_mfa"
+  on profiles as restrictive for all
+  to authenticated
+  using (session_meets_mfa_requirement())
+  with check (session_meets_mfa_requirement());
+
+drop policy if exists "user_cards_require_mfa" on user_cards;
+create policy "user_cards_require_mfa"
+  on user_cards as restrictive for all
+  to authenticated
+  using (session_meets_mfa_requirement())
+  with check (session_meets_mfa_requirement());
+
+drop policy if exists "wishlist_items_require_mfa" on wishlist_items;
+create policy "wishlist_items_require_mfa"
+  on wishlist_items as restrictive for all
+  to authenticated
+  using (session_meets_mfa_requirement())
+  with check (session_meets_mfa_requirement());
+
+drop policy if exists "user_sessions_require_mfa" on user_sessions;
+create policy "user_sessions_require_mfa"
+  on user_sessions as restrictive for all
+  to authenticated
+  using (session_meets_mfa_requirement())
+  with check (session_meets_mfa_requirement());
+
+-- analytics_events: reading events back needs the second factor, recording them does not
+drop policy if exists "analytics_events_select_require_mfa" on analytics_events;
+create policy "analytics_events_select_require_mfa"
+  on analytics_events as restrictive for select
+  to authenticated
+  using (session_meets_mfa_requirement());
+
+-- redefine the session revocation function with the same requirement
+-- (security definer functions bypass row level security)
+create or replace function revoke_user_session(p_session_id uuid)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Authenticated session required' using errcode = '42501';
+  end if;
+
+  if not session_meets_mfa_requirement() then
+    raise exception 'AAL2 session required' using errcode = '42501';
+  end if;
+
+  delete from auth.sessions
+  where id = p_session_id
+    and user_id = auth.uid();
+
+  return found;
+end;
+$$;
+
+-- Rationale:
+-- Sign-in returns an AAL1 step-up token to users with a verified factor. The middleware only lets
+-- that token reach the MFA challenge, MFA verify and logout routes, but the token is also a valid
+-- PostgREST credential, so the database enforces the same rule for direct queries. The rpc functions
+-- reading collections (stats, set completion, search) are security invoker and inherit these policies.
+-- record_user_session and use_mfa_recovery_code stay callable from AAL1: the first records the
+-- step-up session, the second is how a user who lost their authenticator recovers the account.